@@ -0,0 +1,189 @@
+/**
+ * Backfill the grant budget ledger
+ *
+ * Grant budgets are tracked as a ledger of `GrantBudgetEntry` documents.
+ * Grants approved before the ledger existed have none, so their budget
+ * shows nothing committed or escrowed. This script:
+ * 1. Commits the payouts of approved applications that have no commitment
+ * 2. Links grant projects to the grant of the application they run
+ * 3. Records escrow already locked by linked projects
+ *
+ * Applications whose payouts no longer fit the grant's budget are listed
+ * and left uncommitted. Entries that already exist are skipped, so the
+ * script can be run again safely.
+ *
+ * Usage:
+ *   tsx scripts/backfill-grant-budget-ledger.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run: Show what would be backfilled without writing anything
+ */
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+dotenv.config({ path: resolve(__dirname, "..", ".env") });
+dotenv.config({ path: resolve(__dirname, "..", ".env.local") });
+
+import GrantApplication from "../src/models/grant-application.model.js";
+import GrantBudgetEntry, {
+  GrantBudgetEntryType,
+} from "../src/models/grant-budget-entry.model.js";
+import Project from "../src/models/project.model.js";
+import GrantBudgetService from "../src/features/grants/grant-budget.service.js";
+
+dotenv.config();
+
+const DRY_RUN = process.argv.includes("--dry-run");
+
+const stats = {
+  commitments: 0,
+  overBudget: 0,
+  projectsLinked: 0,
+  escrows: 0,
+  escrowsOverBudget: 0,
+};
+
+async function backfillCommitments() {
+  const applications = await GrantApplication.find({ status: "approved" });
+  console.log(`Found ${applications.length} approved grant applications`);
+
+  for (const application of applications) {
+    const applicationId = application._id as mongoose.Types.ObjectId;
+    if ((await GrantBudgetService.getCommittedAmount(applicationId)) > 0) {
+      continue;
+    }
+
+    const amount = GrantBudgetService.getApplicationAmount(
+      application.milestones,
+    );
+    if (DRY_RUN) {
+      console.log(`  Would commit ${amount} for application ${applicationId}`);
+      stats.commitments++;
+      continue;
+    }
+
+    if (await GrantBudgetService.commit(application.grantId, application)) {
+      stats.commitments++;
+    } else {
+      stats.overBudget++;
+      console.log(
+        `  Application ${applicationId}: ${amount} exceeds the remaining budget of grant ${application.grantId}`,
+      );
+    }
+  }
+}
+
+async function linkProjects() {
+  const projects = await Project.find({
+    "grant.isGrant": true,
+    "grant.grantId": { $exists: false },
+  }).select("grant.applications._id");
+
+  for (const project of projects) {
+    const applicationIds = (project.grant?.applications || []).map(
+      (application) => application._id,
+    );
+    const application = await GrantApplication.findOne({
+      _id: { $in: applicationIds },
+    }).select("grantId");
+    if (!application) {
+      continue;
+    }
+
+    if (!DRY_RUN) {
+      await Project.updateOne(
+        { _id: project._id },
+        { $set: { "grant.grantId": application.grantId } },
+      );
+    }
+    stats.projectsLinked++;
+  }
+}
+
+async function backfillEscrows() {
+  const projects = await Project.find({
+    "grant.isGrant": true,
+    "grant.grantId": { $exists: true },
+  }).select("grant");
+
+  for (const project of projects) {
+    const projectId = project._id as mongoose.Types.ObjectId;
+    if (
+      await GrantBudgetEntry.exists({
+        projectId,
+        type: GrantBudgetEntryType.ESCROW,
+      })
+    ) {
+      continue;
+    }
+
+    const escrowed = (project.grant?.applications || []).reduce(
+      (sum, application) => sum + (application.escrowedAmount || 0),
+      0,
+    );
+    if (escrowed <= 0) {
+      continue;
+    }
+
+    if (DRY_RUN) {
+      console.log(
+        `  Would record ${escrowed} escrowed by project ${projectId}`,
+      );
+      stats.escrows++;
+      continue;
+    }
+
+    const recorded = await GrantBudgetService.recordEscrow(
+      project.grant!.grantId!,
+      escrowed,
+      { projectId, note: "Backfilled from the project's escrow" },
+    );
+    if (recorded) {
+      stats.escrows++;
+    } else {
+      stats.escrowsOverBudget++;
+      console.log(
+        `  Project ${projectId}: ${escrowed} escrowed exceeds the budget of grant ${project.grant!.grantId}`,
+      );
+    }
+  }
+}
+
+async function backfillGrantBudgetLedger() {
+  try {
+    await mongoose.connect(
+      process.env.MONGODB_URI || "mongodb://localhost:27017/boundless",
+    );
+    console.log("Connected to MongoDB");
+    if (DRY_RUN) {
+      console.log("Dry run: no changes will be written\n");
+    }
+
+    await backfillCommitments();
+    await linkProjects();
+    await backfillEscrows();
+
+    console.log("\nSummary:");
+    console.log(
+      `  Commitments recorded: ${stats.commitments} (${stats.overBudget} over budget)`,
+    );
+    console.log(`  Projects linked to their grant: ${stats.projectsLinked}`);
+    console.log(
+      `  Escrows recorded: ${stats.escrows} (${stats.escrowsOverBudget} over budget)`,
+    );
+  } catch (error) {
+    console.error("Backfill failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log("Disconnected from MongoDB");
+  }
+}
+
+backfillGrantBudgetLedger();
@@ -0,0 +1,105 @@
+/**
+ * Script to replace the judging score unique index
+ *
+ * Scores used to be unique per submission and judge. They are now unique
+ * per submission, judge, track and phase, so a judge can grade the same
+ * submission once in each track and phase. Mongoose never drops an index
+ * it no longer declares, so the old one keeps rejecting those grades until
+ * this script removes it.
+ *
+ * Usage: npm run fix:judging-score-index
+ */
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+
+// Load environment variables
+dotenv.config({ path: ".env.local" });
+dotenv.config();
+
+const NEW_INDEX_KEY = { submissionId: 1, judgeId: 1, trackId: 1, phaseId: 1 };
+const NEW_INDEX_NAME = "submissionId_1_judgeId_1_trackId_1_phaseId_1";
+
+// Earlier versions of the unique index
+const LEGACY_INDEX_KEYS = [
+  ["submissionId", "judgeId"],
+  ["submissionId", "judgeId", "trackId"],
+];
+
+async function fixJudgingScoreIndex() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      console.error("MONGODB_URI environment variable is not set");
+      process.exit(1);
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB");
+
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error("Database connection not available");
+    }
+
+    const collection = db.collection("hackathonjudgingscores");
+
+    // List existing indexes
+    const existingIndexes = await collection.indexes();
+    console.log("\nExisting indexes on hackathonjudgingscores collection:");
+    existingIndexes.forEach((index: any) => {
+      console.log(
+        `  - ${index.name}: ${JSON.stringify(index.key)} (unique: ${index.unique || false})`,
+      );
+    });
+
+    // Drop the legacy unique indexes
+    const legacyIndexes = existingIndexes.filter(
+      (idx: any) =>
+        idx.unique &&
+        LEGACY_INDEX_KEYS.some(
+          (fields) => Object.keys(idx.key).join(",") === fields.join(","),
+        ),
+    );
+
+    if (legacyIndexes.length === 0) {
+      console.log("\nNo legacy score index found");
+    }
+
+    for (const index of legacyIndexes) {
+      await collection.dropIndex(index.name!);
+      console.log(`\nDropped legacy score index: ${index.name}`);
+    }
+
+    // Create the current index
+    if (existingIndexes.some((idx: any) => idx.name === NEW_INDEX_NAME)) {
+      console.log(`\nIndex ${NEW_INDEX_NAME} already exists`);
+    } else {
+      await collection.createIndex(NEW_INDEX_KEY, {
+        unique: true,
+        name: NEW_INDEX_NAME,
+      });
+      console.log(`\nCreated unique index ${NEW_INDEX_NAME}`);
+    }
+
+    await mongoose.disconnect();
+    console.log("\nDisconnected from MongoDB");
+  } catch (error) {
+    console.error("Script failed:", error);
+    process.exit(1);
+  }
+}
+
+console.log("\nReplacing judging score unique index...");
+
+// Run the script
+fixJudgingScoreIndex()
+  .then(() => {
+    console.log("\nIndex fix completed successfully");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Index fix failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,111 @@
+/**
+ * Give every hackathon phase a persisted `_id`
+ *
+ * Phases used to be stored without ids. Submissions, scores and reviews now
+ * point at a phase by id, so phases saved before that need one written to
+ * the database; ids mongoose generates on load change on every read.
+ * Phases that overlap the previous one are listed so organizers can fix
+ * them; they are only rejected once the phases are edited.
+ *
+ * Usage:
+ *   tsx scripts/migrate-hackathon-phase-ids.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run: Show what would be migrated without writing anything
+ */
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+dotenv.config({ path: resolve(__dirname, "..", ".env") });
+dotenv.config({ path: resolve(__dirname, "..", ".env.local") });
+dotenv.config();
+
+const DRY_RUN = process.argv.includes("--dry-run");
+
+type StoredPhase = {
+  _id?: mongoose.Types.ObjectId;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+};
+
+const stats = {
+  hackathons: 0,
+  phases: 0,
+  overlapping: 0,
+};
+
+async function migrateHackathonPhaseIds() {
+  try {
+    await mongoose.connect(
+      process.env.MONGODB_URI || "mongodb://localhost:27017/boundless",
+    );
+    console.log("Connected to MongoDB");
+    if (DRY_RUN) {
+      console.log("Dry run: no changes will be written\n");
+    }
+
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error("Database connection not available");
+    }
+
+    // Read straight from the collection so mongoose doesn't fill in ids
+    const collection = db.collection("hackathons");
+    const hackathons = await collection
+      .find({ phases: { $elemMatch: { _id: { $exists: false } } } })
+      .project<{ _id: mongoose.Types.ObjectId; phases: StoredPhase[] }>({
+        title: 1,
+        phases: 1,
+      })
+      .toArray();
+
+    console.log(`Found ${hackathons.length} hackathons with phases to migrate`);
+
+    for (const hackathon of hackathons) {
+      const missing = hackathon.phases.filter((phase) => !phase._id).length;
+      const phases = hackathon.phases.map((phase) =>
+        phase._id ? phase : { _id: new mongoose.Types.ObjectId(), ...phase },
+      );
+
+      phases.forEach((phase, i) => {
+        if (i > 0 && phase.startDate < phases[i - 1].endDate) {
+          stats.overlapping++;
+          console.log(
+            `  Hackathon ${hackathon._id}: phase "${phase.name}" starts before "${phases[i - 1].name}" ends`,
+          );
+        }
+      });
+
+      if (!DRY_RUN) {
+        await collection.updateOne(
+          { _id: hackathon._id },
+          { $set: { phases } },
+        );
+      }
+
+      stats.hackathons++;
+      stats.phases += missing;
+    }
+
+    console.log("\nSummary:");
+    console.log(
+      `  Phase ids assigned: ${stats.phases} across ${stats.hackathons} hackathons`,
+    );
+    console.log(`  Overlapping phases to review: ${stats.overlapping}`);
+  } catch (error) {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log("Disconnected from MongoDB");
+  }
+}
+
+migrateHackathonPhaseIds();
@@ -0,0 +1,254 @@
+/**
+ * Migrate milestones into the unified milestone collection
+ *
+ * Milestones used to live in four places. This script moves them all into
+ * `Milestone` documents with an owner:
+ * 1. Campaign milestones (already `Milestone` documents) get the campaign's
+ *    project as their owner
+ * 2. `Project.milestones` of crowdfunding projects, merged with the escrow
+ *    state in `Project.escrowDetails.milestones`
+ * 3. Escrow milestones with no `Project.milestones` entry
+ * 4. `GrantApplication.milestones` of approved applications
+ *
+ * Older statuses are mapped onto the current workflow. Owners that already
+ * have milestones are skipped, so the script can be run again safely and
+ * projects whose campaign has milestones keep those.
+ *
+ * Usage:
+ *   tsx scripts/migrate-unified-milestones.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run: Show what would be migrated without writing anything
+ */
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+dotenv.config({ path: resolve(__dirname, "..", ".env") });
+dotenv.config({ path: resolve(__dirname, "..", ".env.local") });
+
+import Milestone, {
+  MilestoneOwnerType,
+  MilestoneStatus,
+} from "../src/models/milestone.model.js";
+import Campaign from "../src/models/campaign.model.js";
+import Project, { ProjectType } from "../src/models/project.model.js";
+import GrantApplication from "../src/models/grant-application.model.js";
+
+dotenv.config();
+
+const DRY_RUN = process.argv.includes("--dry-run");
+
+// Statuses replaced by the unified workflow
+const LEGACY_STATUSES: Record<string, MilestoneStatus> = {
+  "in-progress": "pending",
+  "pending-review": "submitted",
+  rejected: "revision-requested",
+  completed: "released",
+};
+
+const KNOWN_STATUSES: MilestoneStatus[] = [
+  "pending",
+  "submitted",
+  "approved",
+  "revision-requested",
+  "released",
+  "disputed",
+];
+
+const normalizeStatus = (status?: string): MilestoneStatus => {
+  const value = (status || "").toLowerCase().replace(/_/g, "-");
+  if (LEGACY_STATUSES[value]) return LEGACY_STATUSES[value];
+  return KNOWN_STATUSES.includes(value as MilestoneStatus)
+    ? (value as MilestoneStatus)
+    : "pending";
+};
+
+/**
+ * Work out a crowdfunding milestone's status from its escrow flags, falling
+ * back to the status stored on the project
+ */
+const escrowStatus = (escrow: any, projectStatus?: string): MilestoneStatus => {
+  if (escrow?.flags?.released) return "released";
+  if (escrow?.flags?.disputed && !escrow?.flags?.resolved) return "disputed";
+  if (escrow?.flags?.approved) return "approved";
+  if (escrow?.evidence) return "submitted";
+  return normalizeStatus(projectStatus || escrow?.status);
+};
+
+const stats = {
+  campaignMilestones: 0,
+  campaignMilestonesSkipped: 0,
+  projects: 0,
+  projectMilestones: 0,
+  grantApplications: 0,
+  grantMilestones: 0,
+};
+
+async function migrateCampaignMilestones() {
+  const milestones = await Milestone.find({
+    ownerType: { $exists: false },
+    campaignId: { $exists: true, $ne: null },
+  });
+  console.log(`Found ${milestones.length} campaign milestones to migrate`);
+
+  for (const milestone of milestones) {
+    const campaign = await Campaign.findById(milestone.campaignId).select(
+      "projectId currency",
+    );
+    if (!campaign) {
+      console.log(
+        `  Skipping milestone ${milestone._id}: campaign ${milestone.campaignId} not found`,
+      );
+      stats.campaignMilestonesSkipped++;
+      continue;
+    }
+
+    if (!DRY_RUN) {
+      await Milestone.updateOne(
+        { _id: milestone._id },
+        {
+          $set: {
+            ownerType: MilestoneOwnerType.CROWDFUND_PROJECT,
+            ownerId: campaign.projectId,
+            status: normalizeStatus(milestone.status),
+            ...(campaign.currency && { currency: campaign.currency }),
+          },
+        },
+      );
+    }
+    stats.campaignMilestones++;
+  }
+}
+
+async function migrateProjectMilestones() {
+  const projects = await Project.find({
+    type: ProjectType.CROWDFUND,
+    $or: [
+      { "milestones.0": { $exists: true } },
+      { "escrowDetails.milestones.0": { $exists: true } },
+    ],
+  })
+    .select("milestones escrowDetails.milestones funding.currency")
+    .lean();
+  console.log(`Found ${projects.length} crowdfunding projects with milestones`);
+
+  for (const project of projects) {
+    const alreadyMigrated = await Milestone.exists({
+      ownerType: MilestoneOwnerType.CROWDFUND_PROJECT,
+      ownerId: project._id,
+    });
+    if (alreadyMigrated) continue;
+
+    const projectMilestones = project.milestones || [];
+    const escrowMilestones = project.escrowDetails?.milestones || [];
+    const count = Math.max(projectMilestones.length, escrowMilestones.length);
+
+    const documents = Array.from({ length: count }, (_, index) => {
+      const item = projectMilestones[index];
+      const escrow = escrowMilestones[index];
+      const status = escrowStatus(escrow, item?.status);
+      return {
+        ownerType: MilestoneOwnerType.CROWDFUND_PROJECT,
+        ownerId: project._id,
+        index,
+        title: item?.title || escrow?.description || `Milestone ${index + 1}`,
+        description: item?.description || escrow?.description || "",
+        amount: item?.amount ?? escrow?.amount,
+        currency: project.funding?.currency,
+        dueDate: item?.dueDate,
+        status,
+        proofDescription: escrow?.evidence,
+        releasedAt:
+          status === "released" ? item?.completedAt || undefined : undefined,
+        releaseTxHash: item?.releaseTransactionHash || null,
+        legacySource: item
+          ? `project:${project._id}:milestones:${index}`
+          : `project:${project._id}:escrowDetails.milestones:${index}`,
+      };
+    });
+
+    if (!DRY_RUN) {
+      await Milestone.insertMany(documents);
+    }
+    stats.projects++;
+    stats.projectMilestones += documents.length;
+  }
+}
+
+async function migrateGrantApplicationMilestones() {
+  const applications = await GrantApplication.find({
+    status: { $in: ["approved", "awaiting-final-approval", "paused"] },
+    "milestones.0": { $exists: true },
+  })
+    .select("milestones")
+    .lean();
+  console.log(
+    `Found ${applications.length} approved grant applications with milestones`,
+  );
+
+  for (const application of applications) {
+    const alreadyMigrated = await Milestone.exists({
+      ownerType: MilestoneOwnerType.GRANT_APPLICATION,
+      ownerId: application._id,
+    });
+    if (alreadyMigrated) continue;
+
+    const documents = application.milestones.map((milestone, index) => ({
+      ownerType: MilestoneOwnerType.GRANT_APPLICATION,
+      ownerId: application._id,
+      index,
+      title: milestone.title,
+      description: milestone.description,
+      amount: milestone.expectedPayout,
+      status: "pending",
+      legacySource: `grant-application:${application._id}:milestones:${index}`,
+    }));
+
+    if (!DRY_RUN) {
+      await Milestone.insertMany(documents);
+    }
+    stats.grantApplications++;
+    stats.grantMilestones += documents.length;
+  }
+}
+
+async function migrateUnifiedMilestones() {
+  try {
+    await mongoose.connect(
+      process.env.MONGODB_URI || "mongodb://localhost:27017/boundless",
+    );
+    console.log("Connected to MongoDB");
+    if (DRY_RUN) {
+      console.log("Dry run: no changes will be written\n");
+    }
+
+    await migrateCampaignMilestones();
+    await migrateProjectMilestones();
+    await migrateGrantApplicationMilestones();
+
+    console.log("\nSummary:");
+    console.log(
+      `  Campaign milestones linked to projects: ${stats.campaignMilestones} (${stats.campaignMilestonesSkipped} skipped)`,
+    );
+    console.log(
+      `  Project milestones created: ${stats.projectMilestones} across ${stats.projects} projects`,
+    );
+    console.log(
+      `  Grant milestones created: ${stats.grantMilestones} across ${stats.grantApplications} applications`,
+    );
+  } catch (error) {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log("Disconnected from MongoDB");
+  }
+}
+
+migrateUnifiedMilestones();
@@ -1,61 +1,52 @@
-import cron from "node-cron";
-import ProjectStatusService from "../src/services/project-status.service";
-
-export function setupVoteStatusCron() {
-  cron.schedule("0 * * * *", async () => {
-    console.log("Running project status check based on votes...");
-
-    try {
-      const results = await ProjectStatusService.processStatusTransitions();
-
-      if (results.length > 0) {
-        console.log(`Updated ${results.length} project statuses:`);
-        results.forEach((result) => {
-          console.log(
-            `- Project ${result.projectId}: ${result.oldStatus} → ${result.newStatus} (${result.reason})`,
-          );
-        });
-      } else {
-        console.log("No project status updates needed");
-      }
-    } catch (error) {
-      console.error("Error in project status cron job:", error);
+/**
+ * Run the project status / vote deadline jobs outside the API server.
+ *
+ * The API server schedules these jobs itself (see src/services/scheduler).
+ * This script is for running them from a separate process, e.g. when the
+ * API is deployed without the scheduler, or to trigger a single run by hand.
+ * Runs share the scheduler's Mongo lease, so they never overlap with a run
+ * started by the server.
+ *
+ * Usage:
+ *   npx tsx scripts/setup-vote-status-cron.ts          # keep running on schedule
+ *   npx tsx scripts/setup-vote-status-cron.ts --once   # run both jobs once and exit
+ */
+
+import mongoose from "mongoose";
+import connectDB from "../src/config/db.js";
+import "../src/models/index.js";
+import scheduler from "../src/services/scheduler/scheduler.service.js";
+import { registerScheduledJobs } from "../src/services/scheduler/scheduled-jobs.js";
+import { ScheduledJobTrigger } from "../src/models/scheduled-job.model.js";
+
+const VOTE_STATUS_JOBS = [
+  "project-status-transitions",
+  "crowdfund-vote-deadlines",
+];
+
+async function main() {
+  await connectDB();
+  if (mongoose.connection.readyState !== 1) {
+    console.error("MONGODB_URI is required to run the vote status jobs");
+    process.exit(1);
+  }
+
+  registerScheduledJobs();
+
+  if (process.argv.includes("--once")) {
+    for (const name of VOTE_STATUS_JOBS) {
+      const outcome = await scheduler.runJob(name, ScheduledJobTrigger.MANUAL);
+      console.log(`${name}:`, outcome);
     }
-  });
-
-  cron.schedule("0 */6 * * *", async () => {
-    console.log("Checking for expired voting deadlines...");
-
-    try {
-      const results = await ProjectStatusService.processStatusTransitions({
-        voteThreshold: 50,
-        positiveVoteRatio: 0.55,
-        negativeVoteRatio: 0.45,
-      });
+    await mongoose.disconnect();
+    return;
+  }
 
-      const expiredResults = results.filter((r) =>
-        r.reason.includes("deadline expired"),
-      );
-
-      if (expiredResults.length > 0) {
-        console.log(
-          `Processed ${expiredResults.length} expired voting deadlines:`,
-        );
-        expiredResults.forEach((result) => {
-          console.log(`- Project ${result.projectId}: ${result.reason}`);
-        });
-      } else {
-        console.log("No expired voting deadlines to process");
-      }
-    } catch (error) {
-      console.error("Error in expired deadline cron job:", error);
-    }
-  });
-
-  console.log("Vote status cron jobs scheduled successfully");
+  scheduler.start();
+  console.log("Scheduler is now running...");
 }
 
-if (require.main === module) {
-  setupVoteStatusCron();
-  console.log("Cron jobs are now running...");
-}
+main().catch((error) => {
+  console.error("Error running vote status jobs:", error);
+  process.exit(1);
+});
@@ -52,6 +52,18 @@ export class Config {
     max: number;
   };
 
+  public readonly stellar: {
+    horizonUrl: string;
+    assetIssuers: Record<string, string>;
+    requestTimeoutMs: number;
+  };
+
+  public readonly payouts: {
+    horizonUrl: string;
+    kycRequired: boolean;
+    confirmationWindowMs: number;
+  };
+
   private constructor() {
     this.NODE_ENV = this.getEnvVariable("NODE_ENV", true);
     this.PORT = this.getEnvVariable("PORT", true, parseInt);
@@ -109,6 +121,26 @@ export class Config {
       windowMs: this.getEnvVariable("RATE_LIMIT_WINDOW_MS", true, parseInt),
       max: this.getEnvVariable("RATE_LIMIT_MAX", true, parseInt),
     };
+
+    this.stellar = {
+      horizonUrl:
+        this.getEnvVariable("STELLAR_HORIZON_URL", false) ||
+        "https://horizon-testnet.stellar.org",
+      assetIssuers: this.getAssetIssuers(),
+      requestTimeoutMs:
+        this.getEnvVariable("STELLAR_HORIZON_TIMEOUT_MS", false, parseInt) ||
+        10000,
+    };
+
+    this.payouts = {
+      horizonUrl:
+        this.getEnvVariable("PAYOUT_HORIZON_URL", false) ||
+        this.stellar.horizonUrl,
+      kycRequired: this.getEnvVariable("PAYOUT_KYC_REQUIRED", false) === "true",
+      confirmationWindowMs:
+        this.getEnvVariable("PAYOUT_CONFIRMATION_WINDOW_MS", false, parseInt) ||
+        24 * 60 * 60 * 1000,
+    };
   }
 
   public static getInstance(): Config {
@@ -134,6 +166,24 @@ export class Config {
     return transform(value);
   }
 
+  private getAssetIssuers(): Record<string, string> {
+    // USDC plus any other codes as "CODE:ISSUER" pairs (comma-separated)
+    const issuers: Record<string, string> = {};
+    const usdcIssuer = this.getEnvVariable("STELLAR_USDC_ISSUER", false);
+    if (usdcIssuer) {
+      issuers.USDC = usdcIssuer;
+    }
+    const others = this.getEnvVariable("STELLAR_ASSET_ISSUERS", false) || "";
+    others
+      .split(",")
+      .map((pair) => pair.split(":").map((part) => part.trim()))
+      .filter(([code, issuer]) => code && issuer)
+      .forEach(([code, issuer]) => {
+        issuers[code.toUpperCase()] = issuer;
+      });
+    return issuers;
+  }
+
   private getCorsOrigin(): string | string[] {
     // Support multiple origins (comma-separated) in all environments
     const corsOrigin = this.getEnvVariable("CORS_ORIGIN", true);
@@ -1,4 +1,5 @@
 import { Request, Response } from "express";
+import mongoose from "mongoose";
 import Hackathon, {
   IHackathon,
   HackathonStatus,
@@ -9,13 +10,19 @@ import HackathonParticipantModel, {
 import User from "../../models/user.model.js";
 import Organization from "../../models/organization.model.js";
 import Transaction from "../../models/transaction.model.js";
+import HackathonBounty from "../../models/hackathon-bounty.model.js";
+import HackathonPayout, {
+  HackathonPayoutStatus,
+} from "../../models/hackathon-payout.model.js";
 import {
   sendSuccess,
   sendInternalServerError,
   sendBadRequest,
   sendNotFound,
+  sendConflict,
 } from "../../utils/apiResponse.js";
 import { sendEmail } from "../../utils/email.utils.js";
+import HackathonPayoutService from "../hackathons/hackathon-payout.service.js";
 
 /**
  * GET /api/admin/hackathons
@@ -500,12 +507,15 @@ export const contactHackathonOrganizers = async (
 /**
  * POST /api/admin/hackathons/:hackathonId/participants/:participantId/release-funds
  *
- * Release funds to awarded participant
+ * Release funds to awarded participant. With a `bountyId`, pays a sponsor
+ * bounty winner out of the bounty's own escrow and records the payout on
+ * the bounty.
  */
 export const releaseParticipantFunds = async (req: Request, res: Response) => {
   try {
     const { hackathonId, participantId } = req.params;
-    const { amount, reason } = req.body;
+    const { reason, payoutId, transactionHash } = req.body;
+    let { amount, bountyId } = req.body;
 
     if (!hackathonId || !participantId) {
       return sendBadRequest(
@@ -514,6 +524,91 @@ export const releaseParticipantFunds = async (req: Request, res: Response) => {
       );
     }
 
+    if (bountyId && !mongoose.Types.ObjectId.isValid(bountyId)) {
+      return sendBadRequest(res, "Invalid bounty ID");
+    }
+    if (payoutId && !mongoose.Types.ObjectId.isValid(payoutId)) {
+      return sendBadRequest(res, "Invalid payout ID");
+    }
+
+    // Releasing against the payout ledger pays the winner's recorded wallet
+    // and amount, and needs the on-chain hash so it can be reconciled
+    const payout = payoutId
+      ? await HackathonPayout.findOne({
+          _id: payoutId,
+          hackathonId,
+          participantId,
+        })
+      : null;
+    if (payoutId) {
+      if (!payout) {
+        return sendNotFound(res, "Payout not found");
+      }
+      if (
+        payout.status !== HackathonPayoutStatus.READY &&
+        payout.status !== HackathonPayoutStatus.FAILED
+      ) {
+        return sendBadRequest(
+          res,
+          `Payout is ${payout.status.replace("_", " ")} and cannot be released`,
+        );
+      }
+      if (!transactionHash) {
+        return sendBadRequest(
+          res,
+          "Transaction hash of the on-chain release is required",
+        );
+      }
+      if (bountyId && payout.bountyId?.toString() !== bountyId) {
+        return sendBadRequest(res, "Payout does not belong to this bounty");
+      }
+      bountyId = payout.bountyId?.toString();
+      amount = amount ?? payout.amount;
+      if (amount !== payout.amount) {
+        return sendBadRequest(
+          res,
+          `Amount must match the payout amount of ${payout.amount}`,
+        );
+      }
+    }
+
+    if (transactionHash && (await Transaction.exists({ transactionHash }))) {
+      return sendConflict(
+        res,
+        "This transaction hash has already been recorded",
+      );
+    }
+
+    const bounty = bountyId
+      ? await HackathonBounty.findOne({ _id: bountyId, hackathonId })
+      : null;
+    if (bountyId && !bounty) {
+      return sendNotFound(res, "Bounty not found");
+    }
+
+    const bountyWinner = bounty?.winners.find(
+      (winner) => winner.participantId.toString() === participantId,
+    );
+    if (bounty) {
+      if (!bountyWinner) {
+        return sendBadRequest(
+          res,
+          "Participant is not a winner of this bounty",
+        );
+      }
+      if (bountyWinner.paidAt) {
+        return sendBadRequest(res, "This bounty prize has already been paid");
+      }
+      // Bounty winners are paid what the sponsor awarded them
+      amount = amount ?? bountyWinner.amount;
+      if (amount !== bountyWinner.amount) {
+        return sendBadRequest(
+          res,
+          `Amount must match the awarded bounty prize of ${bountyWinner.amount}`,
+        );
+      }
+    }
+
     if (!amount || amount <= 0) {
       return sendBadRequest(res, "Valid amount is required");
     }
@@ -532,22 +627,27 @@ export const releaseParticipantFunds = async (req: Request, res: Response) => {
       return sendNotFound(res, "Participant not found");
     }
 
-    // Check if funds are available in escrow
-    const escrowTransactions = await Transaction.find({
-      projectId: hackathonId,
-      type: "FUNDING",
-      status: "CONFIRMED",
-    });
+    // Check if funds are available in escrow. A bounty's escrow holds the
+    // bounty amount and is kept apart from the hackathon's own.
+    const escrowTransactions = bounty
+      ? []
+      : await Transaction.find({
+          projectId: hackathonId,
+          type: "FUNDING",
+          status: "CONFIRMED",
+          "metadata.bountyId": { $exists: false },
+        });
 
-    const totalEscrow = escrowTransactions.reduce(
-      (sum, tx) => sum + tx.amount,
-      0,
-    );
+    const totalEscrow = bounty
+      ? bounty.amount
+      : escrowTransactions.reduce((sum, tx) => sum + tx.amount, 0);
 
+    // Releases still waiting on the ledger count against the escrow too
     const releasedTransactions = await Transaction.find({
       projectId: hackathonId,
       type: "MILESTONE_RELEASE",
-      status: "CONFIRMED",
+      status: { $in: ["PENDING", "CONFIRMED"] },
+      "metadata.bountyId": bounty ? bounty._id!.toString() : { $exists: false },
     });
 
     const totalReleased = releasedTransactions.reduce(
@@ -559,24 +659,84 @@ export const releaseParticipantFunds = async (req: Request, res: Response) => {
       return sendBadRequest(res, "Insufficient funds in escrow");
     }
 
+    const releaseReason =
+      reason ||
+      (bounty
+        ? `Sponsor bounty prize: ${bounty.title}`
+        : "Hackathon prize distribution");
+
     // Create release transaction
     const releaseTransaction = new Transaction({
       projectId: hackathonId,
       type: "MILESTONE_RELEASE",
       amount,
-      fromAddress: "PLATFORM_ESCROW", // Platform escrow address
-      toAddress: (participant.userId as any).email, // Use email as identifier for now
-      transactionHash: `RELEASE_${Date.now()}_${participantId}`,
-      status: "CONFIRMED",
+      fromAddress:
+        bounty?.contractId || bounty?.escrowAddress || "PLATFORM_ESCROW", // Platform escrow address
+      toAddress: payout?.walletAddress || (participant.userId as any).email, // Use email as identifier when there is no wallet
+      transactionHash:
+        transactionHash || `RELEASE_${Date.now()}_${participantId}`,
+      // Ledger payouts are confirmed by payout reconciliation
+      status: payout ? "PENDING" : "CONFIRMED",
       metadata: {
         participantId,
         hackathonId,
-        reason: reason || "Hackathon prize distribution",
+        ...(bounty && { bountyId: bounty._id!.toString() }),
+        ...(payout && { payoutId: payout._id!.toString() }),
+        reason: releaseReason,
         releasedBy: (req as any).admin?._id?.toString(),
       },
     });
 
-    await releaseTransaction.save();
+    // Mark the bounty prize paid first so two concurrent releases can't
+    // both pay it
+    const paidAt = new Date();
+    if (bounty) {
+      const claimed = await HackathonBounty.updateOne(
+        {
+          _id: bounty._id,
+          winners: { $elemMatch: { participantId, paidAt: null } },
+        },
+        { $set: { "winners.$.paidAt": paidAt } },
+      );
+      if (claimed.modifiedCount === 0) {
+        return sendConflict(res, "This bounty prize has already been paid");
+      }
+    }
+
+    try {
+      await releaseTransaction.save();
+    } catch (error) {
+      if (bounty) {
+        await HackathonBounty.updateOne(
+          {
+            _id: bounty._id,
+            winners: { $elemMatch: { participantId, paidAt } },
+          },
+          { $unset: { "winners.$.paidAt": 1 } },
+        );
+      }
+      throw error;
+    }
+
+    if (payout) {
+      await HackathonPayoutService.markReleased(
+        payout,
+        releaseTransaction,
+        (req as any).admin?._id,
+      );
+    }
+
+    if (bounty) {
+      await HackathonBounty.updateOne(
+        {
+          _id: bounty._id,
+          winners: { $elemMatch: { participantId, paidAt } },
+        },
+        {
+          $set: { "winners.$.payoutTransactionId": releaseTransaction._id },
+        },
+      );
+    }
 
     // Send notification email to participant
     const user = participant.userId as any;
@@ -584,11 +744,11 @@ export const releaseParticipantFunds = async (req: Request, res: Response) => {
       await sendEmail({
         to: user.email,
         subject: `Funds Released - ${hackathon.title}`,
-        text: `Congratulations! $${amount.toLocaleString()} has been released to you for participating in "${hackathon.title}". Reason: ${reason || "Hackathon prize distribution"}. The funds will be transferred to your account within 2-3 business days.`,
+        text: `Congratulations! $${amount.toLocaleString()} has been released to you for participating in "${hackathon.title}". Reason: ${releaseReason}. The funds will be transferred to your account within 2-3 business days.`,
         html: `
           <h2>Congratulations!</h2>
           <p>$${amount.toLocaleString()} has been released to you for participating in "${hackathon.title}".</p>
-          <p><strong>Reason:</strong> ${reason || "Hackathon prize distribution"}</p>
+          <p><strong>Reason:</strong> ${releaseReason}</p>
           <p>The funds will be transferred to your account within 2-3 business days.</p>
         `,
       });
@@ -606,6 +766,9 @@ export const releaseParticipantFunds = async (req: Request, res: Response) => {
             "Unknown",
           email: user?.email,
         },
+        bountyId: bounty ? bounty._id!.toString() : undefined,
+        payoutId: payout ? payout._id!.toString() : undefined,
+        payoutStatus: payout ? payout.status : undefined,
         remainingEscrow: totalEscrow - totalReleased - amount,
       },
       "Funds released successfully",
@@ -0,0 +1,165 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Job, { JobStatus } from "../../models/job.model.js";
+import jobQueue from "../../services/queue/job-queue.service.js";
+import {
+  sendSuccess,
+  sendInternalServerError,
+  sendBadRequest,
+  sendNotFound,
+} from "../../utils/apiResponse.js";
+
+/**
+ * GET /api/admin/jobs
+ *
+ * Get paginated list of background jobs with status counts
+ */
+export const getAdminJobs = async (req: Request, res: Response) => {
+  try {
+    const { page = 1, limit = 20, status, name } = req.query;
+
+    const pageNum = parseInt(page as string, 10) || 1;
+    const limitNum = Math.min(parseInt(limit as string, 10) || 20, 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const query: any = {};
+
+    if (status) {
+      if (!Object.values(JobStatus).includes(status as JobStatus)) {
+        return sendBadRequest(
+          res,
+          `Invalid status. Must be one of: ${Object.values(JobStatus).join(", ")}`,
+        );
+      }
+      query.status = status;
+    }
+
+    if (name && typeof name === "string") {
+      query.name = name;
+    }
+
+    const [jobs, total, statusCounts] = await Promise.all([
+      Job.find(query)
+        .select("-payload")
+        .sort({ updatedAt: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      Job.countDocuments(query),
+      Job.aggregate([{ $group: { _id: "$status", count: { $sum: 1 } } }]),
+    ]);
+
+    const counts = Object.values(JobStatus).reduce(
+      (acc, jobStatus) => {
+        acc[jobStatus] =
+          statusCounts.find((entry) => entry._id === jobStatus)?.count || 0;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
+    sendSuccess(
+      res,
+      {
+        jobs,
+        counts,
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+      "Jobs retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Admin jobs retrieval error:", error);
+    sendInternalServerError(res, "Failed to retrieve jobs");
+  }
+};
+
+/**
+ * GET /api/admin/jobs/:id
+ *
+ * Get a single job including its payload and error history
+ */
+export const getAdminJobById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return sendBadRequest(res, "Invalid job ID");
+    }
+
+    const job = await Job.findById(id).lean();
+
+    if (!job) {
+      return sendNotFound(res, "Job not found");
+    }
+
+    sendSuccess(res, job, "Job retrieved successfully");
+  } catch (error) {
+    console.error("Admin job retrieval error:", error);
+    sendInternalServerError(res, "Failed to retrieve job");
+  }
+};
+
+/**
+ * POST /api/admin/jobs/:id/redrive
+ *
+ * Put a dead-lettered job back on the queue
+ */
+export const redriveAdminJob = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return sendBadRequest(res, "Invalid job ID");
+    }
+
+    const job = await jobQueue.redrive(id, req.admin?._id?.toString());
+
+    if (!job) {
+      const exists = await Job.exists({ _id: id });
+      if (!exists) {
+        return sendNotFound(res, "Job not found");
+      }
+      return sendBadRequest(res, "Only dead-lettered jobs can be re-driven");
+    }
+
+    sendSuccess(res, job, "Job re-queued successfully");
+  } catch (error) {
+    console.error("Admin job redrive error:", error);
+    sendInternalServerError(res, "Failed to re-drive job");
+  }
+};
+
+/**
+ * POST /api/admin/jobs/redrive
+ *
+ * Re-drive every dead-lettered job, optionally limited to one job name
+ */
+export const redriveAdminJobs = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body || {};
+
+    const query: any = { status: JobStatus.DEAD_LETTER };
+    if (name && typeof name === "string") {
+      query.name = name;
+    }
+
+    const deadJobs = await Job.find(query).select("_id").lean();
+    const adminId = req.admin?._id?.toString();
+
+    let redriven = 0;
+    for (const deadJob of deadJobs) {
+      const job = await jobQueue.redrive(deadJob._id.toString(), adminId);
+      if (job) {
+        redriven++;
+      }
+    }
+
+    sendSuccess(res, { redriven }, `${redriven} job(s) re-queued`);
+  } catch (error) {
+    console.error("Admin bulk job redrive error:", error);
+    sendInternalServerError(res, "Failed to re-drive jobs");
+  }
+};
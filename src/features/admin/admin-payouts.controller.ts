@@ -0,0 +1,200 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import HackathonPayout, {
+  HackathonPayoutSource,
+  HackathonPayoutStatus,
+} from "../../models/hackathon-payout.model.js";
+import {
+  sendSuccess,
+  sendInternalServerError,
+  sendBadRequest,
+  sendNotFound,
+} from "../../utils/apiResponse.js";
+import HackathonPayoutService from "../hackathons/hackathon-payout.service.js";
+import { formatPayout } from "../hackathons/hackathon-payout.controller.js";
+
+/**
+ * Build the payout filter shared by the list and export endpoints.
+ * Returns an error message for invalid filters.
+ */
+const buildPayoutQuery = (
+  query: Request["query"],
+): { filter: Record<string, unknown>; error?: string } => {
+  const { hackathonId, status, source, startDate, endDate } = query;
+  const filter: Record<string, unknown> = {};
+
+  if (hackathonId) {
+    if (!mongoose.Types.ObjectId.isValid(hackathonId as string)) {
+      return { filter, error: "Invalid hackathon ID" };
+    }
+    filter.hackathonId = hackathonId;
+  }
+
+  if (status) {
+    if (
+      !Object.values(HackathonPayoutStatus).includes(
+        status as HackathonPayoutStatus,
+      )
+    ) {
+      return {
+        filter,
+        error: `Invalid status. Must be one of: ${Object.values(HackathonPayoutStatus).join(", ")}`,
+      };
+    }
+    filter.status = status;
+  }
+
+  if (source) {
+    if (
+      !Object.values(HackathonPayoutSource).includes(
+        source as HackathonPayoutSource,
+      )
+    ) {
+      return {
+        filter,
+        error: `Invalid source. Must be one of: ${Object.values(HackathonPayoutSource).join(", ")}`,
+      };
+    }
+    filter.source = source;
+  }
+
+  // Date range applies to when the payout was released
+  if (startDate || endDate) {
+    const range: Record<string, Date> = {};
+    if (startDate) range.$gte = new Date(startDate as string);
+    if (endDate) range.$lte = new Date(endDate as string);
+    if (Object.values(range).some((date) => isNaN(date.getTime()))) {
+      return { filter, error: "Invalid date range" };
+    }
+    filter.releasedAt = range;
+  }
+
+  return { filter };
+};
+
+/**
+ * GET /api/admin/payouts
+ *
+ * Get paginated payout ledger across hackathons with status counts
+ */
+export const getAdminPayouts = async (req: Request, res: Response) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+
+    const pageNum = parseInt(page as string, 10) || 1;
+    const limitNum = Math.min(parseInt(limit as string, 10) || 20, 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const { filter, error } = buildPayoutQuery(req.query);
+    if (error) {
+      return sendBadRequest(res, error);
+    }
+
+    const [payouts, total, statusCounts] = await Promise.all([
+      HackathonPayout.find(filter)
+        .populate("userId", "email profile")
+        .populate("participantId", "participationType teamName")
+        .sort({ updatedAt: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      HackathonPayout.countDocuments(filter),
+      HackathonPayout.aggregate([
+        { $group: { _id: "$status", count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const counts = Object.values(HackathonPayoutStatus).reduce(
+      (acc, payoutStatus) => {
+        acc[payoutStatus] =
+          statusCounts.find((entry) => entry._id === payoutStatus)?.count || 0;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
+    sendSuccess(
+      res,
+      {
+        payouts: payouts.map(formatPayout),
+        counts,
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+      "Payouts retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Admin payouts retrieval error:", error);
+    sendInternalServerError(res, "Failed to retrieve payouts");
+  }
+};
+
+/**
+ * GET /api/admin/payouts/export
+ *
+ * Export the payout ledger as CSV for finance
+ */
+export const exportAdminPayouts = async (req: Request, res: Response) => {
+  try {
+    const { filter, error } = buildPayoutQuery(req.query);
+    if (error) {
+      return sendBadRequest(res, error);
+    }
+
+    const payouts = await HackathonPayout.find(filter)
+      .populate("userId", "email profile")
+      .populate("participantId", "teamName")
+      .populate("hackathonId", "title")
+      .sort({ hackathonId: 1, source: 1, trackId: 1, rank: 1 })
+      .lean();
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="payouts-export-${new Date().toISOString().split("T")[0]}.csv"`,
+    );
+    res.send(HackathonPayoutService.toCsv(payouts));
+  } catch (error) {
+    console.error("Admin payouts export error:", error);
+    sendInternalServerError(res, "Failed to export payouts");
+  }
+};
+
+/**
+ * POST /api/admin/payouts/:id/verify-kyc
+ *
+ * Mark a payout's recipient as identity-verified. Applies to all of the
+ * recipient's unreleased payouts.
+ */
+export const verifyPayoutKyc = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return sendBadRequest(res, "Invalid payout ID");
+    }
+
+    const payout = await HackathonPayout.findById(id);
+    if (!payout) {
+      return sendNotFound(res, "Payout not found");
+    }
+
+    const updated = await HackathonPayoutService.markKycVerified(
+      payout.userId,
+      (req as any).admin._id,
+    );
+
+    const refreshed = await HackathonPayout.findById(id).lean();
+
+    sendSuccess(
+      res,
+      { payout: formatPayout(refreshed), payoutsUpdated: updated },
+      "Recipient verified successfully",
+    );
+  } catch (error) {
+    console.error("Admin payout KYC error:", error);
+    sendInternalServerError(res, "Failed to verify recipient");
+  }
+};
@@ -0,0 +1,54 @@
+import { Request, Response } from "express";
+import scheduler from "../../services/scheduler/scheduler.service.js";
+import { ScheduledJobTrigger } from "../../models/scheduled-job.model.js";
+import {
+  sendSuccess,
+  sendInternalServerError,
+  sendNotFound,
+  sendConflict,
+} from "../../utils/apiResponse.js";
+
+/**
+ * GET /api/admin/scheduler/jobs
+ *
+ * List scheduled jobs with their schedule and last run
+ */
+export const getSchedulerJobs = async (req: Request, res: Response) => {
+  try {
+    const jobs = await scheduler.list();
+    sendSuccess(res, { jobs }, "Scheduled jobs retrieved successfully");
+  } catch (error) {
+    console.error("Admin scheduler list error:", error);
+    sendInternalServerError(res, "Failed to retrieve scheduled jobs");
+  }
+};
+
+/**
+ * POST /api/admin/scheduler/jobs/:name/run
+ *
+ * Run a scheduled job immediately and return its outcome
+ */
+export const runSchedulerJob = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+
+    if (!scheduler.has(name)) {
+      return sendNotFound(res, "Scheduled job not found");
+    }
+
+    const outcome = await scheduler.runJob(
+      name,
+      ScheduledJobTrigger.MANUAL,
+      req.admin?._id?.toString(),
+    );
+
+    if (outcome.status === "skipped") {
+      return sendConflict(res, outcome.error || "Job could not be started");
+    }
+
+    sendSuccess(res, outcome, `Job ${name} ${outcome.status}`);
+  } catch (error) {
+    console.error("Admin scheduler run error:", error);
+    sendInternalServerError(res, "Failed to run scheduled job");
+  }
+};
@@ -12,6 +12,21 @@ import {
   contactHackathonOrganizers,
   releaseParticipantFunds,
 } from "./admin-hackathons.controller.js";
+import {
+  getAdminJobs,
+  getAdminJobById,
+  redriveAdminJob,
+  redriveAdminJobs,
+} from "./admin-jobs.controller.js";
+import {
+  getAdminPayouts,
+  exportAdminPayouts,
+  verifyPayoutKyc,
+} from "./admin-payouts.controller.js";
+import {
+  getSchedulerJobs,
+  runSchedulerJob,
+} from "./admin-scheduler.controller.js";
 import { protectAdmin } from "../../middleware/admin-auth.middleware.js";
 import { adminOrSuperAdmin } from "../../middleware/admin-auth.middleware.js";
 
@@ -81,7 +96,8 @@ router.post("/hackathons/:id/contact-organizers", contactHackathonOrganizers);
 
 /**
  * @route   POST /api/admin/hackathons/:hackathonId/participants/:participantId/release-funds
- * @desc    Release funds to awarded participant
+ * @desc    Release funds to awarded participant or sponsor bounty winner
+ * @body    amount, reason, bountyId (optional), payoutId and transactionHash (to settle a ledger payout)
  * @access  Private/Admin
  */
 router.post(
@@ -89,4 +105,71 @@ router.post(
   releaseParticipantFunds,
 );
 
+/**
+ * @route   GET /api/admin/payouts
+ * @desc    Get paginated hackathon payout ledger
+ * @access  Private/Admin
+ * @query   page, limit, hackathonId, status, source, startDate, endDate
+ */
+router.get("/payouts", getAdminPayouts);
+
+/**
+ * @route   GET /api/admin/payouts/export
+ * @desc    Export the hackathon payout ledger as CSV
+ * @access  Private/Admin
+ * @query   hackathonId, status, source, startDate, endDate
+ */
+router.get("/payouts/export", exportAdminPayouts);
+
+/**
+ * @route   POST /api/admin/payouts/:id/verify-kyc
+ * @desc    Mark a payout recipient as identity-verified
+ * @access  Private/Admin
+ */
+router.post("/payouts/:id/verify-kyc", verifyPayoutKyc);
+
+/**
+ * @route   GET /api/admin/jobs
+ * @desc    Get paginated list of background jobs
+ * @access  Private/Admin
+ * @query   page, limit, status, name
+ */
+router.get("/jobs", getAdminJobs);
+
+/**
+ * @route   POST /api/admin/jobs/redrive
+ * @desc    Re-drive all dead-lettered jobs
+ * @access  Private/Admin
+ * @body    name (optional)
+ */
+router.post("/jobs/redrive", redriveAdminJobs);
+
+/**
+ * @route   GET /api/admin/jobs/:id
+ * @desc    Get job details including payload and error history
+ * @access  Private/Admin
+ */
+router.get("/jobs/:id", getAdminJobById);
+
+/**
+ * @route   POST /api/admin/jobs/:id/redrive
+ * @desc    Re-drive a dead-lettered job
+ * @access  Private/Admin
+ */
+router.post("/jobs/:id/redrive", redriveAdminJob);
+
+/**
+ * @route   GET /api/admin/scheduler/jobs
+ * @desc    List scheduled jobs with their last run
+ * @access  Private/Admin
+ */
+router.get("/scheduler/jobs", getSchedulerJobs);
+
+/**
+ * @route   POST /api/admin/scheduler/jobs/:name/run
+ * @desc    Run a scheduled job immediately
+ * @access  Private/Admin
+ */
+router.post("/scheduler/jobs/:name/run", runSchedulerJob);
+
 export default router;
@@ -6,18 +6,31 @@ import Project, {
 } from "../../models/project.model.js";
 import Crowdfund, { CrowdfundStatus } from "../../models/crowdfund.model.js";
 import User from "../../models/user.model.js";
+import Transaction, {
+  TransactionStatus,
+  TransactionType,
+} from "../../models/transaction.model.js";
+import Refund, { RefundStatus } from "../../models/refund.model.js";
+import { ActivityType } from "../../models/activity.model.js";
+import { MilestoneOwnerType } from "../../models/milestone.model.js";
+import MilestoneService from "../milestones/milestone.service.js";
 import mongoose from "mongoose";
 import {
   sendSuccess,
   sendCreated,
   sendBadRequest,
+  sendConflict,
+  sendError,
   sendInternalServerError,
   sendUnauthorized,
   checkResource,
 } from "../../utils/apiResponse.js";
+import horizonService from "../../services/stellar/horizon.service.js";
+import { isValidStellarAddress } from "../../utils/wallet.js";
 import { CROWDFUNDING_STAKEHOLDERS } from "../../constants/stakeholders.constants.js";
 import { TeamInvitationService } from "../../features/team-invitations/team-invitation.service.js";
 import {
+  createActivity,
   createProjectFundedActivity,
   createProjectCreatedActivity,
 } from "../../utils/activity.utils.js";
@@ -30,6 +43,9 @@ import {
 import {
   populateProjectUserData,
   populateVotingData,
+  recordFailedFundingTransaction,
+  getVerifiedStellarAddresses,
+  claimFundingTransaction,
 } from "./crowdfunding.helpers.js";
 import {
   validateMilestones,
@@ -44,6 +60,7 @@ import {
   sendProjectFundingNotifications,
   sendProjectApprovedNotifications,
   sendProjectRejectedNotifications,
+  sendRefundProcessedNotification,
 } from "./crowdfunding.notifications.js";
 
 export const createCrowdfundingProject = async (
@@ -289,6 +306,17 @@ export const createCrowdfundingProject = async (
     const project = new Project(projectData);
     await project.save({ session });
 
+    await MilestoneService.createForOwner(
+      MilestoneOwnerType.CROWDFUND_PROJECT,
+      project._id,
+      mappedMilestones.map((milestone: any, index: number) => ({
+        ...milestone,
+        currency: "USD",
+        legacySource: `project:${project._id}:milestones:${index}`,
+      })),
+      session,
+    );
+
     const crowdfundData = {
       projectId: project._id,
       thresholdVotes: VOTE_THRESHOLD,
@@ -639,6 +667,7 @@ export const fundCrowdfundingProject = async (
   const session = await mongoose.startSession();
   session.startTransaction();
   let transactionCommitted = false;
+  let ledgerRecordId: mongoose.Types.ObjectId | null = null;
 
   try {
     const { id } = req.params;
@@ -709,6 +738,98 @@ export const fundCrowdfundingProject = async (
       return;
     }
 
+    if (!project.escrowAddress) {
+      sendBadRequest(res, "Project has no escrow address to receive funds");
+      await session.abortTransaction();
+      return;
+    }
+
+    const txHash = transactionHash.trim();
+
+    // Reject hashes that were already credited (or are being credited)
+    const existingRecord = await Transaction.findOne({
+      transactionHash: txHash,
+    });
+    const alreadyContributed = await Project.exists({
+      "funding.contributors.transactionHash": txHash,
+    });
+    if (
+      alreadyContributed ||
+      (existingRecord && existingRecord.status !== TransactionStatus.FAILED)
+    ) {
+      sendConflict(res, "This transaction has already been recorded");
+      await session.abortTransaction();
+      return;
+    }
+
+    // Only the backer's own wallet can be credited for a payment
+    const backerAddresses = await getVerifiedStellarAddresses(req.user._id);
+    if (backerAddresses.length === 0) {
+      sendBadRequest(
+        res,
+        "Link a Stellar wallet to your account before recording a contribution",
+      );
+      await session.abortTransaction();
+      return;
+    }
+
+    let verification;
+    try {
+      verification = await horizonService.verifyPayment({
+        transactionHash: txHash,
+        destination: project.escrowAddress,
+        currency: project.funding.currency,
+        amount,
+        sources: backerAddresses,
+      });
+    } catch (verificationError) {
+      console.error("Error verifying funding transaction:", verificationError);
+      sendError(
+        res,
+        "Unable to verify the transaction with the Stellar network. Please try again later.",
+        502,
+      );
+      await session.abortTransaction();
+      return;
+    }
+
+    if (!verification.valid || !verification.payment) {
+      await recordFailedFundingTransaction({
+        projectId: project._id,
+        userId: req.user._id,
+        amount,
+        toAddress: project.escrowAddress,
+        transactionHash: txHash,
+        reason: verification.reason || "Payment verification failed",
+      });
+      sendBadRequest(
+        res,
+        "Transaction could not be verified",
+        verification.reason,
+      );
+      await session.abortTransaction();
+      return;
+    }
+
+    const { payment } = verification;
+
+    // Claim the hash before crediting, so replays of it lose here
+    const claimedId = await claimFundingTransaction({
+      existingRecordId: existingRecord?._id as
+        | mongoose.Types.ObjectId
+        | undefined,
+      projectId: project._id as mongoose.Types.ObjectId,
+      userId: req.user._id,
+      transactionHash: txHash,
+      payment,
+    });
+    if (!claimedId) {
+      sendConflict(res, "This transaction has already been recorded");
+      await session.abortTransaction();
+      return;
+    }
+    ledgerRecordId = claimedId;
+
     const newRaisedAmount = project.funding.raised + amount;
     const isFullyFunded = newRaisedAmount >= project.funding.goal;
 
@@ -716,7 +837,7 @@ export const fundCrowdfundingProject = async (
       user: req.user._id,
       amount: amount,
       date: new Date(),
-      transactionHash: transactionHash.trim(),
+      transactionHash: txHash,
     };
 
     await Project.findByIdAndUpdate(
@@ -741,6 +862,15 @@ export const fundCrowdfundingProject = async (
       { session },
     );
 
+    await Transaction.findByIdAndUpdate(
+      ledgerRecordId,
+      {
+        status: TransactionStatus.CONFIRMED,
+        confirmedAt: payment.confirmedAt,
+      },
+      { session },
+    );
+
     await session.commitTransaction();
     transactionCommitted = true;
 
@@ -748,7 +878,7 @@ export const fundCrowdfundingProject = async (
       req.user._id,
       new mongoose.Types.ObjectId(id),
       amount,
-      transactionHash.trim(),
+      txHash,
       req.ip,
       req.get("User-Agent"),
     );
@@ -768,7 +898,7 @@ export const fundCrowdfundingProject = async (
         project: projectWithVotingData,
         funding: {
           amount: amount,
-          transactionHash: transactionHash,
+          transactionHash: txHash,
           newTotalRaised: newRaisedAmount,
           isFullyFunded: isFullyFunded,
           remainingGoal: Math.max(0, project.funding.goal - newRaisedAmount),
@@ -779,6 +909,17 @@ export const fundCrowdfundingProject = async (
   } catch (error) {
     if (!transactionCommitted) {
       await session.abortTransaction();
+      if (ledgerRecordId) {
+        await Transaction.findByIdAndUpdate(ledgerRecordId, {
+          status: TransactionStatus.FAILED,
+          "metadata.reason": "Failed to credit verified payment",
+        }).catch((updateError) =>
+          console.error(
+            "Error marking funding transaction failed:",
+            updateError,
+          ),
+        );
+      }
     }
     console.error("Error funding crowdfunding project:", error);
     sendInternalServerError(res, "Failed to fund project");
@@ -937,3 +1078,374 @@ export const adminReviewCrowdfundingProject = async (
     session.endSession();
   }
 };
+
+const transformRefund = (refund: any) => ({
+  _id: refund._id.toString(),
+  projectId: refund.projectId.toString(),
+  user: refund.userId,
+  amount: refund.amount,
+  currency: refund.currency,
+  contributions: refund.contributions,
+  status: refund.status,
+  refundAddress: refund.refundAddress,
+  claimedAt: refund.claimedAt,
+  refundTransactionHash: refund.refundTransactionHash,
+  refundedAt: refund.refundedAt,
+});
+
+export const getCrowdfundingRefunds = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      sendBadRequest(res, "Invalid project ID");
+      return;
+    }
+
+    if (!req.user?._id) {
+      sendUnauthorized(res, "Authentication required");
+      return;
+    }
+
+    const project = await Project.findOne({
+      _id: id,
+      type: ProjectType.CROWDFUND,
+    }).select("creator status escrowAddress funding.currency");
+
+    if (checkResource(res, !project, "Crowdfunding project not found", 404)) {
+      return;
+    }
+
+    // The creator sees the whole ledger; backers only see their own entry
+    const isCreator = project!.creator.toString() === req.user._id.toString();
+
+    const refunds = await Refund.find({
+      projectId: project!._id,
+      ...(!isCreator && { userId: req.user._id }),
+    })
+      .populate("userId", USER_SELECT_FIELDS)
+      .sort({ amount: -1 })
+      .lean();
+
+    const summary = refunds.reduce(
+      (acc, refund) => {
+        acc.totalAmount += refund.amount;
+        acc[refund.status] += 1;
+        if (refund.status === RefundStatus.REFUNDED) {
+          acc.refundedAmount += refund.amount;
+        }
+        return acc;
+      },
+      {
+        totalAmount: 0,
+        refundedAmount: 0,
+        [RefundStatus.PENDING]: 0,
+        [RefundStatus.CLAIMED]: 0,
+        [RefundStatus.REFUNDED]: 0,
+      } as Record<string, number>,
+    );
+
+    sendSuccess(
+      res,
+      {
+        projectStatus: project!.status,
+        escrowAddress: project!.escrowAddress,
+        currency: project!.funding.currency,
+        refunds: refunds.map(transformRefund),
+        ...(isCreator && { summary }),
+      },
+      "Refunds retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Error fetching crowdfunding refunds:", error);
+    sendInternalServerError(res, "Failed to fetch refunds");
+  }
+};
+
+export const claimCrowdfundingRefund = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { refundAddress } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      sendBadRequest(res, "Invalid project ID");
+      return;
+    }
+
+    if (!req.user?._id) {
+      sendUnauthorized(res, "Authentication required");
+      return;
+    }
+
+    if (
+      !refundAddress?.trim() ||
+      !isValidStellarAddress(refundAddress.trim())
+    ) {
+      sendBadRequest(res, "A valid Stellar refund address is required");
+      return;
+    }
+
+    const project = await Project.findOne({
+      _id: id,
+      type: ProjectType.CROWDFUND,
+    }).select("status");
+
+    if (checkResource(res, !project, "Crowdfunding project not found", 404)) {
+      return;
+    }
+
+    if (project!.status !== ProjectStatus.FAILED) {
+      sendBadRequest(res, "Refunds are only available for failed projects");
+      return;
+    }
+
+    const refund = await Refund.findOne({
+      projectId: project!._id,
+      userId: req.user._id,
+    });
+
+    if (
+      checkResource(
+        res,
+        !refund,
+        "No refundable contribution found for this project",
+        404,
+      )
+    ) {
+      return;
+    }
+
+    if (refund!.status === RefundStatus.REFUNDED) {
+      sendConflict(res, "This contribution has already been refunded");
+      return;
+    }
+
+    // Backers can update the address until the refund is paid
+    refund!.status = RefundStatus.CLAIMED;
+    refund!.refundAddress = refundAddress.trim();
+    refund!.claimedAt = refund!.claimedAt || new Date();
+    await refund!.save();
+
+    sendSuccess(
+      res,
+      transformRefund(refund!.toObject()),
+      "Refund claimed successfully",
+    );
+  } catch (error) {
+    console.error("Error claiming crowdfunding refund:", error);
+    sendInternalServerError(res, "Failed to claim refund");
+  }
+};
+
+export const recordCrowdfundingRefundTransaction = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  let transactionCommitted = false;
+
+  try {
+    const { id } = req.params;
+    const { transactionHash } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      sendBadRequest(res, "Invalid project ID");
+      await session.abortTransaction();
+      return;
+    }
+
+    if (!req.user?._id) {
+      sendUnauthorized(res, "Authentication required");
+      await session.abortTransaction();
+      return;
+    }
+
+    if (!transactionHash?.trim()) {
+      sendBadRequest(res, "Transaction hash is required");
+      await session.abortTransaction();
+      return;
+    }
+
+    const project = await Project.findOne({
+      _id: id,
+      type: ProjectType.CROWDFUND,
+    });
+
+    if (checkResource(res, !project, "Crowdfunding project not found", 404)) {
+      await session.abortTransaction();
+      return;
+    }
+
+    if (project!.status !== ProjectStatus.FAILED) {
+      sendBadRequest(res, "Refunds are only available for failed projects");
+      await session.abortTransaction();
+      return;
+    }
+
+    const refund = await Refund.findOne({
+      projectId: project!._id,
+      userId: req.user._id,
+    });
+
+    if (
+      checkResource(
+        res,
+        !refund,
+        "No refundable contribution found for this project",
+        404,
+      )
+    ) {
+      await session.abortTransaction();
+      return;
+    }
+
+    if (refund!.status === RefundStatus.REFUNDED) {
+      sendConflict(res, "This contribution has already been refunded");
+      await session.abortTransaction();
+      return;
+    }
+
+    if (refund!.status !== RefundStatus.CLAIMED || !refund!.refundAddress) {
+      sendBadRequest(res, "Claim the refund before recording its transaction");
+      await session.abortTransaction();
+      return;
+    }
+
+    if (!project!.escrowAddress) {
+      sendBadRequest(res, "Project has no escrow address to refund from");
+      await session.abortTransaction();
+      return;
+    }
+
+    const txHash = transactionHash.trim();
+
+    if (await Transaction.exists({ transactionHash: txHash })) {
+      sendConflict(res, "This transaction has already been recorded");
+      await session.abortTransaction();
+      return;
+    }
+
+    let verification;
+    try {
+      verification = await horizonService.verifyPayment({
+        transactionHash: txHash,
+        destination: refund!.refundAddress,
+        currency: refund!.currency,
+        amount: refund!.amount,
+        // A refund must come out of the project's escrow, not any wallet
+        sources: [project!.escrowAddress],
+      });
+    } catch (verificationError) {
+      console.error("Error verifying refund transaction:", verificationError);
+      sendError(
+        res,
+        "Unable to verify the transaction with the Stellar network. Please try again later.",
+        502,
+      );
+      await session.abortTransaction();
+      return;
+    }
+
+    if (!verification.valid || !verification.payment) {
+      sendBadRequest(
+        res,
+        "Transaction could not be verified",
+        verification.reason,
+      );
+      await session.abortTransaction();
+      return;
+    }
+
+    const { payment } = verification;
+
+    try {
+      await Transaction.create(
+        [
+          {
+            projectId: project!._id,
+            type: TransactionType.REFUND,
+            amount: payment.amount,
+            fromAddress: payment.from,
+            toAddress: payment.to,
+            transactionHash: txHash,
+            status: TransactionStatus.CONFIRMED,
+            confirmedAt: payment.confirmedAt,
+            metadata: {
+              userId: req.user._id.toString(),
+              refundId: (refund!._id as mongoose.Types.ObjectId).toString(),
+              assetCode: payment.assetCode,
+              assetIssuer: payment.assetIssuer,
+              ledger: payment.ledger,
+            },
+          },
+        ],
+        { session },
+      );
+    } catch (createError: any) {
+      if (createError?.code === 11000) {
+        sendConflict(res, "This transaction has already been recorded");
+        await session.abortTransaction();
+        return;
+      }
+      throw createError;
+    }
+
+    const updated = await Refund.updateOne(
+      { _id: refund!._id, status: RefundStatus.CLAIMED },
+      {
+        status: RefundStatus.REFUNDED,
+        refundTransactionHash: txHash,
+        refundedAt: payment.confirmedAt,
+      },
+      { session },
+    );
+
+    if (updated.modifiedCount !== 1) {
+      sendConflict(res, "This contribution has already been refunded");
+      await session.abortTransaction();
+      return;
+    }
+
+    await session.commitTransaction();
+    transactionCommitted = true;
+
+    const refunded = await Refund.findById(refund!._id).lean();
+
+    await createActivity({
+      userId: req.user._id,
+      type: ActivityType.REFUND_RECEIVED,
+      projectId: project!._id,
+      amount: refund!.amount,
+      transactionHash: txHash,
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    try {
+      await sendRefundProcessedNotification(project, refunded);
+    } catch (notificationError) {
+      console.error("Error sending refund notification:", notificationError);
+    }
+
+    sendSuccess(
+      res,
+      transformRefund(refunded),
+      `Successfully recorded refund of ${refund!.amount} ${refund!.currency}`,
+    );
+  } catch (error) {
+    if (!transactionCommitted) {
+      await session.abortTransaction();
+    }
+    console.error("Error recording crowdfunding refund:", error);
+    sendInternalServerError(res, "Failed to record refund");
+  } finally {
+    session.endSession();
+  }
+};
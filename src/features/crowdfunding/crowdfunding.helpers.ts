@@ -1,4 +1,12 @@
+import mongoose from "mongoose";
 import Vote from "../../models/vote.model.js";
+import Account from "../../models/account.model.js";
+import Transaction, {
+  TransactionStatus,
+  TransactionType,
+} from "../../models/transaction.model.js";
+import { IProject } from "../../models/project.model.js";
+import { IRefundContribution } from "../../models/refund.model.js";
 import { USER_SELECT_FIELDS } from "./crowdfunding.constants.js";
 
 export const populateProjectUserData = (query: any) => {
@@ -40,3 +48,163 @@ export const isValidUrl = (string: string): boolean => {
     return false;
   }
 };
+
+/**
+ * The Stellar wallets a user has linked and verified through sign-in
+ */
+export const getVerifiedStellarAddresses = async (
+  userId: mongoose.Types.ObjectId,
+): Promise<string[]> => {
+  const accounts = await Account.find({ userId, provider: "stellar" })
+    .select("providerAccountId")
+    .lean();
+  return accounts.map((account) => account.providerAccountId);
+};
+
+/**
+ * Record a funding transaction that failed ledger verification so the
+ * attempt is auditable. A FAILED record can be re-verified later.
+ */
+export const recordFailedFundingTransaction = async ({
+  projectId,
+  userId,
+  amount,
+  toAddress,
+  transactionHash,
+  reason,
+}: {
+  projectId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  amount: number;
+  toAddress: string;
+  transactionHash: string;
+  reason: string;
+}): Promise<void> => {
+  try {
+    await Transaction.findOneAndUpdate(
+      { transactionHash, status: TransactionStatus.FAILED },
+      {
+        $set: {
+          projectId,
+          type: TransactionType.FUNDING,
+          amount,
+          fromAddress: "unknown",
+          toAddress,
+          status: TransactionStatus.FAILED,
+          timestamp: new Date(),
+          metadata: { userId: userId.toString(), reason },
+        },
+      },
+      { upsert: true },
+    );
+  } catch (error) {
+    console.error("Error recording failed funding transaction:", error);
+  }
+};
+
+/**
+ * Claim a verified payment's hash for a project before crediting it.
+ * A new hash gets a PENDING record; the unique index on transactionHash
+ * makes concurrent replays of the same hash lose. A hash that failed
+ * verification before is re-claimed only while its record is still FAILED,
+ * and moves to the project and payment it now pays for. Returns the
+ * claimed record's id, or null when the hash was already recorded.
+ */
+export const claimFundingTransaction = async ({
+  existingRecordId,
+  projectId,
+  userId,
+  transactionHash,
+  payment,
+}: {
+  existingRecordId?: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  transactionHash: string;
+  payment: {
+    from: string;
+    to: string;
+    amount: number;
+    assetCode: string;
+    assetIssuer?: string;
+    ledger: number;
+  };
+}): Promise<mongoose.Types.ObjectId | null> => {
+  const record = {
+    projectId,
+    type: TransactionType.FUNDING,
+    status: TransactionStatus.PENDING,
+    amount: payment.amount,
+    fromAddress: payment.from,
+    toAddress: payment.to,
+    metadata: {
+      userId: userId.toString(),
+      assetCode: payment.assetCode,
+      assetIssuer: payment.assetIssuer,
+      ledger: payment.ledger,
+    },
+  };
+
+  try {
+    if (existingRecordId) {
+      const claimed = await Transaction.updateOne(
+        { _id: existingRecordId, status: TransactionStatus.FAILED },
+        { $set: { ...record, timestamp: new Date() } },
+      );
+      return claimed.modifiedCount === 1 ? existingRecordId : null;
+    }
+
+    const created = await Transaction.create({ ...record, transactionHash });
+    return created._id as mongoose.Types.ObjectId;
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Build the per-contributor refund ledger for a failed campaign.
+ * Multiple contributions from the same backer are combined into one entry.
+ */
+export const buildRefundLedger = (
+  project: Pick<IProject, "funding">,
+): Array<{
+  userId: mongoose.Types.ObjectId;
+  amount: number;
+  currency: string;
+  contributions: IRefundContribution[];
+}> => {
+  const byUser = new Map<
+    string,
+    { userId: mongoose.Types.ObjectId; contributions: IRefundContribution[] }
+  >();
+
+  for (const contributor of project.funding?.contributors || []) {
+    if (!contributor.user) {
+      continue;
+    }
+    const userId = new mongoose.Types.ObjectId(contributor.user.toString());
+    const key = userId.toString();
+    if (!byUser.has(key)) {
+      byUser.set(key, { userId, contributions: [] });
+    }
+    byUser.get(key)!.contributions.push({
+      amount: contributor.amount,
+      transactionHash: contributor.transactionHash,
+      date: contributor.date,
+    });
+  }
+
+  return Array.from(byUser.values()).map((entry) => ({
+    userId: entry.userId,
+    // Stellar amounts have 7 decimal places
+    amount:
+      Math.round(
+        entry.contributions.reduce((sum, c) => sum + c.amount, 0) * 1e7,
+      ) / 1e7,
+    currency: project.funding.currency,
+    contributions: entry.contributions,
+  }));
+};
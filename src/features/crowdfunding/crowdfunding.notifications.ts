@@ -286,3 +286,88 @@ export async function sendProjectRejectedNotifications(
     throw error;
   }
 }
+
+export async function sendFundingFailedNotifications(
+  project: any,
+  refunds: Array<{ userId: any; amount: number }>,
+): Promise<void> {
+  try {
+    const emailTemplate = EmailTemplatesService.getTemplate("funding-failed", {
+      projectTitle: project.title,
+      projectId: project._id,
+    });
+
+    await NotificationService.notifyProjectCreator(
+      project._id,
+      project.title,
+      project.creator,
+      {
+        type: NotificationType.FUNDING_FAILED,
+        title: "Your project did not reach its funding goal",
+        message: `The funding period for "${project.title}" ended with ${project.funding.raised} of ${project.funding.goal} ${project.funding.currency} raised. Contributions will be refunded to backers.`,
+        data: {
+          projectId: project._id,
+          projectTitle: project.title,
+          amount: project.funding.raised,
+          totalRaised: project.funding.raised,
+          fundingGoal: project.funding.goal,
+        },
+        emailTemplate,
+      },
+    );
+
+    for (const refund of refunds) {
+      await NotificationService.notifyProjectBackers(
+        project._id,
+        project.title,
+        [refund.userId],
+        {
+          type: NotificationType.FUNDING_FAILED,
+          title: "A project you backed did not reach its goal",
+          message: `"${project.title}" did not reach its funding goal. You can claim a refund of ${refund.amount} ${project.funding.currency}.`,
+          data: {
+            projectId: project._id,
+            projectTitle: project.title,
+            amount: refund.amount,
+          },
+          emailTemplate,
+        },
+      );
+    }
+  } catch (error) {
+    console.error("Error sending funding failed notifications:", error);
+    throw error;
+  }
+}
+
+export async function sendRefundProcessedNotification(
+  project: any,
+  refund: any,
+): Promise<void> {
+  try {
+    await NotificationService.notifyProjectBackers(
+      project._id,
+      project.title,
+      [refund.userId],
+      {
+        type: NotificationType.REFUND_PROCESSED,
+        title: "Your refund has been processed",
+        message: `Your refund of ${refund.amount} ${refund.currency} for "${project.title}" has been confirmed on the Stellar network.`,
+        data: {
+          projectId: project._id,
+          projectTitle: project.title,
+          amount: refund.amount,
+          transactionHash: refund.refundTransactionHash,
+        },
+        emailTemplate: EmailTemplatesService.getTemplate("refund-processed", {
+          projectTitle: project.title,
+          projectId: project._id,
+          amount: refund.amount,
+        }),
+      },
+    );
+  } catch (error) {
+    console.error("Error sending refund processed notification:", error);
+    throw error;
+  }
+}
@@ -2,6 +2,9 @@ import { Router } from "express";
 import {
   createCrowdfundingProject,
   fundCrowdfundingProject,
+  getCrowdfundingRefunds,
+  claimCrowdfundingRefund,
+  recordCrowdfundingRefundTransaction,
   getCrowdfundingProjects,
   getCrowdfundingProject,
   updateCrowdfundingProject,
@@ -578,7 +581,7 @@ router.delete("/projects/:id", protect, deleteCrowdfundingProject);
  * /api/crowdfunding/projects/{id}/fund:
  *   post:
  *     summary: "Fund a crowdfunding project"
- *     description: Records the funding transaction hash and updates the project after frontend has signed and submitted transaction. Frontend handles all blockchain transactions.
+ *     description: Records a contribution after the frontend has signed and submitted the payment. The transaction is looked up on Horizon and must be a successful payment of exactly `amount` in the project's funding currency to the project's escrow address, sent from a Stellar wallet linked to the caller's account. Each transaction hash can only be credited once.
  *     tags: [Crowdfunding]
  *     security:
  *       - bearerAuth: []
@@ -639,16 +642,146 @@ router.delete("/projects/:id", protect, deleteCrowdfundingProject);
  *                         remainingGoal:
  *                           type: number
  *       400:
- *         description: Validation error or project not fundable
+ *         description: Validation error, project not fundable, or the transaction does not match the contribution
  *       401:
  *         description: Unauthorized - Authentication required
  *       404:
  *         description: Project not found
+ *       409:
+ *         description: Transaction hash has already been recorded
  *       500:
  *         description: Internal server error
+ *       502:
+ *         description: Horizon could not be reached to verify the transaction
  */
 router.post("/projects/:id/fund", protect, fundCrowdfundingProject);
 
+/**
+ * @swagger
+ * /api/crowdfunding/projects/{id}/refunds:
+ *   get:
+ *     summary: "Get the refund ledger of a failed crowdfunding project"
+ *     description: When a project's funding period ends below its goal it moves to `failed` and every contributor gets a refund ledger entry combining their contributions. The project creator sees the full ledger with a summary; backers only see their own entry.
+ *     tags: [Crowdfunding]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *     responses:
+ *       200:
+ *         description: Refunds retrieved successfully
+ *       400:
+ *         description: Invalid project ID
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/projects/:id/refunds", protect, getCrowdfundingRefunds);
+
+/**
+ * @swagger
+ * /api/crowdfunding/projects/{id}/refunds/claim:
+ *   post:
+ *     summary: "Claim a refund from a failed crowdfunding project"
+ *     description: Marks the caller's refund as claimed and sets the Stellar address the refund should be paid to. The address can be changed until the refund has been paid.
+ *     tags: [Crowdfunding]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refundAddress
+ *             properties:
+ *               refundAddress:
+ *                 type: string
+ *                 description: Stellar address to receive the refund
+ *                 example: "GABC..."
+ *     responses:
+ *       200:
+ *         description: Refund claimed successfully
+ *       400:
+ *         description: Invalid address or project has not failed
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       404:
+ *         description: Project or refundable contribution not found
+ *       409:
+ *         description: Contribution has already been refunded
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/projects/:id/refunds/claim", protect, claimCrowdfundingRefund);
+
+/**
+ * @swagger
+ * /api/crowdfunding/projects/{id}/refunds/transaction:
+ *   post:
+ *     summary: "Record the refund transaction for a claimed refund"
+ *     description: Records the refund after it has been paid out of escrow. The transaction is looked up on Horizon and must be a successful payment of exactly the refund amount in the project's funding currency from the project's escrow address to the claimed refund address. Each transaction hash can only be recorded once.
+ *     tags: [Crowdfunding]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - transactionHash
+ *             properties:
+ *               transactionHash:
+ *                 type: string
+ *                 description: Hash of the refund payment transaction
+ *                 example: "abc123def456..."
+ *     responses:
+ *       200:
+ *         description: Refund recorded successfully
+ *       400:
+ *         description: Refund not claimed, project has not failed, or the transaction does not match the refund
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       404:
+ *         description: Project or refundable contribution not found
+ *       409:
+ *         description: Refund already recorded or transaction hash already used
+ *       500:
+ *         description: Internal server error
+ *       502:
+ *         description: Horizon could not be reached to verify the transaction
+ */
+router.post(
+  "/projects/:id/refunds/transaction",
+  protect,
+  recordCrowdfundingRefundTransaction,
+);
+
 /**
  * @swagger
  * /api/crowdfunding/projects/{id}/admin-review:
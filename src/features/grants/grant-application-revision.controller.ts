@@ -0,0 +1,156 @@
+import { Request, Response } from "express";
+import GrantApplication from "../../models/grant-application.model.js";
+import {
+  sendSuccess,
+  sendError,
+  sendBadRequest,
+  sendConflict,
+  sendForbidden,
+  sendNotFound,
+} from "../../utils/apiResponse.js";
+import {
+  diffApplicationVersions,
+  getApplicationContentError,
+  snapshotApplication,
+} from "./grant.helpers.js";
+
+// Statuses in which the applicant can still edit the application
+const EDITABLE_STATUSES = ["draft", "changes-requested"];
+
+/**
+ * Load an application the caller applied with, sending the error response
+ * if it can't be edited
+ */
+const loadEditableApplication = async (req: Request, res: Response) => {
+  const user = req.user;
+  if (!user) {
+    sendError(res, "Authentication required", 401);
+    return null;
+  }
+
+  const application = await GrantApplication.findById(req.params.id);
+  if (!application) {
+    sendNotFound(res, "Grant application not found");
+    return null;
+  }
+
+  if (application.applicantId.toString() !== user._id.toString()) {
+    sendForbidden(res, "Only the applicant can edit this application");
+    return null;
+  }
+
+  if (!EDITABLE_STATUSES.includes(application.status)) {
+    sendConflict(
+      res,
+      `Application is ${application.status} and can no longer be edited`,
+    );
+    return null;
+  }
+
+  return application;
+};
+
+/**
+ * @swagger
+ * /api/grant-applications/{id}/draft:
+ *   patch:
+ *     summary: Autosave a grant application
+ *     description: |
+ *       Save the applicant's working copy of a draft, or of an application
+ *       that has changes requested. Only the fields sent are updated and no
+ *       version is created until the application is submitted.
+ *     tags: [Grant Applications]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const autosaveGrantApplication = async (req: Request, res: Response) => {
+  try {
+    const application = await loadEditableApplication(req, res);
+    if (!application) return;
+
+    const { title, summary, milestones } = req.body;
+    if (title !== undefined) application.title = title;
+    if (summary !== undefined) application.summary = summary;
+    if (milestones !== undefined) application.milestones = milestones;
+    application.lastSavedAt = new Date();
+
+    await application.save();
+
+    return sendSuccess(res, application, "Grant application saved");
+  } catch (error: any) {
+    console.error("Error autosaving grant application:", error);
+    if (error.name === "ValidationError") {
+      return sendError(res, "Validation failed", 400, error.message);
+    }
+    return sendError(
+      res,
+      "Failed to save grant application",
+      500,
+      error.message,
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/grant-applications/{id}/submit:
+ *   post:
+ *     summary: Submit or resubmit a grant application
+ *     description: |
+ *       Submit a draft, or resubmit an application after changes were
+ *       requested. Each submission is kept as a new version, and reviewers
+ *       score every version from scratch.
+ *     tags: [Grant Applications]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const submitGrantApplicationVersion = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const application = await loadEditableApplication(req, res);
+    if (!application) return;
+
+    const content = application.toObject();
+    const contentError = getApplicationContentError(content);
+    if (contentError) {
+      return sendBadRequest(res, contentError);
+    }
+
+    const previous = content.revisions[content.revisions.length - 1];
+    if (previous && diffApplicationVersions(previous, content).length === 0) {
+      return sendBadRequest(
+        res,
+        "The application has not changed since the last version",
+      );
+    }
+
+    const version = application.version + 1;
+    application.revisions.push(
+      snapshotApplication(content, version, req.body.note),
+    );
+    application.version = version;
+    application.status = "submitted";
+    await application.save();
+
+    return sendSuccess(
+      res,
+      application,
+      version === 1
+        ? "Grant application submitted successfully"
+        : `Grant application resubmitted as version ${version}`,
+    );
+  } catch (error: any) {
+    console.error("Error submitting grant application:", error);
+    if (error.name === "ValidationError") {
+      return sendError(res, "Validation failed", 400, error.message);
+    }
+    return sendError(
+      res,
+      "Failed to submit grant application",
+      500,
+      error.message,
+    );
+  }
+};
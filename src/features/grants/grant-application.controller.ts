@@ -6,6 +6,7 @@ import { sendSuccess } from "../../utils/apiResponse.js";
 import Project from "../../models/project.model.js";
 // import { ContractService } from "../services/contract.service.js";
 import Account from "../../models/account.model.js";
+import GrantBudgetService from "./grant-budget.service.js";
 
 // Enum values are used in TRANSITION_RULES object keys
 enum ApplicationStatus {
@@ -168,10 +169,43 @@ export const lockEscrow = async (req: Request, res: Response) => {
         err.message,
       );
     }
+    // Projects run under a grant program lock funds from its budget
+    if (!project.grant.grantId) {
+      const grantApplication =
+        await GrantApplication.findById(id).select("grantId");
+      if (grantApplication) {
+        project.grant.grantId = grantApplication.grantId;
+      }
+    }
+    const previous = {
+      status: application.status,
+      escrowedAmount: application.escrowedAmount,
+      txHash: application.txHash,
+    };
+    const escrowIncrease = amount - (application.escrowedAmount || 0);
     application.status = "IN_PROGRESS";
     application.escrowedAmount = amount;
     application.txHash = txHash;
     await project.save();
+
+    // Recorded once the lock is saved, so a failed save can't leave escrow
+    // counted against the budget
+    if (project.grant.grantId && escrowIncrease > 0) {
+      const recorded = await GrantBudgetService.recordEscrow(
+        project.grant.grantId,
+        escrowIncrease,
+        {
+          projectId: project._id as mongoose.Types.ObjectId,
+          txHash,
+          createdBy: req.user?._id,
+        },
+      );
+      if (!recorded) {
+        Object.assign(application, previous);
+        await project.save();
+        return sendError(res, "Escrow amount exceeds the grant's budget", 409);
+      }
+    }
     return sendSuccess(
       res,
       application,
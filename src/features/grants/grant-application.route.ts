@@ -1,13 +1,169 @@
 import { Router } from "express";
+import { body, param, query } from "express-validator";
 import {
   lockEscrow,
   updateMilestones,
 } from "./grant-application.controller.js";
+import {
+  submitGrantApplicationScores,
+  getGrantApplicationReviews,
+  requestGrantApplicationChanges,
+} from "./grant-review.controller.js";
+import {
+  autosaveGrantApplication,
+  submitGrantApplicationVersion,
+} from "./grant-application-revision.controller.js";
+import { recordGrantDisbursement } from "./grant-budget.controller.js";
 import { protect } from "../../middleware/better-auth.middleware.js";
+import { validateRequest } from "../../middleware/validateRequest.js";
 const router = Router();
 
+const applicationIdParam = param("id")
+  .isMongoId()
+  .withMessage("Invalid application ID");
+
+const submitScoresSchema = [
+  applicationIdParam,
+  body("scores")
+    .isArray({ min: 1 })
+    .withMessage("Scores must be a non-empty array"),
+  body("scores.*.criterionTitle")
+    .trim()
+    .notEmpty()
+    .withMessage("Each score must name a rubric criterion"),
+  body("scores.*.score")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Each score must be between 0 and 100")
+    .toFloat(),
+  body("feedback")
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Feedback cannot exceed 2000 characters"),
+];
+
+const autosaveSchema = [
+  applicationIdParam,
+  body("title")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Title cannot exceed 200 characters"),
+  body("summary")
+    .optional()
+    .isString()
+    .withMessage("Summary must be a string")
+    .trim(),
+  body("milestones")
+    .optional()
+    .isArray()
+    .withMessage("Milestones must be an array"),
+  body("milestones.*.expectedPayout")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Expected payout must be a positive number")
+    .toFloat(),
+  body("milestones.*.supportingDocuments")
+    .optional()
+    .isArray()
+    .withMessage("Supporting documents must be an array"),
+];
+
+const submitVersionSchema = [
+  applicationIdParam,
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Note cannot exceed 1000 characters"),
+];
+
+const requestChangesSchema = [
+  applicationIdParam,
+  body("note")
+    .trim()
+    .notEmpty()
+    .withMessage("A note describing the changes is required")
+    .isLength({ max: 2000 })
+    .withMessage("Note cannot exceed 2000 characters"),
+];
+
+const reviewsQuerySchema = [
+  applicationIdParam,
+  query("from")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("from must be a version number"),
+  query("to")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("to must be a version number"),
+];
+
+const disbursementSchema = [
+  applicationIdParam,
+  body("amount")
+    .isFloat({ gt: 0 })
+    .withMessage("Amount must be a positive number")
+    .toFloat(),
+  body("txHash")
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("txHash must be a non-empty string"),
+  body("milestoneIndex")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("milestoneIndex must be a non-negative integer")
+    .toInt(),
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note cannot exceed 500 characters"),
+];
+
 // PATCH /api/grant-applications/:id/escrow
 router.patch("/:id/escrow", protect, lockEscrow);
 router.patch("/:id/milestones", protect, updateMilestones);
+router.put(
+  "/:id/scores",
+  protect,
+  validateRequest(submitScoresSchema),
+  submitGrantApplicationScores,
+);
+router.get(
+  "/:id/reviews",
+  protect,
+  validateRequest(reviewsQuerySchema),
+  getGrantApplicationReviews,
+);
+router.patch(
+  "/:id/draft",
+  protect,
+  validateRequest(autosaveSchema),
+  autosaveGrantApplication,
+);
+router.post(
+  "/:id/submit",
+  protect,
+  validateRequest(submitVersionSchema),
+  submitGrantApplicationVersion,
+);
+router.post(
+  "/:id/request-changes",
+  protect,
+  validateRequest(requestChangesSchema),
+  requestGrantApplicationChanges,
+);
+
+router.post(
+  "/:id/disbursements",
+  protect,
+  validateRequest(disbursementSchema),
+  recordGrantDisbursement,
+);
 
 export default router;
@@ -0,0 +1,83 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Grant from "../../models/grant.model.js";
+import GrantApplication from "../../models/grant-application.model.js";
+import {
+  sendSuccess,
+  sendError,
+  sendConflict,
+  sendForbidden,
+  sendNotFound,
+} from "../../utils/apiResponse.js";
+import { canManageGrant } from "./grant.helpers.js";
+import GrantBudgetService from "./grant-budget.service.js";
+
+/**
+ * @swagger
+ * /api/grant-applications/{id}/disbursements:
+ *   post:
+ *     summary: Record a grant disbursement
+ *     description: |
+ *       Record a payout to an approved application. An application can't be
+ *       paid more than it committed, and the grant can't pay out more than
+ *       its total budget. Available to grant managers.
+ *     tags: [Grant Applications]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const recordGrantDisbursement = async (req: Request, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { amount, txHash, milestoneIndex, note } = req.body;
+
+    const application = await GrantApplication.findById(req.params.id);
+    if (!application) {
+      return sendNotFound(res, "Grant application not found");
+    }
+
+    const grant = await Grant.findById(application.grantId);
+    if (!grant) {
+      return sendNotFound(res, "Grant not found");
+    }
+
+    if (!(await canManageGrant(grant, user))) {
+      return sendForbidden(res, "Only grant managers can record disbursements");
+    }
+
+    if (application.status !== "approved") {
+      return sendConflict(res, "Only approved applications can be paid out");
+    }
+
+    if (
+      milestoneIndex !== undefined &&
+      milestoneIndex >= application.milestones.length
+    ) {
+      return sendNotFound(res, "Milestone not found");
+    }
+
+    const budgetError = await GrantBudgetService.recordDisbursement(
+      grant._id as mongoose.Types.ObjectId,
+      application._id as mongoose.Types.ObjectId,
+      amount,
+      { milestoneIndex, txHash, note, createdBy: user._id },
+    );
+    if (budgetError) {
+      return sendConflict(res, budgetError);
+    }
+
+    const updated = await Grant.findById(grant._id);
+
+    return sendSuccess(
+      res,
+      updated ? await GrantBudgetService.getSummary(updated) : null,
+      "Disbursement recorded successfully",
+    );
+  } catch (error: any) {
+    console.error("Error recording grant disbursement:", error);
+    return sendError(res, "Failed to record disbursement", 500, error.message);
+  }
+};
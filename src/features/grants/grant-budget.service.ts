@@ -0,0 +1,390 @@
+import mongoose from "mongoose";
+import Grant, { IGrant } from "../../models/grant.model.js";
+import { IGrantApplicationMilestone } from "../../models/grant-application.model.js";
+import GrantBudgetEntry, {
+  GrantBudgetEntryType,
+} from "../../models/grant-budget-entry.model.js";
+import Project from "../../models/project.model.js";
+
+type GrantId = mongoose.Types.ObjectId | string;
+
+interface BudgetEntryDetails {
+  applicationId?: mongoose.Types.ObjectId;
+  projectId?: mongoose.Types.ObjectId;
+  milestoneId?: mongoose.Types.ObjectId;
+  milestoneIndex?: number;
+  txHash?: string;
+  note?: string;
+  createdBy?: mongoose.Types.ObjectId;
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Tracks each grant's budget as a ledger of commitments, escrow locks and
+ * disbursements. `Grant.budget` keeps the running totals, updated with
+ * guarded atomic increments so concurrent approvals can't over-commit
+ * `totalBudget`, and every change is recorded as a `GrantBudgetEntry`.
+ */
+export class GrantBudgetService {
+  static getApplicationAmount(
+    milestones: Pick<IGrantApplicationMilestone, "expectedPayout">[],
+  ): number {
+    return roundAmount(
+      milestones.reduce(
+        (sum, milestone) => sum + (milestone.expectedPayout || 0),
+        0,
+      ),
+    );
+  }
+
+  /**
+   * Add to one of the grant's totals unless it would go past
+   * `totalBudget`. Returns the updated grant, or null when over budget.
+   */
+  private static async increment(
+    grantId: GrantId,
+    field: keyof IGrant["budget"],
+    amount: number,
+    session?: mongoose.ClientSession,
+  ) {
+    return Grant.findOneAndUpdate(
+      {
+        _id: grantId,
+        $expr: {
+          $lte: [
+            { $add: [{ $ifNull: [`$budget.${field}`, 0] }, amount] },
+            "$totalBudget",
+          ],
+        },
+      },
+      { $inc: { [`budget.${field}`]: amount } },
+      { new: true, session },
+    );
+  }
+
+  /**
+   * Record a ledger entry. With a key, an entry that already exists is left
+   * alone and null is returned, so recording it again is a no-op.
+   */
+  private static async addEntry(
+    entry: Record<string, unknown>,
+    key?: string,
+    session?: mongoose.ClientSession,
+  ): Promise<mongoose.Types.ObjectId | null> {
+    if (!key) {
+      const [created] = await GrantBudgetEntry.create([entry], { session });
+      return created._id as mongoose.Types.ObjectId;
+    }
+
+    try {
+      const { upsertedId } = await GrantBudgetEntry.updateOne(
+        { key },
+        { $setOnInsert: entry },
+        { upsert: true, session },
+      );
+      return (upsertedId as mongoose.Types.ObjectId | null) || null;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * How many times an application's commitment has been released, which
+   * keys its current commitment and the release of it
+   */
+  private static async countReleases(
+    applicationId: mongoose.Types.ObjectId,
+    session?: mongoose.ClientSession,
+  ): Promise<number> {
+    return GrantBudgetEntry.countDocuments(
+      { applicationId, type: GrantBudgetEntryType.RELEASE },
+      { session },
+    );
+  }
+
+  /**
+   * Sum of an application's ledger entries of one type
+   */
+  private static async getApplicationTotal(
+    applicationId: mongoose.Types.ObjectId,
+    type: GrantBudgetEntryType,
+    session?: mongoose.ClientSession,
+  ): Promise<number> {
+    const [total] = await GrantBudgetEntry.aggregate([
+      { $match: { applicationId, type } },
+      { $group: { _id: null, amount: { $sum: "$amount" } } },
+    ]).session(session || null);
+    return roundAmount(total?.amount || 0);
+  }
+
+  /**
+   * What an application currently has committed: commitments less releases
+   */
+  static async getCommittedAmount(
+    applicationId: mongoose.Types.ObjectId,
+    session?: mongoose.ClientSession,
+  ): Promise<number> {
+    const committed = await this.getApplicationTotal(
+      applicationId,
+      GrantBudgetEntryType.COMMITMENT,
+      session,
+    );
+    const released = await this.getApplicationTotal(
+      applicationId,
+      GrantBudgetEntryType.RELEASE,
+      session,
+    );
+    return roundAmount(committed - released);
+  }
+
+  /**
+   * Commit the payouts of an application being approved. Returns false when
+   * the grant's remaining budget can't cover them. The ledger entry is
+   * keyed by the application and how many times its commitment was
+   * released, so committing an application that is already committed,
+   * concurrently or on a retry, is a no-op. Grant projects running the
+   * application are linked to the grant.
+   */
+  static async commit(
+    grantId: GrantId,
+    application: {
+      _id: unknown;
+      milestones: Pick<IGrantApplicationMilestone, "expectedPayout">[];
+    },
+    createdBy?: mongoose.Types.ObjectId,
+    session?: mongoose.ClientSession,
+  ): Promise<boolean> {
+    const applicationId = application._id as mongoose.Types.ObjectId;
+    // Commitments recorded before entries had keys
+    if ((await this.getCommittedAmount(applicationId, session)) > 0) {
+      return true;
+    }
+
+    const releases = await this.countReleases(applicationId, session);
+    const amount = this.getApplicationAmount(application.milestones);
+    const entryId = await this.addEntry(
+      {
+        grantId,
+        type: GrantBudgetEntryType.COMMITMENT,
+        amount,
+        applicationId,
+        createdBy,
+      },
+      `${applicationId}:commitment:${releases}`,
+      session,
+    );
+    if (!entryId) {
+      return true;
+    }
+
+    if (!(await this.increment(grantId, "committed", amount, session))) {
+      await GrantBudgetEntry.deleteOne({ _id: entryId }, { session });
+      return false;
+    }
+
+    await this.linkProjects(grantId, applicationId, session);
+    return true;
+  }
+
+  /**
+   * Point the grant projects running an application at the grant, so their
+   * escrow and payouts count against its budget
+   */
+  static async linkProjects(
+    grantId: GrantId,
+    applicationId: mongoose.Types.ObjectId,
+    session?: mongoose.ClientSession,
+  ): Promise<number> {
+    const result = await Project.updateMany(
+      {
+        "grant.isGrant": true,
+        "grant.applications._id": applicationId,
+        "grant.grantId": { $exists: false },
+      },
+      { $set: { "grant.grantId": grantId } },
+      { session },
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Give back what an application committed, e.g. when an approval is
+   * overturned. The release is keyed by the commitment it gives back, so
+   * releasing twice, concurrently or on a retry, only counts once.
+   */
+  static async release(
+    grantId: GrantId,
+    applicationId: mongoose.Types.ObjectId,
+    createdBy?: mongoose.Types.ObjectId,
+    note?: string,
+    session?: mongoose.ClientSession,
+  ): Promise<number> {
+    const amount = await this.getCommittedAmount(applicationId, session);
+    if (amount <= 0) {
+      return 0;
+    }
+
+    const releases = await this.countReleases(applicationId, session);
+    const entryId = await this.addEntry(
+      {
+        grantId,
+        type: GrantBudgetEntryType.RELEASE,
+        amount,
+        applicationId,
+        note,
+        createdBy,
+      },
+      `${applicationId}:release:${releases}`,
+      session,
+    );
+    if (!entryId) {
+      return 0;
+    }
+
+    await Grant.updateOne(
+      { _id: grantId },
+      { $inc: { "budget.committed": -amount } },
+      { session },
+    );
+    return amount;
+  }
+
+  /**
+   * Record funds locked in escrow. Returns false when the grant's total
+   * escrow would exceed its budget.
+   */
+  static async recordEscrow(
+    grantId: GrantId,
+    amount: number,
+    details: BudgetEntryDetails,
+  ): Promise<boolean> {
+    if (!(await this.increment(grantId, "escrowed", amount))) {
+      return false;
+    }
+
+    await GrantBudgetEntry.create({
+      grantId,
+      type: GrantBudgetEntryType.ESCROW,
+      amount,
+      ...details,
+    });
+    return true;
+  }
+
+  /**
+   * Record a payout to an approved application. Returns an error message
+   * when it would pay the application more than it committed or the grant
+   * more than its budget, or null once recorded. A milestone's payout is
+   * keyed by the milestone, so recording it again is a no-op. The entry is
+   * added before the commitment is checked, so concurrent payouts that
+   * together go over it are both turned down. Grant projects linked to the
+   * grant get the new disbursed total.
+   */
+  static async recordDisbursement(
+    grantId: GrantId,
+    applicationId: mongoose.Types.ObjectId,
+    amount: number,
+    details: Omit<BudgetEntryDetails, "applicationId">,
+    session?: mongoose.ClientSession,
+  ): Promise<string | null> {
+    const entryId = await this.addEntry(
+      {
+        grantId,
+        type: GrantBudgetEntryType.DISBURSEMENT,
+        amount,
+        applicationId,
+        ...details,
+      },
+      details.milestoneId ? `${details.milestoneId}:disbursement` : undefined,
+      session,
+    );
+    if (!entryId) {
+      return null;
+    }
+
+    const committed = await this.getCommittedAmount(applicationId, session);
+    const disbursed = await this.getApplicationTotal(
+      applicationId,
+      GrantBudgetEntryType.DISBURSEMENT,
+      session,
+    );
+    if (disbursed > committed) {
+      await GrantBudgetEntry.deleteOne({ _id: entryId }, { session });
+      return `Disbursement exceeds the application's remaining commitment of ${roundAmount(committed - disbursed + amount)}`;
+    }
+
+    const grant = await this.increment(grantId, "disbursed", amount, session);
+    if (!grant) {
+      await GrantBudgetEntry.deleteOne({ _id: entryId }, { session });
+      return "Disbursement exceeds the grant's total budget";
+    }
+
+    await Project.updateMany(
+      { "grant.grantId": grant._id },
+      { $set: { "grant.totalDisbursed": grant.budget.disbursed } },
+      { session },
+    );
+    return null;
+  }
+
+  /**
+   * Budget totals and a day-by-day burn-down built from the ledger
+   */
+  static async getSummary(
+    grant: Pick<IGrant, "_id" | "totalBudget" | "budget">,
+  ) {
+    const entries = await GrantBudgetEntry.find({ grantId: grant._id })
+      .select("type amount createdAt")
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const totals = { committed: 0, escrowed: 0, disbursed: 0 };
+    const days = new Map<string, typeof totals & { remaining: number }>();
+    for (const entry of entries) {
+      switch (entry.type) {
+        case GrantBudgetEntryType.COMMITMENT:
+          totals.committed += entry.amount;
+          break;
+        case GrantBudgetEntryType.RELEASE:
+          totals.committed -= entry.amount;
+          break;
+        case GrantBudgetEntryType.ESCROW:
+          totals.escrowed += entry.amount;
+          break;
+        case GrantBudgetEntryType.DISBURSEMENT:
+          totals.disbursed += entry.amount;
+          break;
+      }
+      days.set(new Date(entry.createdAt).toISOString().slice(0, 10), {
+        committed: roundAmount(totals.committed),
+        escrowed: roundAmount(totals.escrowed),
+        disbursed: roundAmount(totals.disbursed),
+        remaining: roundAmount(grant.totalBudget - totals.disbursed),
+      });
+    }
+
+    const budget = grant.budget || totals;
+    const percentOf = (value: number) =>
+      grant.totalBudget > 0
+        ? roundAmount((value / grant.totalBudget) * 100)
+        : 0;
+
+    return {
+      totalBudget: grant.totalBudget,
+      committed: budget.committed,
+      escrowed: budget.escrowed,
+      disbursed: budget.disbursed,
+      available: roundAmount(grant.totalBudget - budget.committed),
+      remaining: roundAmount(grant.totalBudget - budget.disbursed),
+      committedPercent: percentOf(budget.committed),
+      disbursedPercent: percentOf(budget.disbursed),
+      burnDown: [...days].map(([date, day]) => ({ date, ...day })),
+    };
+  }
+}
+
+export default GrantBudgetService;
@@ -0,0 +1,643 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Grant from "../../models/grant.model.js";
+import GrantApplication from "../../models/grant-application.model.js";
+import GrantReview from "../../models/grant-review.model.js";
+import User from "../../models/user.model.js";
+import {
+  sendSuccess,
+  sendError,
+  sendBadRequest,
+  sendConflict,
+  sendForbidden,
+  sendNotFound,
+  sendValidationError,
+} from "../../utils/apiResponse.js";
+import {
+  buildReviewFeedback,
+  calculateWeightedScore,
+  canManageGrant,
+  diffApplicationVersions,
+  findNonMembers,
+  isGrantReviewer,
+  resolveQuorumDecision,
+  validateRubricScores,
+} from "./grant.helpers.js";
+import GrantBudgetService from "./grant-budget.service.js";
+import MilestoneService from "../milestones/milestone.service.js";
+
+/**
+ * Raised inside the scoring transaction to roll it back with a 409
+ */
+class ScoringConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScoringConflictError";
+  }
+}
+
+/**
+ * @swagger
+ * /api/grants/{id}/reviewers:
+ *   put:
+ *     summary: Assign grant reviewers
+ *     description: Replace the reviewer panel of an organization's grant. Reviewers must be members of the organization.
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const assignGrantReviewers = async (req: Request, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { id } = req.params;
+    const { userIds } = req.body;
+
+    const grant = await Grant.findById(id);
+    if (!grant) {
+      return sendNotFound(res, "Grant not found");
+    }
+
+    if (!(await canManageGrant(grant, user))) {
+      return sendForbidden(res, "Only grant managers can assign reviewers");
+    }
+
+    if (!grant.organizationId) {
+      return sendBadRequest(
+        res,
+        "Reviewer panels are only available for organization grants",
+      );
+    }
+
+    const uniqueIds: string[] = [...new Set<string>(userIds)];
+    const reviewers = await User.find({ _id: { $in: uniqueIds } }).select(
+      "email",
+    );
+    if (reviewers.length !== uniqueIds.length) {
+      return sendNotFound(res, "One or more users were not found");
+    }
+
+    const nonMembers = await findNonMembers(
+      grant.organizationId,
+      reviewers.map((reviewer) => reviewer.email),
+    );
+    if (nonMembers.length > 0) {
+      return sendBadRequest(
+        res,
+        `Reviewers must be members of the organization: ${nonMembers.join(", ")}`,
+      );
+    }
+
+    // Keep the original assignment of reviewers who stay on the panel
+    grant.reviewers = uniqueIds.map(
+      (userId) =>
+        grant.reviewers.find((r) => r.userId.toString() === userId) || {
+          userId: new mongoose.Types.ObjectId(userId),
+          assignedBy: user._id,
+          assignedAt: new Date(),
+        },
+    );
+    await grant.save();
+
+    return sendSuccess(res, grant, "Grant reviewers updated successfully");
+  } catch (error: any) {
+    console.error("Error assigning grant reviewers:", error);
+    return sendError(
+      res,
+      "Failed to assign grant reviewers",
+      500,
+      error.message,
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/grants/{id}/review-settings:
+ *   patch:
+ *     summary: Update grant review settings
+ *     description: Set the scoring rubric and the quorum that decides applications. The rubric is locked once reviews have been submitted.
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const updateGrantReviewSettings = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { id } = req.params;
+    const { rubric, quorum } = req.body;
+
+    const grant = await Grant.findById(id);
+    if (!grant) {
+      return sendNotFound(res, "Grant not found");
+    }
+
+    if (!(await canManageGrant(grant, user))) {
+      return sendForbidden(
+        res,
+        "Only grant managers can change review settings",
+      );
+    }
+
+    if (rubric !== undefined) {
+      if (await GrantReview.exists({ grantId: grant._id })) {
+        return sendConflict(
+          res,
+          "The rubric cannot be changed after reviews have been submitted",
+        );
+      }
+      grant.rubric = rubric;
+    }
+
+    if (quorum !== undefined) {
+      grant.quorum = {
+        minReviews: quorum.minReviews ?? grant.quorum.minReviews,
+        passScore: quorum.passScore ?? grant.quorum.passScore,
+      };
+    }
+
+    await grant.save();
+
+    return sendSuccess(
+      res,
+      grant,
+      "Grant review settings updated successfully",
+    );
+  } catch (error: any) {
+    console.error("Error updating grant review settings:", error);
+    if (error.name === "ValidationError" || error.message?.includes("Rubric")) {
+      return sendError(res, "Validation failed", 400, error.message);
+    }
+    return sendError(
+      res,
+      "Failed to update grant review settings",
+      500,
+      error.message,
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/grants/{id}/applications:
+ *   get:
+ *     summary: Get grant applications for review
+ *     description: List a grant's applications with review progress. Available to grant managers and reviewers.
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getGrantApplicationsForReview = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const grant = await Grant.findById(req.params.id);
+    if (!grant) {
+      return sendNotFound(res, "Grant not found");
+    }
+
+    if (
+      !isGrantReviewer(grant, user._id) &&
+      !(await canManageGrant(grant, user))
+    ) {
+      return sendForbidden(
+        res,
+        "Only grant managers and reviewers can view applications",
+      );
+    }
+
+    const [applications, reviews] = await Promise.all([
+      GrantApplication.find({ grantId: grant._id, status: { $ne: "draft" } })
+        .populate(
+          "applicantId",
+          "profile.firstName profile.lastName profile.username",
+        )
+        .sort({ createdAt: -1 })
+        .lean(),
+      GrantReview.find({ grantId: grant._id })
+        .select("applicationId reviewerId version weightedScore")
+        .lean(),
+    ]);
+
+    const data = applications.map((application) => {
+      const applicationReviews = reviews.filter(
+        (review) =>
+          review.applicationId.toString() === application._id.toString() &&
+          review.version === application.version,
+      );
+      return {
+        ...application,
+        reviewCount: applicationReviews.length,
+        requiredReviews: grant.quorum?.minReviews || 1,
+        averageScore:
+          applicationReviews.length > 0
+            ? Math.round(
+                (applicationReviews.reduce(
+                  (sum, review) => sum + review.weightedScore,
+                  0,
+                ) /
+                  applicationReviews.length) *
+                  100,
+              ) / 100
+            : null,
+        reviewedByMe: applicationReviews.some(
+          (review) => review.reviewerId.toString() === user._id.toString(),
+        ),
+      };
+    });
+
+    return sendSuccess(res, data, "Grant applications retrieved successfully");
+  } catch (error: any) {
+    console.error("Error fetching grant applications for review:", error);
+    return sendError(
+      res,
+      "Failed to fetch grant applications",
+      500,
+      error.message,
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/grant-applications/{id}/scores:
+ *   put:
+ *     summary: Score a grant application
+ *     description: |
+ *       Submit or update the caller's rubric scores for the current version
+ *       of an application. Once the grant's quorum of reviews is in, the
+ *       application is approved when the average weighted score reaches the
+ *       pass score and rejected otherwise. Approval is blocked when the
+ *       grant's remaining budget can't cover the application's payouts.
+ *     tags: [Grant Applications]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const submitGrantApplicationScores = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { id } = req.params;
+    const { scores, feedback } = req.body;
+
+    const application = await GrantApplication.findById(id);
+    if (!application) {
+      return sendNotFound(res, "Grant application not found");
+    }
+
+    const grant = await Grant.findById(application.grantId);
+    if (!grant) {
+      return sendNotFound(res, "Grant not found");
+    }
+
+    if (!isGrantReviewer(grant, user._id)) {
+      return sendForbidden(
+        res,
+        "Only assigned reviewers can score applications",
+      );
+    }
+
+    if (application.applicantId.toString() === user._id.toString()) {
+      return sendForbidden(res, "You cannot review your own application");
+    }
+
+    if (!["submitted", "reviewing"].includes(application.status)) {
+      return sendConflict(
+        res,
+        `Application is already ${application.status} and can no longer be reviewed`,
+      );
+    }
+
+    if (!grant.rubric || grant.rubric.length === 0) {
+      return sendBadRequest(res, "This grant has no scoring rubric yet");
+    }
+
+    const rubricError = validateRubricScores(scores, grant.rubric);
+    if (rubricError) {
+      return sendValidationError(res, "Invalid scores", {
+        scores: { msg: rubricError },
+      });
+    }
+
+    const weightedScore = calculateWeightedScore(scores, grant.rubric);
+
+    // Every review updates the application in one transaction, so concurrent
+    // reviews conflict and are retried: the last one in sees every score,
+    // and the application is decided and its budget committed only once
+    const session = await mongoose.startSession();
+    let result;
+    try {
+      result = await session.withTransaction(async () => {
+        // Only reviewers still on the panel count towards the quorum
+        const otherReviews = await GrantReview.find({
+          applicationId: application._id,
+          version: application.version,
+          reviewerId: {
+            $in: grant.reviewers.map((r) => r.userId),
+            $ne: user._id,
+          },
+        })
+          .select("weightedScore")
+          .session(session);
+        const quorumScores = [
+          ...otherReviews.map((r) => r.weightedScore),
+          weightedScore,
+        ];
+
+        const decision = resolveQuorumDecision(grant, quorumScores);
+
+        const scored = await GrantApplication.findOneAndUpdate(
+          {
+            _id: application._id,
+            version: application.version,
+            status: { $in: ["submitted", "reviewing"] },
+          },
+          {
+            $set: decision
+              ? {
+                  status: decision,
+                  decidedAt: new Date(),
+                  ...(decision === "rejected" && { archived: true }),
+                }
+              : { status: "reviewing" },
+          },
+          { new: true, session },
+        );
+        if (!scored) {
+          throw new ScoringConflictError(
+            "Application changed or was decided while you were scoring it",
+          );
+        }
+
+        // Approving commits the application's payouts against the grant budget
+        if (
+          decision === "approved" &&
+          !(await GrantBudgetService.commit(
+            grant._id as mongoose.Types.ObjectId,
+            scored,
+            user._id,
+            session,
+          ))
+        ) {
+          throw new ScoringConflictError(
+            "Approving this application would exceed the grant's remaining budget",
+          );
+        }
+
+        const review = await GrantReview.findOneAndUpdate(
+          {
+            applicationId: application._id,
+            reviewerId: user._id,
+            version: application.version,
+          },
+          {
+            grantId: grant._id,
+            scores,
+            weightedScore,
+            feedback,
+          },
+          { upsert: true, new: true, runValidators: true, session },
+        );
+
+        return {
+          review,
+          application: scored,
+          decision,
+          reviewCount: quorumScores.length,
+        };
+      });
+    } catch (error) {
+      if (error instanceof ScoringConflictError) {
+        return sendConflict(res, error.message);
+      }
+      throw error;
+    } finally {
+      await session.endSession();
+    }
+
+    const { review, decision, reviewCount } = result;
+    if (decision === "approved") {
+      await MilestoneService.createForGrantApplication(result.application);
+    }
+
+    return sendSuccess(
+      res,
+      {
+        review,
+        applicationStatus: result.application.status,
+        reviewCount,
+        requiredReviews: grant.quorum?.minReviews || 1,
+      },
+      decision
+        ? `Review submitted and application ${decision}`
+        : "Review submitted successfully",
+    );
+  } catch (error: any) {
+    console.error("Error scoring grant application:", error);
+    return sendError(
+      res,
+      "Failed to score grant application",
+      500,
+      error.message,
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/grant-applications/{id}/reviews:
+ *   get:
+ *     summary: Get grant application reviews
+ *     description: |
+ *       Individual reviewer scores and feedback, the application's version
+ *       history and a field-level diff between two versions. The diff
+ *       compares the previous version with the current one unless `from` and
+ *       `to` are given. Available to grant managers and reviewers.
+ *     tags: [Grant Applications]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getGrantApplicationReviews = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const application = await GrantApplication.findById(req.params.id);
+    if (!application) {
+      return sendNotFound(res, "Grant application not found");
+    }
+
+    const grant = await Grant.findById(application.grantId);
+    if (!grant) {
+      return sendNotFound(res, "Grant not found");
+    }
+
+    if (
+      !isGrantReviewer(grant, user._id) &&
+      !(await canManageGrant(grant, user))
+    ) {
+      return sendForbidden(
+        res,
+        "Only grant managers and reviewers can view reviews",
+      );
+    }
+
+    const { revisions, version } = application.toObject();
+    const toVersion = Number(req.query.to) || version;
+    const fromVersion = Number(req.query.from) || toVersion - 1;
+    const from = revisions.find((r) => r.version === fromVersion);
+    const to = revisions.find((r) => r.version === toVersion);
+    if ((req.query.from && !from) || (req.query.to && !to)) {
+      return sendNotFound(res, "Application version not found");
+    }
+
+    const reviews = await GrantReview.find({ applicationId: application._id })
+      .populate(
+        "reviewerId",
+        "profile.firstName profile.lastName profile.username",
+      )
+      .sort({ version: -1, createdAt: 1 })
+      .lean();
+
+    return sendSuccess(
+      res,
+      {
+        reviews,
+        summary: buildReviewFeedback(
+          grant,
+          reviews.filter((review) => review.version === version),
+        ),
+        status: application.status,
+        version,
+        revisions: revisions.map((revision) => ({
+          version: revision.version,
+          submittedAt: revision.submittedAt,
+          note: revision.note,
+          changeRequest: revision.changeRequest,
+        })),
+        diff:
+          from && to
+            ? {
+                fromVersion,
+                toVersion,
+                changes: diffApplicationVersions(from, to),
+              }
+            : null,
+      },
+      "Grant application reviews retrieved successfully",
+    );
+  } catch (error: any) {
+    console.error("Error fetching grant application reviews:", error);
+    return sendError(
+      res,
+      "Failed to fetch grant application reviews",
+      500,
+      error.message,
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/grant-applications/{id}/request-changes:
+ *   post:
+ *     summary: Request changes to a grant application
+ *     description: |
+ *       Send the current version back to the applicant with a note on what to
+ *       change. The applicant can then edit and resubmit it as a new version.
+ *       Available to grant managers and reviewers.
+ *     tags: [Grant Applications]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const requestGrantApplicationChanges = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const application = await GrantApplication.findById(req.params.id);
+    if (!application) {
+      return sendNotFound(res, "Grant application not found");
+    }
+
+    const grant = await Grant.findById(application.grantId);
+    if (!grant) {
+      return sendNotFound(res, "Grant not found");
+    }
+
+    if (
+      !isGrantReviewer(grant, user._id) &&
+      !(await canManageGrant(grant, user))
+    ) {
+      return sendForbidden(
+        res,
+        "Only grant managers and reviewers can request changes",
+      );
+    }
+
+    if (application.applicantId.toString() === user._id.toString()) {
+      return sendForbidden(res, "You cannot review your own application");
+    }
+
+    if (!["submitted", "reviewing"].includes(application.status)) {
+      return sendConflict(
+        res,
+        `Application is ${application.status} and changes can no longer be requested`,
+      );
+    }
+
+    const revision = application.revisions.find(
+      (r) => r.version === application.version,
+    );
+    if (revision) {
+      revision.changeRequest = {
+        requestedBy: user._id,
+        requestedAt: new Date(),
+        note: req.body.note,
+      };
+    }
+    application.status = "changes-requested";
+    await application.save();
+
+    return sendSuccess(
+      res,
+      application,
+      "Changes requested from the applicant",
+    );
+  } catch (error: any) {
+    console.error("Error requesting grant application changes:", error);
+    return sendError(res, "Failed to request changes", 500, error.message);
+  }
+};
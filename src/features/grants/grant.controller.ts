@@ -7,6 +7,28 @@ import GrantApplication from "../../models/grant-application.model.js";
 import Comment from "../../models/comment.model.js";
 import Vote from "../../models/vote.model.js";
 import mongoose from "mongoose";
+import GrantReview from "../../models/grant-review.model.js";
+import Organization from "../../models/organization.model.js";
+import { canManageHackathons } from "../hackathons/hackathon.helpers.js";
+import {
+  buildReviewFeedback,
+  canManageGrant,
+  getApplicationContentError,
+  isGrantReviewer,
+  snapshotApplication,
+} from "./grant.helpers.js";
+import GrantBudgetService from "./grant-budget.service.js";
+import MilestoneService from "../milestones/milestone.service.js";
+
+/**
+ * Raised inside the admin review transaction to roll it back with a 409
+ */
+class ReviewConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewConflictError";
+  }
+}
 
 /**
  * @swagger
@@ -67,6 +89,30 @@ import mongoose from "mongoose";
  *                       type: number
  *                       minimum: 0
  *                       description: Expected payout for this milestone
+ *               organizationId:
+ *                 type: string
+ *                 description: Run the grant as an organization program. Requires owner or admin access to the organization.
+ *               rubric:
+ *                 type: array
+ *                 description: Criteria reviewers score applications against. Weights must add up to 100.
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     title:
+ *                       type: string
+ *                     weight:
+ *                       type: number
+ *                     description:
+ *                       type: string
+ *               quorum:
+ *                 type: object
+ *                 properties:
+ *                   minReviews:
+ *                     type: number
+ *                     description: Reviews needed before an application is decided
+ *                   passScore:
+ *                     type: number
+ *                     description: Average weighted score (0-100) needed to approve
  *     responses:
  *       201:
  *         description: Grant created successfully
@@ -109,15 +155,34 @@ export const createGrant = async (req: Request, res: Response) => {
       return sendError(res, "Authentication required", 401);
     }
 
-    // Check if user has creator role
-    const hasCreatorRole = user.roles.some(
-      (role) => role.role === UserRole.CREATOR && role.status === "ACTIVE",
-    );
-    if (!hasCreatorRole) {
-      res
-        .status(403)
-        .json({ success: false, message: "Only creators can create grants" });
-      return;
+    const { organizationId } = req.body;
+
+    // Organization grants need organization access, personal grants the
+    // creator role
+    if (organizationId) {
+      const { canManage, organization } = await canManageHackathons(
+        organizationId,
+        user.email,
+      );
+      if (!canManage) {
+        res.status(organization ? 403 : 404).json({
+          success: false,
+          message: organization
+            ? "Only owners and admins can create grants for this organization"
+            : "Organization not found",
+        });
+        return;
+      }
+    } else {
+      const hasCreatorRole = user.roles.some(
+        (role) => role.role === UserRole.CREATOR && role.status === "ACTIVE",
+      );
+      if (!hasCreatorRole) {
+        res
+          .status(403)
+          .json({ success: false, message: "Only creators can create grants" });
+        return;
+      }
     }
 
     // Validate request body
@@ -131,7 +196,15 @@ export const createGrant = async (req: Request, res: Response) => {
       return;
     }
 
-    const { title, description, totalBudget, rules, milestones } = req.body;
+    const {
+      title,
+      description,
+      totalBudget,
+      rules,
+      milestones,
+      rubric,
+      quorum,
+    } = req.body;
 
     // Validate milestones
     if (!Array.isArray(milestones) || milestones.length === 0) {
@@ -166,8 +239,18 @@ export const createGrant = async (req: Request, res: Response) => {
       rules,
       milestones,
       status: "draft", // Default status as per requirements
+      ...(organizationId && { organizationId }),
+      ...(rubric && { rubric }),
+      ...(quorum && { quorum }),
     });
 
+    if (organizationId) {
+      await Organization.updateOne(
+        { _id: organizationId },
+        { $addToSet: { grants: grant._id } },
+      );
+    }
+
     // Populate creator information
     await grant.populate(
       "creatorId",
@@ -220,7 +303,7 @@ export const createGrant = async (req: Request, res: Response) => {
  * /api/grants/{id}/status:
  *   patch:
  *     summary: Update grant status
- *     description: Update the status of a grant to open or closed. Only the grant creator can update the status.
+ *     description: Update the status of a grant to open or closed. Only the grant creator, or the owners and admins of the grant's organization, can update the status.
  *     tags: [Grants]
  *     security:
  *       - bearerAuth: []
@@ -319,13 +402,13 @@ export const updateGrantStatus = async (req: Request, res: Response) => {
       );
     }
 
-    // Check authorization - only grant creator can update status
-    if (grant.creatorId.toString() !== user._id.toString()) {
+    // Check authorization - the creator, or the organization's managers
+    if (!(await canManageGrant(grant, user))) {
       return sendError(
         res,
-        "Only the grant creator can update the grant status",
+        "Only the grant creator or organization admins can update the grant status",
         403,
-        "User is not the creator of this grant",
+        "User cannot manage this grant",
       );
     }
 
@@ -379,7 +462,10 @@ export const updateGrantStatus = async (req: Request, res: Response) => {
  * /api/grant-applications:
  *   post:
  *     summary: Submit a new grant application
- *     description: Allows grant applicants to submit their application for a specific grant.
+ *     description: |
+ *       Allows grant applicants to submit their application for a specific
+ *       grant. Pass `draft: true` to save an incomplete draft instead; only
+ *       `grantId` is required then.
  *     tags: [Grant Applications]
  *     security:
  *       - bearerAuth: []
@@ -398,6 +484,9 @@ export const updateGrantStatus = async (req: Request, res: Response) => {
  *               grantId:
  *                 type: string
  *                 description: ID of the grant being applied for.
+ *               draft:
+ *                 type: boolean
+ *                 description: Save as a draft instead of submitting.
  *               title:
  *                 type: string
  *                 description: Title of the application.
@@ -480,47 +569,44 @@ export const submitGrantApplication = async (req: Request, res: Response) => {
       return;
     }
 
-    const { grantId, title, summary, milestones } = req.body;
+    const { grantId, title, summary, milestones, draft } = req.body;
 
-    // Validate required fields
-    if (
-      !grantId ||
-      !title ||
-      !summary ||
-      !Array.isArray(milestones) ||
-      milestones.length === 0
-    ) {
+    if (!grantId) {
       res.status(400).json({
         success: false,
-        message:
-          "Missing required fields: grantId, title, summary, milestones.",
+        message: "Missing required field: grantId.",
       });
       return;
     }
 
-    // Validate each milestone
-    for (const [i, milestone] of milestones.entries()) {
-      if (
-        !milestone.title ||
-        !milestone.description ||
-        typeof milestone.expectedPayout !== "number"
-      ) {
-        res.status(400).json({
-          success: false,
-          message: `Milestone at index ${i} is missing required fields.`,
-        });
-        return;
-      }
-      if (
-        milestone.supportingDocuments &&
-        !Array.isArray(milestone.supportingDocuments)
-      ) {
-        res.status(400).json({
-          success: false,
-          message: `Milestone at index ${i} has invalid supportingDocuments.`,
-        });
-        return;
-      }
+    // Drafts can be saved incomplete and submitted later
+    if (draft === true) {
+      const application = await GrantApplication.create({
+        grantId,
+        title,
+        summary,
+        applicantId,
+        milestones: Array.isArray(milestones) ? milestones : [],
+        status: "draft",
+        lastSavedAt: new Date(),
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Grant application draft saved.",
+        application,
+      });
+      return;
+    }
+
+    const contentError = getApplicationContentError({
+      title,
+      summary,
+      milestones,
+    });
+    if (contentError) {
+      res.status(400).json({ success: false, message: contentError });
+      return;
     }
 
     // Create the grant application
@@ -531,6 +617,8 @@ export const submitGrantApplication = async (req: Request, res: Response) => {
       applicantId,
       milestones,
       status: "submitted",
+      version: 1,
+      revisions: [snapshotApplication({ title, summary, milestones }, 1)],
     });
 
     res.status(201).json({
@@ -540,6 +628,20 @@ export const submitGrantApplication = async (req: Request, res: Response) => {
     });
     return;
   } catch (error: any) {
+    // Drafts skip the content checks, so the schema is what catches
+    // malformed fields
+    if (error.name === "ValidationError") {
+      const validationErrors: any = {};
+      Object.keys(error.errors).forEach((key) => {
+        validationErrors[key] = error.errors[key].message;
+      });
+      res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: validationErrors,
+      });
+      return;
+    }
     if (error.code === 11000) {
       res.status(409).json({
         success: false,
@@ -555,7 +657,9 @@ export const submitGrantApplication = async (req: Request, res: Response) => {
   }
 };
 
-// GET /api/grant-applications/:id - Retrieve a grant application with feedback
+// GET /api/grant-applications/:id - Retrieve a grant application with feedback.
+// Reviewer feedback is aggregated and only shown to the applicant, the
+// grant's managers and its reviewers.
 export const getGrantApplicationWithFeedback = async (
   req: Request,
   res: Response,
@@ -575,9 +679,39 @@ export const getGrantApplicationWithFeedback = async (
         .json({ success: false, message: "Grant application not found" });
       return;
     }
+    // Drafts are private to the applicant
+    const user = req.user;
+    if (
+      application.status === "draft" &&
+      application.applicantId.toString() !== user?._id.toString()
+    ) {
+      res
+        .status(404)
+        .json({ success: false, message: "Grant application not found" });
+      return;
+    }
     // Fetch comments and votes related to this application (assuming models exist and are linked by applicationId)
     const comments = await Comment.find({ grantApplicationId: id });
     const votes = await Vote.find({ grantApplicationId: id });
+
+    let reviewFeedback = null;
+    const grant = await Grant.findById(application.grantId);
+    if (user && grant) {
+      const canSeeFeedback =
+        application.applicantId.toString() === user._id.toString() ||
+        isGrantReviewer(grant, user._id) ||
+        (await canManageGrant(grant, user));
+      if (canSeeFeedback) {
+        const reviews = await GrantReview.find({
+          applicationId: id,
+          version: application.version,
+        })
+          .select("scores weightedScore feedback")
+          .lean();
+        reviewFeedback = buildReviewFeedback(grant, reviews);
+      }
+    }
+
     res.status(200).json({
       success: true,
       data: {
@@ -585,6 +719,7 @@ export const getGrantApplicationWithFeedback = async (
         comments,
         votes,
         status: application.status,
+        reviewFeedback,
       },
     });
     return;
@@ -631,34 +766,82 @@ export const reviewGrantApplication = async (req: Request, res: Response) => {
         .json({ success: false, message: "Grant application not found" });
       return;
     }
+    // Admins can only decide an application still under review, ahead of
+    // its reviewer quorum; drafts and decided applications are left alone
+    if (!["submitted", "reviewing"].includes(application.status)) {
+      res.status(409).json({
+        success: false,
+        message: `Application is ${application.status} and can no longer be reviewed`,
+      });
+      return;
+    }
+    const reviewer = req.user;
+    // Decide the application and commit its payouts against the grant
+    // budget together, so neither is left without the other
+    const session = await mongoose.startSession();
+    let decided;
+    try {
+      decided = await session.withTransaction(async () => {
+        const updated = await GrantApplication.findOneAndUpdate(
+          {
+            _id: application._id,
+            version: application.version,
+            status: { $in: ["submitted", "reviewing"] },
+          },
+          {
+            $set: {
+              status,
+              decidedAt: new Date(),
+              ...(adminNote && { adminNote }),
+              ...(status === "rejected" && { archived: true }),
+            },
+          },
+          { new: true, session },
+        );
+        if (!updated) {
+          throw new ReviewConflictError(
+            "Application changed or was decided while you were reviewing it",
+          );
+        }
+
+        if (
+          status === "approved" &&
+          !(await GrantBudgetService.commit(
+            updated.grantId,
+            updated,
+            reviewer._id,
+            session,
+          ))
+        ) {
+          throw new ReviewConflictError(
+            "Approving this application would exceed the grant's remaining budget",
+          );
+        }
+        return updated;
+      });
+    } catch (error) {
+      if (error instanceof ReviewConflictError) {
+        res.status(409).json({ success: false, message: error.message });
+        return;
+      }
+      throw error;
+    } finally {
+      await session.endSession();
+    }
     // Log admin action (for audit)
     if (process.env.NODE_ENV !== "test") {
       console.log(
-        `[ADMIN REVIEW] User ${req.user._id} set status to ${status} for application ${id}. Note: ${adminNote || "-"}`,
+        `[ADMIN REVIEW] User ${reviewer._id} set status to ${status} for application ${id}. Note: ${adminNote || "-"}`,
       );
     }
-    // Update application
-    application.status = status;
-    if (adminNote) {
-      (application as any).adminNote = adminNote;
-    }
-    await application.save();
-    // Archive if rejected
-    if (status === "rejected") {
-      // Move to archive (could be a flag or a separate collection, here we use a flag)
-      (application as any).archived = true;
-      await application.save();
-    }
-    // Advance to next stage if approved (could be a status update or workflow step)
+    // Open the payout milestones of an approved application
     if (status === "approved") {
-      // Example: set a field or trigger next workflow step
-      // (application as any).stage = "creator_review";
-      // await application.save();
+      await MilestoneService.createForGrantApplication(decided);
     }
     res.status(200).json({
       success: true,
       message: `Application ${status}`,
-      data: application,
+      data: decided,
     });
     return;
   } catch (error: any) {
@@ -712,7 +895,8 @@ export const getMyGrants = async (req: Request, res: Response) => {
   }
 };
 
-// Get details for a particular grant by its ID (public)
+// Get details for a particular grant by its ID (public). The grant's
+// managers also get its budget summary and burn-down.
 export const getGrantById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -725,6 +909,16 @@ export const getGrantById = async (req: Request, res: Response) => {
       res.status(404).json({ success: false, message: "Grant not found" });
       return;
     }
+    if (req.user && (await canManageGrant(grant, req.user))) {
+      res.status(200).json({
+        success: true,
+        data: {
+          ...grant.toObject(),
+          budgetSummary: await GrantBudgetService.getSummary(grant),
+        },
+      });
+      return;
+    }
     res.status(200).json({ success: true, data: grant });
     return;
   } catch (error: any) {
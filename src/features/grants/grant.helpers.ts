@@ -0,0 +1,262 @@
+import mongoose from "mongoose";
+import { IGrant, IGrantRubricCriterion } from "../../models/grant.model.js";
+import {
+  IGrantApplicationMilestone,
+  IGrantApplicationRevision,
+} from "../../models/grant-application.model.js";
+import { IGrantCriterionScore } from "../../models/grant-review.model.js";
+import Organization from "../../models/organization.model.js";
+import { checkPermission } from "../../utils/getUserRole.js";
+import { canManageHackathons } from "../hackathons/hackathon.helpers.js";
+
+type GrantAccessUser = { _id: mongoose.Types.ObjectId; email: string };
+
+/**
+ * Organization grants are managed by the organization's owners and admins,
+ * the same people who manage its hackathons. Grants without an
+ * organization are managed by their creator.
+ */
+export const canManageGrant = async (
+  grant: Pick<IGrant, "creatorId" | "organizationId">,
+  user: GrantAccessUser,
+): Promise<boolean> => {
+  if (grant.organizationId) {
+    const { canManage } = await canManageHackathons(
+      grant.organizationId.toString(),
+      user.email,
+    );
+    return canManage;
+  }
+  return grant.creatorId.toString() === user._id.toString();
+};
+
+export const isGrantReviewer = (
+  grant: Pick<IGrant, "reviewers">,
+  userId: mongoose.Types.ObjectId | string,
+): boolean =>
+  (grant.reviewers || []).some(
+    (reviewer) => reviewer.userId.toString() === userId.toString(),
+  );
+
+/**
+ * Check users belong to an organization. Returns the emails that don't.
+ */
+export const findNonMembers = async (
+  organizationId: mongoose.Types.ObjectId,
+  emails: string[],
+): Promise<string[]> => {
+  const organization = await Organization.findById(organizationId);
+  if (!organization) {
+    return emails;
+  }
+  return emails.filter(
+    (email) =>
+      !checkPermission(organization, email, ["owner", "admin", "member"]),
+  );
+};
+
+/**
+ * Check a reviewer's scores cover exactly the grant's rubric
+ */
+export const validateRubricScores = (
+  scores: IGrantCriterionScore[],
+  rubric: IGrantRubricCriterion[],
+): string | null => {
+  if (scores.length !== rubric.length) {
+    return `Scores must cover all ${rubric.length} rubric criteria`;
+  }
+  for (const criterion of rubric) {
+    if (!scores.some((score) => score.criterionTitle === criterion.title)) {
+      return `Missing score for criterion "${criterion.title}"`;
+    }
+  }
+  return null;
+};
+
+export const calculateWeightedScore = (
+  scores: IGrantCriterionScore[],
+  rubric: IGrantRubricCriterion[],
+): number => {
+  const total = rubric.reduce((sum, criterion) => {
+    const score =
+      scores.find((s) => s.criterionTitle === criterion.title)?.score || 0;
+    return sum + score * criterion.weight;
+  }, 0);
+  return Math.round((total / 100) * 100) / 100;
+};
+
+/**
+ * Decide an application once the grant's review quorum is met: approved
+ * when the average weighted score reaches the pass score, rejected
+ * otherwise. Returns null while reviews are still missing.
+ */
+export const resolveQuorumDecision = (
+  grant: Pick<IGrant, "quorum">,
+  weightedScores: number[],
+): "approved" | "rejected" | null => {
+  const minReviews = grant.quorum?.minReviews || 1;
+  if (weightedScores.length < minReviews) {
+    return null;
+  }
+  const average =
+    weightedScores.reduce((sum, score) => sum + score, 0) /
+    weightedScores.length;
+  return average >= (grant.quorum?.passScore ?? 50) ? "approved" : "rejected";
+};
+
+/**
+ * Summarize an application's reviews for the applicant: averages per rubric
+ * criterion and the written feedback, without who gave it
+ */
+export const buildReviewFeedback = (
+  grant: Pick<IGrant, "rubric" | "quorum">,
+  reviews: {
+    scores: IGrantCriterionScore[];
+    weightedScore: number;
+    feedback?: string;
+  }[],
+) => {
+  const average = (values: number[]) =>
+    values.length > 0
+      ? Math.round(
+          (values.reduce((sum, value) => sum + value, 0) / values.length) * 100,
+        ) / 100
+      : null;
+
+  return {
+    reviewCount: reviews.length,
+    requiredReviews: grant.quorum?.minReviews || 1,
+    passScore: grant.quorum?.passScore ?? 50,
+    averageScore: average(reviews.map((review) => review.weightedScore)),
+    criteria: (grant.rubric || []).map((criterion) => ({
+      title: criterion.title,
+      weight: criterion.weight,
+      averageScore: average(
+        reviews.flatMap((review) =>
+          review.scores
+            .filter((score) => score.criterionTitle === criterion.title)
+            .map((score) => score.score),
+        ),
+      ),
+    })),
+    comments: reviews
+      .map((review) => review.feedback)
+      .filter((feedback): feedback is string => !!feedback),
+  };
+};
+
+type ApplicationContent = {
+  title?: string;
+  summary?: string;
+  milestones?: IGrantApplicationMilestone[];
+};
+
+/**
+ * Check an application has everything needed to be submitted. Returns the
+ * first problem found, or null when it is complete.
+ */
+export const getApplicationContentError = (
+  content: ApplicationContent,
+): string | null => {
+  if (
+    !content.title ||
+    !content.summary ||
+    !Array.isArray(content.milestones) ||
+    content.milestones.length === 0
+  ) {
+    return "Missing required fields: title, summary, milestones.";
+  }
+  for (const [i, milestone] of content.milestones.entries()) {
+    if (
+      !milestone.title ||
+      !milestone.description ||
+      typeof milestone.expectedPayout !== "number"
+    ) {
+      return `Milestone at index ${i} is missing required fields.`;
+    }
+    if (
+      milestone.supportingDocuments &&
+      !Array.isArray(milestone.supportingDocuments)
+    ) {
+      return `Milestone at index ${i} has invalid supportingDocuments.`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Copy an application's current content into a revision
+ */
+export const snapshotApplication = (
+  content: Required<ApplicationContent>,
+  version: number,
+  note?: string,
+): IGrantApplicationRevision => ({
+  version,
+  title: content.title,
+  summary: content.summary,
+  milestones: content.milestones.map((milestone) => ({
+    title: milestone.title,
+    description: milestone.description,
+    expectedPayout: milestone.expectedPayout,
+    supportingDocuments: [...(milestone.supportingDocuments || [])],
+  })),
+  submittedAt: new Date(),
+  ...(note && { note }),
+});
+
+export interface ApplicationFieldChange {
+  field: string; // e.g. "summary" or "milestones[1].expectedPayout"
+  change: "added" | "removed" | "modified";
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Field-level differences between two versions of an application.
+ * Milestones are compared by position.
+ */
+export const diffApplicationVersions = (
+  from: ApplicationContent,
+  to: ApplicationContent,
+): ApplicationFieldChange[] => {
+  const changes: ApplicationFieldChange[] = [];
+  const compare = (field: string, before: unknown, after: unknown) => {
+    if (JSON.stringify(before ?? null) !== JSON.stringify(after ?? null)) {
+      changes.push({ field, change: "modified", from: before, to: after });
+    }
+  };
+
+  compare("title", from.title, to.title);
+  compare("summary", from.summary, to.summary);
+
+  const before = from.milestones || [];
+  const after = to.milestones || [];
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    const field = `milestones[${i}]`;
+    if (!before[i]) {
+      changes.push({ field, change: "added", to: after[i] });
+    } else if (!after[i]) {
+      changes.push({ field, change: "removed", from: before[i] });
+    } else {
+      compare(`${field}.title`, before[i].title, after[i].title);
+      compare(
+        `${field}.description`,
+        before[i].description,
+        after[i].description,
+      );
+      compare(
+        `${field}.expectedPayout`,
+        before[i].expectedPayout,
+        after[i].expectedPayout,
+      );
+      compare(
+        `${field}.supportingDocuments`,
+        before[i].supportingDocuments || [],
+        after[i].supportingDocuments || [],
+      );
+    }
+  }
+
+  return changes;
+};
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { body } from "express-validator";
+import { body, param } from "express-validator";
 import {
   createGrant,
   updateGrantStatus,
@@ -10,7 +10,15 @@ import {
   getGrantApplicationWithFeedback,
   reviewGrantApplication,
 } from "./grant.controller.js";
-import { protect } from "../../middleware/better-auth.middleware.js";
+import {
+  assignGrantReviewers,
+  updateGrantReviewSettings,
+  getGrantApplicationsForReview,
+} from "./grant-review.controller.js";
+import {
+  protect,
+  optionalAuth,
+} from "../../middleware/better-auth.middleware.js";
 import { validateRequest } from "../../middleware/validateRequest.js";
 
 const router = Router();
@@ -55,9 +63,62 @@ const createGrantSchema = [
   body("milestones.*.expectedPayout")
     .isFloat({ min: 0 })
     .withMessage("Expected payout must be a non-negative number"),
+  body("organizationId")
+    .optional()
+    .isMongoId()
+    .withMessage("Organization ID must be valid"),
+];
+
+const rubricSchema = [
+  body("rubric")
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage("Rubric must be an array of at most 20 criteria"),
+  body("rubric.*.title")
+    .trim()
+    .notEmpty()
+    .withMessage("Criterion title is required")
+    .isLength({ max: 100 })
+    .withMessage("Criterion title cannot exceed 100 characters"),
+  body("rubric.*.weight")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Criterion weight must be between 0 and 100"),
+  body("rubric.*.description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Criterion description cannot exceed 500 characters"),
+  body("rubric").custom((rubric) => {
+    if (!Array.isArray(rubric) || rubric.length === 0) return true;
+    const titles = rubric.map((criterion: any) => criterion.title);
+    if (new Set(titles).size !== titles.length) {
+      throw new Error("Rubric criteria must have unique titles");
+    }
+    const totalWeight = rubric.reduce(
+      (sum: number, criterion: any) => sum + Number(criterion.weight),
+      0,
+    );
+    if (Math.abs(totalWeight - 100) > 0.01) {
+      throw new Error("Rubric weights must add up to 100");
+    }
+    return true;
+  }),
+  body("quorum.minReviews")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Minimum reviews must be between 1 and 50"),
+  body("quorum.passScore")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Pass score must be between 0 and 100"),
 ];
 
-router.post("/", protect, validateRequest(createGrantSchema), createGrant);
+router.post(
+  "/",
+  protect,
+  validateRequest([...createGrantSchema, ...rubricSchema]),
+  createGrant,
+);
 
 const updateGrantStatusSchema = [
   body("status")
@@ -72,15 +133,50 @@ router.patch(
   updateGrantStatus,
 );
 
+const grantIdParam = param("id").isMongoId().withMessage("Invalid grant ID");
+
+const assignReviewersSchema = [
+  grantIdParam,
+  body("userIds")
+    .isArray({ max: 50 })
+    .withMessage("userIds must be an array of at most 50 users"),
+  body("userIds.*").isMongoId().withMessage("Each user ID must be valid"),
+];
+
+router.put(
+  "/:id/reviewers",
+  protect,
+  validateRequest(assignReviewersSchema),
+  assignGrantReviewers,
+);
+
+router.patch(
+  "/:id/review-settings",
+  protect,
+  validateRequest([grantIdParam, ...rubricSchema]),
+  updateGrantReviewSettings,
+);
+
+router.get(
+  "/:id/applications",
+  protect,
+  validateRequest([grantIdParam]),
+  getGrantApplicationsForReview,
+);
+
 router.post("/grant-applications", protect, submitGrantApplication);
 
 router.get("/", getAllGrants);
 
 router.get("/my", protect, getMyGrants);
 
-router.get("/:id", getGrantById);
+router.get("/:id", optionalAuth, getGrantById);
 
-router.get("/grant-applications/:id", getGrantApplicationWithFeedback);
+router.get(
+  "/grant-applications/:id",
+  optionalAuth,
+  getGrantApplicationWithFeedback,
+);
 
 router.patch("/grant-applications/:id/review", protect, reviewGrantApplication);
 
@@ -0,0 +1,582 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Hackathon, { IHackathon } from "../../models/hackathon.model.js";
+import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import HackathonApplication, {
+  HackathonApplicationStatus,
+  IHackathonApplication,
+} from "../../models/hackathon-application.model.js";
+import User from "../../models/user.model.js";
+import { NotificationType } from "../../models/notification.model.js";
+import {
+  sendSuccess,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendBadRequest,
+  sendConflict,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  canManageHackathons,
+  createHackathonRegistration,
+  resolveHackathonByIdOrSlug,
+} from "./hackathon.helpers.js";
+import HackathonWaitlistService, {
+  HackathonFullError,
+} from "./hackathon-waitlist.service.js";
+import NotificationService from "../notifications/notification.service.js";
+import EmailTemplatesService from "../../services/email/email-templates.service.js";
+
+export const formatApplication = (application: IHackathonApplication) => ({
+  _id: (application._id as mongoose.Types.ObjectId).toString(),
+  hackathonId: application.hackathonId.toString(),
+  userId: application.userId.toString(),
+  applied: true,
+  status: application.status,
+  participationType: application.participationType,
+  teamName: application.teamName || null,
+  teamMembers: application.teamMembers || [],
+  registrationAnswers: application.registrationAnswers || [],
+  submittedAt: application.submittedAt.toISOString(),
+  reviewedAt: application.reviewedAt
+    ? application.reviewedAt.toISOString()
+    : undefined,
+  rejectionReason: application.rejectionReason || undefined,
+});
+
+/**
+ * Load the hackathon and the pending application an organizer is reviewing,
+ * sending the error response when either check fails
+ */
+const loadApplicationForReview = async (
+  req: Request,
+  res: Response,
+): Promise<{
+  hackathon: IHackathon;
+  application: IHackathonApplication;
+  reviewer: any;
+} | null> => {
+  const user = (req as AuthenticatedRequest).user;
+  const { orgId, hackathonId, applicationId } = req.params;
+
+  if (!user) {
+    sendError(res, "Authentication required", 401);
+    return null;
+  }
+
+  const { canManage, organization } = await canManageHackathons(
+    orgId,
+    user.email,
+  );
+
+  if (!canManage) {
+    if (!organization) {
+      sendNotFound(res, "Organization not found");
+      return null;
+    }
+    sendForbidden(
+      res,
+      "Only owners and admins can review hackathon applications for this organization",
+    );
+    return null;
+  }
+
+  const hackathon = await Hackathon.findOne({
+    _id: hackathonId,
+    organizationId: orgId,
+  });
+
+  if (!hackathon) {
+    sendNotFound(res, "Hackathon not found");
+    return null;
+  }
+
+  const application = await HackathonApplication.findOne({
+    _id: applicationId,
+    hackathonId: hackathon._id,
+  });
+
+  if (!application) {
+    sendNotFound(res, "Application not found");
+    return null;
+  }
+
+  if (application.status !== HackathonApplicationStatus.PENDING) {
+    sendConflict(res, `Application has already been ${application.status}`);
+    return null;
+  }
+
+  return { hackathon, application, reviewer: user };
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/participants/applications:
+ *   get:
+ *     summary: Get hackathon applications
+ *     description: Retrieve registration applications for a hackathon in application mode, oldest first
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, withdrawn]
+ *         description: Filter by application status. Defaults to pending.
+ */
+export const getApplications = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId } = req.params;
+    const { page = "1", limit = "10", status } = req.query;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can view hackathon applications for this organization",
+      );
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    });
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const query = {
+      hackathonId: hackathon._id,
+      status: Object.values(HackathonApplicationStatus).includes(
+        status as HackathonApplicationStatus,
+      )
+        ? (status as HackathonApplicationStatus)
+        : HackathonApplicationStatus.PENDING,
+    };
+
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [totalItems, applications] = await Promise.all([
+      HackathonApplication.countDocuments(query),
+      HackathonApplication.find(query)
+        .populate({
+          path: "userId",
+          select: "email profile",
+        })
+        .sort({ submittedAt: 1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+    ]);
+
+    const items = applications.map((application: any) => {
+      const applicant = application.userId;
+
+      return {
+        _id: application._id.toString(),
+        userId: applicant._id.toString(),
+        user: {
+          _id: applicant._id.toString(),
+          profile: {
+            firstName: applicant.profile?.firstName || "",
+            lastName: applicant.profile?.lastName || "",
+            username: applicant.profile?.username || "",
+            avatar: applicant.profile?.avatar || "",
+          },
+          email: applicant.email || "",
+        },
+        status: application.status,
+        participationType: application.participationType,
+        teamName: application.teamName || undefined,
+        teamMembers: application.teamMembers || [],
+        registrationAnswers: application.registrationAnswers || [],
+        submittedAt: application.submittedAt.toISOString(),
+        reviewedAt: application.reviewedAt?.toISOString() || undefined,
+        rejectionReason: application.rejectionReason || undefined,
+      };
+    });
+
+    const totalPages = Math.ceil(totalItems / limitNum);
+
+    sendSuccess(
+      res,
+      {
+        applications: items,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalItems,
+          itemsPerPage: limitNum,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1,
+        },
+      },
+      "Applications retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get applications error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve applications",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/participants/applications/{applicationId}/approve:
+ *   post:
+ *     summary: Approve a hackathon application
+ *     description: Register the applicant as a participant. Team invitations and the registration email are sent at this point.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const approveApplication = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const loaded = await loadApplicationForReview(req, res);
+    if (!loaded) {
+      return;
+    }
+    const { hackathon, application, reviewer } = loaded;
+
+    const applicant = await User.findById(application.userId);
+    if (!applicant) {
+      sendNotFound(res, "Applicant not found");
+      return;
+    }
+
+    const existingParticipant = await HackathonParticipant.findOne({
+      hackathonId: hackathon._id,
+      userId: applicant._id,
+    });
+
+    if (existingParticipant) {
+      sendConflict(res, "Applicant is already registered for this hackathon");
+      return;
+    }
+
+    if (
+      !(await HackathonWaitlistService.hasOpenSpot(hackathon, applicant._id))
+    ) {
+      sendBadRequest(res, "Hackathon has reached its participant limit");
+      return;
+    }
+
+    // Claim the application first so a double click cannot register twice
+    const claimed = await HackathonApplication.findOneAndUpdate(
+      { _id: application._id, status: HackathonApplicationStatus.PENDING },
+      {
+        $set: {
+          status: HackathonApplicationStatus.APPROVED,
+          reviewedBy: reviewer._id,
+          reviewedAt: new Date(),
+        },
+      },
+      { new: true },
+    );
+
+    if (!claimed) {
+      sendConflict(res, "Application has already been reviewed");
+      return;
+    }
+
+    let participant;
+    try {
+      participant = await createHackathonRegistration({
+        hackathon,
+        user: applicant,
+        participationType: application.participationType,
+        teamName: application.teamName,
+        teamMembers: application.teamMembers,
+        registrationAnswers: application.registrationAnswers,
+        req,
+      });
+    } catch (error) {
+      await HackathonApplication.updateOne(
+        { _id: application._id },
+        {
+          $set: { status: HackathonApplicationStatus.PENDING },
+          $unset: { reviewedBy: 1, reviewedAt: 1 },
+        },
+      );
+      if (error instanceof HackathonFullError) {
+        sendBadRequest(res, error.message);
+        return;
+      }
+      throw error;
+    }
+
+    claimed.participantId = new mongoose.Types.ObjectId(participant._id);
+    await claimed.save();
+    await HackathonWaitlistService.markRegistered(
+      hackathon._id as mongoose.Types.ObjectId,
+      applicant._id,
+    );
+
+    const hackathonName = hackathon.title || "Hackathon";
+
+    // The registration email has already gone out with the participant record
+    await NotificationService.sendSingleNotification(
+      {
+        userId: applicant._id,
+        email: applicant.email,
+        name: applicant.profile?.firstName || applicant.email,
+      },
+      {
+        type: NotificationType.HACKATHON_REGISTERED,
+        title: `You're in: ${hackathonName}`,
+        message: `Your application to "${hackathonName}" has been approved. You are now registered.`,
+        data: {
+          hackathonId: hackathon._id as mongoose.Types.ObjectId,
+          hackathonName,
+          hackathonSlug: hackathon.slug,
+          applicationId: application._id,
+        },
+        sendEmail: false,
+        sendInApp: true,
+      },
+    );
+
+    sendSuccess(
+      res,
+      { application: formatApplication(claimed), participant },
+      "Application approved",
+    );
+  } catch (error) {
+    console.error("Approve application error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to approve application",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/participants/applications/{applicationId}/reject:
+ *   post:
+ *     summary: Reject a hackathon application
+ *     description: Reject the application with an optional reason that is shared with the applicant
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const rejectApplication = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const loaded = await loadApplicationForReview(req, res);
+    if (!loaded) {
+      return;
+    }
+    const { hackathon, application, reviewer } = loaded;
+    const { reason } = req.body;
+
+    const rejected = await HackathonApplication.findOneAndUpdate(
+      { _id: application._id, status: HackathonApplicationStatus.PENDING },
+      {
+        $set: {
+          status: HackathonApplicationStatus.REJECTED,
+          reviewedBy: reviewer._id,
+          reviewedAt: new Date(),
+          ...(reason && { rejectionReason: reason }),
+        },
+      },
+      { new: true },
+    );
+
+    if (!rejected) {
+      sendConflict(res, "Application has already been reviewed");
+      return;
+    }
+
+    const applicant = await User.findById(application.userId).select(
+      "email profile",
+    );
+
+    if (applicant) {
+      const hackathonName = hackathon.title || "Hackathon";
+
+      await NotificationService.sendSingleNotification(
+        {
+          userId: applicant._id,
+          email: applicant.email,
+          name: applicant.profile?.firstName || applicant.email,
+        },
+        {
+          type: NotificationType.HACKATHON_APPLICATION_REJECTED,
+          title: `Application to ${hackathonName} not accepted`,
+          message: reason
+            ? `Your application to "${hackathonName}" was not accepted: ${reason}`
+            : `Your application to "${hackathonName}" was not accepted.`,
+          data: {
+            hackathonId: hackathon._id as mongoose.Types.ObjectId,
+            hackathonName,
+            hackathonSlug: hackathon.slug,
+            applicationId: application._id,
+            reason,
+          },
+          emailTemplate: EmailTemplatesService.getTemplate(
+            "hackathon-application-rejected",
+            {
+              hackathonId: (
+                hackathon._id as mongoose.Types.ObjectId
+              ).toString(),
+              hackathonName,
+              hackathonSlug: hackathon.slug,
+              reason,
+            },
+          ),
+          sendEmail: true,
+          sendInApp: true,
+        },
+      );
+    }
+
+    sendSuccess(res, formatApplication(rejected), "Application rejected");
+  } catch (error) {
+    console.error("Reject application error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to reject application",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Get my application
+ * GET /organizations/{orgId}/hackathons/{hackathonId}/application
+ * GET /hackathons/{hackathonSlugOrId}/application
+ */
+export const getMyApplication = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      sendForbidden(res, "Authentication required");
+      return;
+    }
+
+    const { hackathonSlugOrId, orgId, hackathonId } = req.params;
+    const hackathon = await resolveHackathonByIdOrSlug(
+      hackathonId || hackathonSlugOrId,
+      orgId ? undefined : { includePublishedOnly: true },
+    );
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const application = await HackathonApplication.findOne({
+      hackathonId: hackathon._id,
+      userId: user._id,
+    });
+
+    sendSuccess(
+      res,
+      application ? formatApplication(application) : null,
+      "Application retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get application error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve application",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Withdraw a pending application
+ * DELETE /organizations/{orgId}/hackathons/{hackathonId}/application
+ * DELETE /hackathons/{hackathonSlugOrId}/application
+ */
+export const withdrawApplication = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      sendForbidden(res, "Authentication required");
+      return;
+    }
+
+    const { hackathonSlugOrId, orgId, hackathonId } = req.params;
+    const hackathon = await resolveHackathonByIdOrSlug(
+      hackathonId || hackathonSlugOrId,
+      orgId ? undefined : { includePublishedOnly: true },
+    );
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const application = await HackathonApplication.findOneAndUpdate(
+      {
+        hackathonId: hackathon._id,
+        userId: user._id,
+        status: HackathonApplicationStatus.PENDING,
+      },
+      { $set: { status: HackathonApplicationStatus.WITHDRAWN } },
+      { new: true },
+    );
+
+    if (!application) {
+      sendNotFound(res, "You do not have a pending application");
+      return;
+    }
+
+    sendSuccess(
+      res,
+      formatApplication(application),
+      "Application withdrawn successfully",
+    );
+  } catch (error) {
+    console.error("Withdraw application error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to withdraw application",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
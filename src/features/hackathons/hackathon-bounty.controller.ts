@@ -0,0 +1,888 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Hackathon, { IHackathon } from "../../models/hackathon.model.js";
+import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import HackathonSponsor, {
+  HackathonSponsorStatus,
+  IHackathonSponsor,
+} from "../../models/hackathon-sponsor.model.js";
+import HackathonBounty, {
+  HackathonBountyStatus,
+  IHackathonBounty,
+} from "../../models/hackathon-bounty.model.js";
+import { NotificationType } from "../../models/notification.model.js";
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendBadRequest,
+  sendConflict,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  canManageHackathons,
+  findActiveSponsor,
+  findTrack,
+  getBountyIneligibility,
+  resolveHackathonByIdOrSlug,
+} from "./hackathon.helpers.js";
+import NotificationService from "../notifications/notification.service.js";
+import EmailTemplatesService from "../../services/email/email-templates.service.js";
+import HackathonPayoutService from "./hackathon-payout.service.js";
+import { config } from "../../config/main.config.js";
+
+export const formatBounty = (
+  bounty: IHackathonBounty,
+  sponsor?: Pick<
+    IHackathonSponsor,
+    "sponsorName" | "sponsorLogo" | "partnerLink"
+  > | null,
+) => ({
+  _id: (bounty._id as mongoose.Types.ObjectId).toString(),
+  hackathonId: bounty.hackathonId.toString(),
+  sponsorId: bounty.sponsorId.toString(),
+  sponsor: sponsor
+    ? {
+        sponsorName: sponsor.sponsorName,
+        sponsorLogo: sponsor.sponsorLogo || undefined,
+        partnerLink: sponsor.partnerLink || undefined,
+      }
+    : undefined,
+  title: bounty.title,
+  description: bounty.description,
+  amount: bounty.amount,
+  currency: bounty.currency,
+  maxWinners: bounty.maxWinners,
+  contractId: bounty.contractId || undefined,
+  escrowAddress: bounty.escrowAddress || undefined,
+  eligibility: {
+    trackIds: (bounty.eligibility?.trackIds || []).map(String),
+    participationTypes: bounty.eligibility?.participationTypes || [],
+    minTeamSize: bounty.eligibility?.minTeamSize || undefined,
+    maxTeamSize: bounty.eligibility?.maxTeamSize || undefined,
+    requirements: bounty.eligibility?.requirements || undefined,
+  },
+  status: bounty.status,
+  winners: (bounty.winners || []).map((winner) => ({
+    participantId: winner.participantId.toString(),
+    position: winner.position,
+    amount: winner.amount,
+    selectedAt: winner.selectedAt.toISOString(),
+    paid: !!winner.paidAt,
+    paidAt: winner.paidAt ? winner.paidAt.toISOString() : undefined,
+  })),
+  winnersSelectedAt: bounty.winnersSelectedAt
+    ? bounty.winnersSelectedAt.toISOString()
+    : undefined,
+  createdAt: bounty.createdAt.toISOString(),
+  updatedAt: bounty.updatedAt.toISOString(),
+});
+
+/**
+ * Load the hackathon for an organizer or sponsor bounty route. Organizers
+ * may act on every bounty; an active sponsor only on its own.
+ * Sends the error response and returns null when access is denied.
+ */
+const loadBountyAccess = async (
+  req: Request,
+  res: Response,
+  action: string,
+): Promise<{
+  hackathon: IHackathon;
+  sponsorRecord: IHackathonSponsor | null;
+} | null> => {
+  const user = (req as AuthenticatedRequest).user;
+  const { orgId, hackathonId } = req.params;
+
+  if (!user) {
+    sendError(res, "Authentication required", 401);
+    return null;
+  }
+
+  const { canManage, organization } = await canManageHackathons(
+    orgId,
+    user.email,
+  );
+
+  let sponsorRecord: IHackathonSponsor | null = null;
+  if (!canManage) {
+    if (!organization) {
+      sendNotFound(res, "Organization not found");
+      return null;
+    }
+    sponsorRecord = await findActiveSponsor(hackathonId, user._id);
+    if (!sponsorRecord || sponsorRecord.organizationId.toString() !== orgId) {
+      sendForbidden(
+        res,
+        `Only owners, admins and sponsors can ${action} for this hackathon`,
+      );
+      return null;
+    }
+  }
+
+  const hackathon = await Hackathon.findOne({
+    _id: hackathonId,
+    organizationId: orgId,
+  });
+
+  if (!hackathon) {
+    sendNotFound(res, "Hackathon not found");
+    return null;
+  }
+
+  return { hackathon, sponsorRecord };
+};
+
+/**
+ * Find a bounty in the hackathon that the caller may act on
+ */
+const findAccessibleBounty = (
+  hackathon: IHackathon,
+  bountyId: string,
+  sponsorRecord: IHackathonSponsor | null,
+) =>
+  HackathonBounty.findOne({
+    _id: bountyId,
+    hackathonId: hackathon._id,
+    ...(sponsorRecord && { sponsorId: sponsorRecord._id }),
+  });
+
+/**
+ * Check eligible tracks against the hackathon's tracks.
+ * Returns an error message, or null when every track exists.
+ */
+const validateEligibilityTracks = (
+  hackathon: Pick<IHackathon, "tracks">,
+  trackIds: string[] = [],
+): string | null => {
+  const unknownTrack = trackIds.find((id) => !findTrack(hackathon, id));
+  return unknownTrack
+    ? `Track ${unknownTrack} does not exist in this hackathon`
+    : null;
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/bounties:
+ *   post:
+ *     summary: Create a sponsor bounty
+ *     description: |
+ *       Define a bounty funded by a sponsor, with its own escrow `contractId`,
+ *       eligibility rules and number of winners. Sponsors create bounties for
+ *       themselves; organizers pass the `sponsorId` the bounty belongs to.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const createBounty = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const access = await loadBountyAccess(req, res, "create bounties");
+    if (!access) {
+      return;
+    }
+
+    const { hackathon, sponsorRecord } = access;
+    const user = (req as AuthenticatedRequest).user;
+    const {
+      sponsorId,
+      title,
+      description,
+      amount,
+      currency,
+      maxWinners,
+      contractId,
+      escrowAddress,
+      eligibility = {},
+    } = req.body;
+
+    let sponsor = sponsorRecord;
+    if (!sponsor) {
+      if (!sponsorId) {
+        sendBadRequest(res, "Sponsor ID is required");
+        return;
+      }
+      sponsor = await HackathonSponsor.findOne({
+        _id: sponsorId,
+        hackathonId: hackathon._id,
+        status: { $ne: HackathonSponsorStatus.REMOVED },
+      });
+      if (!sponsor) {
+        sendNotFound(res, "Sponsor not found");
+        return;
+      }
+    }
+
+    const trackError = validateEligibilityTracks(
+      hackathon,
+      eligibility.trackIds,
+    );
+    if (trackError) {
+      sendBadRequest(res, trackError);
+      return;
+    }
+
+    const bounty = await HackathonBounty.create({
+      hackathonId: hackathon._id,
+      organizationId: hackathon.organizationId,
+      sponsorId: sponsor._id,
+      title,
+      description,
+      amount,
+      currency,
+      maxWinners,
+      contractId,
+      escrowAddress,
+      eligibility: {
+        trackIds: [...new Set<string>(eligibility.trackIds || [])],
+        participationTypes: [
+          ...new Set<string>(eligibility.participationTypes || []),
+        ],
+        minTeamSize: eligibility.minTeamSize,
+        maxTeamSize: eligibility.maxTeamSize,
+        requirements: eligibility.requirements,
+      },
+      createdBy: user._id,
+    });
+
+    sendCreated(
+      res,
+      formatBounty(bounty, sponsor),
+      "Bounty created successfully",
+    );
+  } catch (error) {
+    console.error("Create bounty error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to create bounty",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/bounties:
+ *   get:
+ *     summary: List sponsor bounties
+ *     description: Organizers see every bounty in the hackathon; sponsors see their own, with entry counts
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getBounties = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const access = await loadBountyAccess(req, res, "view bounties");
+    if (!access) {
+      return;
+    }
+
+    const { hackathon, sponsorRecord } = access;
+
+    const bounties = await HackathonBounty.find({
+      hackathonId: hackathon._id,
+      ...(sponsorRecord && { sponsorId: sponsorRecord._id }),
+    }).sort({ createdAt: 1 });
+
+    const [sponsors, entryCounts] = await Promise.all([
+      HackathonSponsor.find({
+        _id: { $in: bounties.map((bounty) => bounty.sponsorId) },
+      }),
+      HackathonParticipant.aggregate([
+        {
+          $match: {
+            hackathonId: hackathon._id,
+            "submission.bountyIds": {
+              $in: bounties.map((bounty) => bounty._id),
+            },
+            "submission.status": { $ne: "disqualified" },
+          },
+        },
+        { $unwind: "$submission.bountyIds" },
+        { $group: { _id: "$submission.bountyIds", count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const sponsorsById = new Map(
+      sponsors.map((sponsor) => [
+        (sponsor._id as mongoose.Types.ObjectId).toString(),
+        sponsor,
+      ]),
+    );
+    const countByBounty = new Map<string, number>(
+      entryCounts.map((entry: any) => [entry._id.toString(), entry.count]),
+    );
+
+    const data = bounties.map((bounty) => ({
+      ...formatBounty(bounty, sponsorsById.get(bounty.sponsorId.toString())),
+      entryCount:
+        countByBounty.get((bounty._id as mongoose.Types.ObjectId).toString()) ||
+        0,
+    }));
+
+    sendSuccess(res, data, "Bounties retrieved successfully");
+  } catch (error) {
+    console.error("Get bounties error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve bounties",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/bounties/{bountyId}:
+ *   put:
+ *     summary: Update a sponsor bounty
+ *     description: |
+ *       Update a bounty's details, eligibility or status. Closing a bounty stops
+ *       new entries. Awarded bounties can no longer be edited, and the amount
+ *       cannot drop below what has been awarded.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const updateBounty = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const access = await loadBountyAccess(req, res, "update bounties");
+    if (!access) {
+      return;
+    }
+
+    const { hackathon, sponsorRecord } = access;
+    const bounty = await findAccessibleBounty(
+      hackathon,
+      req.params.bountyId,
+      sponsorRecord,
+    );
+
+    if (!bounty) {
+      sendNotFound(res, "Bounty not found");
+      return;
+    }
+
+    if (
+      bounty.status === HackathonBountyStatus.AWARDED ||
+      bounty.status === HackathonBountyStatus.CANCELLED
+    ) {
+      sendConflict(res, `Bounty has already been ${bounty.status}`);
+      return;
+    }
+
+    const {
+      title,
+      description,
+      amount,
+      currency,
+      maxWinners,
+      contractId,
+      escrowAddress,
+      eligibility,
+      status,
+    } = req.body;
+
+    if (eligibility?.trackIds !== undefined) {
+      const trackError = validateEligibilityTracks(
+        hackathon,
+        eligibility.trackIds,
+      );
+      if (trackError) {
+        sendBadRequest(res, trackError);
+        return;
+      }
+    }
+
+    if (title !== undefined) bounty.title = title;
+    if (description !== undefined) bounty.description = description;
+    if (amount !== undefined) bounty.amount = amount;
+    if (currency !== undefined) bounty.currency = currency;
+    if (maxWinners !== undefined) bounty.maxWinners = maxWinners;
+    if (contractId !== undefined) bounty.contractId = contractId;
+    if (escrowAddress !== undefined) bounty.escrowAddress = escrowAddress;
+    if (status !== undefined) bounty.status = status;
+
+    if (eligibility) {
+      if (eligibility.trackIds !== undefined)
+        bounty.eligibility.trackIds = [
+          ...new Set<string>(eligibility.trackIds),
+        ].map((id) => new mongoose.Types.ObjectId(id));
+      if (eligibility.participationTypes !== undefined)
+        bounty.eligibility.participationTypes = [
+          ...new Set<"individual" | "team">(eligibility.participationTypes),
+        ];
+      if (eligibility.minTeamSize !== undefined)
+        bounty.eligibility.minTeamSize = eligibility.minTeamSize;
+      if (eligibility.maxTeamSize !== undefined)
+        bounty.eligibility.maxTeamSize = eligibility.maxTeamSize;
+      if (eligibility.requirements !== undefined)
+        bounty.eligibility.requirements = eligibility.requirements;
+    }
+
+    await bounty.save();
+
+    const sponsor =
+      sponsorRecord || (await HackathonSponsor.findById(bounty.sponsorId));
+
+    sendSuccess(
+      res,
+      formatBounty(bounty, sponsor),
+      "Bounty updated successfully",
+    );
+  } catch (error) {
+    console.error("Update bounty error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to update bounty",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/bounties/{bountyId}/entries:
+ *   get:
+ *     summary: List bounty entries
+ *     description: |
+ *       Retrieve the submissions that opted into a bounty, with whether each
+ *       still meets the bounty's eligibility rules and whether it was picked.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getBountyEntries = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const access = await loadBountyAccess(req, res, "view bounty entries");
+    if (!access) {
+      return;
+    }
+
+    const { hackathon, sponsorRecord } = access;
+    const { page = "1", limit = "10" } = req.query;
+
+    const bounty = await findAccessibleBounty(
+      hackathon,
+      req.params.bountyId,
+      sponsorRecord,
+    );
+
+    if (!bounty) {
+      sendNotFound(res, "Bounty not found");
+      return;
+    }
+
+    const query = {
+      hackathonId: hackathon._id,
+      "submission.bountyIds": bounty._id,
+      "submission.status": { $ne: "disqualified" },
+    };
+
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [totalItems, participants] = await Promise.all([
+      HackathonParticipant.countDocuments(query),
+      HackathonParticipant.find(query)
+        .populate({
+          path: "userId",
+          select: "email profile",
+        })
+        .sort({ "submission.submissionDate": 1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+    ]);
+
+    const winnersByParticipant = new Map(
+      bounty.winners.map((winner) => [winner.participantId.toString(), winner]),
+    );
+
+    const entries = participants.map((participant: any) => {
+      const participantUser = participant.userId;
+      const winner = winnersByParticipant.get(participant._id.toString());
+      const ineligibleReason = getBountyIneligibility(
+        bounty,
+        participant,
+        participant.submission.trackIds,
+      );
+
+      return {
+        participantId: participant._id.toString(),
+        user: {
+          _id: participantUser._id.toString(),
+          profile: {
+            firstName: participantUser.profile?.firstName || "",
+            lastName: participantUser.profile?.lastName || "",
+            username: participantUser.profile?.username || "",
+            avatar: participantUser.profile?.avatar || "",
+          },
+          email: participantUser.email || "",
+        },
+        participationType: participant.participationType,
+        teamName: participant.teamName || undefined,
+        submission: {
+          projectName: participant.submission.projectName,
+          category: participant.submission.category,
+          description: participant.submission.description,
+          logo: participant.submission.logo || undefined,
+          videoUrl: participant.submission.videoUrl || undefined,
+          links: participant.submission.links || [],
+          trackIds: (participant.submission.trackIds || []).map(String),
+          submissionDate: participant.submission.submissionDate.toISOString(),
+          status: participant.submission.status,
+        },
+        eligible: !ineligibleReason,
+        ineligibleReason: ineligibleReason || undefined,
+        winner: winner
+          ? { position: winner.position, amount: winner.amount }
+          : null,
+      };
+    });
+
+    const totalPages = Math.ceil(totalItems / limitNum);
+
+    sendSuccess(
+      res,
+      {
+        bounty: formatBounty(bounty),
+        entries,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalItems,
+          itemsPerPage: limitNum,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1,
+        },
+      },
+      "Bounty entries retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get bounty entries error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve bounty entries",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/bounties/{bountyId}/winners:
+ *   post:
+ *     summary: Pick bounty winners
+ *     description: |
+ *       The sponsor picks the winning entries and what each receives. Winners
+ *       must have opted into the bounty and meet its eligibility rules, and the
+ *       awarded amounts cannot exceed the bounty. Picks can be changed until a
+ *       winner has been paid out.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const selectBountyWinners = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId, bountyId } = req.params;
+    const { winners } = req.body;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const sponsorRecord = await findActiveSponsor(hackathonId, user._id);
+    if (!sponsorRecord || sponsorRecord.organizationId.toString() !== orgId) {
+      sendForbidden(res, "Only the bounty's sponsor can pick its winners");
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    }).select("title slug");
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const bounty = await findAccessibleBounty(
+      hackathon,
+      bountyId,
+      sponsorRecord,
+    );
+
+    if (!bounty) {
+      sendNotFound(res, "Bounty not found");
+      return;
+    }
+
+    if (bounty.status === HackathonBountyStatus.CANCELLED) {
+      sendConflict(res, "Bounty has been cancelled");
+      return;
+    }
+
+    if (bounty.winners.some((winner) => winner.paidAt)) {
+      sendConflict(
+        res,
+        "Winners cannot be changed after a payout has been released",
+      );
+      return;
+    }
+
+    if (winners.length > bounty.maxWinners) {
+      sendBadRequest(
+        res,
+        `This bounty can have at most ${bounty.maxWinners} winner(s)`,
+      );
+      return;
+    }
+
+    const participantIds = winners.map((w: any) => String(w.participantId));
+    if (new Set(participantIds).size !== participantIds.length) {
+      sendBadRequest(res, "Each entry can only win once");
+      return;
+    }
+
+    const positions = winners.map((w: any) => Number(w.position));
+    if (new Set(positions).size !== positions.length) {
+      sendBadRequest(res, "Each position can only be awarded once");
+      return;
+    }
+
+    const totalAwarded = winners.reduce(
+      (sum: number, w: any) => sum + Number(w.amount),
+      0,
+    );
+    if (totalAwarded > bounty.amount) {
+      sendBadRequest(
+        res,
+        `Awarded amounts (${totalAwarded}) exceed the bounty amount (${bounty.amount})`,
+      );
+      return;
+    }
+
+    const participants = await HackathonParticipant.find({
+      _id: { $in: participantIds },
+      hackathonId: hackathon._id,
+    }).populate("userId", "email profile.firstName profile.lastName");
+
+    for (const participantId of participantIds) {
+      const participant = participants.find(
+        (p) => (p._id as mongoose.Types.ObjectId).toString() === participantId,
+      );
+      if (!participant || !participant.submission) {
+        sendNotFound(res, `Submission ${participantId} not found`);
+        return;
+      }
+      if (
+        !(participant.submission.bountyIds || []).some(
+          (id) => id.toString() === bountyId,
+        )
+      ) {
+        sendBadRequest(
+          res,
+          `"${participant.submission.projectName}" did not enter this bounty`,
+        );
+        return;
+      }
+      if (participant.submission.status === "disqualified") {
+        sendBadRequest(
+          res,
+          `"${participant.submission.projectName}" has been disqualified`,
+        );
+        return;
+      }
+      const ineligibleReason = getBountyIneligibility(
+        bounty,
+        participant,
+        participant.submission.trackIds,
+      );
+      if (ineligibleReason) {
+        sendBadRequest(res, ineligibleReason);
+        return;
+      }
+    }
+
+    const selectedAt = new Date();
+    const previousWinnerIds = new Set(
+      bounty.winners.map((winner) => winner.participantId.toString()),
+    );
+
+    bounty.winners = winners.map((w: any) => ({
+      participantId: new mongoose.Types.ObjectId(w.participantId),
+      position: Number(w.position),
+      amount: Number(w.amount),
+      selectedBy: user._id,
+      selectedAt,
+    }));
+    bounty.status = HackathonBountyStatus.AWARDED;
+    bounty.winnersSelectedAt = selectedAt;
+    await bounty.save();
+
+    await HackathonPayoutService.syncBountyPayouts(bounty, participants);
+
+    // Let newly picked winners know
+    try {
+      const baseUrl = config.frontendUrl;
+      const hackathonName = hackathon.title || "Hackathon";
+
+      for (const winner of bounty.winners) {
+        if (previousWinnerIds.has(winner.participantId.toString())) {
+          continue;
+        }
+        const participant = participants.find(
+          (p) =>
+            (p._id as mongoose.Types.ObjectId).toString() ===
+            winner.participantId.toString(),
+        );
+        const participantUser = participant?.userId as any;
+        if (!participantUser?.email) continue;
+
+        await NotificationService.sendSingleNotification(
+          {
+            userId: participantUser._id,
+            email: participantUser.email,
+            name:
+              `${participantUser.profile?.firstName || ""} ${participantUser.profile?.lastName || ""}`.trim() ||
+              participantUser.email,
+          },
+          {
+            type: NotificationType.HACKATHON_BOUNTY_WON,
+            title: `🏅 You won ${bounty.title}!`,
+            message: `${sponsorRecord.sponsorName} picked your project in "${hackathonName}" as a winner of "${bounty.title}".`,
+            data: {
+              hackathonId: hackathon._id as mongoose.Types.ObjectId,
+              hackathonName,
+              hackathonSlug: hackathon.slug,
+              bountyId: bounty._id,
+              bountyTitle: bounty.title,
+              amount: winner.amount,
+            },
+            emailTemplate: EmailTemplatesService.getTemplate(
+              "hackathon-bounty-won",
+              {
+                hackathonId: (
+                  hackathon._id as mongoose.Types.ObjectId
+                ).toString(),
+                hackathonName,
+                hackathonSlug: hackathon.slug,
+                bountyTitle: bounty.title,
+                sponsorName: sponsorRecord.sponsorName,
+                amount: winner.amount,
+                currency: bounty.currency,
+                unsubscribeUrl: `${baseUrl}/unsubscribe?email=${encodeURIComponent(participantUser.email)}`,
+              },
+            ),
+          },
+        );
+      }
+    } catch (notificationError) {
+      console.error(
+        "Error sending bounty winner notifications:",
+        notificationError,
+      );
+      // Don't fail the whole operation if notification fails
+    }
+
+    sendSuccess(
+      res,
+      formatBounty(bounty, sponsorRecord),
+      "Bounty winners selected successfully",
+    );
+  } catch (error) {
+    console.error("Select bounty winners error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to select bounty winners",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Get a hackathon's sponsor bounties
+ * GET /hackathons/{hackathonSlugOrId}/bounties
+ */
+export const getPublicBounties = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const hackathon = await resolveHackathonByIdOrSlug(
+      req.params.hackathonSlugOrId,
+      { includePublishedOnly: true },
+    );
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const bounties = await HackathonBounty.find({
+      hackathonId: hackathon._id,
+      status: { $ne: HackathonBountyStatus.CANCELLED },
+    }).sort({ createdAt: 1 });
+
+    const sponsors = await HackathonSponsor.find({
+      _id: { $in: bounties.map((bounty) => bounty.sponsorId) },
+    });
+    const sponsorsById = new Map(
+      sponsors.map((sponsor) => [
+        (sponsor._id as mongoose.Types.ObjectId).toString(),
+        sponsor,
+      ]),
+    );
+
+    const data = bounties.map((bounty) => {
+      const formatted = formatBounty(
+        bounty,
+        sponsorsById.get(bounty.sponsorId.toString()),
+      );
+      return {
+        ...formatted,
+        // Escrow and payout details stay with organizers and admins
+        contractId: undefined,
+        escrowAddress: undefined,
+        winners: formatted.winners.map(
+          ({ participantId, position, amount }) => ({
+            participantId,
+            position,
+            amount,
+          }),
+        ),
+      };
+    });
+
+    sendSuccess(res, data, "Bounties retrieved successfully");
+  } catch (error) {
+    console.error("Get public bounties error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve bounties",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
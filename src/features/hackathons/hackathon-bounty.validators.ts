@@ -0,0 +1,144 @@
+import { body, param, query, ValidationChain } from "express-validator";
+import { HackathonBountyStatus } from "../../models/hackathon-bounty.model.js";
+
+export const sponsorIdParam: ValidationChain = param("sponsorId")
+  .isMongoId()
+  .withMessage("Invalid sponsor ID");
+
+export const bountyIdParam: ValidationChain = param("bountyId")
+  .isMongoId()
+  .withMessage("Invalid bounty ID");
+
+export const inviteSponsorSchema: ValidationChain[] = [
+  body("email")
+    .isEmail()
+    .withMessage("Valid email address is required")
+    .normalizeEmail(),
+  body("sponsorName")
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Sponsor name must be between 1 and 100 characters"),
+  body("sponsorLogo")
+    .optional()
+    .isURL()
+    .withMessage("Sponsor logo must be a valid URL"),
+  body("partnerLink")
+    .optional()
+    .isURL()
+    .withMessage("Partner link must be a valid URL"),
+];
+
+const bountyFields = (optional: boolean): ValidationChain[] => {
+  const field = (name: string) =>
+    optional ? body(name).optional() : body(name);
+
+  return [
+    field("title")
+      .trim()
+      .isLength({ min: 3, max: 200 })
+      .withMessage("Title must be between 3 and 200 characters"),
+    field("description")
+      .trim()
+      .isLength({ min: 10, max: 5000 })
+      .withMessage("Description must be between 10 and 5000 characters"),
+    field("amount")
+      .isFloat({ gt: 0 })
+      .withMessage("Amount must be a positive number"),
+    body("currency")
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 20 })
+      .withMessage("Currency must be between 1 and 20 characters"),
+    body("maxWinners")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Max winners must be between 1 and 100"),
+    body("contractId")
+      .optional()
+      .trim()
+      .isLength({ min: 1 })
+      .withMessage("Contract ID must not be empty"),
+    body("escrowAddress")
+      .optional()
+      .trim()
+      .isLength({ min: 1 })
+      .withMessage("Escrow address must not be empty"),
+    body("eligibility")
+      .optional()
+      .isObject()
+      .withMessage("Eligibility must be an object"),
+    body("eligibility.trackIds")
+      .optional()
+      .isArray()
+      .withMessage("Eligible track IDs must be an array"),
+    body("eligibility.trackIds.*")
+      .isMongoId()
+      .withMessage("Each track ID must be a valid MongoDB ObjectId"),
+    body("eligibility.participationTypes")
+      .optional()
+      .isArray()
+      .withMessage("Participation types must be an array"),
+    body("eligibility.participationTypes.*")
+      .isIn(["individual", "team"])
+      .withMessage("Participation type must be 'individual' or 'team'"),
+    body("eligibility.minTeamSize")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Minimum team size must be a positive integer"),
+    body("eligibility.maxTeamSize")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Maximum team size must be a positive integer"),
+    body("eligibility.requirements")
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage("Requirements cannot exceed 2000 characters"),
+  ];
+};
+
+export const createBountySchema: ValidationChain[] = [
+  body("sponsorId")
+    .optional()
+    .isMongoId()
+    .withMessage("Sponsor ID must be a valid MongoDB ObjectId"),
+  ...bountyFields(false),
+];
+
+export const updateBountySchema: ValidationChain[] = [
+  ...bountyFields(true),
+  body("status")
+    .optional()
+    .isIn([
+      HackathonBountyStatus.OPEN,
+      HackathonBountyStatus.CLOSED,
+      HackathonBountyStatus.CANCELLED,
+    ])
+    .withMessage("Status must be one of: open, closed, cancelled"),
+];
+
+export const getBountyEntriesQuerySchema: ValidationChain[] = [
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+export const selectBountyWinnersSchema: ValidationChain[] = [
+  body("winners")
+    .isArray({ min: 1 })
+    .withMessage("Winners must be a non-empty array"),
+  body("winners.*.participantId")
+    .isMongoId()
+    .withMessage("Each participant ID must be a valid MongoDB ObjectId"),
+  body("winners.*.position")
+    .isInt({ min: 1 })
+    .withMessage("Position must be a positive integer"),
+  body("winners.*.amount")
+    .isFloat({ min: 0 })
+    .withMessage("Amount must be a non-negative number"),
+];
@@ -211,7 +211,6 @@ export const publishHackathon = async (
           userId: user._id,
           email: user.email,
           name: creatorName,
-          preferences: user.settings?.notifications,
         },
         {
           type: NotificationType.HACKATHON_PUBLISHED,
@@ -731,7 +730,6 @@ export const deleteHackathon = async (
                   userId: memberUser._id,
                   email: memberUser.email,
                   name: memberName,
-                  preferences: memberUser.settings?.notifications,
                 },
               ],
               emailTemplate: EmailTemplatesService.getTemplate(
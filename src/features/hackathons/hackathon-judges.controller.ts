@@ -0,0 +1,766 @@
+import { Request, Response } from "express";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Hackathon, { IHackathon } from "../../models/hackathon.model.js";
+import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import HackathonJudgingScore from "../../models/hackathon-judging-score.model.js";
+import HackathonJudge, {
+  HackathonJudgeStatus,
+  IHackathonJudge,
+} from "../../models/hackathon-judge.model.js";
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendBadRequest,
+  sendConflict,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  canManageHackathons,
+  findTrack,
+  judgeCoversTracks,
+  resolveHackathonByIdOrSlug,
+} from "./hackathon.helpers.js";
+import { sendEmail } from "../../utils/email.utils.js";
+import { config } from "../../config/main.config.js";
+
+const transformJudge = (judge: IHackathonJudge) => ({
+  _id: (judge._id as mongoose.Types.ObjectId).toString(),
+  hackathonId: judge.hackathonId.toString(),
+  email: judge.email,
+  name: judge.name || undefined,
+  userId: judge.userId ? judge.userId.toString() : undefined,
+  status: judge.status,
+  expiresAt:
+    judge.status === HackathonJudgeStatus.INVITED
+      ? judge.expiresAt.toISOString()
+      : undefined,
+  acceptedAt: judge.acceptedAt ? judge.acceptedAt.toISOString() : undefined,
+  assignedSubmissions: (judge.assignedSubmissions || []).map((id) =>
+    id.toString(),
+  ),
+  assignedCount: (judge.assignedSubmissions || []).length,
+  trackIds: (judge.trackIds || []).map((id) => id.toString()),
+});
+
+/**
+ * Check requested judge tracks against the hackathon's tracks.
+ * Returns an error message, or null when every track exists.
+ */
+const validateJudgeTracks = (
+  hackathon: Pick<IHackathon, "tracks">,
+  trackIds: string[],
+): string | null => {
+  const unknownTrack = trackIds.find((id) => !findTrack(hackathon, id));
+  return unknownTrack
+    ? `Track ${unknownTrack} does not exist in this hackathon`
+    : null;
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/judges:
+ *   post:
+ *     summary: Invite a judge to a hackathon
+ *     description: |
+ *       Invite an external judge by email. The judge gets access to their assigned
+ *       submissions once they accept. Pass `trackIds` to limit the judge to
+ *       specific tracks; judges without tracks score every track.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const inviteJudge = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId } = req.params;
+    const { email, name, trackIds } = req.body;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can invite judges for this organization",
+      );
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    }).select("title slug tracks");
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const judgeTrackIds = [...new Set<string>(trackIds || [])];
+    const trackError = validateJudgeTracks(hackathon, judgeTrackIds);
+    if (trackError) {
+      sendBadRequest(res, trackError);
+      return;
+    }
+
+    const normalizedEmail = String(email).toLowerCase().trim();
+    const token = crypto.randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+    let judge = await HackathonJudge.findOne({
+      hackathonId: hackathon._id,
+      email: normalizedEmail,
+    });
+
+    if (judge && judge.status === HackathonJudgeStatus.ACTIVE) {
+      sendConflict(res, "This person is already a judge for this hackathon");
+      return;
+    }
+
+    if (judge) {
+      // Re-invite: refresh the token for pending or previously removed judges
+      judge.status = HackathonJudgeStatus.INVITED;
+      judge.token = token;
+      judge.expiresAt = expiresAt;
+      judge.invitedBy = user._id;
+      judge.removedAt = undefined;
+      if (name) {
+        judge.name = name;
+      }
+      if (trackIds !== undefined) {
+        judge.trackIds = judgeTrackIds.map(
+          (id) => new mongoose.Types.ObjectId(id),
+        );
+      }
+      await judge.save();
+    } else {
+      judge = await HackathonJudge.create({
+        hackathonId: hackathon._id,
+        organizationId: new mongoose.Types.ObjectId(orgId),
+        email: normalizedEmail,
+        name,
+        invitedBy: user._id,
+        token,
+        expiresAt,
+        trackIds: judgeTrackIds,
+      });
+    }
+
+    const inviteLink = `${config.frontendUrl}/hackathons/${hackathon.slug || hackathon._id}/judges/accept?token=${token}`;
+
+    try {
+      const inviterName =
+        `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
+        user.email;
+      const hackathonName = hackathon.title || "Hackathon";
+      const trackNames = judge.trackIds
+        .map((id) => findTrack(hackathon, id)?.name)
+        .filter(Boolean)
+        .join(", ");
+
+      await sendEmail({
+        to: normalizedEmail,
+        subject: `You've been invited to judge ${hackathonName}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #2c3e50;">Judging Invitation</h2>
+            <p>Hello${name ? ` ${name}` : ""},</p>
+            <p><strong>${inviterName}</strong> has invited you to judge submissions for the hackathon <strong>${hackathonName}</strong>${trackNames ? ` in the following tracks: <strong>${trackNames}</strong>` : ""}.</p>
+            <p>Sign in or create an account with this email address, then accept the invitation to see the submissions assigned to you.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${inviteLink}" style="background-color: #4CAF50; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+                Accept Invitation
+              </a>
+            </div>
+            <p>Or copy and paste this link into your browser:</p>
+            <p style="color: #7f8c8d; word-break: break-all;">${inviteLink}</p>
+            <p style="color: #7f8c8d; font-size: 12px; margin-top: 30px;">This invitation will expire in 7 days.</p>
+          </div>
+        `,
+        text: `${inviterName} has invited you to judge ${hackathonName}. Accept here: ${inviteLink}`,
+      });
+    } catch (emailError) {
+      console.error("Failed to send judge invitation email:", emailError);
+      // Don't fail the request if email fails
+    }
+
+    sendCreated(
+      res,
+      { ...transformJudge(judge), inviteLink },
+      "Judge invited successfully",
+    );
+  } catch (error) {
+    console.error("Invite judge error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to invite judge",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/judges:
+ *   get:
+ *     summary: List hackathon judges
+ *     description: Retrieve invited and active judges with their assignments and grading progress
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getJudges = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId } = req.params;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can view judges for this organization",
+      );
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    }).select("_id");
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const judges = await HackathonJudge.find({
+      hackathonId: hackathon._id,
+      status: { $ne: HackathonJudgeStatus.REMOVED },
+    }).sort({ createdAt: 1 });
+
+    // Count how many assigned submissions each judge has graded
+    const judgeUserIds = judges
+      .map((judge) => judge.userId)
+      .filter(Boolean) as mongoose.Types.ObjectId[];
+
+    const gradedCounts = await HackathonJudgingScore.aggregate([
+      {
+        $match: {
+          hackathonId: hackathon._id,
+          judgeId: { $in: judgeUserIds },
+        },
+      },
+      {
+        $group: { _id: "$judgeId", submissionIds: { $push: "$submissionId" } },
+      },
+    ]);
+
+    const gradedByJudge = new Map<string, Set<string>>(
+      gradedCounts.map((entry: any) => [
+        entry._id.toString(),
+        new Set(entry.submissionIds.map((id: any) => id.toString())),
+      ]),
+    );
+
+    const data = judges.map((judge) => {
+      const graded = judge.userId
+        ? gradedByJudge.get(judge.userId.toString())
+        : undefined;
+      const gradedCount = graded
+        ? judge.assignedSubmissions.filter((id) => graded.has(id.toString()))
+            .length
+        : 0;
+
+      return { ...transformJudge(judge), gradedCount };
+    });
+
+    sendSuccess(res, data, "Judges retrieved successfully");
+  } catch (error) {
+    console.error("Get judges error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve judges",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/judges/{judgeId}:
+ *   delete:
+ *     summary: Remove a judge from a hackathon
+ *     description: Revoke a judge's access and clear their assignments. Scores already submitted are kept.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const removeJudge = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId, judgeId } = req.params;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can remove judges for this organization",
+      );
+      return;
+    }
+
+    const judge = await HackathonJudge.findOne({
+      _id: judgeId,
+      hackathonId: new mongoose.Types.ObjectId(hackathonId),
+      organizationId: new mongoose.Types.ObjectId(orgId),
+      status: { $ne: HackathonJudgeStatus.REMOVED },
+    });
+
+    if (!judge) {
+      sendNotFound(res, "Judge not found");
+      return;
+    }
+
+    judge.status = HackathonJudgeStatus.REMOVED;
+    judge.removedAt = new Date();
+    judge.assignedSubmissions = [];
+    await judge.save();
+
+    sendSuccess(res, transformJudge(judge), "Judge removed successfully");
+  } catch (error) {
+    console.error("Remove judge error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to remove judge",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/judges/{judgeId}/tracks:
+ *   put:
+ *     summary: Set the tracks a judge scores
+ *     description: |
+ *       Replace the judge's tracks. An empty list lets the judge score every track.
+ *       Assigned submissions outside the new tracks are unassigned.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const updateJudgeTracks = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId, judgeId } = req.params;
+    const { trackIds = [] } = req.body;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can manage judges for this organization",
+      );
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    }).select("tracks");
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const judge = await HackathonJudge.findOne({
+      _id: judgeId,
+      hackathonId: hackathon._id,
+      status: { $ne: HackathonJudgeStatus.REMOVED },
+    });
+
+    if (!judge) {
+      sendNotFound(res, "Judge not found");
+      return;
+    }
+
+    const judgeTrackIds = [...new Set<string>(trackIds)];
+    const trackError = validateJudgeTracks(hackathon, judgeTrackIds);
+    if (trackError) {
+      sendBadRequest(res, trackError);
+      return;
+    }
+
+    judge.trackIds = judgeTrackIds.map((id) => new mongoose.Types.ObjectId(id));
+
+    // Drop assignments the judge no longer covers
+    if (judge.assignedSubmissions.length > 0) {
+      const assigned = await HackathonParticipant.find({
+        _id: { $in: judge.assignedSubmissions },
+      })
+        .select("_id submission.trackIds")
+        .lean();
+
+      judge.assignedSubmissions = assigned
+        .filter((participant: any) =>
+          judgeCoversTracks(judge, participant.submission?.trackIds),
+        )
+        .map((participant: any) => participant._id);
+    }
+
+    await judge.save();
+
+    sendSuccess(
+      res,
+      transformJudge(judge),
+      "Judge tracks updated successfully",
+    );
+  } catch (error) {
+    console.error("Update judge tracks error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to update judge tracks",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/judges/assignments:
+ *   post:
+ *     summary: Assign shortlisted submissions to judges
+ *     description: |
+ *       In `manual` mode, replaces the given judge's assignments with `participantIds`.
+ *       In `round_robin` mode, distributes every shortlisted submission across all
+ *       invited and active judges, `judgesPerSubmission` judges each (default 1),
+ *       replacing existing assignments. Submissions only go to judges who score
+ *       one of the submission's tracks.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const assignSubmissionsToJudges = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId } = req.params;
+    const { mode, judgeId, participantIds = [] } = req.body;
+    const judgesPerSubmission = parseInt(req.body.judgesPerSubmission, 10) || 1;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can assign judges for this organization",
+      );
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    }).select("_id");
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const shortlistedQuery = {
+      hackathonId: hackathon._id,
+      organizationId: new mongoose.Types.ObjectId(orgId),
+      "submission.status": "shortlisted",
+    };
+
+    if (mode === "manual") {
+      const judge = await HackathonJudge.findOne({
+        _id: judgeId,
+        hackathonId: hackathon._id,
+        status: { $ne: HackathonJudgeStatus.REMOVED },
+      });
+
+      if (!judge) {
+        sendNotFound(res, "Judge not found");
+        return;
+      }
+
+      const uniqueIds = [...new Set<string>(participantIds)];
+      const shortlisted = await HackathonParticipant.find({
+        ...shortlistedQuery,
+        _id: { $in: uniqueIds },
+      })
+        .select("_id submission.trackIds")
+        .lean();
+
+      if (shortlisted.length !== uniqueIds.length) {
+        sendBadRequest(
+          res,
+          "All assigned submissions must be shortlisted submissions of this hackathon",
+        );
+        return;
+      }
+
+      const outsideTracks = shortlisted.find(
+        (p: any) => !judgeCoversTracks(judge, p.submission?.trackIds),
+      );
+      if (outsideTracks) {
+        sendBadRequest(
+          res,
+          `Submission ${outsideTracks._id} is not in any of this judge's tracks`,
+        );
+        return;
+      }
+
+      judge.assignedSubmissions = shortlisted.map(
+        (p: any) => p._id,
+      ) as mongoose.Types.ObjectId[];
+      await judge.save();
+
+      sendSuccess(
+        res,
+        { judges: [transformJudge(judge)] },
+        "Submissions assigned successfully",
+      );
+      return;
+    }
+
+    // Round-robin across every judge who has not been removed
+    const judges = await HackathonJudge.find({
+      hackathonId: hackathon._id,
+      status: { $ne: HackathonJudgeStatus.REMOVED },
+    }).sort({ createdAt: 1 });
+
+    if (judges.length === 0) {
+      sendBadRequest(res, "Invite at least one judge before assigning");
+      return;
+    }
+
+    if (judgesPerSubmission > judges.length) {
+      sendBadRequest(
+        res,
+        `Cannot assign ${judgesPerSubmission} judges per submission with only ${judges.length} judge(s)`,
+      );
+      return;
+    }
+
+    const shortlisted = await HackathonParticipant.find(shortlistedQuery)
+      .select("_id submission.trackIds")
+      .sort({ _id: 1 })
+      .lean();
+
+    const assignments: mongoose.Types.ObjectId[][] = judges.map(() => []);
+    let cursor = 0;
+    for (const participant of shortlisted) {
+      const eligible = judges
+        .map((judge, index) => index)
+        .filter((index) =>
+          judgeCoversTracks(judges[index], participant.submission?.trackIds),
+        );
+
+      if (eligible.length < judgesPerSubmission) {
+        sendBadRequest(
+          res,
+          `Submission ${participant._id} needs ${judgesPerSubmission} judge(s) from its tracks but only ${eligible.length} are available`,
+        );
+        return;
+      }
+
+      // Least-loaded judges first, then in turn from the cursor. With no
+      // track restrictions this is a plain rotation over all judges.
+      const distance = (index: number) =>
+        (index - cursor + judges.length) % judges.length;
+      const chosen = eligible
+        .sort(
+          (a, b) =>
+            assignments[a].length - assignments[b].length ||
+            distance(a) - distance(b),
+        )
+        .slice(0, judgesPerSubmission);
+
+      for (const index of chosen) {
+        assignments[index].push(participant._id as mongoose.Types.ObjectId);
+      }
+      cursor = (chosen[chosen.length - 1] + 1) % judges.length;
+    }
+
+    await Promise.all(
+      judges.map((judge, index) => {
+        judge.assignedSubmissions = assignments[index];
+        return judge.save();
+      }),
+    );
+
+    sendSuccess(
+      res,
+      {
+        judges: judges.map(transformJudge),
+        totalSubmissions: shortlisted.length,
+        judgesPerSubmission,
+      },
+      "Submissions assigned successfully",
+    );
+  } catch (error) {
+    console.error("Assign submissions to judges error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to assign submissions to judges",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Accept judge invitation
+ * POST /hackathons/{hackathonSlugOrId}/judges/accept
+ */
+export const acceptJudgeInvitation = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      sendForbidden(res, "Authentication required");
+      return;
+    }
+
+    const { hackathonSlugOrId } = req.params;
+    const { token } = req.body;
+
+    const judge = await HackathonJudge.findOne({ token });
+
+    if (!judge) {
+      sendNotFound(res, "Invalid invitation token");
+      return;
+    }
+
+    if (
+      judge.status !== HackathonJudgeStatus.INVITED ||
+      judge.expiresAt < new Date()
+    ) {
+      sendBadRequest(res, "Invitation has expired or is no longer valid");
+      return;
+    }
+
+    if (judge.email.toLowerCase() !== user.email.toLowerCase()) {
+      sendForbidden(
+        res,
+        "This invitation was sent to a different email address",
+      );
+      return;
+    }
+
+    const hackathon = await resolveHackathonByIdOrSlug(hackathonSlugOrId);
+
+    if (
+      !hackathon ||
+      (hackathon._id as mongoose.Types.ObjectId).toString() !==
+        judge.hackathonId.toString()
+    ) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    judge.status = HackathonJudgeStatus.ACTIVE;
+    judge.userId = user._id;
+    judge.acceptedAt = new Date();
+    await judge.save();
+
+    sendSuccess(
+      res,
+      {
+        ...transformJudge(judge),
+        organizationId: judge.organizationId.toString(),
+      },
+      "Judge invitation accepted successfully",
+    );
+  } catch (error) {
+    console.error("Accept judge invitation error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to accept judge invitation",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
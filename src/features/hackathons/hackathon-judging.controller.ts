@@ -9,20 +9,70 @@ import {
   sendNotFound,
   sendForbidden,
   sendBadRequest,
+  sendConflict,
   sendInternalServerError,
   sendPaginatedResponse,
 } from "../../utils/apiResponse.js";
+import { IHackathonJudge } from "../../models/hackathon-judge.model.js";
 import {
   AuthenticatedRequest,
   canManageHackathons,
+  findActiveJudge,
+  findPhase,
+  findTrack,
+  getJudgingCriteria,
+  getParticipantRank,
+  judgeCoversTracks,
 } from "./hackathon.helpers.js";
+import { computeNormalizedResults } from "./hackathon-judging.helpers.js";
+
+// Standard deviation (on the 0-100 weighted score scale) above which
+// judges are considered to disagree on a submission
+const DEFAULT_DISAGREEMENT_THRESHOLD = 15;
+
+/**
+ * Which participants are judged: shortlisted submissions by default, or
+ * everyone who entered a phase when judging that phase
+ */
+const judgeableParticipantsFilter = (phaseId?: string) =>
+  phaseId
+    ? {
+        "phaseSubmissions.phaseId": new mongoose.Types.ObjectId(phaseId),
+        "submission.status": { $ne: "disqualified" },
+      }
+    : { "submission.status": "shortlisted" };
+
+const formatPhaseSubmission = (participant: any, phaseId?: string) => {
+  const submission = phaseId
+    ? (participant.phaseSubmissions || []).find(
+        (entry: any) => entry.phaseId.toString() === phaseId,
+      )
+    : undefined;
+  return submission
+    ? {
+        phaseId,
+        answers: submission.answers || [],
+        submittedAt: submission.submittedAt.toISOString(),
+        updatedAt: submission.updatedAt
+          ? submission.updatedAt.toISOString()
+          : undefined,
+      }
+    : undefined;
+};
 
 /**
  * @swagger
  * /api/organizations/{orgId}/hackathons/{hackathonId}/judging/submissions:
  *   get:
  *     summary: Get shortlisted submissions for judging
- *     description: Retrieve all shortlisted submissions with criteria and existing scores
+ *     description: |
+ *       Retrieve shortlisted submissions with criteria and existing scores.
+ *       Owners and admins see every judged submission with all scores; invited
+ *       judges see only the submissions assigned to them and their own scores.
+ *       Pass `trackId` to judge a track: only submissions entered in the track
+ *       are returned, with the track's criteria and scores. Pass `phaseId` to
+ *       judge a phase: everyone who submitted to the phase is returned, with
+ *       their phase submission and the scores given in that phase.
  *     tags: [Hackathons]
  *     security:
  *       - bearerAuth: []
@@ -35,6 +85,8 @@ export const getJudgingSubmissions = async (
     const user = (req as AuthenticatedRequest).user;
     const { orgId, hackathonId } = req.params;
     const { page = "1", limit = "10" } = req.query;
+    const trackId = req.query.trackId as string | undefined;
+    const phaseId = req.query.phaseId as string | undefined;
 
     if (!user) {
       sendError(res, "Authentication required", 401);
@@ -46,16 +98,20 @@ export const getJudgingSubmissions = async (
       user.email,
     );
 
+    let judgeRecord: IHackathonJudge | null = null;
     if (!canManage) {
       if (!organization) {
         sendNotFound(res, "Organization not found");
         return;
       }
-      sendForbidden(
-        res,
-        "Only owners and admins can view judging submissions for this organization",
-      );
-      return;
+      judgeRecord = await findActiveJudge(hackathonId, user._id);
+      if (!judgeRecord || judgeRecord.organizationId.toString() !== orgId) {
+        sendForbidden(
+          res,
+          "Only owners, admins and judges can view judging submissions for this hackathon",
+        );
+        return;
+      }
     }
 
     if (!mongoose.Types.ObjectId.isValid(hackathonId)) {
@@ -66,19 +122,37 @@ export const getJudgingSubmissions = async (
     const hackathon = await Hackathon.findOne({
       _id: hackathonId,
       organizationId: orgId,
-    }).select("criteria");
+    }).select("criteria tracks phases");
 
     if (!hackathon) {
       sendNotFound(res, "Hackathon not found");
       return;
     }
 
-    // First, find all shortlisted participants that have been judged
+    if (trackId && !findTrack(hackathon, trackId)) {
+      sendNotFound(res, "Track not found");
+      return;
+    }
+
+    if (phaseId && !findPhase(hackathon, phaseId)) {
+      sendNotFound(res, "Phase not found");
+      return;
+    }
+
+    if (trackId && judgeRecord && !judgeCoversTracks(judgeRecord, [trackId])) {
+      sendForbidden(res, "You are not a judge for this track");
+      return;
+    }
+
+    // First, find all judgeable participants that have been judged
     const baseQuery = {
       hackathonId: new mongoose.Types.ObjectId(hackathonId),
       organizationId: new mongoose.Types.ObjectId(orgId),
-      "submission.status": "shortlisted",
-      submission: { $exists: true, $ne: null },
+      ...judgeableParticipantsFilter(phaseId),
+      ...(!phaseId && { submission: { $exists: true, $ne: null } }),
+      ...(trackId && {
+        "submission.trackIds": new mongoose.Types.ObjectId(trackId),
+      }),
     };
 
     // Get all shortlisted participants
@@ -92,13 +166,26 @@ export const getJudgingSubmissions = async (
       (p: any) => p._id,
     ) as mongoose.Types.ObjectId[];
 
-    // Find which submissions have been judged
-    const judgedSubmissionIds = (await HackathonJudgingScore.distinct(
-      "submissionId",
-      {
-        submissionId: { $in: allSubmissionIds },
-      },
-    )) as mongoose.Types.ObjectId[];
+    // Judges see every submission assigned to them; organizers see the
+    // submissions that have been judged
+    let judgedSubmissionIds: mongoose.Types.ObjectId[];
+    if (judgeRecord) {
+      const assignedIds = new Set(
+        judgeRecord.assignedSubmissions.map((id) => id.toString()),
+      );
+      judgedSubmissionIds = allSubmissionIds.filter((id) =>
+        assignedIds.has(id.toString()),
+      );
+    } else {
+      judgedSubmissionIds = (await HackathonJudgingScore.distinct(
+        "submissionId",
+        {
+          submissionId: { $in: allSubmissionIds },
+          trackId: trackId || null,
+          phaseId: phaseId || null,
+        },
+      )) as mongoose.Types.ObjectId[];
+    }
 
     if (judgedSubmissionIds.length === 0) {
       sendPaginatedResponse(
@@ -148,9 +235,13 @@ export const getJudgingSubmissions = async (
       (p: any) => p._id,
     ) as mongoose.Types.ObjectId[];
 
-    // Fetch all scores for these submissions
+    // Fetch all scores for these submissions (only their own for judges).
+    // Scores without a track or phase are the hackathon-wide scores.
     const allScores = await HackathonJudgingScore.find({
       submissionId: { $in: submissionIds },
+      trackId: trackId || null,
+      phaseId: phaseId || null,
+      ...(judgeRecord && { judgeId: new mongoose.Types.ObjectId(user._id) }),
     })
       .populate({
         path: "judgeId",
@@ -226,6 +317,7 @@ export const getJudgingSubmissions = async (
               _id: participant._id.toString(),
               projectName: participant.submission.projectName,
               category: participant.submission.category,
+              trackIds: (participant.submission.trackIds || []).map(String),
               description: participant.submission.description,
               logo: participant.submission.logo || undefined,
               videoUrl: participant.submission.videoUrl || undefined,
@@ -237,7 +329,10 @@ export const getJudgingSubmissions = async (
               rank: participant.rank || undefined,
             }
           : undefined,
-        criteria: hackathon.criteria || [],
+        phaseSubmission: formatPhaseSubmission(participant, phaseId),
+        trackId: trackId || undefined,
+        phaseId: phaseId || undefined,
+        criteria: getJudgingCriteria(hackathon, trackId),
         scores: scores,
         averageScore: averageScore
           ? Math.round(averageScore * 100) / 100
@@ -276,7 +371,11 @@ export const getJudgingSubmissions = async (
  * /api/organizations/{orgId}/hackathons/{hackathonId}/judging/submissions/{participantId}/grade:
  *   post:
  *     summary: Submit or update grades for a submission
- *     description: Grade a shortlisted submission based on judging criteria
+ *     description: |
+ *       Grade a shortlisted submission based on judging criteria. Judges can only
+ *       grade submissions assigned to them. In hackathons with tracks, `trackId`
+ *       picks the track being judged and its criteria. `phaseId` grades a
+ *       participant's entry to that phase instead of their shortlisted submission.
  *     tags: [Hackathons]
  *     security:
  *       - bearerAuth: []
@@ -288,7 +387,7 @@ export const submitGrade = async (
   try {
     const user = (req as AuthenticatedRequest).user;
     const { orgId, hackathonId, participantId } = req.params;
-    const { scores: submittedScores, notes } = req.body;
+    const { scores: submittedScores, notes, trackId, phaseId } = req.body;
 
     if (!user) {
       sendError(res, "Authentication required", 401);
@@ -300,16 +399,28 @@ export const submitGrade = async (
       user.email,
     );
 
+    let judgeRecord: IHackathonJudge | null = null;
     if (!canManage) {
       if (!organization) {
         sendNotFound(res, "Organization not found");
         return;
       }
-      sendForbidden(
-        res,
-        "Only owners and admins can grade submissions for this organization",
-      );
-      return;
+      judgeRecord = await findActiveJudge(hackathonId, user._id);
+      if (!judgeRecord || judgeRecord.organizationId.toString() !== orgId) {
+        sendForbidden(
+          res,
+          "Only owners, admins and judges can grade submissions for this hackathon",
+        );
+        return;
+      }
+      if (
+        !judgeRecord.assignedSubmissions.some(
+          (id) => id.toString() === participantId,
+        )
+      ) {
+        sendForbidden(res, "This submission is not assigned to you");
+        return;
+      }
     }
 
     if (!mongoose.Types.ObjectId.isValid(hackathonId)) {
@@ -326,14 +437,35 @@ export const submitGrade = async (
     const hackathon = await Hackathon.findOne({
       _id: hackathonId,
       organizationId: orgId,
-    }).select("criteria");
+    }).select("criteria tracks phases");
 
     if (!hackathon) {
       sendNotFound(res, "Hackathon not found");
       return;
     }
 
-    if (!hackathon.criteria || hackathon.criteria.length === 0) {
+    if (phaseId && !findPhase(hackathon, phaseId)) {
+      sendNotFound(res, "Phase not found");
+      return;
+    }
+
+    if (hackathon.tracks && hackathon.tracks.length > 0 && !trackId) {
+      sendBadRequest(res, "Track ID is required to grade submissions");
+      return;
+    }
+
+    if (trackId && !findTrack(hackathon, trackId)) {
+      sendNotFound(res, "Track not found");
+      return;
+    }
+
+    if (trackId && judgeRecord && !judgeCoversTracks(judgeRecord, [trackId])) {
+      sendForbidden(res, "You are not a judge for this track");
+      return;
+    }
+
+    const criteria = getJudgingCriteria(hackathon, trackId);
+    if (criteria.length === 0) {
       sendBadRequest(res, "Hackathon has no judging criteria defined");
       return;
     }
@@ -350,13 +482,34 @@ export const submitGrade = async (
       return;
     }
 
-    if (!participant.submission) {
+    if (phaseId) {
+      if (participant.submission?.status === "disqualified") {
+        sendBadRequest(res, "Disqualified participants cannot be graded");
+        return;
+      }
+      if (
+        !(participant.phaseSubmissions || []).some(
+          (entry) => entry.phaseId.toString() === phaseId,
+        )
+      ) {
+        sendBadRequest(res, "Participant has no submission for this phase");
+        return;
+      }
+    } else if (!participant.submission) {
       sendBadRequest(res, "Participant has no submission");
       return;
+    } else if (participant.submission.status !== "shortlisted") {
+      sendBadRequest(res, "Only shortlisted submissions can be graded");
+      return;
     }
 
-    if (participant.submission.status !== "shortlisted") {
-      sendBadRequest(res, "Only shortlisted submissions can be graded");
+    if (
+      trackId &&
+      !(participant.submission?.trackIds || []).some(
+        (id) => id.toString() === trackId,
+      )
+    ) {
+      sendBadRequest(res, "Submission is not entered in this track");
       return;
     }
 
@@ -366,16 +519,16 @@ export const submitGrade = async (
       return;
     }
 
-    if (submittedScores.length !== hackathon.criteria.length) {
+    if (submittedScores.length !== criteria.length) {
       sendBadRequest(
         res,
-        `Must provide scores for all ${hackathon.criteria.length} criteria`,
+        `Must provide scores for all ${criteria.length} criteria`,
       );
       return;
     }
 
     // Validate all criteria have scores and match
-    const criteriaTitles = new Set(hackathon.criteria.map((c) => c.title));
+    const criteriaTitles = new Set(criteria.map((c) => c.title));
     const submittedTitles = new Set(
       submittedScores.map((s: any) => s.criterionTitle),
     );
@@ -410,7 +563,7 @@ export const submitGrade = async (
     // Calculate weighted score
     let weightedScore = 0;
     for (const submittedScore of submittedScores) {
-      const criterion = hackathon.criteria.find(
+      const criterion = criteria.find(
         (c) => c.title === submittedScore.criterionTitle,
       );
       if (criterion) {
@@ -430,6 +583,8 @@ export const submitGrade = async (
       judgeId,
       organizationId: new mongoose.Types.ObjectId(orgId),
       hackathonId: new mongoose.Types.ObjectId(hackathonId),
+      trackId: trackId ? new mongoose.Types.ObjectId(trackId) : undefined,
+      phaseId: phaseId ? new mongoose.Types.ObjectId(phaseId) : undefined,
       scores: submittedScores,
       weightedScore,
       notes: notes || undefined,
@@ -438,6 +593,8 @@ export const submitGrade = async (
     const existingScore = await HackathonJudgingScore.findOne({
       submissionId,
       judgeId,
+      trackId: trackId || null,
+      phaseId: phaseId || null,
     });
 
     let savedScore;
@@ -458,9 +615,12 @@ export const submitGrade = async (
       select: "email profile",
     });
 
-    // Get all scores for this submission
+    // Get all scores for this submission (only their own for judges)
     const allScores = await HackathonJudgingScore.find({
       submissionId,
+      trackId: trackId || null,
+      phaseId: phaseId || null,
+      ...(judgeRecord && { judgeId }),
     })
       .populate({
         path: "judgeId",
@@ -505,10 +665,12 @@ export const submitGrade = async (
       {
         submission: {
           _id: (participant._id as mongoose.Types.ObjectId).toString(),
-          projectName: participant.submission.projectName,
-          category: participant.submission.category,
-          status: participant.submission.status,
+          projectName: participant.submission?.projectName,
+          category: participant.submission?.category,
+          status: participant.submission?.status,
         },
+        trackId: trackId || undefined,
+        phaseId: phaseId || undefined,
         score: {
           _id: (savedScore._id as mongoose.Types.ObjectId).toString(),
           weightedScore: savedScore.weightedScore,
@@ -533,7 +695,14 @@ export const submitGrade = async (
         ? "Grade updated successfully"
         : "Grade submitted successfully",
     );
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      sendConflict(
+        res,
+        "A grade for this submission was already recorded. Refresh and try again.",
+      );
+      return;
+    }
     console.error("Submit grade error:", error);
     sendInternalServerError(
       res,
@@ -548,7 +717,7 @@ export const submitGrade = async (
  * /api/organizations/{orgId}/hackathons/{hackathonId}/judging/submissions/{participantId}/scores:
  *   get:
  *     summary: Get all scores for a submission
- *     description: Retrieve all scores from all judges for a specific submission
+ *     description: Retrieve all scores from all judges for a specific submission, optionally within a track or phase
  *     tags: [Hackathons]
  *     security:
  *       - bearerAuth: []
@@ -560,6 +729,8 @@ export const getSubmissionScores = async (
   try {
     const user = (req as AuthenticatedRequest).user;
     const { orgId, hackathonId, participantId } = req.params;
+    const trackId = req.query.trackId as string | undefined;
+    const phaseId = req.query.phaseId as string | undefined;
 
     if (!user) {
       sendError(res, "Authentication required", 401);
@@ -596,13 +767,23 @@ export const getSubmissionScores = async (
     const hackathon = await Hackathon.findOne({
       _id: hackathonId,
       organizationId: orgId,
-    }).select("criteria");
+    }).select("criteria tracks phases");
 
     if (!hackathon) {
       sendNotFound(res, "Hackathon not found");
       return;
     }
 
+    if (trackId && !findTrack(hackathon, trackId)) {
+      sendNotFound(res, "Track not found");
+      return;
+    }
+
+    if (phaseId && !findPhase(hackathon, phaseId)) {
+      sendNotFound(res, "Phase not found");
+      return;
+    }
+
     const participant = await HackathonParticipant.findOne({
       _id: participantId,
       hackathonId: new mongoose.Types.ObjectId(hackathonId),
@@ -622,14 +803,16 @@ export const getSubmissionScores = async (
       return;
     }
 
-    if (!participant.submission) {
+    if (!participant.submission && !phaseId) {
       sendBadRequest(res, "Participant has no submission");
       return;
     }
 
-    // Get all scores for this submission
+    // Get all scores for this submission in the requested track and phase
     const scores = await HackathonJudgingScore.find({
       submissionId: participant._id,
+      trackId: trackId || null,
+      phaseId: phaseId || null,
     })
       .populate({
         path: "judgeId",
@@ -698,6 +881,7 @@ export const getSubmissionScores = async (
             _id: (participant._id as mongoose.Types.ObjectId).toString(),
             projectName: participant.submission.projectName,
             category: participant.submission.category,
+            trackIds: (participant.submission.trackIds || []).map(String),
             description: participant.submission.description,
             logo: participant.submission.logo || undefined,
             videoUrl: participant.submission.videoUrl || undefined,
@@ -707,13 +891,16 @@ export const getSubmissionScores = async (
             status: participant.submission.status,
           }
         : undefined,
+      phaseSubmission: formatPhaseSubmission(participant, phaseId),
     };
 
     sendSuccess(
       res,
       {
         participant: transformedParticipant,
-        criteria: hackathon.criteria || [],
+        trackId: trackId || undefined,
+        phaseId: phaseId || undefined,
+        criteria: getJudgingCriteria(hackathon, trackId),
         scores: transformedScores,
         statistics: {
           averageScore: averageScore
@@ -735,3 +922,192 @@ export const getSubmissionScores = async (
     );
   }
 };
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/judging/results:
+ *   get:
+ *     summary: Get normalized judging results
+ *     description: |
+ *       Aggregate every judge's scores for shortlisted submissions. Scores are
+ *       z-score normalized per judge, the spread between judges is reported per
+ *       submission, and submissions whose score standard deviation exceeds
+ *       `disagreementThreshold` (default 15) are flagged. `suggestedRanks` can be
+ *       sent as-is to the rewards ranks endpoint, together with `trackId` when
+ *       results are requested for a track. With `phaseId` the results cover
+ *       everyone who entered the phase and can guide who to advance next.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getJudgingResults = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId } = req.params;
+    // Checked and converted to a number by judgingResultsQuerySchema
+    const disagreementThreshold =
+      (req.query.disagreementThreshold as unknown as number | undefined) ??
+      DEFAULT_DISAGREEMENT_THRESHOLD;
+    const trackId = req.query.trackId as string | undefined;
+    const phaseId = req.query.phaseId as string | undefined;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can view judging results for this organization",
+      );
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(hackathonId)) {
+      sendBadRequest(res, "Invalid hackathon ID");
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    }).select("_id tracks phases");
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    if (trackId && !findTrack(hackathon, trackId)) {
+      sendNotFound(res, "Track not found");
+      return;
+    }
+
+    if (phaseId && !findPhase(hackathon, phaseId)) {
+      sendNotFound(res, "Phase not found");
+      return;
+    }
+
+    const participants = await HackathonParticipant.find({
+      hackathonId: new mongoose.Types.ObjectId(hackathonId),
+      organizationId: new mongoose.Types.ObjectId(orgId),
+      ...judgeableParticipantsFilter(phaseId),
+      ...(trackId && {
+        "submission.trackIds": new mongoose.Types.ObjectId(trackId),
+      }),
+    })
+      .select("_id teamName rank trackRanks submission.projectName")
+      .lean();
+
+    const participantsById = new Map<string, any>(
+      participants.map((p: any) => [p._id.toString(), p]),
+    );
+
+    const scores = await HackathonJudgingScore.find({
+      submissionId: { $in: participants.map((p: any) => p._id) },
+      trackId: trackId || null,
+      phaseId: phaseId || null,
+    })
+      .populate({
+        path: "judgeId",
+        select: "email profile",
+      })
+      .lean();
+
+    // Scores by judges whose account was deleted have no judge to populate
+    // and are left out
+    const judgesById = new Map<string, any>();
+    const scoreInputs = scores
+      .filter((score: any) => score.judgeId)
+      .map((score: any) => {
+        const judge = score.judgeId;
+        judgesById.set(judge._id.toString(), judge);
+        return {
+          submissionId: score.submissionId.toString(),
+          judgeId: judge._id.toString(),
+          weightedScore: score.weightedScore,
+        };
+      });
+
+    const results = computeNormalizedResults(
+      scoreInputs,
+      disagreementThreshold,
+    );
+
+    const judges = results.judges.map((stats) => {
+      const judge = judgesById.get(stats.judgeId);
+      return {
+        judge: {
+          _id: stats.judgeId,
+          profile: {
+            firstName: judge?.profile?.firstName || "",
+            lastName: judge?.profile?.lastName || "",
+            username: judge?.profile?.username || "",
+            avatar: judge?.profile?.avatar || "",
+          },
+          email: judge?.email || "",
+        },
+        submissionCount: stats.submissionCount,
+        mean: stats.mean,
+        stdDev: stats.stdDev,
+      };
+    });
+
+    const submissions = results.submissions.map((result) => {
+      const participant = participantsById.get(result.submissionId);
+      return {
+        participantId: result.submissionId,
+        projectName: participant?.submission?.projectName,
+        teamName: participant?.teamName || undefined,
+        currentRank: participant
+          ? getParticipantRank(participant, trackId)
+          : undefined,
+        judgeCount: result.judgeCount,
+        rawAverage: result.rawAverage,
+        normalizedZScore: result.normalizedZScore,
+        normalizedScore: result.normalizedScore,
+        spread: result.spread,
+        disagreement: result.disagreement,
+        suggestedRank: result.suggestedRank,
+      };
+    });
+
+    sendSuccess(
+      res,
+      {
+        trackId: trackId || undefined,
+        phaseId: phaseId || undefined,
+        disagreementThreshold,
+        judges,
+        submissions,
+        flaggedCount: submissions.filter((s) => s.disagreement).length,
+        unscoredCount: participants.length - submissions.length,
+        suggestedRanks: submissions.map((s) => ({
+          participantId: s.participantId,
+          rank: s.suggestedRank,
+        })),
+      },
+      "Judging results retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get judging results error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve judging results",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
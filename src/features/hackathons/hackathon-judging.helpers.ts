@@ -0,0 +1,150 @@
+export interface JudgeScoreInput {
+  submissionId: string;
+  judgeId: string;
+  weightedScore: number;
+}
+
+export interface JudgeStatistics {
+  judgeId: string;
+  submissionCount: number;
+  mean: number;
+  stdDev: number;
+}
+
+export interface NormalizedSubmissionResult {
+  submissionId: string;
+  judgeCount: number;
+  rawAverage: number;
+  normalizedZScore: number;
+  normalizedScore: number; // z-score mapped back onto the 0-100 scale
+  spread: {
+    stdDev: number;
+    min: number;
+    max: number;
+    range: number;
+  };
+  disagreement: boolean;
+  suggestedRank: number;
+}
+
+const round = (value: number, places = 2): number => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+const mean = (values: number[]): number =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+
+/**
+ * Population standard deviation
+ */
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) {
+    return 0;
+  }
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((value) => Math.pow(value - avg, 2))));
+};
+
+/**
+ * Normalize judge scores per judge using z-scores so a consistently harsh
+ * or generous judge does not skew the results.
+ *
+ * Each score becomes (score - judgeMean) / judgeStdDev. Judges who graded
+ * a single submission, or gave every submission the same score, carry no
+ * relative information and contribute a z-score of 0.
+ * A submission is flagged for disagreement when the standard deviation of
+ * its raw judge scores exceeds `disagreementThreshold`.
+ */
+export const computeNormalizedResults = (
+  scores: JudgeScoreInput[],
+  disagreementThreshold: number,
+): {
+  judges: JudgeStatistics[];
+  submissions: NormalizedSubmissionResult[];
+} => {
+  const scoresByJudge = new Map<string, number[]>();
+  scores.forEach((score) => {
+    if (!scoresByJudge.has(score.judgeId)) {
+      scoresByJudge.set(score.judgeId, []);
+    }
+    scoresByJudge.get(score.judgeId)!.push(score.weightedScore);
+  });
+
+  const judgeStats = new Map<string, JudgeStatistics>();
+  scoresByJudge.forEach((values, judgeId) => {
+    judgeStats.set(judgeId, {
+      judgeId,
+      submissionCount: values.length,
+      mean: mean(values),
+      stdDev: stdDev(values),
+    });
+  });
+
+  const bySubmission = new Map<string, { raw: number[]; z: number[] }>();
+  scores.forEach((score) => {
+    const stats = judgeStats.get(score.judgeId)!;
+    const z =
+      stats.stdDev > 0 ? (score.weightedScore - stats.mean) / stats.stdDev : 0;
+
+    if (!bySubmission.has(score.submissionId)) {
+      bySubmission.set(score.submissionId, { raw: [], z: [] });
+    }
+    const entry = bySubmission.get(score.submissionId)!;
+    entry.raw.push(score.weightedScore);
+    entry.z.push(z);
+  });
+
+  // Map z-scores back onto the overall score distribution for readability
+  const allRaw = scores.map((score) => score.weightedScore);
+  const overallMean = mean(allRaw);
+  const overallStdDev = stdDev(allRaw);
+
+  const submissions = Array.from(bySubmission.entries()).map(
+    ([submissionId, entry]) => {
+      const normalizedZScore = mean(entry.z);
+      const spreadStdDev = stdDev(entry.raw);
+      const min = Math.min(...entry.raw);
+      const max = Math.max(...entry.raw);
+      const normalizedScore = Math.min(
+        100,
+        Math.max(0, overallMean + normalizedZScore * overallStdDev),
+      );
+
+      return {
+        submissionId,
+        judgeCount: entry.raw.length,
+        rawAverage: round(mean(entry.raw)),
+        normalizedZScore: round(normalizedZScore, 4),
+        normalizedScore: round(normalizedScore),
+        spread: {
+          stdDev: round(spreadStdDev),
+          min: round(min),
+          max: round(max),
+          range: round(max - min),
+        },
+        disagreement: spreadStdDev > disagreementThreshold,
+        suggestedRank: 0,
+      };
+    },
+  );
+
+  // Rank by normalized score, falling back to the raw average on ties
+  submissions.sort(
+    (a, b) =>
+      b.normalizedZScore - a.normalizedZScore || b.rawAverage - a.rawAverage,
+  );
+  submissions.forEach((submission, index) => {
+    submission.suggestedRank = index + 1;
+  });
+
+  const judges = Array.from(judgeStats.values()).map((stats) => ({
+    ...stats,
+    mean: round(stats.mean),
+    stdDev: round(stats.stdDev),
+  }));
+
+  return { judges, submissions };
+};
@@ -0,0 +1,317 @@
+import mongoose from "mongoose";
+import Hackathon, {
+  HackathonStatus,
+  IHackathon,
+} from "../../models/hackathon.model.js";
+import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import { NotificationType } from "../../models/notification.model.js";
+import NotificationService from "../notifications/notification.service.js";
+import EmailTemplatesService from "../../services/email/email-templates.service.js";
+import { hackathonCache } from "../../utils/hackathon-cache.utils.js";
+
+type TimelineDateField = "startDate" | "winnerAnnouncementDate";
+
+/**
+ * Timeline-driven status transitions. Each one fires once the given date
+ * has passed. Drafts and cancelled hackathons are never moved.
+ */
+const TIMELINE_TRANSITIONS: Array<{
+  from: HackathonStatus;
+  to: HackathonStatus;
+  dateField: TimelineDateField;
+}> = [
+  {
+    from: HackathonStatus.PUBLISHED,
+    to: HackathonStatus.ACTIVE,
+    dateField: "startDate",
+  },
+  {
+    from: HackathonStatus.ACTIVE,
+    to: HackathonStatus.COMPLETED,
+    dateField: "winnerAnnouncementDate",
+  },
+];
+
+/**
+ * Submission deadline reminders, smallest window first so a hackathon that
+ * is already inside the 1h window does not also get the 24h reminder
+ */
+const DEADLINE_REMINDERS: Array<{
+  key: "oneHour" | "twentyFourHours";
+  windowMs: number;
+  label: string;
+}> = [
+  { key: "oneHour", windowMs: 60 * 60 * 1000, label: "1 hour" },
+  { key: "twentyFourHours", windowMs: 24 * 60 * 60 * 1000, label: "24 hours" },
+];
+
+export interface HackathonTimelineResult {
+  activated: number;
+  submissionsClosed: number;
+  completed: number;
+  remindersSent: number;
+}
+
+export class HackathonLifecycleService {
+  /**
+   * Move hackathons along their timeline, close submissions after the
+   * deadline and send deadline reminders. Run periodically by the scheduler.
+   */
+  static async processTimeline(
+    now: Date = new Date(),
+  ): Promise<HackathonTimelineResult> {
+    const [activation, completion] = TIMELINE_TRANSITIONS;
+
+    const activated = await this.applyTransition(activation, now);
+    const submissionsClosed = await this.closeSubmissions(now);
+    const completed = await this.applyTransition(completion, now);
+    const remindersSent = await this.sendDeadlineReminders(now);
+
+    return { activated, submissionsClosed, completed, remindersSent };
+  }
+
+  private static async applyTransition(
+    transition: (typeof TIMELINE_TRANSITIONS)[number],
+    now: Date,
+  ): Promise<number> {
+    const due = await Hackathon.find({
+      status: transition.from,
+      [transition.dateField]: { $lte: now },
+    })
+      .select("_id")
+      .lean();
+
+    let count = 0;
+
+    for (const { _id } of due) {
+      try {
+        // Guard on the current status so a concurrent manual change wins
+        const hackathon = await Hackathon.findOneAndUpdate(
+          { _id, status: transition.from },
+          { $set: { status: transition.to } },
+          { new: true },
+        );
+
+        if (!hackathon) {
+          continue;
+        }
+
+        count++;
+        this.invalidateCache(hackathon);
+        await this.notifyStatusChange(hackathon, transition.from);
+      } catch (error) {
+        console.error(
+          `Error moving hackathon ${_id} from ${transition.from} to ${transition.to}:`,
+          error,
+        );
+      }
+    }
+
+    return count;
+  }
+
+  private static async closeSubmissions(now: Date): Promise<number> {
+    const due = await Hackathon.find({
+      status: { $in: [HackathonStatus.PUBLISHED, HackathonStatus.ACTIVE] },
+      submissionDeadline: { $lte: now },
+      submissionsClosedAt: null,
+    })
+      .select("_id")
+      .lean();
+
+    let count = 0;
+
+    for (const { _id } of due) {
+      const hackathon = await Hackathon.findOneAndUpdate(
+        { _id, submissionsClosedAt: null },
+        { $set: { submissionsClosedAt: now } },
+        { new: true },
+      );
+
+      if (hackathon) {
+        count++;
+        this.invalidateCache(hackathon);
+      }
+    }
+
+    return count;
+  }
+
+  private static async sendDeadlineReminders(now: Date): Promise<number> {
+    let sent = 0;
+
+    for (const reminder of DEADLINE_REMINDERS) {
+      const due = await Hackathon.find({
+        status: { $in: [HackathonStatus.PUBLISHED, HackathonStatus.ACTIVE] },
+        submissionsClosedAt: null,
+        submissionDeadline: {
+          $gt: now,
+          $lte: new Date(now.getTime() + reminder.windowMs),
+        },
+        [`deadlineRemindersSent.${reminder.key}`]: null,
+      })
+        .select("_id")
+        .lean();
+
+      for (const { _id } of due) {
+        try {
+          // Marking a smaller window also marks every larger one
+          const marks: Record<string, Date> = {};
+          for (const other of DEADLINE_REMINDERS) {
+            if (other.windowMs >= reminder.windowMs) {
+              marks[`deadlineRemindersSent.${other.key}`] = now;
+            }
+          }
+
+          const hackathon = await Hackathon.findOneAndUpdate(
+            { _id, [`deadlineRemindersSent.${reminder.key}`]: null },
+            { $set: marks },
+            { new: true },
+          );
+
+          if (!hackathon) {
+            continue;
+          }
+
+          await this.notifyDeadlineApproaching(hackathon, reminder.label);
+          sent++;
+        } catch (error) {
+          console.error(
+            `Error sending ${reminder.label} deadline reminder for hackathon ${_id}:`,
+            error,
+          );
+        }
+      }
+    }
+
+    return sent;
+  }
+
+  private static invalidateCache(hackathon: IHackathon): void {
+    if (hackathon.slug) {
+      hackathonCache.invalidateHackathon(hackathon.slug);
+    }
+    hackathonCache.invalidateHackathon(
+      (hackathon._id as mongoose.Types.ObjectId).toString(),
+    );
+  }
+
+  /**
+   * Registered participants, including members of their teams
+   */
+  private static async getParticipantRecipients(
+    hackathonId: mongoose.Types.ObjectId,
+  ): Promise<Array<{ userId: mongoose.Types.ObjectId; name: string }>> {
+    const participants = await HackathonParticipant.find({ hackathonId })
+      .select("userId teamMembers.userId teamMembers.name")
+      .lean();
+
+    const recipients = new Map<
+      string,
+      { userId: mongoose.Types.ObjectId; name: string }
+    >();
+
+    participants.forEach((participant) => {
+      recipients.set(participant.userId.toString(), {
+        userId: participant.userId,
+        name: "Participant",
+      });
+      participant.teamMembers?.forEach((member) => {
+        if (member.userId) {
+          recipients.set(member.userId.toString(), {
+            userId: member.userId,
+            name: member.name || "Participant",
+          });
+        }
+      });
+    });
+
+    return Array.from(recipients.values());
+  }
+
+  private static async notifyStatusChange(
+    hackathon: IHackathon,
+    oldStatus: HackathonStatus,
+  ): Promise<void> {
+    const recipients = await this.getParticipantRecipients(
+      hackathon._id as mongoose.Types.ObjectId,
+    );
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const hackathonName = hackathon.title || "Hackathon";
+    const isActive = hackathon.status === HackathonStatus.ACTIVE;
+
+    await NotificationService.notifyTeamMembers(recipients, {
+      type: isActive
+        ? NotificationType.HACKATHON_ACTIVE
+        : NotificationType.HACKATHON_COMPLETED,
+      title: isActive
+        ? `${hackathonName} has started`
+        : `${hackathonName} has ended`,
+      message: isActive
+        ? `"${hackathonName}" is now active. You can start working on your submission.`
+        : `"${hackathonName}" has been completed.`,
+      data: {
+        hackathonId: hackathon._id as mongoose.Types.ObjectId,
+        hackathonName,
+        hackathonSlug: hackathon.slug,
+        oldStatus,
+        newStatus: hackathon.status,
+      },
+      emailTemplate: EmailTemplatesService.getTemplate(
+        isActive ? "hackathon-active" : "hackathon-completed",
+        {
+          hackathonId: (hackathon._id as mongoose.Types.ObjectId).toString(),
+          hackathonName,
+          hackathonSlug: hackathon.slug,
+          startDate: hackathon.startDate,
+        },
+      ),
+      sendEmail: true,
+      sendInApp: true,
+    });
+  }
+
+  private static async notifyDeadlineApproaching(
+    hackathon: IHackathon,
+    timeLeft: string,
+  ): Promise<void> {
+    const recipients = await this.getParticipantRecipients(
+      hackathon._id as mongoose.Types.ObjectId,
+    );
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const hackathonName = hackathon.title || "Hackathon";
+
+    await NotificationService.notifyTeamMembers(recipients, {
+      type: NotificationType.HACKATHON_DEADLINE_APPROACHING,
+      title: `Submissions close in ${timeLeft}`,
+      message: `The submission deadline for "${hackathonName}" is in ${timeLeft}.`,
+      data: {
+        hackathonId: hackathon._id as mongoose.Types.ObjectId,
+        hackathonName,
+        hackathonSlug: hackathon.slug,
+        deadlineType: "submission",
+        deadlineDate: hackathon.submissionDeadline,
+      },
+      emailTemplate: EmailTemplatesService.getTemplate(
+        "hackathon-deadline-approaching",
+        {
+          hackathonId: (hackathon._id as mongoose.Types.ObjectId).toString(),
+          hackathonName,
+          hackathonSlug: hackathon.slug,
+          deadlineType: "submission",
+          deadlineDate: hackathon.submissionDeadline,
+        },
+      ),
+      sendEmail: true,
+      sendInApp: true,
+    });
+  }
+}
+
+export default HackathonLifecycleService;
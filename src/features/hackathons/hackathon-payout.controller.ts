@@ -0,0 +1,370 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Hackathon from "../../models/hackathon.model.js";
+import HackathonPayout, {
+  HackathonPayoutStatus,
+} from "../../models/hackathon-payout.model.js";
+import {
+  sendSuccess,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendConflict,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  canManageHackathons,
+  resolveHackathonByIdOrSlug,
+} from "./hackathon.helpers.js";
+import HackathonPayoutService from "./hackathon-payout.service.js";
+
+export const formatPayout = (payout: any) => {
+  const user = payout.userId;
+  const populatedUser = user && user.email !== undefined;
+  const participant = payout.participantId;
+  const populatedParticipant =
+    participant && participant.participationType !== undefined;
+  const iso = (value?: Date) =>
+    value ? new Date(value).toISOString() : undefined;
+
+  return {
+    _id: payout._id.toString(),
+    hackathonId: (payout.hackathonId?._id || payout.hackathonId).toString(),
+    participantId: (participant?._id || participant).toString(),
+    userId: (user?._id || user).toString(),
+    user: populatedUser
+      ? {
+          _id: user._id.toString(),
+          email: user.email || "",
+          profile: {
+            firstName: user.profile?.firstName || "",
+            lastName: user.profile?.lastName || "",
+            username: user.profile?.username || "",
+          },
+        }
+      : undefined,
+    teamName: populatedParticipant
+      ? participant.teamName || undefined
+      : undefined,
+    source: payout.source,
+    trackId: payout.trackId ? payout.trackId.toString() : null,
+    bountyId: payout.bountyId ? payout.bountyId.toString() : null,
+    rank: payout.rank,
+    amount: payout.amount,
+    currency: payout.currency,
+    sharePercent: payout.sharePercent,
+    walletAddress: payout.walletAddress || undefined,
+    status: payout.status,
+    kycVerifiedAt: iso(payout.kycVerifiedAt),
+    transactionHash: payout.transactionHash || undefined,
+    releasedAt: iso(payout.releasedAt),
+    confirmedAt: iso(payout.confirmedAt),
+    failedAt: iso(payout.failedAt),
+    failureReason: payout.failureReason || undefined,
+    lastCheckedAt: iso(payout.lastCheckedAt),
+    createdAt: iso(payout.createdAt),
+    updatedAt: iso(payout.updatedAt),
+  };
+};
+
+/**
+ * Load a hackathon the caller can manage, sending the error response if not
+ */
+const loadManagedHackathon = async (
+  req: Request,
+  res: Response,
+  action: string,
+) => {
+  const user = (req as AuthenticatedRequest).user;
+  const { orgId, hackathonId } = req.params;
+
+  if (!user) {
+    sendError(res, "Authentication required", 401);
+    return null;
+  }
+
+  const { canManage, organization } = await canManageHackathons(
+    orgId,
+    user.email,
+  );
+
+  if (!canManage) {
+    if (!organization) {
+      sendNotFound(res, "Organization not found");
+      return null;
+    }
+    sendForbidden(
+      res,
+      `Only owners and admins can ${action} for this organization`,
+    );
+    return null;
+  }
+
+  const hackathon = await Hackathon.findOne({
+    _id: hackathonId,
+    organizationId: orgId,
+  });
+
+  if (!hackathon) {
+    sendNotFound(res, "Hackathon not found");
+    return null;
+  }
+
+  return hackathon;
+};
+
+const buildPayoutQuery = (
+  hackathonId: mongoose.Types.ObjectId,
+  query: Request["query"],
+) => {
+  const filter: Record<string, unknown> = { hackathonId };
+  if (query.status) {
+    filter.status = query.status;
+  }
+  if (query.source) {
+    filter.source = query.source;
+  }
+  return filter;
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/payouts:
+ *   get:
+ *     summary: Get prize payouts
+ *     description: Retrieve the payout ledger for a hackathon's prize and bounty winners, with totals per status
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getPayouts = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const hackathon = await loadManagedHackathon(req, res, "view payouts");
+    if (!hackathon) return;
+
+    const { page = "1", limit = "20" } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const hackathonObjectId = hackathon._id as mongoose.Types.ObjectId;
+    const query = buildPayoutQuery(hackathonObjectId, req.query);
+
+    const [totalItems, payouts, totals] = await Promise.all([
+      HackathonPayout.countDocuments(query),
+      HackathonPayout.find(query)
+        .populate("userId", "email profile")
+        .populate("participantId", "participationType teamName")
+        .sort({ source: 1, trackId: 1, rank: 1, createdAt: 1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      HackathonPayout.aggregate([
+        { $match: { hackathonId: hackathonObjectId } },
+        {
+          $group: {
+            _id: "$status",
+            count: { $sum: 1 },
+            amount: { $sum: "$amount" },
+          },
+        },
+      ]),
+    ]);
+
+    const summary = Object.values(HackathonPayoutStatus).reduce(
+      (acc, status) => {
+        const entry = totals.find((total) => total._id === status);
+        acc[status] = { count: entry?.count || 0, amount: entry?.amount || 0 };
+        return acc;
+      },
+      {} as Record<string, { count: number; amount: number }>,
+    );
+
+    const totalPages = Math.ceil(totalItems / limitNum);
+
+    sendSuccess(
+      res,
+      {
+        payouts: payouts.map(formatPayout),
+        summary,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalItems,
+          itemsPerPage: limitNum,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1,
+        },
+      },
+      "Payouts retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get payouts error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve payouts",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Export a hackathon's payout ledger as CSV for finance
+ * GET /organizations/{orgId}/hackathons/{hackathonId}/payouts/export
+ */
+export const exportPayouts = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const hackathon = await loadManagedHackathon(req, res, "export payouts");
+    if (!hackathon) return;
+
+    const payouts = await HackathonPayout.find(
+      buildPayoutQuery(hackathon._id as mongoose.Types.ObjectId, req.query),
+    )
+      .populate("userId", "email profile")
+      .populate("participantId", "teamName")
+      .populate("hackathonId", "title")
+      .sort({ source: 1, trackId: 1, rank: 1, createdAt: 1 })
+      .lean();
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="payouts-${hackathon.slug || hackathon._id}-${new Date().toISOString().split("T")[0]}.csv"`,
+    );
+    res.send(HackathonPayoutService.toCsv(payouts));
+  } catch (error) {
+    console.error("Export payouts error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to export payouts",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Get the caller's own payouts for a hackathon
+ * GET /hackathons/{hackathonSlugOrId}/payouts/me
+ */
+export const getMyPayouts = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const hackathon = await resolveHackathonByIdOrSlug(
+      req.params.hackathonSlugOrId,
+      { includePublishedOnly: true },
+    );
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const payouts = await HackathonPayout.find({
+      hackathonId: hackathon._id,
+      userId: user._id,
+    })
+      .sort({ createdAt: 1 })
+      .lean();
+
+    sendSuccess(
+      res,
+      payouts.map(formatPayout),
+      "Payouts retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get my payouts error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve payouts",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Set the wallet a payout is sent to. Organizers can set it for any winner;
+ * winners can set it for their own payouts.
+ * PUT /organizations/{orgId}/hackathons/{hackathonId}/payouts/{payoutId}/wallet
+ * PUT /hackathons/{hackathonSlugOrId}/payouts/{payoutId}/wallet
+ */
+export const updatePayoutWallet = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, payoutId, hackathonSlugOrId } = req.params;
+    const { walletAddress } = req.body;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const hackathon = orgId
+      ? await loadManagedHackathon(req, res, "manage payouts")
+      : await resolveHackathonByIdOrSlug(hackathonSlugOrId, {
+          includePublishedOnly: true,
+        });
+    if (!hackathon) {
+      if (!orgId) {
+        sendNotFound(res, "Hackathon not found");
+      }
+      return;
+    }
+
+    const payout = await HackathonPayout.findOne({
+      _id: payoutId,
+      hackathonId: hackathon._id,
+    });
+
+    if (!payout) {
+      sendNotFound(res, "Payout not found");
+      return;
+    }
+
+    if (!orgId && payout.userId.toString() !== user._id.toString()) {
+      sendForbidden(res, "You can only update your own payouts");
+      return;
+    }
+
+    if (HackathonPayoutService.isSettled(payout)) {
+      sendConflict(
+        res,
+        "This payout has already been released and its wallet cannot be changed",
+      );
+      return;
+    }
+
+    await HackathonPayoutService.setWallet(payout, walletAddress);
+
+    sendSuccess(
+      res,
+      formatPayout(payout.toObject()),
+      "Payout wallet updated successfully",
+    );
+  } catch (error) {
+    console.error("Update payout wallet error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to update payout wallet",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
@@ -0,0 +1,591 @@
+import mongoose from "mongoose";
+import { IHackathon } from "../../models/hackathon.model.js";
+import {
+  IHackathonParticipant,
+  IPrizeSplitShare,
+} from "../../models/hackathon-participant.model.js";
+import { IHackathonBounty } from "../../models/hackathon-bounty.model.js";
+import HackathonPayout, {
+  HackathonPayoutSource,
+  HackathonPayoutStatus,
+  IHackathonPayout,
+} from "../../models/hackathon-payout.model.js";
+import Transaction, { ITransaction } from "../../models/transaction.model.js";
+import { config } from "../../config/main.config.js";
+import {
+  HorizonService,
+  HorizonUnavailableError,
+} from "../../services/stellar/horizon.service.js";
+import { findPrizeTier, getParticipantRank } from "./hackathon.helpers.js";
+
+// Payouts checked per reconciliation run, least recently checked first
+const RECONCILE_BATCH_SIZE = 100;
+
+// Stellar amounts have 7 decimal places
+const AMOUNT_PRECISION = 10_000_000;
+
+// Once released, the wallet and amount are what went on-chain
+const SETTLED_STATUSES = [
+  HackathonPayoutStatus.RELEASED,
+  HackathonPayoutStatus.CONFIRMED,
+];
+
+export interface PrizePayoutInput {
+  participant: IHackathonParticipant;
+  rank: number;
+  amount: number;
+  currency?: string;
+  walletAddress?: string;
+  trackId?: string | null;
+  shares?: IPrizeSplitShare[]; // Team members' shares when the prize is split
+}
+
+export interface PayoutReconciliationResult {
+  checked: number;
+  confirmed: number;
+  failed: number;
+  pending: number;
+  horizonUnavailable: boolean;
+}
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+const horizon = new HorizonService({ horizonUrl: config.payouts.horizonUrl });
+
+export class HackathonPayoutService {
+  /**
+   * Where an unreleased payout stands given what we know about the recipient
+   */
+  static resolvePendingStatus(
+    payout: Pick<IHackathonPayout, "walletAddress" | "kycVerifiedAt">,
+  ): HackathonPayoutStatus {
+    if (config.payouts.kycRequired && !payout.kycVerifiedAt) {
+      return HackathonPayoutStatus.PENDING_KYC;
+    }
+    if (!payout.walletAddress) {
+      return HackathonPayoutStatus.PENDING_WALLET;
+    }
+    return HackathonPayoutStatus.READY;
+  }
+
+  static isSettled(payout: Pick<IHackathonPayout, "status">): boolean {
+    return SETTLED_STATUSES.includes(payout.status);
+  }
+
+  /**
+   * Re-derive a pending payout's status. Failed payouts and those held for
+   * a split change keep their status until released or re-synced.
+   */
+  private static refreshStatus(payout: IHackathonPayout): void {
+    if (
+      payout.status !== HackathonPayoutStatus.FAILED &&
+      payout.status !== HackathonPayoutStatus.PENDING_SPLIT
+    ) {
+      payout.status = this.resolvePendingStatus(payout);
+    }
+  }
+
+  /**
+   * Divide a prize by percentage, giving any rounding remainder to the
+   * last share so the parts add up to the prize
+   */
+  static splitAmount(amount: number, percents: number[]): number[] {
+    const total = Math.round(amount * AMOUNT_PRECISION);
+    const parts = percents.map((percent) =>
+      Math.floor((total * percent) / 100),
+    );
+    const lastPaid = percents.map((percent) => percent > 0).lastIndexOf(true);
+    if (lastPaid >= 0) {
+      parts[lastPaid] += total - parts.reduce((sum, part) => sum + part, 0);
+    }
+    return parts.map((part) => part / AMOUNT_PRECISION);
+  }
+
+  /**
+   * Record what each prize winner is owed. Payouts already released are left
+   * alone; winners dropped from a track they were paid in are removed.
+   */
+  static async syncPrizePayouts(
+    hackathon: IHackathon,
+    winners: PrizePayoutInput[],
+  ): Promise<IHackathonPayout[]> {
+    const payouts: IHackathonPayout[] = [];
+
+    for (const winner of winners) {
+      payouts.push(...(await this.upsertPrizeWinner(hackathon, winner)));
+    }
+
+    const trackIds = [
+      ...new Set(winners.map((winner) => winner.trackId || null)),
+    ].map((trackId) => (trackId ? new mongoose.Types.ObjectId(trackId) : null));
+
+    await HackathonPayout.deleteMany({
+      hackathonId: hackathon._id,
+      source: HackathonPayoutSource.PRIZE,
+      trackId: { $in: trackIds },
+      _id: { $nin: payouts.map((payout) => payout._id) },
+      status: { $nin: SETTLED_STATUSES },
+    });
+
+    return payouts;
+  }
+
+  /**
+   * Record one winner's prize, one payout per team member when split
+   */
+  private static async upsertPrizeWinner(
+    hackathon: IHackathon,
+    winner: PrizePayoutInput,
+  ): Promise<IHackathonPayout[]> {
+    const participant = winner.participant;
+    const participantId = participant._id as mongoose.Types.ObjectId;
+    const trackId = winner.trackId
+      ? new mongoose.Types.ObjectId(winner.trackId)
+      : null;
+
+    const shares = winner.shares?.length
+      ? winner.shares
+      : [
+          {
+            userId: participant.userId,
+            percent: 100,
+            walletAddress: winner.walletAddress,
+          },
+        ];
+    const amounts = this.splitAmount(
+      winner.amount,
+      shares.map((share) => share.percent),
+    );
+
+    const payouts: IHackathonPayout[] = [];
+    for (const [index, share] of shares.entries()) {
+      if (share.percent <= 0) continue;
+
+      payouts.push(
+        await this.upsertPayout(
+          {
+            hackathonId: hackathon._id as mongoose.Types.ObjectId,
+            participantId,
+            userId: share.userId,
+            source: HackathonPayoutSource.PRIZE,
+            trackId,
+            bountyId: null,
+          },
+          {
+            organizationId: hackathon.organizationId,
+            rank: winner.rank,
+            amount: amounts[index],
+            currency: winner.currency || "USDC",
+            sharePercent: share.percent,
+            walletAddress: share.walletAddress,
+          },
+        ),
+      );
+    }
+
+    // Members dropped from the split no longer get a payout
+    await HackathonPayout.deleteMany({
+      hackathonId: hackathon._id,
+      participantId,
+      source: HackathonPayoutSource.PRIZE,
+      trackId,
+      _id: { $nin: payouts.map((payout) => payout._id) },
+      status: { $nin: SETTLED_STATUSES },
+    });
+
+    return payouts;
+  }
+
+  /**
+   * Whether any of a winner's prize has already gone out
+   */
+  static async hasReleasedPrize(participantId: ObjectIdLike): Promise<boolean> {
+    const released = await HackathonPayout.exists({
+      participantId,
+      source: HackathonPayoutSource.PRIZE,
+      status: { $in: SETTLED_STATUSES },
+    });
+    return !!released;
+  }
+
+  /**
+   * Hold a team's unreleased prize payouts while its split is re-approved
+   */
+  static async holdPrizePayouts(participantId: ObjectIdLike): Promise<number> {
+    const result = await HackathonPayout.updateMany(
+      {
+        participantId,
+        source: HackathonPayoutSource.PRIZE,
+        status: { $nin: SETTLED_STATUSES },
+      },
+      { $set: { status: HackathonPayoutStatus.PENDING_SPLIT } },
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Re-create a team's prize payouts from its approved split. Only prizes
+   * that already have payouts are touched; the rest get theirs when winner
+   * milestones are created.
+   */
+  static async applyPrizeSplit(
+    hackathon: IHackathon,
+    participant: IHackathonParticipant,
+  ): Promise<IHackathonPayout[]> {
+    const existing = await HackathonPayout.find({
+      participantId: participant._id,
+      source: HackathonPayoutSource.PRIZE,
+    }).select("trackId");
+    const trackIds = [
+      ...new Set(
+        existing.map((payout) =>
+          payout.trackId ? payout.trackId.toString() : null,
+        ),
+      ),
+    ];
+
+    const payouts: IHackathonPayout[] = [];
+    for (const trackId of trackIds) {
+      const rank = getParticipantRank(participant, trackId);
+      const tier = rank ? findPrizeTier(rank, hackathon, trackId) : null;
+      if (!rank || !tier) continue;
+
+      payouts.push(
+        ...(await this.upsertPrizeWinner(hackathon, {
+          participant,
+          rank,
+          amount: tier.amount,
+          currency: tier.currency,
+          trackId,
+          shares: participant.prizeSplit?.shares,
+        })),
+      );
+    }
+
+    return payouts;
+  }
+
+  /**
+   * Record what each bounty winner is owed. Bounty winners give their
+   * wallet after being picked.
+   */
+  static async syncBountyPayouts(
+    bounty: IHackathonBounty,
+    participants: IHackathonParticipant[],
+  ): Promise<IHackathonPayout[]> {
+    const payouts: IHackathonPayout[] = [];
+
+    for (const winner of bounty.winners) {
+      const participant = participants.find(
+        (p) =>
+          (p._id as mongoose.Types.ObjectId).toString() ===
+          winner.participantId.toString(),
+      );
+      if (!participant) continue;
+
+      payouts.push(
+        await this.upsertPayout(
+          {
+            hackathonId: bounty.hackathonId,
+            participantId: winner.participantId,
+            userId:
+              (participant.userId as any)._id || (participant.userId as any),
+            source: HackathonPayoutSource.BOUNTY,
+            trackId: null,
+            bountyId: bounty._id as mongoose.Types.ObjectId,
+          },
+          {
+            organizationId: bounty.organizationId,
+            rank: winner.position,
+            amount: winner.amount,
+            currency: bounty.currency || "USDC",
+          },
+        ),
+      );
+    }
+
+    await HackathonPayout.deleteMany({
+      bountyId: bounty._id,
+      _id: { $nin: payouts.map((payout) => payout._id) },
+      status: { $nin: SETTLED_STATUSES },
+    });
+
+    return payouts;
+  }
+
+  private static async upsertPayout(
+    key: {
+      hackathonId: mongoose.Types.ObjectId;
+      participantId: mongoose.Types.ObjectId;
+      userId: mongoose.Types.ObjectId;
+      source: HackathonPayoutSource;
+      trackId: mongoose.Types.ObjectId | null;
+      bountyId: mongoose.Types.ObjectId | null;
+    },
+    fields: {
+      organizationId: mongoose.Types.ObjectId;
+      rank: number;
+      amount: number;
+      currency: string;
+      sharePercent?: number;
+      walletAddress?: string;
+    },
+  ): Promise<IHackathonPayout> {
+    const existing = await HackathonPayout.findOne(key);
+    if (existing && this.isSettled(existing)) {
+      return existing;
+    }
+
+    const payout = existing || new HackathonPayout(key);
+    payout.organizationId = fields.organizationId;
+    payout.rank = fields.rank;
+    payout.amount = fields.amount;
+    payout.currency = fields.currency;
+    payout.sharePercent = fields.sharePercent ?? 100;
+    if (fields.walletAddress) {
+      payout.walletAddress = fields.walletAddress;
+    }
+
+    // Identity checks are per person, not per prize
+    if (!payout.kycVerifiedAt) {
+      const verified = await HackathonPayout.findOne({
+        userId: key.userId,
+        kycVerifiedAt: { $exists: true },
+      }).select("kycVerifiedAt kycVerifiedBy");
+      if (verified) {
+        payout.kycVerifiedAt = verified.kycVerifiedAt;
+        payout.kycVerifiedBy = verified.kycVerifiedBy;
+      }
+    }
+
+    // Syncing from the current split lifts any hold on the payout
+    if (payout.status !== HackathonPayoutStatus.FAILED) {
+      payout.status = this.resolvePendingStatus(payout);
+    }
+
+    return payout.save();
+  }
+
+  /**
+   * Set the wallet an unreleased payout goes to
+   */
+  static async setWallet(
+    payout: IHackathonPayout,
+    walletAddress: string,
+  ): Promise<IHackathonPayout> {
+    payout.walletAddress = walletAddress;
+    this.refreshStatus(payout);
+    return payout.save();
+  }
+
+  /**
+   * Mark a recipient as identity-verified across all their unreleased payouts
+   */
+  static async markKycVerified(
+    userId: ObjectIdLike,
+    verifiedBy: ObjectIdLike,
+    now: Date = new Date(),
+  ): Promise<number> {
+    const payouts = await HackathonPayout.find({
+      userId,
+      status: { $nin: SETTLED_STATUSES },
+    });
+
+    for (const payout of payouts) {
+      payout.kycVerifiedAt = now;
+      payout.kycVerifiedBy = new mongoose.Types.ObjectId(verifiedBy.toString());
+      this.refreshStatus(payout);
+      await payout.save();
+    }
+
+    return payouts.length;
+  }
+
+  /**
+   * Record the on-chain release of a payout. It stays released until the
+   * reconciliation job sees the transaction on the ledger.
+   */
+  static async markReleased(
+    payout: IHackathonPayout,
+    transaction: ITransaction,
+    releasedBy?: ObjectIdLike,
+  ): Promise<IHackathonPayout> {
+    payout.status = HackathonPayoutStatus.RELEASED;
+    payout.transactionId = transaction._id as mongoose.Types.ObjectId;
+    payout.transactionHash = transaction.transactionHash;
+    payout.releasedAt = new Date();
+    if (releasedBy) {
+      payout.releasedBy = new mongoose.Types.ObjectId(releasedBy.toString());
+    }
+    payout.confirmedAt = undefined;
+    payout.failedAt = undefined;
+    payout.failureReason = undefined;
+    payout.lastCheckedAt = undefined;
+    payout.checkAttempts = 0;
+    return payout.save();
+  }
+
+  /**
+   * Check released payouts against Horizon. A payout is confirmed once its
+   * transaction pays the right wallet and amount, and failed if it pays
+   * something else or never shows up within the confirmation window.
+   */
+  static async reconcile(
+    now: Date = new Date(),
+  ): Promise<PayoutReconciliationResult> {
+    const result: PayoutReconciliationResult = {
+      checked: 0,
+      confirmed: 0,
+      failed: 0,
+      pending: 0,
+      horizonUnavailable: false,
+    };
+
+    const payouts = await HackathonPayout.find({
+      status: HackathonPayoutStatus.RELEASED,
+      transactionHash: { $exists: true, $ne: "" },
+    })
+      .sort({ lastCheckedAt: 1 })
+      .limit(RECONCILE_BATCH_SIZE);
+
+    for (const payout of payouts) {
+      try {
+        const outcome = await this.reconcilePayout(payout, now);
+        result.checked += 1;
+        result[outcome] += 1;
+      } catch (error) {
+        if (error instanceof HorizonUnavailableError) {
+          // Try the rest on the next run rather than failing payouts
+          result.horizonUnavailable = true;
+          break;
+        }
+        throw error;
+      }
+    }
+
+    return result;
+  }
+
+  private static async reconcilePayout(
+    payout: IHackathonPayout,
+    now: Date,
+  ): Promise<"confirmed" | "failed" | "pending"> {
+    const transactionHash = payout.transactionHash!;
+    payout.lastCheckedAt = now;
+    payout.checkAttempts = (payout.checkAttempts || 0) + 1;
+
+    const onLedger = await horizon.getTransaction(transactionHash);
+    if (!onLedger) {
+      const releasedAt = (payout.releasedAt || payout.updatedAt).getTime();
+      if (now.getTime() - releasedAt < config.payouts.confirmationWindowMs) {
+        await payout.save();
+        return "pending";
+      }
+      await this.markFailed(
+        payout,
+        "Release transaction was not found on the Stellar network",
+        now,
+      );
+      return "failed";
+    }
+
+    const verification = await horizon.verifyPayment({
+      transactionHash,
+      destination: payout.walletAddress || "",
+      currency: payout.currency,
+      amount: payout.amount,
+    });
+
+    if (!verification.valid) {
+      await this.markFailed(
+        payout,
+        verification.reason || "Release transaction did not pay the payout",
+        now,
+      );
+      return "failed";
+    }
+
+    payout.status = HackathonPayoutStatus.CONFIRMED;
+    payout.confirmedAt = verification.payment!.confirmedAt;
+    payout.ledger = verification.payment!.ledger;
+    await payout.save();
+
+    if (payout.transactionId) {
+      await Transaction.updateOne(
+        { _id: payout.transactionId },
+        {
+          $set: {
+            status: "CONFIRMED",
+            confirmedAt: verification.payment!.confirmedAt,
+          },
+        },
+      );
+    }
+
+    return "confirmed";
+  }
+
+  private static async markFailed(
+    payout: IHackathonPayout,
+    reason: string,
+    now: Date,
+  ): Promise<void> {
+    payout.status = HackathonPayoutStatus.FAILED;
+    payout.failedAt = now;
+    payout.failureReason = reason;
+    await payout.save();
+
+    if (payout.transactionId) {
+      await Transaction.updateOne(
+        { _id: payout.transactionId },
+        { $set: { status: "FAILED" } },
+      );
+    }
+  }
+
+  /**
+   * Finance export of the payout ledger, one row per payout
+   */
+  static toCsv(payouts: any[]): string {
+    const header =
+      "Payout ID,Hackathon,Source,Track ID,Bounty ID,Rank,Recipient Email,Recipient Name,Team,Share %,Amount,Currency,Wallet Address,Status,KYC Verified At,Transaction Hash,Released At,Confirmed At,Failed At,Failure Reason\n";
+
+    const quote = (value: unknown) =>
+      `"${value === undefined || value === null ? "" : String(value).replace(/"/g, '""')}"`;
+    const date = (value?: Date) => (value ? new Date(value).toISOString() : "");
+
+    const rows = payouts.map((payout) => {
+      const user = payout.userId || {};
+      const participant = payout.participantId || {};
+      const hackathon = payout.hackathonId || {};
+      return [
+        payout._id,
+        hackathon.title || hackathon._id || hackathon,
+        payout.source,
+        payout.trackId,
+        payout.bountyId,
+        payout.rank,
+        user.email,
+        `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim(),
+        participant.teamName,
+        payout.sharePercent,
+        payout.amount,
+        payout.currency,
+        payout.walletAddress,
+        payout.status,
+        date(payout.kycVerifiedAt),
+        payout.transactionHash,
+        date(payout.releasedAt),
+        date(payout.confirmedAt),
+        date(payout.failedAt),
+        payout.failureReason,
+      ]
+        .map(quote)
+        .join(",");
+    });
+
+    return header + rows.join("\n");
+  }
+}
+
+export default HackathonPayoutService;
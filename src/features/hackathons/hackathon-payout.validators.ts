@@ -0,0 +1,63 @@
+import { body, param, query, ValidationChain } from "express-validator";
+import {
+  HackathonPayoutSource,
+  HackathonPayoutStatus,
+} from "../../models/hackathon-payout.model.js";
+import { isValidStellarAddress } from "../../utils/wallet.js";
+
+export const payoutIdParam: ValidationChain = param("payoutId")
+  .isMongoId()
+  .withMessage("Invalid payout ID");
+
+export const getPayoutsQuerySchema: ValidationChain[] = [
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+  query("status")
+    .optional()
+    .isIn(Object.values(HackathonPayoutStatus))
+    .withMessage(
+      `Status must be one of: ${Object.values(HackathonPayoutStatus).join(", ")}`,
+    ),
+  query("source")
+    .optional()
+    .isIn(Object.values(HackathonPayoutSource))
+    .withMessage(
+      `Source must be one of: ${Object.values(HackathonPayoutSource).join(", ")}`,
+    ),
+];
+
+export const exportPayoutsQuerySchema: ValidationChain[] = [
+  query("status")
+    .optional()
+    .isIn(Object.values(HackathonPayoutStatus))
+    .withMessage(
+      `Status must be one of: ${Object.values(HackathonPayoutStatus).join(", ")}`,
+    ),
+  query("source")
+    .optional()
+    .isIn(Object.values(HackathonPayoutSource))
+    .withMessage(
+      `Source must be one of: ${Object.values(HackathonPayoutSource).join(", ")}`,
+    ),
+];
+
+export const updatePayoutWalletSchema: ValidationChain[] = [
+  body("walletAddress")
+    .trim()
+    .notEmpty()
+    .withMessage("Wallet address is required")
+    .custom((value) => {
+      if (!isValidStellarAddress(value)) {
+        throw new Error(
+          "Wallet address must be a valid Stellar address (starts with 'G', 56 characters)",
+        );
+      }
+      return true;
+    }),
+];
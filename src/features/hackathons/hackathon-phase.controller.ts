@@ -0,0 +1,378 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Hackathon from "../../models/hackathon.model.js";
+import HackathonParticipant, {
+  IHackathonParticipant,
+  IPhaseSubmission,
+} from "../../models/hackathon-participant.model.js";
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendBadRequest,
+  sendValidationError,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  canEnterPhase,
+  canManageHackathons,
+  findPhase,
+  getCurrentPhase,
+  getPhaseStatus,
+  resolveHackathonByIdOrSlug,
+  validateQuestionAnswers,
+} from "./hackathon.helpers.js";
+import { transformPhaseToFrontend } from "./hackathon-transformers.js";
+
+const formatPhaseSubmission = (submission: IPhaseSubmission) => ({
+  phaseId: submission.phaseId.toString(),
+  answers: submission.answers || [],
+  submittedAt: submission.submittedAt.toISOString(),
+  updatedAt: submission.updatedAt
+    ? submission.updatedAt.toISOString()
+    : undefined,
+});
+
+const findPhaseSubmission = (
+  participant: Pick<IHackathonParticipant, "phaseSubmissions">,
+  phaseId: string | mongoose.Types.ObjectId,
+): IPhaseSubmission | undefined =>
+  (participant.phaseSubmissions || []).find(
+    (submission) => submission.phaseId.toString() === phaseId.toString(),
+  );
+
+/**
+ * Resolve the hackathon for participant-facing phase routes
+ */
+const resolvePhaseHackathon = (req: Request) => {
+  const { hackathonSlugOrId, orgId, hackathonId } = req.params;
+  return resolveHackathonByIdOrSlug(
+    hackathonId || hackathonSlugOrId,
+    orgId ? undefined : { includePublishedOnly: true },
+  );
+};
+
+/**
+ * Get the hackathon's phases and which one is live. Registered participants
+ * also see whether they can submit to each phase and what they submitted.
+ * GET /organizations/{orgId}/hackathons/{hackathonId}/phases
+ * GET /hackathons/{hackathonSlugOrId}/phases
+ */
+export const getPhases = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+
+    const hackathon = await resolvePhaseHackathon(req);
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const participant = user
+      ? await HackathonParticipant.findOne({
+          hackathonId: hackathon._id,
+          userId: user._id,
+        })
+      : null;
+
+    const now = new Date();
+    const currentPhase = getCurrentPhase(hackathon, now);
+
+    const phases = (hackathon.phases || []).map((phase) => {
+      const transformed = transformPhaseToFrontend(phase, now);
+      if (!participant) {
+        return transformed;
+      }
+
+      const submission = findPhaseSubmission(participant, phase._id);
+      return {
+        ...transformed,
+        canSubmit:
+          transformed.status === "live" &&
+          canEnterPhase(hackathon, participant, phase._id),
+        submission: submission ? formatPhaseSubmission(submission) : null,
+      };
+    });
+
+    sendSuccess(
+      res,
+      {
+        phases,
+        currentPhase: currentPhase
+          ? transformPhaseToFrontend(currentPhase, now)
+          : null,
+      },
+      "Phases retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get phases error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve phases",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Submit or update the caller's entry for a live phase
+ * POST /organizations/{orgId}/hackathons/{hackathonId}/phases/{phaseId}/submission
+ * POST /hackathons/{hackathonSlugOrId}/phases/{phaseId}/submission
+ */
+export const submitToPhase = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { phaseId } = req.params;
+    const { answers } = req.body;
+
+    if (!user) {
+      sendForbidden(res, "Authentication required");
+      return;
+    }
+
+    const hackathon = await resolvePhaseHackathon(req);
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const phase = findPhase(hackathon, phaseId);
+    if (!phase) {
+      sendNotFound(res, "Phase not found");
+      return;
+    }
+
+    const participant = await HackathonParticipant.findOne({
+      hackathonId: hackathon._id,
+      userId: user._id,
+    });
+
+    if (!participant) {
+      sendForbidden(res, "You must be registered for this hackathon");
+      return;
+    }
+
+    if (participant.submission?.status === "disqualified") {
+      sendForbidden(res, "Disqualified participants cannot submit");
+      return;
+    }
+
+    const status = getPhaseStatus(phase);
+    if (status !== "live") {
+      sendBadRequest(
+        res,
+        status === "upcoming"
+          ? "This phase has not started yet"
+          : "This phase has ended",
+      );
+      return;
+    }
+
+    if (!canEnterPhase(hackathon, participant, phase._id)) {
+      sendForbidden(res, "You have not been advanced to this phase");
+      return;
+    }
+
+    const { answers: phaseAnswers, errors: answerErrors } =
+      validateQuestionAnswers(phase.fields || [], answers, "phase field");
+    if (answerErrors.length > 0) {
+      sendValidationError(res, "Invalid phase submission", answerErrors);
+      return;
+    }
+
+    const now = new Date();
+    const existing = findPhaseSubmission(participant, phase._id);
+
+    if (existing) {
+      existing.answers = phaseAnswers;
+      existing.updatedAt = now;
+    } else {
+      participant.phaseSubmissions = [
+        ...(participant.phaseSubmissions || []),
+        { phaseId: phase._id, answers: phaseAnswers, submittedAt: now },
+      ];
+    }
+
+    await participant.save();
+
+    const saved = findPhaseSubmission(participant, phase._id)!;
+    const responseData = {
+      participantId: (participant._id as mongoose.Types.ObjectId).toString(),
+      phaseName: phase.name,
+      ...formatPhaseSubmission(saved),
+    };
+
+    if (existing) {
+      sendSuccess(res, responseData, "Phase submission updated successfully");
+    } else {
+      sendCreated(res, responseData, "Phase submission created successfully");
+    }
+  } catch (error) {
+    console.error("Submit to phase error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to submit to phase",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/phases/{phaseId}/submissions:
+ *   get:
+ *     summary: Get phase submissions
+ *     description: Retrieve participants' submissions to a phase along with whether each was advanced to the next phase
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: advanced
+ *         schema:
+ *           type: boolean
+ *         description: Only return participants that were (or were not) advanced to the next phase
+ */
+export const getPhaseSubmissions = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId, phaseId } = req.params;
+    const { page = "1", limit = "10", advanced } = req.query;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can view phase submissions for this organization",
+      );
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    });
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const phase = findPhase(hackathon, phaseId);
+    if (!phase) {
+      sendNotFound(res, "Phase not found");
+      return;
+    }
+
+    const phases = hackathon.phases || [];
+    const phaseIndex = phases.findIndex(
+      (candidate) => candidate._id.toString() === phase._id.toString(),
+    );
+    const nextPhase = phases[phaseIndex + 1];
+
+    const query: Record<string, unknown> = {
+      hackathonId: hackathon._id,
+      "phaseSubmissions.phaseId": phase._id,
+    };
+
+    if (nextPhase && advanced !== undefined) {
+      query.advancedPhaseIds =
+        advanced === "true" ? nextPhase._id : { $ne: nextPhase._id };
+    }
+
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [totalItems, participants] = await Promise.all([
+      HackathonParticipant.countDocuments(query),
+      HackathonParticipant.find(query)
+        .populate({
+          path: "userId",
+          select: "email profile",
+        })
+        .sort({ registeredAt: 1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+    ]);
+
+    const items = participants.map((participant: any) => {
+      const participantUser = participant.userId;
+      const submission = findPhaseSubmission(participant, phase._id)!;
+
+      return {
+        participantId: participant._id.toString(),
+        userId: participantUser._id.toString(),
+        user: {
+          _id: participantUser._id.toString(),
+          profile: {
+            firstName: participantUser.profile?.firstName || "",
+            lastName: participantUser.profile?.lastName || "",
+            username: participantUser.profile?.username || "",
+            avatar: participantUser.profile?.avatar || "",
+          },
+          email: participantUser.email || "",
+        },
+        participationType: participant.participationType,
+        teamName: participant.teamName || undefined,
+        submission: formatPhaseSubmission(submission),
+        advancedToNextPhase: nextPhase
+          ? (participant.advancedPhaseIds || []).some(
+              (id: mongoose.Types.ObjectId) =>
+                id.toString() === nextPhase._id.toString(),
+            )
+          : null,
+      };
+    });
+
+    const totalPages = Math.ceil(totalItems / limitNum);
+
+    sendSuccess(
+      res,
+      {
+        phase: transformPhaseToFrontend(phase),
+        nextPhaseId: nextPhase ? nextPhase._id.toString() : null,
+        submissions: items,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalItems,
+          itemsPerPage: limitNum,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1,
+        },
+      },
+      "Phase submissions retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get phase submissions error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve phase submissions",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
@@ -0,0 +1,30 @@
+import { body, param, query, ValidationChain } from "express-validator";
+
+export const phaseIdParam: ValidationChain = param("phaseId")
+  .isMongoId()
+  .withMessage("Invalid phase ID");
+
+export const phaseSubmissionSchema: ValidationChain[] = [
+  body("answers")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Answers must be an array"),
+  body("answers.*.questionId")
+    .isMongoId()
+    .withMessage("Each answer must reference a valid field ID"),
+];
+
+export const getPhaseSubmissionsQuerySchema: ValidationChain[] = [
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+  query("advanced")
+    .optional()
+    .isBoolean()
+    .withMessage("advanced must be a boolean"),
+];
@@ -0,0 +1,368 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { IHackathon } from "../../models/hackathon.model.js";
+import HackathonParticipant, {
+  IHackathonParticipant,
+} from "../../models/hackathon-participant.model.js";
+import { NotificationType } from "../../models/notification.model.js";
+import User from "../../models/user.model.js";
+import {
+  sendSuccess,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendBadRequest,
+  sendConflict,
+  sendValidationError,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  getPrizeSplitIssue,
+  resolveHackathonByIdOrSlug,
+  validatePrizeSplitShares,
+} from "./hackathon.helpers.js";
+import HackathonPayoutService from "./hackathon-payout.service.js";
+import NotificationService from "../notifications/notification.service.js";
+import EmailTemplatesService from "../../services/email/email-templates.service.js";
+
+const isTeamLeader = (
+  participant: Pick<IHackathonParticipant, "teamMembers">,
+  userId: mongoose.Types.ObjectId,
+): boolean =>
+  participant.teamMembers?.some(
+    (m) => m.userId.toString() === userId.toString() && m.role === "leader",
+  ) || participant.teamMembers?.length === 1; // If only one member, they're the leader
+
+const formatPrizeSplit = async (entry: IHackathonParticipant) => {
+  const split = entry.prizeSplit;
+  const shares = split?.shares || [];
+
+  return {
+    participantId: (entry._id as mongoose.Types.ObjectId).toString(),
+    teamName: entry.teamName || undefined,
+    members: (entry.teamMembers || []).map((member) => {
+      const share = shares.find(
+        (s) => s.userId.toString() === member.userId.toString(),
+      );
+      return {
+        userId: member.userId.toString(),
+        name: member.name,
+        username: member.username,
+        role: member.role,
+        avatar: member.avatar || undefined,
+        percent: share ? share.percent : null,
+        walletAddress: share?.walletAddress || undefined,
+        approved: !!share?.approvedAt,
+        approvedAt: share?.approvedAt
+          ? share.approvedAt.toISOString()
+          : undefined,
+      };
+    }),
+    proposedBy: split ? split.proposedBy.toString() : null,
+    proposedAt: split ? split.proposedAt.toISOString() : null,
+    approvedAt: split?.approvedAt ? split.approvedAt.toISOString() : null,
+    issue: getPrizeSplitIssue(entry),
+    locked: await HackathonPayoutService.hasReleasedPrize(
+      entry._id as mongoose.Types.ObjectId,
+    ),
+  };
+};
+
+/**
+ * Find the caller's team entry, the participant record that holds the
+ * team's submission and rank. Sends the error response if there is none.
+ */
+const loadTeamEntry = async (
+  req: Request,
+  res: Response,
+): Promise<{
+  hackathon: IHackathon;
+  entry: IHackathonParticipant;
+  user: NonNullable<AuthenticatedRequest["user"]>;
+} | null> => {
+  const user = (req as AuthenticatedRequest).user;
+  const { hackathonSlugOrId, orgId, hackathonId } = req.params;
+
+  if (!user) {
+    sendError(res, "Authentication required", 401);
+    return null;
+  }
+
+  const hackathon = await resolveHackathonByIdOrSlug(
+    hackathonId || hackathonSlugOrId,
+    orgId ? undefined : { includePublishedOnly: true },
+  );
+
+  if (!hackathon) {
+    sendNotFound(res, "Hackathon not found");
+    return null;
+  }
+
+  const participant = await HackathonParticipant.findOne({
+    hackathonId: hackathon._id,
+    userId: user._id,
+  });
+
+  if (!participant) {
+    sendForbidden(res, "You must be registered for this hackathon");
+    return null;
+  }
+
+  if (participant.participationType !== "team" || !participant.teamId) {
+    sendBadRequest(res, "Prize splits are only available to teams");
+    return null;
+  }
+
+  const entry = participant.submission
+    ? participant
+    : await HackathonParticipant.findOne({
+        hackathonId: hackathon._id,
+        teamId: participant.teamId,
+        submission: { $exists: true },
+      });
+
+  if (!entry) {
+    sendBadRequest(res, "Your team has not submitted a project yet");
+    return null;
+  }
+
+  return { hackathon, entry, user };
+};
+
+/**
+ * Get the caller's team prize split and who still has to approve it
+ * GET /organizations/{orgId}/hackathons/{hackathonId}/team/prize-split
+ * GET /hackathons/{hackathonSlugOrId}/team/prize-split
+ */
+export const getPrizeSplit = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const loaded = await loadTeamEntry(req, res);
+    if (!loaded) return;
+
+    sendSuccess(
+      res,
+      await formatPrizeSplit(loaded.entry),
+      "Prize split retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get prize split error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve prize split",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Propose or edit how the team splits its prize. Team leads only; every
+ * member has to approve again after a change. Locked once any of the prize
+ * has been released.
+ * PUT /organizations/{orgId}/hackathons/{hackathonId}/team/prize-split
+ * PUT /hackathons/{hackathonSlugOrId}/team/prize-split
+ */
+export const proposePrizeSplit = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const loaded = await loadTeamEntry(req, res);
+    if (!loaded) return;
+    const { hackathon, entry, user } = loaded;
+    const { shares } = req.body;
+
+    if (!isTeamLeader(entry, user._id)) {
+      sendForbidden(res, "Only team leaders can propose a prize split");
+      return;
+    }
+
+    const entryId = entry._id as mongoose.Types.ObjectId;
+    if (await HackathonPayoutService.hasReleasedPrize(entryId)) {
+      sendConflict(
+        res,
+        "The prize has already been paid out and the split can no longer be changed",
+      );
+      return;
+    }
+
+    const errors = validatePrizeSplitShares(shares, entry.teamMembers || []);
+    if (errors.length > 0) {
+      sendValidationError(res, "Invalid prize split", errors);
+      return;
+    }
+
+    const now = new Date();
+    entry.prizeSplit = {
+      shares: shares.map((share: any) => ({
+        userId: new mongoose.Types.ObjectId(share.userId),
+        percent: Number(share.percent),
+        walletAddress: share.walletAddress || undefined,
+        // Proposing counts as the lead's own approval
+        approvedAt:
+          share.userId.toString() === user._id.toString() ? now : undefined,
+      })),
+      proposedBy: user._id,
+      proposedAt: now,
+    };
+
+    const approved = !getPrizeSplitIssue(entry);
+    if (approved) {
+      entry.prizeSplit.approvedAt = now;
+    }
+    await entry.save();
+
+    if (approved) {
+      await HackathonPayoutService.applyPrizeSplit(hackathon, entry);
+    } else {
+      await HackathonPayoutService.holdPrizePayouts(entryId);
+    }
+
+    // Ask the rest of the team to approve
+    try {
+      const hackathonName = hackathon.title || "Hackathon";
+      const proposerName =
+        entry.teamMembers?.find(
+          (m) => m.userId.toString() === user._id.toString(),
+        )?.name || user.email;
+      const others = entry.prizeSplit.shares.filter(
+        (share) => share.userId.toString() !== user._id.toString(),
+      );
+      const members = await User.find({
+        _id: { $in: others.map((share) => share.userId) },
+      }).select("email profile.firstName");
+
+      for (const share of others) {
+        const member = members.find(
+          (m) => m._id.toString() === share.userId.toString(),
+        );
+        if (!member?.email) continue;
+
+        await NotificationService.sendSingleNotification(
+          {
+            userId: member._id,
+            email: member.email,
+            name: member.profile?.firstName || member.email,
+          },
+          {
+            type: NotificationType.HACKATHON_PRIZE_SPLIT_PROPOSED,
+            title: `Approve your prize split for ${hackathonName}`,
+            message: `${proposerName} proposed a prize split for "${entry.teamName || "your team"}". Your share is ${share.percent}%.`,
+            data: {
+              hackathonId: hackathon._id as mongoose.Types.ObjectId,
+              hackathonName,
+              hackathonSlug: hackathon.slug,
+              participantId: entryId,
+              percent: share.percent,
+            },
+            emailTemplate: EmailTemplatesService.getTemplate(
+              "hackathon-prize-split-proposed",
+              {
+                hackathonId: (
+                  hackathon._id as mongoose.Types.ObjectId
+                ).toString(),
+                hackathonName,
+                hackathonSlug: hackathon.slug,
+                teamName: entry.teamName,
+                proposerName,
+                percent: share.percent,
+              },
+            ),
+            sendEmail: true,
+            sendInApp: true,
+          },
+        );
+      }
+    } catch (notificationError) {
+      console.error(
+        "Failed to send prize split notifications:",
+        notificationError,
+      );
+    }
+
+    sendSuccess(
+      res,
+      await formatPrizeSplit(entry),
+      "Prize split proposed successfully",
+    );
+  } catch (error) {
+    console.error("Propose prize split error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to propose prize split",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Approve the team's current prize split, optionally setting the wallet
+ * the caller's share is paid to
+ * POST /organizations/{orgId}/hackathons/{hackathonId}/team/prize-split/approve
+ * POST /hackathons/{hackathonSlugOrId}/team/prize-split/approve
+ */
+export const approvePrizeSplit = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const loaded = await loadTeamEntry(req, res);
+    if (!loaded) return;
+    const { hackathon, entry, user } = loaded;
+    const { walletAddress } = req.body;
+
+    const share = entry.prizeSplit?.shares.find(
+      (s) => s.userId.toString() === user._id.toString(),
+    );
+    if (!entry.prizeSplit || !share) {
+      sendNotFound(res, "There is no prize split for you to approve");
+      return;
+    }
+
+    const entryId = entry._id as mongoose.Types.ObjectId;
+    if (await HackathonPayoutService.hasReleasedPrize(entryId)) {
+      sendConflict(res, "The prize has already been paid out");
+      return;
+    }
+
+    if (walletAddress) {
+      share.walletAddress = walletAddress;
+    }
+    if (share.percent > 0 && !share.walletAddress) {
+      sendBadRequest(res, "A wallet address is required for your share");
+      return;
+    }
+
+    const now = new Date();
+    share.approvedAt = now;
+
+    const wasApproved = !!entry.prizeSplit.approvedAt;
+    const issue = getPrizeSplitIssue(entry);
+    entry.prizeSplit.approvedAt = issue ? undefined : now;
+    entry.markModified("prizeSplit");
+    await entry.save();
+
+    // Changing a wallet on an approved split re-syncs the payouts too
+    if (!issue && (!wasApproved || walletAddress)) {
+      await HackathonPayoutService.applyPrizeSplit(hackathon, entry);
+    }
+
+    sendSuccess(
+      res,
+      await formatPrizeSplit(entry),
+      issue
+        ? "Prize split approved, waiting on the rest of the team"
+        : "Prize split approved by the whole team",
+    );
+  } catch (error) {
+    console.error("Approve prize split error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to approve prize split",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
@@ -0,0 +1,32 @@
+import { body, ValidationChain } from "express-validator";
+import { isValidStellarAddress } from "../../utils/wallet.js";
+
+const stellarAddress = (value: string) => {
+  if (!isValidStellarAddress(value)) {
+    throw new Error(
+      "Wallet address must be a valid Stellar address (starts with 'G', 56 characters)",
+    );
+  }
+  return true;
+};
+
+export const proposePrizeSplitSchema: ValidationChain[] = [
+  body("shares")
+    .isArray({ min: 1, max: 50 })
+    .withMessage("Shares must be a non-empty array"),
+  body("shares.*.userId")
+    .isMongoId()
+    .withMessage("Each share must reference a valid user ID"),
+  body("shares.*.percent")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Each share must be a percentage between 0 and 100")
+    .toFloat(),
+  body("shares.*.walletAddress")
+    .optional({ values: "falsy" })
+    .trim()
+    .custom(stellarAddress),
+];
+
+export const approvePrizeSplitSchema: ValidationChain[] = [
+  body("walletAddress").optional().trim().custom(stellarAddress),
+];
@@ -10,16 +10,27 @@ import {
   sendForbidden,
   sendConflict,
   sendInternalServerError,
+  sendValidationError,
 } from "../../utils/apiResponse.js";
 import {
   AuthenticatedRequest,
   resolveHackathonByIdOrSlug,
   isRegistrationOpen,
-  sendTeamInvitationsDuringRegistration,
+  createHackathonRegistration,
+  validateRegistrationAnswers,
 } from "./hackathon.helpers.js";
-import { sendEmail } from "../../utils/email.utils.js";
-import { config } from "../../config/main.config.js";
-import EmailTemplatesService from "../../services/email/email-templates.service.js";
+import { RegistrationMode } from "../../models/hackathon.model.js";
+import HackathonApplication, {
+  HackathonApplicationStatus,
+} from "../../models/hackathon-application.model.js";
+import { formatApplication } from "./hackathon-application.controller.js";
+import HackathonWaitlistEntry, {
+  HackathonWaitlistStatus,
+} from "../../models/hackathon-waitlist-entry.model.js";
+import HackathonWaitlistService, {
+  HackathonFullError,
+} from "./hackathon-waitlist.service.js";
+import { formatWaitlistEntry } from "./hackathon-waitlist.controller.js";
 
 /**
  * Register for hackathon
@@ -39,7 +50,7 @@ export const registerForHackathon = async (
     }
 
     const { hackathonSlugOrId, orgId, hackathonId } = req.params;
-    const { participationType, teamName, teamMembers } = req.body;
+    const { participationType, teamName, teamMembers, answers } = req.body;
 
     const hackathonIdentifier = hackathonId || hackathonSlugOrId;
     const isOrgRoute = !!orgId;
@@ -73,30 +84,12 @@ export const registerForHackathon = async (
       return;
     }
 
-    let teamId: string | undefined;
-    let teamMembersData: any[] = [];
-    let invitationsSent = 0;
-
     if (participationType === "team") {
       if (!teamName) {
         sendBadRequest(res, "Team name is required for team participation");
         return;
       }
 
-      teamId = `${(hackathon._id as mongoose.Types.ObjectId).toString()}-${Date.now()}`;
-
-      teamMembersData = [
-        {
-          userId: user._id,
-          name:
-            `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
-            user.email,
-          username: user.profile?.username || user.email.split("@")[0],
-          role: "leader",
-          avatar: user.profile?.avatar,
-        },
-      ];
-
       const invitedMembersCount = teamMembers ? teamMembers.length : 0;
       const totalPotentialMembers = 1 + invitedMembersCount;
 
@@ -115,105 +108,127 @@ export const registerForHackathon = async (
         );
         return;
       }
+    }
 
-      if (teamMembers && teamMembers.length > 0) {
-        const invitationResults = await sendTeamInvitationsDuringRegistration({
-          teamMembers,
-          hackathon,
-          teamId,
-          teamName,
-          user,
-          req,
-        });
+    const { answers: registrationAnswers, errors: answerErrors } =
+      validateRegistrationAnswers(hackathon, answers);
+    if (answerErrors.length > 0) {
+      sendValidationError(res, "Invalid registration answers", answerErrors);
+      return;
+    }
 
-        invitationsSent = invitationResults.invitationsSent;
+    // Application mode: organizers decide who becomes a participant
+    if (hackathon.registrationMode === RegistrationMode.APPLICATION) {
+      const existingApplication = await HackathonApplication.findOne({
+        hackathonId: hackathon._id,
+        userId: user._id,
+      });
 
-        if (invitationResults.failed.length > 0) {
-          console.warn("Some invitation emails failed:", {
-            failed: invitationResults.failed,
-            teamId,
-            hackathon: hackathon._id,
-          });
-        }
+      if (existingApplication?.status === HackathonApplicationStatus.PENDING) {
+        sendConflict(res, "You have already applied to this hackathon");
+        return;
       }
-    }
-
-    const participant = await HackathonParticipant.create({
-      userId: user._id,
-      hackathonId: hackathon._id,
-      organizationId: hackathon.organizationId,
-      participationType,
-      teamId,
-      teamName: participationType === "team" ? teamName : undefined,
-      teamMembers: teamMembersData,
-      registeredAt: new Date(),
-    });
 
-    try {
-      const hackathonLink = `${config.frontendUrl}/hackathons/${hackathon.slug || hackathon._id}`;
-      const userName =
-        `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
-        user.email;
+      if (existingApplication?.status === HackathonApplicationStatus.REJECTED) {
+        sendForbidden(
+          res,
+          "Your application to this hackathon was not accepted",
+        );
+        return;
+      }
 
-      const template = EmailTemplatesService.getTemplate(
-        "hackathon-registered",
+      const application = await HackathonApplication.findOneAndUpdate(
+        { hackathonId: hackathon._id, userId: user._id },
         {
-          hackathonName: hackathon.title || "Hackathon",
-          hackathonSlug: hackathon.slug,
-          hackathonId: (hackathon._id as mongoose.Types.ObjectId).toString(),
-          userName,
-          participationType,
-          teamName: participationType === "team" ? teamName : undefined,
-          frontendUrl: config.frontendUrl,
+          $set: {
+            organizationId: hackathon.organizationId,
+            participationType,
+            teamName: participationType === "team" ? teamName : undefined,
+            teamMembers: participationType === "team" ? teamMembers || [] : [],
+            registrationAnswers,
+            status: HackathonApplicationStatus.PENDING,
+            submittedAt: new Date(),
+          },
+          $unset: {
+            reviewedBy: 1,
+            reviewedAt: 1,
+            rejectionReason: 1,
+            participantId: 1,
+          },
         },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
       );
 
-      await sendEmail({
-        to: user.email,
-        subject: template.subject,
-        text: template.text || "",
-        html: template.html,
-        priority: template.priority as any,
-      });
-    } catch (emailError) {
-      console.error(
-        "Failed to send registration confirmation email:",
-        emailError,
+      sendCreated(
+        res,
+        formatApplication(application!),
+        "Application submitted. You will be notified once the organizers have reviewed it.",
       );
+      return;
     }
 
-    await participant.populate({
-      path: "userId",
-      select: "email profile",
-    });
-
-    const userData = participant.userId as any;
-    const profile = userData?.profile || {};
+    // Registering uses up a spot held for this user, or a free one
+    let responseData;
+    if (await HackathonWaitlistService.hasOpenSpot(hackathon, user._id)) {
+      try {
+        responseData = await createHackathonRegistration({
+          hackathon,
+          user,
+          participationType,
+          teamName,
+          teamMembers,
+          registrationAnswers,
+          req,
+        });
+      } catch (error) {
+        // Someone else took the last spot in the meantime
+        if (!(error instanceof HackathonFullError)) {
+          throw error;
+        }
+      }
+    }
 
-    const responseData = {
-      _id: (participant._id as mongoose.Types.ObjectId).toString(),
-      userId: participant.userId._id.toString(),
-      hackathonId: participant.hackathonId.toString(),
-      organizationId: participant.organizationId.toString(),
-      user: {
-        _id: userData._id.toString(),
-        profile: {
-          firstName: profile.firstName,
-          lastName: profile.lastName,
-          username: profile.username,
-          avatar: profile.avatar,
+    // Over capacity: queue the registration instead
+    if (!responseData) {
+      const existingEntry = await HackathonWaitlistEntry.findOne({
+        hackathonId: hackathon._id,
+        userId: user._id,
+        status: {
+          $in: [
+            HackathonWaitlistStatus.WAITING,
+            HackathonWaitlistStatus.OFFERED,
+          ],
         },
-        email: userData.email,
-      },
-      participationType: participant.participationType,
-      teamId: participant.teamId || null,
-      teamName: participant.teamName || null,
-      teamMembers: participant.teamMembers || null,
-      submission: null,
-      registeredAt: participant.registeredAt.toISOString(),
-      invitationsSent,
-    };
+      });
+
+      if (existingEntry) {
+        sendConflict(res, "You are already on the waitlist for this hackathon");
+        return;
+      }
+
+      const entry = await HackathonWaitlistService.join(hackathon, user._id, {
+        participationType,
+        teamName,
+        teamMembers,
+        registrationAnswers,
+      });
+      // Spots left for the queue go out in order, possibly to this entry
+      await HackathonWaitlistService.promote(
+        hackathon._id as mongoose.Types.ObjectId,
+      );
+
+      const waitlistEntry =
+        (await HackathonWaitlistEntry.findById(entry._id)) || entry;
+
+      sendCreated(
+        res,
+        await formatWaitlistEntry(waitlistEntry),
+        "Hackathon is full. You have been added to the waitlist.",
+      );
+      return;
+    }
 
+    const { invitationsSent } = responseData;
     const message =
       invitationsSent > 0
         ? `Successfully registered for hackathon. ${invitationsSent} team invitation(s) sent.`
@@ -37,4 +37,23 @@ export const registerSchema: ValidationChain[] = [
     .optional()
     .isEmail()
     .withMessage("Each team member must be a valid email address"),
+  body("answers")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Answers must be an array"),
+  body("answers.*.questionId")
+    .isMongoId()
+    .withMessage("Each answer must reference a valid question ID"),
+];
+
+export const applicationIdParam: ValidationChain = param("applicationId")
+  .isMongoId()
+  .withMessage("Invalid application ID");
+
+export const reviewApplicationSchema: ValidationChain[] = [
+  body("reason")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Reason cannot exceed 1000 characters"),
 ];
@@ -0,0 +1,300 @@
+import mongoose from "mongoose";
+import { IHackathon } from "../../models/hackathon.model.js";
+import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import HackathonJudgingScore from "../../models/hackathon-judging-score.model.js";
+import HackathonSubmissionVote from "../../models/hackathon-submission-vote.model.js";
+import {
+  HackathonResultsResponse,
+  ResultEntry,
+  ResultHonorableMention,
+  ResultScoreBreakdown,
+  ResultSection,
+  ResultWinner,
+  VoteLeaderboardEntry,
+} from "../../types/hackathon.js";
+import { findPrizeTier, getParticipantRank } from "./hackathon.helpers.js";
+
+const COMMUNITY_LEADERBOARD_SIZE = 20;
+
+type ResultsHackathon = Pick<
+  IHackathon,
+  | "title"
+  | "slug"
+  | "tracks"
+  | "prizeTiers"
+  | "winnersAnnounced"
+  | "winnersAnnouncedAt"
+  | "winnersAnnouncement"
+  | "honorableMentions"
+  | "showScoreBreakdown"
+> & { _id: mongoose.Types.ObjectId | unknown };
+
+const roundScore = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Builds the public results page for a hackathon: announced winners per
+ * scope, honorable mentions and the community vote leaderboard. Only
+ * announced scopes are included, and judge identities and notes are never
+ * exposed.
+ */
+export class HackathonResultsService {
+  static async build(
+    hackathon: ResultsHackathon,
+  ): Promise<HackathonResultsResponse> {
+    const hackathonId = hackathon._id as mongoose.Types.ObjectId;
+    const participants = await HackathonParticipant.find({
+      hackathonId,
+      submission: { $exists: true, $ne: null },
+      "submission.status": { $ne: "disqualified" },
+    })
+      .populate(
+        "userId",
+        "profile.firstName profile.lastName profile.username profile.avatar",
+      )
+      .lean();
+
+    const byId = new Map(
+      participants.map((participant) => [
+        participant._id.toString(),
+        participant,
+      ]),
+    );
+
+    const overall = await this.buildSection(
+      hackathon,
+      participants,
+      byId,
+      null,
+    );
+    const tracks: ResultSection[] = [];
+    for (const track of hackathon.tracks || []) {
+      tracks.push(
+        await this.buildSection(hackathon, participants, byId, track._id),
+      );
+    }
+
+    return {
+      hackathonId: hackathonId.toString(),
+      slug: hackathon.slug || "",
+      title: hackathon.title || "",
+      winnersAnnounced: hackathon.winnersAnnounced === true,
+      scoreBreakdownVisible: hackathon.showScoreBreakdown === true,
+      overall,
+      tracks,
+      communityVotes: await this.buildVoteLeaderboard(participants, byId),
+    };
+  }
+
+  private static toEntry(participant: any): ResultEntry {
+    const user = participant.userId || {};
+    const profile = user.profile || {};
+    const members =
+      participant.participationType === "team" &&
+      participant.teamMembers?.length
+        ? participant.teamMembers.map((member: any) => ({
+            name: member.name,
+            username: member.username,
+            avatar: member.avatar || undefined,
+          }))
+        : [
+            {
+              name: `${profile.firstName || ""} ${profile.lastName || ""}`.trim(),
+              username: profile.username || "",
+              avatar: profile.avatar || undefined,
+            },
+          ];
+
+    return {
+      participantId: participant._id.toString(),
+      projectName: participant.submission?.projectName || "",
+      logo: participant.submission?.logo || undefined,
+      participationType: participant.participationType,
+      teamName: participant.teamName || undefined,
+      members,
+    };
+  }
+
+  private static async buildSection(
+    hackathon: ResultsHackathon,
+    participants: any[],
+    byId: Map<string, any>,
+    trackId: mongoose.Types.ObjectId | null,
+  ): Promise<ResultSection> {
+    const track = trackId
+      ? (hackathon.tracks || []).find(
+          (t) => t._id.toString() === trackId.toString(),
+        )
+      : undefined;
+    const announcedAt = track
+      ? track.winnersAnnouncedAt
+      : hackathon.winnersAnnounced
+        ? hackathon.winnersAnnouncedAt
+        : undefined;
+    const announced = track
+      ? !!track.winnersAnnouncedAt
+      : hackathon.winnersAnnounced === true;
+
+    const section: ResultSection = {
+      trackId: trackId ? trackId.toString() : null,
+      name: track ? track.name : "Overall",
+      announced,
+      announcedAt: announcedAt
+        ? new Date(announcedAt).toISOString()
+        : undefined,
+      announcement:
+        (announced &&
+          (track
+            ? track.winnersAnnouncement
+            : hackathon.winnersAnnouncement)) ||
+        undefined,
+      winners: [],
+      honorableMentions: [],
+    };
+
+    if (!announced) {
+      return section;
+    }
+
+    const ranked = participants
+      .map((participant) => ({
+        participant,
+        rank: getParticipantRank(participant, trackId),
+      }))
+      .filter((entry): entry is { participant: any; rank: number } =>
+        Boolean(entry.rank),
+      )
+      .sort((a, b) => a.rank - b.rank);
+
+    const breakdowns = hackathon.showScoreBreakdown
+      ? await this.buildScoreBreakdowns(
+          ranked.map((entry) => entry.participant._id),
+          trackId,
+        )
+      : null;
+
+    section.winners = ranked.map(({ participant, rank }): ResultWinner => {
+      const tier = findPrizeTier(rank, hackathon, trackId);
+      return {
+        ...this.toEntry(participant),
+        rank,
+        prize: tier
+          ? {
+              position: tier.position,
+              amount: tier.amount,
+              currency: tier.currency || undefined,
+            }
+          : null,
+        scores: breakdowns?.get(participant._id.toString()),
+      };
+    });
+
+    section.honorableMentions = (hackathon.honorableMentions || [])
+      .filter(
+        (mention) =>
+          (mention.trackId?.toString() || null) ===
+          (trackId ? trackId.toString() : null),
+      )
+      .flatMap((mention): ResultHonorableMention[] => {
+        const participant = byId.get(mention.participantId.toString());
+        return participant
+          ? [{ ...this.toEntry(participant), note: mention.note || undefined }]
+          : [];
+      });
+
+    return section;
+  }
+
+  /**
+   * Average the judges' scores per submission. Only the final round counts,
+   * so phase scores are left out.
+   */
+  private static async buildScoreBreakdowns(
+    submissionIds: mongoose.Types.ObjectId[],
+    trackId: mongoose.Types.ObjectId | null,
+  ): Promise<Map<string, ResultScoreBreakdown>> {
+    const breakdowns = new Map<string, ResultScoreBreakdown>();
+    if (submissionIds.length === 0) {
+      return breakdowns;
+    }
+
+    const scores = await HackathonJudgingScore.find({
+      submissionId: { $in: submissionIds },
+      trackId: trackId || null,
+      phaseId: null,
+    })
+      .select("submissionId scores weightedScore")
+      .lean();
+
+    const grouped = new Map<string, typeof scores>();
+    for (const score of scores) {
+      const key = score.submissionId.toString();
+      grouped.set(key, [...(grouped.get(key) || []), score]);
+    }
+
+    for (const [submissionId, judgeScores] of grouped) {
+      const criteria = new Map<string, number[]>();
+      for (const judgeScore of judgeScores) {
+        for (const criterion of judgeScore.scores) {
+          criteria.set(criterion.criterionTitle, [
+            ...(criteria.get(criterion.criterionTitle) || []),
+            criterion.score,
+          ]);
+        }
+      }
+
+      breakdowns.set(submissionId, {
+        judgeCount: judgeScores.length,
+        averageScore: roundScore(
+          judgeScores.reduce((sum, s) => sum + s.weightedScore, 0) /
+            judgeScores.length,
+        ),
+        criteria: [...criteria].map(([title, values]) => ({
+          title,
+          averageScore: roundScore(
+            values.reduce((sum, value) => sum + value, 0) / values.length,
+          ),
+        })),
+      });
+    }
+
+    return breakdowns;
+  }
+
+  private static async buildVoteLeaderboard(
+    participants: any[],
+    byId: Map<string, any>,
+  ): Promise<VoteLeaderboardEntry[]> {
+    if (participants.length === 0) {
+      return [];
+    }
+
+    const tallies = await HackathonSubmissionVote.aggregate([
+      {
+        $match: {
+          submissionId: { $in: participants.map((p) => p._id) },
+          voidedAt: null,
+        },
+      },
+      {
+        $group: {
+          _id: "$submissionId",
+          upvotes: { $sum: { $cond: [{ $eq: ["$value", 1] }, 1, 0] } },
+          downvotes: { $sum: { $cond: [{ $eq: ["$value", -1] }, 1, 0] } },
+          score: { $sum: "$value" },
+        },
+      },
+      { $sort: { score: -1, upvotes: -1 } },
+      { $limit: COMMUNITY_LEADERBOARD_SIZE },
+    ]);
+
+    return tallies.map((tally, index) => ({
+      ...this.toEntry(byId.get(tally._id.toString())),
+      position: index + 1,
+      upvotes: tally.upvotes,
+      downvotes: tally.downvotes,
+      score: tally.score,
+    }));
+  }
+}
+
+export default HackathonResultsService;
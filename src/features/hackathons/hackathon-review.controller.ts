@@ -17,6 +17,7 @@ import {
 import {
   AuthenticatedRequest,
   canManageHackathons,
+  findPhase,
 } from "./hackathon.helpers.js";
 import NotificationService from "../notifications/notification.service.js";
 import EmailTemplatesService from "../../services/email/email-templates.service.js";
@@ -28,7 +29,11 @@ import { config } from "../../config/main.config.js";
  * /api/organizations/{orgId}/hackathons/{hackathonId}/participants/{participantId}/shortlist:
  *   post:
  *     summary: Shortlist a submission
- *     description: Shortlist a submission for judging or reverse shortlisting back to submitted
+ *     description: |
+ *       Shortlist a submission for judging or reverse shortlisting back to submitted.
+ *       With `phaseId`, advance the participant into that phase of a multi-round
+ *       hackathon instead, or reverse an earlier advancement. Participants must
+ *       have submitted to the preceding phase to advance.
  *     tags: [Hackathons]
  *     security:
  *       - bearerAuth: []
@@ -40,6 +45,7 @@ export const shortlistSubmission = async (
   try {
     const user = (req as AuthenticatedRequest).user;
     const { orgId, hackathonId, participantId } = req.params;
+    const { phaseId } = req.body;
 
     if (!user) {
       sendError(res, "Authentication required", 401);
@@ -94,6 +100,120 @@ export const shortlistSubmission = async (
       return;
     }
 
+    if (phaseId) {
+      const phases = hackathon.phases || [];
+      const phase = findPhase(hackathon, phaseId);
+      if (!phase) {
+        sendNotFound(res, "Phase not found");
+        return;
+      }
+
+      const phaseIndex = phases.indexOf(phase);
+      if (phaseIndex === 0) {
+        sendBadRequest(
+          res,
+          "Every registered participant can already enter the first phase",
+        );
+        return;
+      }
+
+      const advancedPhaseIds = participant.advancedPhaseIds || [];
+      const wasAdvanced = advancedPhaseIds.some(
+        (id) => id.toString() === phaseId,
+      );
+
+      if (wasAdvanced) {
+        participant.advancedPhaseIds = advancedPhaseIds.filter(
+          (id) => id.toString() !== phaseId,
+        );
+      } else {
+        const previousPhaseId = phases[phaseIndex - 1]._id.toString();
+        const submittedToPrevious = (participant.phaseSubmissions || []).some(
+          (phaseSubmission) =>
+            phaseSubmission.phaseId.toString() === previousPhaseId,
+        );
+        if (!submittedToPrevious) {
+          sendBadRequest(
+            res,
+            `Participant has not submitted to phase "${phases[phaseIndex - 1].name}"`,
+          );
+          return;
+        }
+        participant.advancedPhaseIds = [...advancedPhaseIds, phase._id];
+      }
+
+      await participant.save();
+
+      if (!wasAdvanced) {
+        try {
+          const baseUrl = config.frontendUrl;
+          const participantUser = await User.findById(
+            participant.userId,
+          ).select("email profile.firstName profile.lastName");
+
+          if (participantUser) {
+            await NotificationService.sendSingleNotification(
+              {
+                userId: participantUser._id,
+                email: participantUser.email,
+                name:
+                  `${participantUser.profile?.firstName || ""} ${participantUser.profile?.lastName || ""}`.trim() ||
+                  participantUser.email,
+              },
+              {
+                type: NotificationType.HACKATHON_PHASE_ADVANCED,
+                title: `You advanced to ${phase.name} of ${hackathon.title || "Hackathon"}`,
+                message: `You can now submit to "${phase.name}" of "${hackathon.title || "Hackathon"}".`,
+                data: {
+                  hackathonId: hackathon._id,
+                  hackathonName: hackathon.title || "Hackathon",
+                  hackathonSlug: hackathon.slug,
+                  phaseId: phase._id,
+                  phaseName: phase.name,
+                },
+                emailTemplate: EmailTemplatesService.getTemplate(
+                  "hackathon-phase-advanced",
+                  {
+                    hackathonId: (
+                      hackathon._id as mongoose.Types.ObjectId
+                    ).toString(),
+                    hackathonName: hackathon.title || "Hackathon",
+                    hackathonSlug: hackathon.slug,
+                    phaseName: phase.name,
+                    startDate: phase.startDate,
+                    endDate: phase.endDate,
+                    unsubscribeUrl: `${baseUrl}/unsubscribe?email=${encodeURIComponent(participantUser.email)}`,
+                  },
+                ),
+              },
+            );
+          }
+        } catch (notificationError) {
+          console.error(
+            "Error sending phase advancement notification:",
+            notificationError,
+          );
+          // Don't fail the whole operation if notification fails
+        }
+      }
+
+      sendSuccess(
+        res,
+        {
+          _id: (participant._id as mongoose.Types.ObjectId).toString(),
+          phaseId: phase._id.toString(),
+          advanced: !wasAdvanced,
+          advancedPhaseIds: (participant.advancedPhaseIds || []).map((id) =>
+            id.toString(),
+          ),
+        },
+        wasAdvanced
+          ? `Advancement to ${phase.name} reversed successfully`
+          : `Participant advanced to ${phase.name} successfully`,
+      );
+      return;
+    }
+
     if (!participant.submission) {
       sendBadRequest(res, "Participant has no submission to review");
       return;
@@ -137,7 +257,6 @@ export const shortlistSubmission = async (
             name:
               `${participantUser.profile?.firstName || ""} ${participantUser.profile?.lastName || ""}`.trim() ||
               participantUser.email,
-            preferences: participantUser.settings?.notifications,
           },
           {
             type: NotificationType.HACKATHON_SUBMISSION_SHORTLISTED,
@@ -383,7 +502,6 @@ export const disqualifySubmission = async (
             name:
               `${participantUser.profile?.firstName || ""} ${participantUser.profile?.lastName || ""}`.trim() ||
               participantUser.email,
-            preferences: participantUser.settings?.notifications,
           },
           {
             type: NotificationType.HACKATHON_SUBMISSION_DISQUALIFIED,
@@ -20,18 +20,29 @@ import {
   canManageHackathons,
   validateStellarAddress,
   mapRankToPrizeAmount,
+  findPrizeTier,
+  findTrack,
+  getPrizeSplitIssue,
+  isPrizeSplitRequired,
+  getParticipantRank,
 } from "./hackathon.helpers.js";
 import NotificationService from "../notifications/notification.service.js";
 import EmailTemplatesService from "../../services/email/email-templates.service.js";
+import HackathonPayoutService from "./hackathon-payout.service.js";
 import { NotificationType } from "../../models/notification.model.js";
 import { config } from "../../config/main.config.js";
+import { hackathonCache } from "../../utils/hackathon-cache.utils.js";
+import MilestoneService from "../milestones/milestone.service.js";
 
 /**
  * @swagger
  * /api/organizations/{orgId}/hackathons/{hackathonId}/rewards/ranks:
  *   post:
  *     summary: Assign ranks to submissions
- *     description: Assign or update ranks for submissions. Ensures ranks are unique.
+ *     description: |
+ *       Assign or update ranks for submissions. Ensures ranks are unique. Pass
+ *       `trackId` to rank submissions within a track; each track has its own
+ *       set of unique ranks.
  *     tags: [Hackathons]
  *     security:
  *       - bearerAuth: []
@@ -46,7 +57,7 @@ export const assignRanks = async (
   try {
     const user = (req as AuthenticatedRequest).user;
     const { orgId, hackathonId } = req.params;
-    const { ranks } = req.body;
+    const { ranks, trackId } = req.body;
 
     if (!user) {
       await session.abortTransaction();
@@ -93,6 +104,13 @@ export const assignRanks = async (
       return;
     }
 
+    if (trackId && !findTrack(hackathon, trackId)) {
+      await session.abortTransaction();
+      session.endSession();
+      sendNotFound(res, "Track not found");
+      return;
+    }
+
     // Validate ranks array
     if (!ranks || !Array.isArray(ranks) || ranks.length === 0) {
       await session.abortTransaction();
@@ -128,11 +146,15 @@ export const assignRanks = async (
     }
 
     // Validate all participant IDs exist and belong to this hackathon
+    // (and were entered in the track when ranking a track)
     const participantIds = ranks.map((r: any) => r.participantId);
     const participants = await HackathonParticipant.find({
       _id: { $in: participantIds },
       hackathonId: new mongoose.Types.ObjectId(hackathonId),
       organizationId: new mongoose.Types.ObjectId(orgId),
+      ...(trackId && {
+        "submission.trackIds": new mongoose.Types.ObjectId(trackId),
+      }),
     }).session(session);
 
     if (participants.length !== participantIds.length) {
@@ -140,7 +162,9 @@ export const assignRanks = async (
       session.endSession();
       sendBadRequest(
         res,
-        "One or more participant IDs are invalid or do not belong to this hackathon",
+        trackId
+          ? "One or more participant IDs are invalid or are not entered in this track"
+          : "One or more participant IDs are invalid or do not belong to this hackathon",
       );
       return;
     }
@@ -154,13 +178,28 @@ export const assignRanks = async (
     // Find participants that currently have these ranks assigned
     const existingRankedParticipants = await HackathonParticipant.find({
       hackathonId: new mongoose.Types.ObjectId(hackathonId),
-      rank: { $in: Array.from(rankSet) },
+      ...(trackId
+        ? {
+            trackRanks: {
+              $elemMatch: {
+                trackId: new mongoose.Types.ObjectId(trackId),
+                rank: { $in: Array.from(rankSet) },
+              },
+            },
+          }
+        : { rank: { $in: Array.from(rankSet) } }),
       _id: { $nin: participantIds },
     }).session(session);
 
     // Unassign ranks from participants that are losing these ranks
     for (const participant of existingRankedParticipants) {
-      participant.rank = undefined;
+      if (trackId) {
+        participant.trackRanks = (participant.trackRanks || []).filter(
+          (trackRank) => trackRank.trackId.toString() !== trackId,
+        );
+      } else {
+        participant.rank = undefined;
+      }
       await participant.save({ session });
     }
 
@@ -171,7 +210,16 @@ export const assignRanks = async (
         (participant._id as mongoose.Types.ObjectId).toString(),
       );
       if (newRank !== undefined) {
-        participant.rank = newRank;
+        if (trackId) {
+          participant.trackRanks = [
+            ...(participant.trackRanks || []).filter(
+              (trackRank) => trackRank.trackId.toString() !== trackId,
+            ),
+            { trackId: new mongoose.Types.ObjectId(trackId), rank: newRank },
+          ];
+        } else {
+          participant.rank = newRank;
+        }
         await participant.save({ session });
         updatedCount++;
       }
@@ -184,6 +232,7 @@ export const assignRanks = async (
       res,
       {
         updated: updatedCount,
+        trackId: trackId || undefined,
       },
       "Ranks assigned successfully",
     );
@@ -204,7 +253,11 @@ export const assignRanks = async (
  * /api/organizations/{orgId}/hackathons/{hackathonId}/rewards/milestones:
  *   post:
  *     summary: Create winner milestones
- *     description: Validates winners data for milestone creation. Frontend handles Trustless Work API calls.
+ *     description: |
+ *       Validates winners data for milestone creation. Frontend handles Trustless Work API calls.
+ *       Winners of a track carry `trackId` and are paid from that track's prize tiers.
+ *       Each winner gets a payout in the payout ledger, tracked until the release settles.
+ *       Winning teams need a prize split approved by every member and get one payout per member.
  *     tags: [Hackathons]
  *     security:
  *       - bearerAuth: []
@@ -248,7 +301,9 @@ export const createWinnerMilestones = async (
     const hackathon = await Hackathon.findOne({
       _id: hackathonId,
       organizationId: orgId,
-    }).select("prizeTiers escrowAddress contractId escrowDetails");
+    }).select(
+      "organizationId prizeTiers tracks escrowAddress contractId escrowDetails",
+    );
 
     if (!hackathon) {
       sendNotFound(res, "Hackathon not found");
@@ -280,8 +335,11 @@ export const createWinnerMilestones = async (
       return;
     }
 
-    // Validate all participant IDs exist and belong to this hackathon
-    const participantIds = winners.map((w: any) => w.participantId);
+    // Validate all participant IDs exist and belong to this hackathon. A
+    // participant can win in more than one track.
+    const participantIds = [
+      ...new Set<string>(winners.map((w: any) => w.participantId)),
+    ];
     const participants = await HackathonParticipant.find({
       _id: { $in: participantIds },
       hackathonId: new mongoose.Types.ObjectId(hackathonId),
@@ -297,7 +355,7 @@ export const createWinnerMilestones = async (
     }
 
     // Validate wallet addresses
-    const walletAddressSet = new Set<string>();
+    const walletOwners = new Map<string, string>();
     for (const winner of winners) {
       if (!validateStellarAddress(winner.walletAddress)) {
         sendBadRequest(
@@ -306,31 +364,44 @@ export const createWinnerMilestones = async (
         );
         return;
       }
-      if (walletAddressSet.has(winner.walletAddress)) {
+      const owner = walletOwners.get(winner.walletAddress);
+      if (owner && owner !== winner.participantId) {
         sendBadRequest(
           res,
           `Duplicate wallet address found: ${winner.walletAddress}. Each winner must have a unique wallet address.`,
         );
         return;
       }
-      walletAddressSet.add(winner.walletAddress);
+      walletOwners.set(winner.walletAddress, winner.participantId);
     }
 
     // Validate ranks match prize tiers
-    if (!hackathon.prizeTiers || hackathon.prizeTiers.length === 0) {
+    if (
+      winners.some((winner: any) => !winner.trackId) &&
+      (!hackathon.prizeTiers || hackathon.prizeTiers.length === 0)
+    ) {
       sendBadRequest(res, "Hackathon has no prize tiers configured");
       return;
     }
 
     for (const winner of winners) {
+      const track = findTrack(hackathon, winner.trackId);
+      if (winner.trackId && !track) {
+        sendBadRequest(res, `Track ${winner.trackId} not found`);
+        return;
+      }
+
       const prizeAmount = mapRankToPrizeAmount(
         winner.rank,
-        hackathon.prizeTiers,
+        hackathon,
+        winner.trackId,
       );
       if (prizeAmount === null) {
         sendBadRequest(
           res,
-          `No prize tier found for rank ${winner.rank}. Please configure prize tiers for this hackathon.`,
+          track
+            ? `No prize tier found for rank ${winner.rank} in track "${track.name}". Please configure prize tiers for this track.`
+            : `No prize tier found for rank ${winner.rank}. Please configure prize tiers for this hackathon.`,
         );
         return;
       }
@@ -345,21 +416,67 @@ export const createWinnerMilestones = async (
     );
     for (const winner of winners) {
       const participant = participantMap.get(winner.participantId);
-      if (!participant || participant.rank !== winner.rank) {
+      if (
+        !participant ||
+        getParticipantRank(participant, winner.trackId) !== winner.rank
+      ) {
         sendBadRequest(
           res,
-          `Participant ${winner.participantId} does not have rank ${winner.rank} assigned. Please assign ranks first.`,
+          `Participant ${winner.participantId} does not have rank ${winner.rank} assigned${winner.trackId ? " in this track" : ""}. Please assign ranks first.`,
         );
         return;
       }
     }
 
+    // Winning teams must have a prize split every member approved
+    for (const participant of participants) {
+      const splitIssue = getPrizeSplitIssue(participant);
+      if (splitIssue) {
+        sendBadRequest(
+          res,
+          `Team "${participant.teamName || (participant._id as mongoose.Types.ObjectId).toString()}": ${splitIssue}`,
+        );
+        return;
+      }
+    }
+
+    // Record what each winner is owed so releases can be tracked
+    const payouts = await HackathonPayoutService.syncPrizePayouts(
+      hackathon,
+      winners.map((winner: any) => {
+        const tier = findPrizeTier(winner.rank, hackathon, winner.trackId)!;
+        const participant = participantMap.get(winner.participantId)!;
+        return {
+          participant,
+          rank: winner.rank,
+          amount: tier.amount,
+          currency: tier.currency,
+          walletAddress: winner.walletAddress,
+          trackId: winner.trackId || null,
+          shares: isPrizeSplitRequired(participant)
+            ? participant.prizeSplit?.shares
+            : undefined,
+        };
+      }),
+    );
+
     // All validations passed - return success
     // Frontend will handle the actual Trustless Work API call
     sendSuccess(
       res,
       {
         milestonesCreated: winners.length,
+        payouts: payouts.map((payout) => ({
+          _id: (payout._id as mongoose.Types.ObjectId).toString(),
+          participantId: payout.participantId.toString(),
+          userId: payout.userId.toString(),
+          trackId: payout.trackId ? payout.trackId.toString() : null,
+          sharePercent: payout.sharePercent,
+          walletAddress: payout.walletAddress,
+          amount: payout.amount,
+          currency: payout.currency,
+          status: payout.status,
+        })),
         message:
           "Winner data validated successfully. Frontend will create milestones via Trustless Work API.",
       },
@@ -467,7 +584,12 @@ export const getEscrowDetails = async (
  * /api/organizations/{orgId}/hackathons/{hackathonId}/winners/announce:
  *   post:
  *     summary: Announce winners
- *     description: Publicly announce winners with an optional announcement message
+ *     description: |
+ *       Publicly announce winners with an optional announcement message. Pass
+ *       `trackId` to announce the winners of a single track. Optional
+ *       `honorableMentions` ({ submissionId, note }) replace the mentions shown
+ *       on the public results page for the same scope. Each winner gets a
+ *       payout milestone for their rank's prize tier.
  *     tags: [Hackathons]
  *     security:
  *       - bearerAuth: []
@@ -479,7 +601,7 @@ export const announceWinners = async (
   try {
     const user = (req as AuthenticatedRequest).user;
     const { orgId, hackathonId } = req.params;
-    const { winners, announcement } = req.body;
+    const { winners, announcement, trackId, honorableMentions } = req.body;
 
     if (!user) {
       sendError(res, "Authentication required", 401);
@@ -518,6 +640,12 @@ export const announceWinners = async (
       return;
     }
 
+    const track = findTrack(hackathon, trackId);
+    if (trackId && !track) {
+      sendNotFound(res, "Track not found");
+      return;
+    }
+
     // Validate winners array
     if (!winners || !Array.isArray(winners) || winners.length === 0) {
       sendBadRequest(res, "Winners array is required and cannot be empty");
@@ -531,6 +659,9 @@ export const announceWinners = async (
       hackathonId: new mongoose.Types.ObjectId(hackathonId),
       organizationId: new mongoose.Types.ObjectId(orgId),
       submission: { $exists: true, $ne: null },
+      ...(trackId && {
+        "submission.trackIds": new mongoose.Types.ObjectId(trackId),
+      }),
     });
 
     if (participants.length !== submissionIds.length) {
@@ -557,23 +688,108 @@ export const announceWinners = async (
         );
         return;
       }
-      if (participant.rank !== winner.rank) {
+      if (getParticipantRank(participant, trackId) !== winner.rank) {
         sendBadRequest(
           res,
-          `Submission ${winner.submissionId} does not have rank ${winner.rank} assigned`,
+          `Submission ${winner.submissionId} does not have rank ${winner.rank} assigned${track ? ` in track "${track.name}"` : ""}`,
         );
         return;
       }
     }
 
-    // Update hackathon with announcement
-    hackathon.winnersAnnounced = true;
-    hackathon.winnersAnnouncedAt = new Date();
-    if (announcement) {
-      hackathon.winnersAnnouncement = announcement;
+    // Honorable mentions must be other submissions entered in the same scope
+    const mentions: { submissionId: string; note?: string }[] =
+      honorableMentions || [];
+    const mentionIds = [...new Set(mentions.map((m) => m.submissionId))];
+    if (mentionIds.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      sendBadRequest(res, "Invalid honorable mention submission ID");
+      return;
+    }
+    if (mentionIds.length !== mentions.length) {
+      sendBadRequest(res, "Honorable mentions cannot repeat a submission");
+      return;
+    }
+    if (mentionIds.some((id) => participantMap.has(id))) {
+      sendBadRequest(res, "Winners cannot also be honorable mentions");
+      return;
+    }
+    if (mentionIds.length > 0) {
+      const mentionedCount = await HackathonParticipant.countDocuments({
+        _id: { $in: mentionIds },
+        hackathonId: new mongoose.Types.ObjectId(hackathonId),
+        organizationId: new mongoose.Types.ObjectId(orgId),
+        submission: { $exists: true, $ne: null },
+        "submission.status": { $ne: "disqualified" },
+        ...(trackId && {
+          "submission.trackIds": new mongoose.Types.ObjectId(trackId),
+        }),
+      });
+      if (mentionedCount !== mentionIds.length) {
+        sendBadRequest(
+          res,
+          "One or more honorable mentions are invalid or do not belong to this hackathon",
+        );
+        return;
+      }
+    }
+
+    // Update hackathon with announcement. Tracks are announced one at a
+    // time; the hackathon counts as announced once every track is.
+    const announcedAt = new Date();
+    if (track) {
+      track.winnersAnnouncedAt = announcedAt;
+      if (announcement) {
+        track.winnersAnnouncement = announcement;
+      }
+      if ((hackathon.tracks || []).every((t) => t.winnersAnnouncedAt)) {
+        hackathon.winnersAnnounced = true;
+        hackathon.winnersAnnouncedAt = announcedAt;
+      }
+    } else {
+      hackathon.winnersAnnounced = true;
+      hackathon.winnersAnnouncedAt = announcedAt;
+      if (announcement) {
+        hackathon.winnersAnnouncement = announcement;
+      }
+    }
+
+    if (honorableMentions) {
+      const scopeId = track ? track._id.toString() : null;
+      hackathon.honorableMentions = [
+        ...(hackathon.honorableMentions || []).filter(
+          (mention) => (mention.trackId?.toString() || null) !== scopeId,
+        ),
+        ...mentions.map((mention) => ({
+          participantId: new mongoose.Types.ObjectId(mention.submissionId),
+          trackId: track ? track._id : null,
+          note: mention.note || undefined,
+          announcedAt,
+        })),
+      ];
     }
 
     await hackathon.save();
+    if (hackathon.slug) {
+      hackathonCache.invalidateHackathon(hackathon.slug);
+    }
+
+    // Winners deliver and get paid through milestones
+    try {
+      await MilestoneService.createForHackathonWinners(
+        hackathon,
+        winners.map((winner: any) => ({
+          participantId: new mongoose.Types.ObjectId(winner.submissionId),
+          rank: winner.rank,
+        })),
+        trackId,
+      );
+    } catch (milestoneError) {
+      console.error("Error creating winner milestones:", milestoneError);
+    }
+
+    const winnersLabel = track
+      ? `${hackathon.title || "Hackathon"} (${track.name})`
+      : hackathon.title || "Hackathon";
 
     // Send notifications to all participants
     try {
@@ -586,10 +802,13 @@ export const announceWinners = async (
         winners.map((w: any) => w.submissionId.toString()),
       );
 
-      // Get all participants for this hackathon
+      // Get all participants for this hackathon, or those entered in the track
       const allParticipants = await HackathonParticipant.find({
         hackathonId: new mongoose.Types.ObjectId(hackathonId),
         organizationId: new mongoose.Types.ObjectId(orgId),
+        ...(trackId && {
+          "submission.trackIds": new mongoose.Types.ObjectId(trackId),
+        }),
       })
         .populate(
           "userId",
@@ -613,20 +832,21 @@ export const announceWinners = async (
             name:
               `${participantUser.profile?.firstName || ""} ${participantUser.profile?.lastName || ""}`.trim() ||
               participantUser.email,
-            preferences: participantUser.settings?.notifications,
           },
           {
             type: NotificationType.HACKATHON_WINNERS_ANNOUNCED,
             title: isWinner
-              ? `🏆 You won ${hackathon.title || "Hackathon"}!`
-              : `Winners announced for ${hackathon.title || "Hackathon"}`,
+              ? `🏆 You won ${winnersLabel}!`
+              : `Winners announced for ${winnersLabel}`,
             message: isWinner
-              ? `Congratulations! You are a winner of "${hackathon.title || "Hackathon"}"!`
-              : `The winners for "${hackathon.title || "Hackathon"}" have been announced.`,
+              ? `Congratulations! You are a winner of "${winnersLabel}"!`
+              : `The winners for "${winnersLabel}" have been announced.`,
             data: {
               hackathonId: hackathon._id,
               hackathonName: hackathon.title || "Hackathon",
               hackathonSlug: hackathon.slug,
+              trackId: trackId || undefined,
+              trackName: track?.name,
               isWinner,
             },
             emailTemplate: EmailTemplatesService.getTemplate(
@@ -635,7 +855,7 @@ export const announceWinners = async (
                 hackathonId: (
                   hackathon._id as mongoose.Types.ObjectId
                 ).toString(),
-                hackathonName: hackathon.title || "Hackathon",
+                hackathonName: winnersLabel,
                 hackathonSlug: hackathon.slug,
                 isWinner,
                 unsubscribeUrl: `${baseUrl}/unsubscribe?email=${encodeURIComponent(participantUser.email)}`,
@@ -664,12 +884,14 @@ export const announceWinners = async (
         })),
         {
           type: NotificationType.HACKATHON_WINNERS_ANNOUNCED,
-          title: `Winners announced for ${hackathon.title || "Hackathon"}`,
-          message: `The winners for "${hackathon.title || "Hackathon"}" have been announced.`,
+          title: `Winners announced for ${winnersLabel}`,
+          message: `The winners for "${winnersLabel}" have been announced.`,
           data: {
             hackathonId: hackathon._id,
             hackathonName: hackathon.title || "Hackathon",
             hackathonSlug: hackathon.slug,
+            trackId: trackId || undefined,
+            trackName: track?.name,
           },
           emailTemplate: EmailTemplatesService.getTemplate(
             "hackathon-winners-announced",
@@ -677,7 +899,7 @@ export const announceWinners = async (
               hackathonId: (
                 hackathon._id as mongoose.Types.ObjectId
               ).toString(),
-              hackathonName: hackathon.title || "Hackathon",
+              hackathonName: winnersLabel,
               hackathonSlug: hackathon.slug,
               isWinner: false,
               unsubscribeUrl: undefined,
@@ -698,7 +920,9 @@ export const announceWinners = async (
     sendSuccess(
       res,
       {
-        announcedAt: hackathon.winnersAnnouncedAt.toISOString(),
+        announcedAt: announcedAt.toISOString(),
+        trackId: trackId || undefined,
+        hackathonWinnersAnnounced: hackathon.winnersAnnounced === true,
       },
       "Winners announced successfully",
     );
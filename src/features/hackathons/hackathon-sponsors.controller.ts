@@ -0,0 +1,413 @@
+import { Request, Response } from "express";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Hackathon from "../../models/hackathon.model.js";
+import HackathonSponsor, {
+  HackathonSponsorStatus,
+  IHackathonSponsor,
+} from "../../models/hackathon-sponsor.model.js";
+import HackathonBounty from "../../models/hackathon-bounty.model.js";
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendBadRequest,
+  sendConflict,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  canManageHackathons,
+  resolveHackathonByIdOrSlug,
+} from "./hackathon.helpers.js";
+import { sendEmail } from "../../utils/email.utils.js";
+import { config } from "../../config/main.config.js";
+
+export const transformSponsor = (sponsor: IHackathonSponsor) => ({
+  _id: (sponsor._id as mongoose.Types.ObjectId).toString(),
+  hackathonId: sponsor.hackathonId.toString(),
+  email: sponsor.email,
+  sponsorName: sponsor.sponsorName,
+  sponsorLogo: sponsor.sponsorLogo || undefined,
+  partnerLink: sponsor.partnerLink || undefined,
+  userId: sponsor.userId ? sponsor.userId.toString() : undefined,
+  status: sponsor.status,
+  expiresAt:
+    sponsor.status === HackathonSponsorStatus.INVITED
+      ? sponsor.expiresAt.toISOString()
+      : undefined,
+  acceptedAt: sponsor.acceptedAt ? sponsor.acceptedAt.toISOString() : undefined,
+});
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/sponsors:
+ *   post:
+ *     summary: Invite a sponsor to a hackathon
+ *     description: |
+ *       Invite a sponsor by email. Once they accept, the sponsor account can fund
+ *       and manage its own bounties in the hackathon and pick their winners.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const inviteSponsor = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId } = req.params;
+    const { email, sponsorName, sponsorLogo, partnerLink } = req.body;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can invite sponsors for this organization",
+      );
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    }).select("title slug");
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const normalizedEmail = String(email).toLowerCase().trim();
+    const token = crypto.randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+    let sponsor = await HackathonSponsor.findOne({
+      hackathonId: hackathon._id,
+      email: normalizedEmail,
+    });
+
+    if (sponsor && sponsor.status === HackathonSponsorStatus.ACTIVE) {
+      sendConflict(res, "This person is already a sponsor of this hackathon");
+      return;
+    }
+
+    if (sponsor) {
+      // Re-invite: refresh the token for pending or previously removed sponsors
+      sponsor.status = HackathonSponsorStatus.INVITED;
+      sponsor.token = token;
+      sponsor.expiresAt = expiresAt;
+      sponsor.invitedBy = user._id;
+      sponsor.removedAt = undefined;
+      sponsor.sponsorName = sponsorName;
+      if (sponsorLogo !== undefined) {
+        sponsor.sponsorLogo = sponsorLogo;
+      }
+      if (partnerLink !== undefined) {
+        sponsor.partnerLink = partnerLink;
+      }
+      await sponsor.save();
+    } else {
+      sponsor = await HackathonSponsor.create({
+        hackathonId: hackathon._id,
+        organizationId: new mongoose.Types.ObjectId(orgId),
+        email: normalizedEmail,
+        sponsorName,
+        sponsorLogo,
+        partnerLink,
+        invitedBy: user._id,
+        token,
+        expiresAt,
+      });
+    }
+
+    const inviteLink = `${config.frontendUrl}/hackathons/${hackathon.slug || hackathon._id}/sponsors/accept?token=${token}`;
+
+    try {
+      const inviterName =
+        `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
+        user.email;
+      const hackathonName = hackathon.title || "Hackathon";
+
+      await sendEmail({
+        to: normalizedEmail,
+        subject: `You've been invited to sponsor ${hackathonName}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #2c3e50;">Sponsor Invitation</h2>
+            <p>Hello,</p>
+            <p><strong>${inviterName}</strong> has invited <strong>${sponsor.sponsorName}</strong> to sponsor the hackathon <strong>${hackathonName}</strong>.</p>
+            <p>Sign in or create an account with this email address, then accept the invitation to set up bounties and pick their winners.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${inviteLink}" style="background-color: #4CAF50; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+                Accept Invitation
+              </a>
+            </div>
+            <p>Or copy and paste this link into your browser:</p>
+            <p style="color: #7f8c8d; word-break: break-all;">${inviteLink}</p>
+            <p style="color: #7f8c8d; font-size: 12px; margin-top: 30px;">This invitation will expire in 7 days.</p>
+          </div>
+        `,
+        text: `${inviterName} has invited ${sponsor.sponsorName} to sponsor ${hackathonName}. Accept here: ${inviteLink}`,
+      });
+    } catch (emailError) {
+      console.error("Failed to send sponsor invitation email:", emailError);
+      // Don't fail the request if email fails
+    }
+
+    sendCreated(
+      res,
+      { ...transformSponsor(sponsor), inviteLink },
+      "Sponsor invited successfully",
+    );
+  } catch (error) {
+    console.error("Invite sponsor error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to invite sponsor",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/sponsors:
+ *   get:
+ *     summary: List hackathon sponsors
+ *     description: Retrieve invited and active sponsor accounts with their bounty counts
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getSponsors = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId } = req.params;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can view sponsors for this organization",
+      );
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    }).select("_id");
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const [sponsors, bountyCounts] = await Promise.all([
+      HackathonSponsor.find({
+        hackathonId: hackathon._id,
+        status: { $ne: HackathonSponsorStatus.REMOVED },
+      }).sort({ createdAt: 1 }),
+      HackathonBounty.aggregate([
+        { $match: { hackathonId: hackathon._id } },
+        { $group: { _id: "$sponsorId", count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const countBySponsor = new Map<string, number>(
+      bountyCounts.map((entry: any) => [entry._id.toString(), entry.count]),
+    );
+
+    const data = sponsors.map((sponsor) => ({
+      ...transformSponsor(sponsor),
+      bountyCount:
+        countBySponsor.get(
+          (sponsor._id as mongoose.Types.ObjectId).toString(),
+        ) || 0,
+    }));
+
+    sendSuccess(res, data, "Sponsors retrieved successfully");
+  } catch (error) {
+    console.error("Get sponsors error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve sponsors",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/sponsors/{sponsorId}:
+ *   delete:
+ *     summary: Remove a sponsor from a hackathon
+ *     description: Revoke a sponsor account's access. Its bounties and any winners already picked are kept.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const removeSponsor = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId, sponsorId } = req.params;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can remove sponsors for this organization",
+      );
+      return;
+    }
+
+    const sponsor = await HackathonSponsor.findOne({
+      _id: sponsorId,
+      hackathonId: new mongoose.Types.ObjectId(hackathonId),
+      organizationId: new mongoose.Types.ObjectId(orgId),
+      status: { $ne: HackathonSponsorStatus.REMOVED },
+    });
+
+    if (!sponsor) {
+      sendNotFound(res, "Sponsor not found");
+      return;
+    }
+
+    sponsor.status = HackathonSponsorStatus.REMOVED;
+    sponsor.removedAt = new Date();
+    await sponsor.save();
+
+    sendSuccess(res, transformSponsor(sponsor), "Sponsor removed successfully");
+  } catch (error) {
+    console.error("Remove sponsor error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to remove sponsor",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Accept sponsor invitation
+ * POST /hackathons/{hackathonSlugOrId}/sponsors/accept
+ */
+export const acceptSponsorInvitation = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      sendForbidden(res, "Authentication required");
+      return;
+    }
+
+    const { hackathonSlugOrId } = req.params;
+    const { token } = req.body;
+
+    const sponsor = await HackathonSponsor.findOne({ token });
+
+    if (!sponsor) {
+      sendNotFound(res, "Invalid invitation token");
+      return;
+    }
+
+    if (
+      sponsor.status !== HackathonSponsorStatus.INVITED ||
+      sponsor.expiresAt < new Date()
+    ) {
+      sendBadRequest(res, "Invitation has expired or is no longer valid");
+      return;
+    }
+
+    if (sponsor.email.toLowerCase() !== user.email.toLowerCase()) {
+      sendForbidden(
+        res,
+        "This invitation was sent to a different email address",
+      );
+      return;
+    }
+
+    const hackathon = await resolveHackathonByIdOrSlug(hackathonSlugOrId);
+
+    if (
+      !hackathon ||
+      (hackathon._id as mongoose.Types.ObjectId).toString() !==
+        sponsor.hackathonId.toString()
+    ) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    sponsor.status = HackathonSponsorStatus.ACTIVE;
+    sponsor.userId = user._id;
+    sponsor.acceptedAt = new Date();
+    await sponsor.save();
+
+    sendSuccess(
+      res,
+      {
+        ...transformSponsor(sponsor),
+        organizationId: sponsor.organizationId.toString(),
+      },
+      "Sponsor invitation accepted successfully",
+    );
+  } catch (error) {
+    console.error("Accept sponsor invitation error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to accept sponsor invitation",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
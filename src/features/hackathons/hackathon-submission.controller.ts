@@ -18,7 +18,10 @@ import {
 import {
   AuthenticatedRequest,
   resolveHackathonByIdOrSlug,
+  validateSubmissionBounties,
+  validateSubmissionTracks,
 } from "./hackathon.helpers.js";
+import HackathonVotingService from "./hackathon-voting.service.js";
 
 /**
  * Create submission
@@ -76,8 +79,9 @@ export const createSubmission = async (
 
     // Check submission deadline
     if (
-      hackathon.submissionDeadline &&
-      new Date() > hackathon.submissionDeadline
+      hackathon.submissionsClosedAt ||
+      (hackathon.submissionDeadline &&
+        new Date() > hackathon.submissionDeadline)
     ) {
       sendBadRequest(res, "Submission deadline has passed");
       return;
@@ -86,6 +90,8 @@ export const createSubmission = async (
     const {
       projectName,
       category,
+      trackIds,
+      bountyIds,
       description,
       logo,
       videoUrl,
@@ -93,10 +99,33 @@ export const createSubmission = async (
       links,
     } = req.body;
 
+    const trackError = validateSubmissionTracks(hackathon, trackIds);
+    if (trackError) {
+      sendBadRequest(res, trackError);
+      return;
+    }
+
+    const bountyError = await validateSubmissionBounties(
+      hackathon,
+      participant,
+      bountyIds,
+      trackIds,
+    );
+    if (bountyError) {
+      sendBadRequest(res, bountyError);
+      return;
+    }
+
     // Create submission
     participant.submission = {
       projectName,
       category,
+      trackIds: [...new Set<string>(trackIds || [])].map(
+        (id) => new mongoose.Types.ObjectId(id),
+      ),
+      bountyIds: [...new Set<string>(bountyIds || [])].map(
+        (id) => new mongoose.Types.ObjectId(id),
+      ),
       description,
       logo,
       videoUrl,
@@ -116,6 +145,8 @@ export const createSubmission = async (
       _id: String(participant._id),
       projectName: participant.submission.projectName,
       category: participant.submission.category,
+      trackIds: (participant.submission.trackIds || []).map(String),
+      bountyIds: (participant.submission.bountyIds || []).map(String),
       description: participant.submission.description,
       logo: participant.submission.logo,
       videoUrl: participant.submission.videoUrl,
@@ -183,18 +214,61 @@ export const updateSubmission = async (
 
     // Check submission deadline
     if (
-      hackathon.submissionDeadline &&
-      new Date() > hackathon.submissionDeadline
+      hackathon.submissionsClosedAt ||
+      (hackathon.submissionDeadline &&
+        new Date() > hackathon.submissionDeadline)
     ) {
       sendBadRequest(res, "Submission deadline has passed");
       return;
     }
 
-    const { category, description, logo, videoUrl, introduction, links } =
-      req.body;
+    const {
+      category,
+      trackIds,
+      bountyIds,
+      description,
+      logo,
+      videoUrl,
+      introduction,
+      links,
+    } = req.body;
+
+    if (trackIds !== undefined) {
+      const trackError = validateSubmissionTracks(hackathon, trackIds);
+      if (trackError) {
+        sendBadRequest(res, trackError);
+        return;
+      }
+    }
+
+    if (bountyIds !== undefined) {
+      // Only newly added bounties are checked, so closing a bounty does not
+      // lock entrants out of editing their submission
+      const currentBountyIds = (participant.submission.bountyIds || []).map(
+        String,
+      );
+      const bountyError = await validateSubmissionBounties(
+        hackathon,
+        participant,
+        (bountyIds as string[]).filter((id) => !currentBountyIds.includes(id)),
+        trackIds ?? participant.submission.trackIds,
+      );
+      if (bountyError) {
+        sendBadRequest(res, bountyError);
+        return;
+      }
+    }
 
     // Update submission (projectName cannot be changed)
     if (category) participant.submission.category = category;
+    if (trackIds !== undefined)
+      participant.submission.trackIds = [...new Set<string>(trackIds)].map(
+        (id) => new mongoose.Types.ObjectId(id),
+      );
+    if (bountyIds !== undefined)
+      participant.submission.bountyIds = [...new Set<string>(bountyIds)].map(
+        (id) => new mongoose.Types.ObjectId(id),
+      );
     if (description) participant.submission.description = description;
     if (logo !== undefined) participant.submission.logo = logo;
     if (videoUrl !== undefined) participant.submission.videoUrl = videoUrl;
@@ -209,6 +283,8 @@ export const updateSubmission = async (
       _id: String(participant._id),
       projectName: participant.submission.projectName,
       category: participant.submission.category,
+      trackIds: (participant.submission.trackIds || []).map(String),
+      bountyIds: (participant.submission.bountyIds || []).map(String),
       description: participant.submission.description,
       logo: participant.submission.logo,
       videoUrl: participant.submission.videoUrl,
@@ -283,6 +359,8 @@ export const getMySubmission = async (
       _id: String(participant._id),
       projectName: participant.submission.projectName,
       category: participant.submission.category,
+      trackIds: (participant.submission.trackIds || []).map(String),
+      bountyIds: (participant.submission.bountyIds || []).map(String),
       description: participant.submission.description,
       logo: participant.submission.logo,
       videoUrl: participant.submission.videoUrl,
@@ -358,6 +436,8 @@ export const getSubmissionDetails = async (
       _id: String(participant._id),
       projectName: participant.submission.projectName,
       category: participant.submission.category,
+      trackIds: (participant.submission.trackIds || []).map(String),
+      bountyIds: (participant.submission.bountyIds || []).map(String),
       description: participant.submission.description,
       logo: participant.submission.logo,
       videoUrl: participant.submission.videoUrl,
@@ -426,6 +506,8 @@ export const getAllSubmissions = async (
       limit = "20",
       status,
       category,
+      trackId,
+      bountyId,
       search,
       sortBy = "createdAt",
       sortOrder = "desc",
@@ -465,6 +547,20 @@ export const getAllSubmissions = async (
       filter["submission.category"] = category;
     }
 
+    // Filter by track
+    if (trackId) {
+      filter["submission.trackIds"] = new mongoose.Types.ObjectId(
+        trackId as string,
+      );
+    }
+
+    // Filter by sponsor bounty
+    if (bountyId) {
+      filter["submission.bountyIds"] = new mongoose.Types.ObjectId(
+        bountyId as string,
+      );
+    }
+
     // Search filter
     if (search) {
       const searchRegex = new RegExp(search as string, "i");
@@ -516,6 +612,8 @@ export const getAllSubmissions = async (
         projectName: participant.submission.projectName,
         description: participant.submission.description,
         category: participant.submission.category,
+        trackIds: (participant.submission.trackIds || []).map(String),
+        bountyIds: (participant.submission.bountyIds || []).map(String),
         logo: participant.submission.logo,
         votes: participant.submission.votes,
         comments: participant.submission.comments,
@@ -602,6 +700,17 @@ export const voteOnSubmission = async (
       return;
     }
 
+    const ineligibleReason =
+      await HackathonVotingService.getIneligibilityReason(
+        hackathon,
+        user,
+        participant,
+      );
+    if (ineligibleReason) {
+      sendForbidden(res, ineligibleReason);
+      return;
+    }
+
     // Check if user already voted
     const existingVote = await HackathonSubmissionVote.findOne({
       submissionId: participant._id as mongoose.Types.ObjectId,
@@ -618,6 +727,8 @@ export const voteOnSubmission = async (
       submissionId: participant._id as mongoose.Types.ObjectId,
       userId: user._id,
       value: 1, // upvote
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
     });
 
     // Update vote count
@@ -686,10 +797,11 @@ export const removeVote = async (
       return;
     }
 
-    // Find and delete vote
+    // Find and delete vote. Voided votes are kept for the audit trail.
     const vote = await HackathonSubmissionVote.findOneAndDelete({
       submissionId: participant._id as mongoose.Types.ObjectId,
       userId: user._id,
+      voidedAt: null,
     });
 
     if (!vote) {
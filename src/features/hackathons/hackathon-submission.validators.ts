@@ -22,6 +22,20 @@ export const createSubmissionSchema: ValidationChain[] = [
     .withMessage(
       `Category must be one of: ${Object.values(HackathonCategory).join(", ")}`,
     ),
+  body("trackIds")
+    .optional()
+    .isArray()
+    .withMessage("Track IDs must be an array"),
+  body("trackIds.*")
+    .isMongoId()
+    .withMessage("Each track ID must be a valid MongoDB ObjectId"),
+  body("bountyIds")
+    .optional()
+    .isArray()
+    .withMessage("Bounty IDs must be an array"),
+  body("bountyIds.*")
+    .isMongoId()
+    .withMessage("Each bounty ID must be a valid MongoDB ObjectId"),
   body("description")
     .trim()
     .isLength({ min: 50, max: 5000 })
@@ -56,6 +70,20 @@ export const updateSubmissionSchema: ValidationChain[] = [
     .withMessage(
       `Category must be one of: ${Object.values(HackathonCategory).join(", ")}`,
     ),
+  body("trackIds")
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage("Track IDs must be a non-empty array"),
+  body("trackIds.*")
+    .isMongoId()
+    .withMessage("Each track ID must be a valid MongoDB ObjectId"),
+  body("bountyIds")
+    .optional()
+    .isArray()
+    .withMessage("Bounty IDs must be an array"),
+  body("bountyIds.*")
+    .isMongoId()
+    .withMessage("Each bounty ID must be a valid MongoDB ObjectId"),
   body("description")
     .optional()
     .trim()
@@ -107,6 +135,14 @@ export const getSubmissionsQuerySchema: ValidationChain[] = [
     .withMessage(
       `Category must be one of: ${Object.values(HackathonCategory).join(", ")}`,
     ),
+  query("trackId")
+    .optional()
+    .isMongoId()
+    .withMessage("Track ID must be a valid MongoDB ObjectId"),
+  query("bountyId")
+    .optional()
+    .isMongoId()
+    .withMessage("Bounty ID must be a valid MongoDB ObjectId"),
   query("search")
     .optional()
     .trim()
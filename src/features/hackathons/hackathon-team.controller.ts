@@ -23,9 +23,29 @@ import {
   resolveHackathonByIdOrSlug,
   isRegistrationOpen,
 } from "./hackathon.helpers.js";
+import HackathonWaitlistService, {
+  HackathonFullError,
+} from "./hackathon-waitlist.service.js";
 import { sendEmail } from "../../utils/email.utils.js";
 import { config } from "../../config/main.config.js";
 
+/**
+ * Offer spots freed by a participant leaving. Failures are logged so they
+ * never fail the leave itself; the scheduler retries promotion.
+ */
+const promoteWaitlist = async (
+  hackathonId: mongoose.Types.ObjectId,
+): Promise<void> => {
+  try {
+    await HackathonWaitlistService.promote(hackathonId);
+  } catch (error) {
+    console.error(
+      `Failed to promote waitlist for hackathon ${hackathonId}:`,
+      error,
+    );
+  }
+};
+
 /**
  * Invite team member
  * POST /organizations/{orgId}/hackathons/{hackathonId}/team/invite
@@ -339,26 +359,48 @@ export const addTeamMember = async (
       avatar: userToAdd.profile?.avatar,
     });
 
-    await participant.save();
-
-    // If user wasn't registered, create their participant record
+    // If user wasn't registered, take a spot and create their participant record
     if (!existingParticipant) {
-      await HackathonParticipant.create({
-        userId: userToAdd._id,
-        hackathonId: hackathon._id,
-        organizationId: hackathon.organizationId,
-        participationType: "team",
-        teamId: participant.teamId,
-        teamName: participant.teamName,
-        teamMembers: participant.teamMembers,
-        registeredAt: new Date(),
-      });
+      try {
+        await HackathonWaitlistService.reserveSpot(
+          hackathon,
+          userToAdd._id,
+          (session) =>
+            HackathonParticipant.create(
+              [
+                {
+                  userId: userToAdd._id,
+                  hackathonId: hackathon._id,
+                  organizationId: hackathon.organizationId,
+                  participationType: "team",
+                  teamId: participant.teamId,
+                  teamName: participant.teamName,
+                  teamMembers: participant.teamMembers,
+                  registeredAt: new Date(),
+                },
+              ],
+              { session },
+            ),
+        );
+      } catch (error) {
+        if (error instanceof HackathonFullError) {
+          sendBadRequest(res, error.message);
+          return;
+        }
+        throw error;
+      }
+      await participant.save();
+      await HackathonWaitlistService.markRegistered(
+        hackathon._id as mongoose.Types.ObjectId,
+        userToAdd._id,
+      );
     } else {
       // Update existing participant to join this team
       existingParticipant.participationType = "team";
       existingParticipant.teamId = participant.teamId;
       existingParticipant.teamName = participant.teamName;
       existingParticipant.teamMembers = participant.teamMembers;
+      await participant.save();
       await existingParticipant.save();
     }
 
@@ -491,6 +533,7 @@ export const removeTeamMember = async (
       if (isRemovingSelf) {
         // User left - remove their registration
         await HackathonParticipant.deleteOne({ _id: removedMember._id });
+        await promoteWaitlist(hackathon._id as mongoose.Types.ObjectId);
       } else {
         // Convert to individual
         removedMember.participationType = "individual";
@@ -665,6 +708,9 @@ export const leaveHackathon = async (
     // Delete participant record
     await HackathonParticipant.deleteOne({ _id: participant._id });
 
+    // Offer the freed spot to the next person on the waitlist
+    await promoteWaitlist(hackathon._id as mongoose.Types.ObjectId);
+
     sendSuccess(
       res,
       {
@@ -805,19 +851,41 @@ export const acceptTeamInvitation = async (
     teamParticipant.teamMembers = teamParticipant.teamMembers || [];
     teamParticipant.teamMembers.push(newMember);
 
-    await teamParticipant.save();
+    // Take a spot and create the participant record for the new member
+    try {
+      await HackathonWaitlistService.reserveSpot(
+        hackathon,
+        user._id,
+        (session) =>
+          HackathonParticipant.create(
+            [
+              {
+                userId: user._id,
+                hackathonId: hackathon._id,
+                organizationId: hackathon.organizationId,
+                participationType: "team",
+                teamId: invitation.teamId,
+                teamName: teamParticipant.teamName,
+                teamMembers: teamParticipant.teamMembers,
+                registeredAt: new Date(),
+              },
+            ],
+            { session },
+          ),
+      );
+    } catch (error) {
+      if (error instanceof HackathonFullError) {
+        sendBadRequest(res, error.message);
+        return;
+      }
+      throw error;
+    }
 
-    // Create participant record for new member
-    await HackathonParticipant.create({
-      userId: user._id,
-      hackathonId: hackathon._id,
-      organizationId: hackathon.organizationId,
-      participationType: "team",
-      teamId: invitation.teamId,
-      teamName: teamParticipant.teamName,
-      teamMembers: teamParticipant.teamMembers,
-      registeredAt: new Date(),
-    });
+    await teamParticipant.save();
+    await HackathonWaitlistService.markRegistered(
+      hackathon._id as mongoose.Types.ObjectId,
+      user._id,
+    );
 
     // Update all team members' records
     await HackathonParticipant.updateMany(
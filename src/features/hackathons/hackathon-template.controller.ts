@@ -0,0 +1,434 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Hackathon, {
+  HackathonStatus,
+  IHackathon,
+} from "../../models/hackathon.model.js";
+import HackathonTemplate from "../../models/hackathon-template.model.js";
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendConflict,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  buildHackathonClone,
+  canManageHackathons,
+  transformRequestBody,
+} from "./hackathon.helpers.js";
+
+/**
+ * Check the caller can manage the organization's hackathons, sending the
+ * error response if not
+ */
+const authorizeOrganizer = async (
+  req: Request,
+  res: Response,
+  action: string,
+): Promise<AuthenticatedRequest["user"] | null> => {
+  const user = (req as AuthenticatedRequest).user;
+
+  if (!user) {
+    sendError(res, "Authentication required", 401);
+    return null;
+  }
+
+  const { canManage, organization } = await canManageHackathons(
+    req.params.orgId,
+    user.email,
+  );
+
+  if (!canManage) {
+    if (!organization) {
+      sendNotFound(res, "Organization not found");
+      return null;
+    }
+    sendForbidden(
+      res,
+      `Only owners and admins can ${action} for this organization`,
+    );
+    return null;
+  }
+
+  return user;
+};
+
+/**
+ * Pick the parts of a tab-shaped request body that a template saves
+ */
+const getTemplateContent = (body: any) => {
+  const data = transformRequestBody(body);
+  return {
+    ...(data.criteria !== undefined && { criteria: data.criteria }),
+    ...(data.prizeTiers !== undefined && { prizeTiers: data.prizeTiers }),
+    ...(data.resources !== undefined && { resources: data.resources }),
+    ...(data.tabVisibility !== undefined && {
+      tabVisibility: data.tabVisibility,
+    }),
+  };
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/clone:
+ *   post:
+ *     summary: Clone a hackathon into a new draft
+ *     description: |
+ *       Copy a hackathon's setup into a new draft starting on `startDate`. The
+ *       other timeline dates move with it. Slug, status, escrow details and
+ *       winners are reset, and participants, judges, sponsors and bounties
+ *       are not copied.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const cloneHackathon = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = await authorizeOrganizer(req, res, "create hackathons");
+    if (!user) return;
+
+    const { orgId, hackathonId } = req.params;
+    const { startDate, title } = req.body;
+
+    const source = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    });
+
+    if (!source) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const hackathon = await Hackathon.create({
+      organizationId: new mongoose.Types.ObjectId(orgId),
+      status: HackathonStatus.DRAFT,
+      ...buildHackathonClone(source, new Date(startDate), title),
+    });
+
+    sendCreated(res, hackathon, "Hackathon cloned successfully");
+  } catch (error) {
+    console.error("Clone hackathon error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to clone hackathon",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathon-templates:
+ *   post:
+ *     summary: Save a hackathon template
+ *     description: |
+ *       Save judging criteria, prize tiers, resources and tab visibility as a
+ *       reusable template. Pass `hackathonId` to start from one of the
+ *       organization's hackathons; fields in the body override it.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const createTemplate = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = await authorizeOrganizer(req, res, "manage templates");
+    if (!user) return;
+
+    const { orgId } = req.params;
+    const { name, description, hackathonId } = req.body;
+
+    let source: IHackathon | null = null;
+    if (hackathonId) {
+      source = await Hackathon.findOne({
+        _id: hackathonId,
+        organizationId: orgId,
+      });
+      if (!source) {
+        sendNotFound(res, "Hackathon not found");
+        return;
+      }
+    }
+
+    if (await HackathonTemplate.exists({ organizationId: orgId, name })) {
+      sendConflict(res, "A template with this name already exists");
+      return;
+    }
+
+    const template = await HackathonTemplate.create({
+      organizationId: new mongoose.Types.ObjectId(orgId),
+      name,
+      description,
+      ...(source && {
+        criteria: source.criteria || [],
+        prizeTiers: source.prizeTiers || [],
+        resources: source.resources,
+        tabVisibility: source.tabVisibility,
+      }),
+      ...getTemplateContent(req.body),
+      createdBy: user._id,
+    });
+
+    sendCreated(res, template, "Template created successfully");
+  } catch (error) {
+    console.error("Create template error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to create template",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathon-templates:
+ *   get:
+ *     summary: Get hackathon templates
+ *     description: List the organization's saved hackathon templates
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getTemplates = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = await authorizeOrganizer(req, res, "view templates");
+    if (!user) return;
+
+    const templates = await HackathonTemplate.find({
+      organizationId: req.params.orgId,
+    })
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    sendSuccess(res, templates, "Templates retrieved successfully");
+  } catch (error) {
+    console.error("Get templates error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve templates",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathon-templates/{templateId}:
+ *   get:
+ *     summary: Get a hackathon template
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getTemplate = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = await authorizeOrganizer(req, res, "view templates");
+    if (!user) return;
+
+    const template = await HackathonTemplate.findOne({
+      _id: req.params.templateId,
+      organizationId: req.params.orgId,
+    }).lean();
+
+    if (!template) {
+      sendNotFound(res, "Template not found");
+      return;
+    }
+
+    sendSuccess(res, template, "Template retrieved successfully");
+  } catch (error) {
+    console.error("Get template error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve template",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathon-templates/{templateId}:
+ *   put:
+ *     summary: Update a hackathon template
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const updateTemplate = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = await authorizeOrganizer(req, res, "manage templates");
+    if (!user) return;
+
+    const { orgId, templateId } = req.params;
+    const { name, description } = req.body;
+
+    const template = await HackathonTemplate.findOne({
+      _id: templateId,
+      organizationId: orgId,
+    });
+
+    if (!template) {
+      sendNotFound(res, "Template not found");
+      return;
+    }
+
+    if (
+      name &&
+      name !== template.name &&
+      (await HackathonTemplate.exists({ organizationId: orgId, name }))
+    ) {
+      sendConflict(res, "A template with this name already exists");
+      return;
+    }
+
+    if (name !== undefined) template.name = name;
+    if (description !== undefined) template.description = description;
+    Object.assign(template, getTemplateContent(req.body));
+    await template.save();
+
+    sendSuccess(res, template, "Template updated successfully");
+  } catch (error) {
+    console.error("Update template error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to update template",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathon-templates/{templateId}:
+ *   delete:
+ *     summary: Delete a hackathon template
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const deleteTemplate = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = await authorizeOrganizer(req, res, "manage templates");
+    if (!user) return;
+
+    const template = await HackathonTemplate.findOneAndDelete({
+      _id: req.params.templateId,
+      organizationId: req.params.orgId,
+    });
+
+    if (!template) {
+      sendNotFound(res, "Template not found");
+      return;
+    }
+
+    sendSuccess(res, null, "Template deleted successfully");
+  } catch (error) {
+    console.error("Delete template error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to delete template",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/drafts/{draftId}/apply-template:
+ *   post:
+ *     summary: Apply a template to a draft
+ *     description: |
+ *       Copy a template's criteria, prize tiers and resources into a draft,
+ *       replacing the draft's own. Tab visibility settings in the template
+ *       override the matching tabs of the draft.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const applyTemplate = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = await authorizeOrganizer(req, res, "update hackathons");
+    if (!user) return;
+
+    const { orgId, draftId } = req.params;
+    const { templateId } = req.body;
+
+    const [draft, template] = await Promise.all([
+      Hackathon.findOne({
+        _id: draftId,
+        organizationId: orgId,
+        status: HackathonStatus.DRAFT,
+      }),
+      HackathonTemplate.findOne({ _id: templateId, organizationId: orgId }),
+    ]);
+
+    if (!draft) {
+      sendNotFound(res, "Draft not found");
+      return;
+    }
+
+    if (!template) {
+      sendNotFound(res, "Template not found");
+      return;
+    }
+
+    if (template.criteria.length > 0) {
+      draft.criteria = template.criteria;
+    }
+    if (template.prizeTiers.length > 0) {
+      draft.prizeTiers = template.prizeTiers;
+    }
+    if (template.resources?.resources?.length) {
+      draft.resources = template.resources;
+    }
+
+    // Only the tabs the template sets override the draft
+    const templateTabs = Object.fromEntries(
+      Object.entries(template.toObject().tabVisibility || {}).filter(
+        ([, visible]) => typeof visible === "boolean",
+      ),
+    );
+    draft.tabVisibility = {
+      ...(draft.toObject().tabVisibility || {}),
+      ...templateTabs,
+    };
+
+    await draft.save();
+
+    sendSuccess(res, draft, "Template applied successfully");
+  } catch (error) {
+    console.error("Apply template error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to apply template",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
@@ -0,0 +1,71 @@
+import { body, param, ValidationChain } from "express-validator";
+import {
+  judgingTabSchema,
+  resourcesTabSchema,
+  rewardsTabSchema,
+  tabVisibilitySchema,
+} from "./hackathon.validators.js";
+
+export const templateIdParam: ValidationChain = param("templateId")
+  .isMongoId()
+  .withMessage("Invalid template ID");
+
+export const cloneHackathonSchema: ValidationChain[] = [
+  body("startDate")
+    .isISO8601()
+    .withMessage("Start date must be a valid ISO 8601 date")
+    .toDate(),
+  body("title")
+    .optional()
+    .trim()
+    .isLength({ min: 3, max: 100 })
+    .withMessage("Title must be between 3 and 100 characters"),
+];
+
+// Templates take the same tab-shaped body as drafts, limited to the parts a
+// template saves
+const templateContentSchema: ValidationChain[] = [
+  ...rewardsTabSchema,
+  ...judgingTabSchema,
+  ...resourcesTabSchema,
+  ...tabVisibilitySchema,
+];
+
+export const createTemplateSchema: ValidationChain[] = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Template name is required")
+    .isLength({ max: 100 })
+    .withMessage("Template name must be at most 100 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description must be at most 500 characters"),
+  body("hackathonId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid hackathon ID"),
+  ...templateContentSchema,
+];
+
+export const updateTemplateSchema: ValidationChain[] = [
+  body("name")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Template name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Template name must be at most 100 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description must be at most 500 characters"),
+  ...templateContentSchema,
+];
+
+export const applyTemplateSchema: ValidationChain[] = [
+  body("templateId").isMongoId().withMessage("Invalid template ID"),
+];
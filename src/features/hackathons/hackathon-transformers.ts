@@ -6,6 +6,7 @@ import {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
   Hackathon,
 } from "../../types/hackathon.js";
+import { getPhaseStatus } from "./hackathon.helpers.js";
 
 /**
  * Transform hackathon participant to frontend Participant interface
@@ -138,6 +139,30 @@ export const calculateHackathonStatus = (
   return "ongoing";
 };
 
+/**
+ * Transform a hackathon phase with its live status
+ */
+export const transformPhaseToFrontend = (
+  phase: any,
+  now: Date = new Date(),
+) => ({
+  id: phase._id?.toString(),
+  name: phase.name,
+  description: phase.description,
+  startDate: phase.startDate,
+  endDate: phase.endDate,
+  status: getPhaseStatus(phase, now),
+  fields:
+    phase.fields?.map((field: any) => ({
+      id: field._id?.toString(),
+      label: field.label,
+      description: field.description,
+      type: field.type,
+      required: field.required,
+      options: field.options || [],
+    })) || [],
+});
+
 /**
  * Transform hackathon to frontend Hackathon interface
  */
@@ -145,11 +170,17 @@ export const transformHackathonToFrontend = async (
   hackathon: any,
   participantsCount: number,
 ) => {
-  // Calculate total prize pool from prize tiers
-  const totalPrizePool =
-    hackathon.prizeTiers?.reduce((total: number, tier: any) => {
+  // Calculate total prize pool from prize tiers, including every track's
+  const sumPrizeTiers = (prizeTiers: any[] | undefined): number =>
+    prizeTiers?.reduce((total: number, tier: any) => {
       return total + (tier.amount || 0);
     }, 0) || 0;
+  const totalPrizePool =
+    sumPrizeTiers(hackathon.prizeTiers) +
+    (hackathon.tracks || []).reduce(
+      (total: number, track: any) => total + sumPrizeTiers(track.prizeTiers),
+      0,
+    );
 
   // Only include team min/max if participant type is team-related
   const teamInfo =
@@ -168,6 +199,11 @@ export const transformHackathonToFrontend = async (
       description: criterion.description,
     })) || [];
 
+  const now = new Date();
+  const phases = (hackathon.phases || []).map((phase: any) =>
+    transformPhaseToFrontend(phase, now),
+  );
+
   const filteredPrizeTiers =
     hackathon.prizeTiers?.map((tier: any) => ({
       position: tier.position,
@@ -204,7 +240,25 @@ export const transformHackathonToFrontend = async (
     participantType: hackathon.participantType,
     registrationDeadlinePolicy: hackathon.registrationDeadlinePolicy,
     registrationDeadline: hackathon.registrationDeadline,
+    registrationMode: hackathon.registrationMode || "open",
+    registrationQuestions:
+      hackathon.registrationQuestions?.map((question: any) => ({
+        id: question._id?.toString(),
+        label: question.label,
+        description: question.description,
+        type: question.type,
+        required: question.required,
+        options: question.options || [],
+      })) || [],
+    maxParticipants: hackathon.maxParticipants,
     participants: participantsCount,
+    votingEligibility: {
+      minAccountAgeDays: hackathon.votingEligibility?.minAccountAgeDays || 0,
+      requireVerifiedEmail:
+        hackathon.votingEligibility?.requireVerifiedEmail || false,
+      participantsOnly: hackathon.votingEligibility?.participantsOnly || false,
+      blockOwnTeam: hackathon.votingEligibility?.blockOwnTeam || false,
+    },
 
     // Team info (only for team-related participant types)
     ...teamInfo,
@@ -249,11 +303,37 @@ export const transformHackathonToFrontend = async (
     discord: hackathon.discord,
 
     // Additional timeline info
-    phases: hackathon.phases || [],
+    phases: phases,
+    currentPhase: phases.find((phase: any) => phase.status === "live") || null,
     timezone: hackathon.timezone,
 
     // Judging criteria without weights
     criteria: criteriaWithoutWeights,
+    showScoreBreakdown: hackathon.showScoreBreakdown || false,
+
+    // Tracks with their own prizes and criteria (without weights)
+    tracks:
+      hackathon.tracks?.map((track: any) => ({
+        id: track._id?.toString(),
+        name: track.name,
+        description: track.description,
+        sponsor: track.sponsor,
+        prizeTiers:
+          track.prizeTiers?.map((tier: any) => ({
+            position: tier.position,
+            amount: tier.amount,
+            currency: tier.currency,
+          })) || [],
+        criteria:
+          track.criteria?.map((criterion: any) => ({
+            title: criterion.title,
+            description: criterion.description,
+          })) || [],
+        winnersAnnouncedAt: track.winnersAnnouncedAt,
+        winnersAnnouncement: track.winnersAnnouncedAt
+          ? track.winnersAnnouncement
+          : undefined,
+      })) || [],
 
     // Resources
     resources: hackathon.resources || { resources: [] },
@@ -0,0 +1,165 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Hackathon from "../../models/hackathon.model.js";
+import {
+  sendSuccess,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  canManageHackathons,
+} from "./hackathon.helpers.js";
+import HackathonVotingService, {
+  DEFAULT_SUSPICIOUS_VOTE_OPTIONS,
+} from "./hackathon-voting.service.js";
+import { hackathonCache } from "../../utils/hackathon-cache.utils.js";
+
+/**
+ * Load a hackathon the caller can manage, sending the error response if not
+ */
+const loadManagedHackathon = async (
+  req: Request,
+  res: Response,
+  action: string,
+) => {
+  const user = (req as AuthenticatedRequest).user;
+  const { orgId, hackathonId } = req.params;
+
+  if (!user) {
+    sendError(res, "Authentication required", 401);
+    return null;
+  }
+
+  const { canManage, organization } = await canManageHackathons(
+    orgId,
+    user.email,
+  );
+
+  if (!canManage) {
+    if (!organization) {
+      sendNotFound(res, "Organization not found");
+      return null;
+    }
+    sendForbidden(
+      res,
+      `Only owners and admins can ${action} for this organization`,
+    );
+    return null;
+  }
+
+  const hackathon = await Hackathon.findOne({
+    _id: hackathonId,
+    organizationId: orgId,
+  });
+
+  if (!hackathon) {
+    sendNotFound(res, "Hackathon not found");
+    return null;
+  }
+
+  return { hackathon, user };
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/votes/suspicious:
+ *   get:
+ *     summary: Get suspicious vote clusters
+ *     description: |
+ *       Report community votes that look coordinated: several accounts voting
+ *       from one IP, several accounts with the same user agent backing one
+ *       submission, and bursts of votes on one submission. Thresholds can be
+ *       tuned with `burstWindowMinutes`, `burstMinVotes` and `minClusterSize`.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const getSuspiciousVotes = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const loaded = await loadManagedHackathon(req, res, "review votes");
+    if (!loaded) return;
+
+    const { burstWindowMinutes, burstMinVotes, minClusterSize } = req.query;
+    const options = {
+      burstWindowMinutes:
+        Number(burstWindowMinutes) ||
+        DEFAULT_SUSPICIOUS_VOTE_OPTIONS.burstWindowMinutes,
+      burstMinVotes:
+        Number(burstMinVotes) || DEFAULT_SUSPICIOUS_VOTE_OPTIONS.burstMinVotes,
+      minClusterSize:
+        Number(minClusterSize) ||
+        DEFAULT_SUSPICIOUS_VOTE_OPTIONS.minClusterSize,
+    };
+
+    const report = await HackathonVotingService.findSuspiciousClusters(
+      loaded.hackathon._id as mongoose.Types.ObjectId,
+      options,
+    );
+
+    sendSuccess(
+      res,
+      { ...report, options },
+      "Suspicious votes retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get suspicious votes error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve suspicious votes",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/votes/void:
+ *   post:
+ *     summary: Void votes
+ *     description: |
+ *       Void community votes on this hackathon's submissions. Voided votes are
+ *       kept for the audit trail but stop counting, and the vote totals of the
+ *       affected submissions are recomputed.
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const voidVotes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const loaded = await loadManagedHackathon(req, res, "void votes");
+    if (!loaded) return;
+    const { hackathon, user } = loaded;
+    const { voteIds, reason } = req.body;
+
+    const result = await HackathonVotingService.voidVotes(
+      hackathon._id as mongoose.Types.ObjectId,
+      voteIds,
+      user._id,
+      reason,
+    );
+
+    if (result.voided === 0) {
+      sendNotFound(res, "No countable votes found for this hackathon");
+      return;
+    }
+
+    if (hackathon.slug) {
+      hackathonCache.invalidateHackathon(hackathon.slug);
+    }
+
+    sendSuccess(res, result, "Votes voided successfully");
+  } catch (error) {
+    console.error("Void votes error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to void votes",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
@@ -0,0 +1,319 @@
+import mongoose from "mongoose";
+import { IHackathon } from "../../models/hackathon.model.js";
+import HackathonParticipant, {
+  IHackathonParticipant,
+} from "../../models/hackathon-participant.model.js";
+import HackathonSubmissionVote from "../../models/hackathon-submission-vote.model.js";
+
+export type SuspiciousVoteClusterType =
+  | "shared_ip"
+  | "shared_user_agent"
+  | "burst";
+
+export interface SuspiciousVoteReportOptions {
+  burstWindowMinutes: number; // Votes on one submission this close together...
+  burstMinVotes: number; // ...and at least this many of them count as a burst
+  minClusterSize: number; // Distinct voters sharing an IP or user agent
+}
+
+export const DEFAULT_SUSPICIOUS_VOTE_OPTIONS: SuspiciousVoteReportOptions = {
+  burstWindowMinutes: 10,
+  burstMinVotes: 5,
+  minClusterSize: 3,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Community voting rules: who may vote, keeping `submission.votes` in step
+ * with the vote records, and finding vote clusters that look coordinated.
+ */
+export class HackathonVotingService {
+  /**
+   * Check the hackathon's voting eligibility rules for a voter. Returns why
+   * the vote is not allowed, or null when it is.
+   */
+  static async getIneligibilityReason(
+    hackathon: Pick<IHackathon, "_id" | "votingEligibility">,
+    voter: {
+      _id: mongoose.Types.ObjectId;
+      createdAt?: Date;
+      emailVerified?: boolean;
+    },
+    entry: Pick<IHackathonParticipant, "userId" | "teamId" | "teamMembers">,
+  ): Promise<string | null> {
+    const rules = hackathon.votingEligibility || {};
+
+    if (rules.minAccountAgeDays && rules.minAccountAgeDays > 0) {
+      const accountAge = voter.createdAt
+        ? Date.now() - new Date(voter.createdAt).getTime()
+        : 0;
+      if (accountAge < rules.minAccountAgeDays * DAY_MS) {
+        return `Your account must be at least ${rules.minAccountAgeDays} day${rules.minAccountAgeDays === 1 ? "" : "s"} old to vote in this hackathon`;
+      }
+    }
+
+    if (rules.requireVerifiedEmail && !voter.emailVerified) {
+      return "You must verify your email address to vote in this hackathon";
+    }
+
+    if (!rules.participantsOnly && !rules.blockOwnTeam) {
+      return null;
+    }
+
+    const registration = await HackathonParticipant.findOne({
+      hackathonId: hackathon._id,
+      userId: voter._id,
+    }).select("teamId");
+
+    if (rules.participantsOnly && !registration) {
+      return "Only registered participants can vote in this hackathon";
+    }
+
+    if (rules.blockOwnTeam) {
+      const voterId = voter._id.toString();
+      const ownEntry =
+        entry.userId.toString() === voterId ||
+        entry.teamMembers?.some(
+          (member) => member.userId.toString() === voterId,
+        ) ||
+        (!!entry.teamId && registration?.teamId === entry.teamId);
+      if (ownEntry) {
+        return "You cannot vote for your own submission";
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Recount `submission.votes` from the votes that have not been voided
+   */
+  static async recomputeVotes(
+    submissionIds: mongoose.Types.ObjectId[],
+  ): Promise<Map<string, number>> {
+    const totals = await HackathonSubmissionVote.aggregate([
+      {
+        $match: {
+          submissionId: { $in: submissionIds },
+          voidedAt: null,
+        },
+      },
+      { $group: { _id: "$submissionId", votes: { $sum: "$value" } } },
+    ]);
+
+    const counts = new Map<string, number>(
+      submissionIds.map((id) => [id.toString(), 0]),
+    );
+    for (const total of totals) {
+      counts.set(total._id.toString(), Math.max(0, total.votes));
+    }
+
+    await HackathonParticipant.bulkWrite(
+      [...counts].map(([submissionId, votes]) => ({
+        updateOne: {
+          filter: { _id: new mongoose.Types.ObjectId(submissionId) },
+          update: { $set: { "submission.votes": votes } },
+        },
+      })),
+    );
+
+    return counts;
+  }
+
+  /**
+   * Group a hackathon's counted votes into clusters worth an organizer's
+   * review: several accounts voting from one IP, several accounts with the
+   * same user agent backing one submission, and bursts of votes on one
+   * submission in a short window.
+   */
+  static async findSuspiciousClusters(
+    hackathonId: mongoose.Types.ObjectId,
+    options: SuspiciousVoteReportOptions = DEFAULT_SUSPICIOUS_VOTE_OPTIONS,
+  ) {
+    const submissions = await HackathonParticipant.find({
+      hackathonId,
+      submission: { $exists: true, $ne: null },
+    })
+      .select("submission.projectName teamName")
+      .lean();
+
+    const projectNames = new Map(
+      submissions.map((s) => [
+        s._id.toString(),
+        s.submission?.projectName || s.teamName || "",
+      ]),
+    );
+
+    const votes = await HackathonSubmissionVote.find({
+      submissionId: { $in: submissions.map((s) => s._id) },
+      voidedAt: null,
+    })
+      .populate("userId", "email emailVerified createdAt profile")
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const formatVote = (vote: any) => {
+      const voter = vote.userId || {};
+      return {
+        voteId: vote._id.toString(),
+        submissionId: vote.submissionId.toString(),
+        projectName: projectNames.get(vote.submissionId.toString()) || "",
+        userId: (voter._id || voter).toString(),
+        username: voter.profile?.username || undefined,
+        email: voter.email || undefined,
+        emailVerified: voter.emailVerified === true,
+        accountCreatedAt: voter.createdAt
+          ? new Date(voter.createdAt).toISOString()
+          : undefined,
+        ipAddress: vote.ipAddress || undefined,
+        userAgent: vote.userAgent || undefined,
+        value: vote.value,
+        createdAt: new Date(vote.createdAt).toISOString(),
+      };
+    };
+
+    const clusters: {
+      type: SuspiciousVoteClusterType;
+      key: string;
+      voterCount: number;
+      firstVoteAt: string;
+      lastVoteAt: string;
+      votes: ReturnType<typeof formatVote>[];
+    }[] = [];
+
+    const addCluster = (
+      type: SuspiciousVoteClusterType,
+      key: string,
+      group: any[],
+    ) => {
+      const voterCount = new Set(group.map((v) => v.userId._id.toString()))
+        .size;
+      if (type !== "burst" && voterCount < options.minClusterSize) {
+        return;
+      }
+      clusters.push({
+        type,
+        key,
+        voterCount,
+        firstVoteAt: new Date(group[0].createdAt).toISOString(),
+        lastVoteAt: new Date(group[group.length - 1].createdAt).toISOString(),
+        votes: group.map(formatVote),
+      });
+    };
+
+    const groupBy = (keyOf: (vote: any) => string | null) => {
+      const groups = new Map<string, any[]>();
+      for (const vote of votes) {
+        const key = keyOf(vote);
+        if (!key) continue;
+        groups.set(key, [...(groups.get(key) || []), vote]);
+      }
+      return groups;
+    };
+
+    // Votes deleted with their user can't be attributed, so skip them
+    const attributable = (vote: any) => !!vote.userId?._id;
+
+    for (const [ip, group] of groupBy((vote) =>
+      attributable(vote) && vote.ipAddress ? vote.ipAddress : null,
+    )) {
+      addCluster("shared_ip", ip, group);
+    }
+
+    // A user agent alone is too common, so only flag it per submission
+    for (const [key, group] of groupBy((vote) =>
+      attributable(vote) && vote.userAgent
+        ? `${vote.submissionId.toString()}|${vote.userAgent}`
+        : null,
+    )) {
+      addCluster("shared_user_agent", key.split("|").slice(1).join("|"), group);
+    }
+
+    const windowMs = options.burstWindowMinutes * 60 * 1000;
+    for (const [submissionId, group] of groupBy((vote) =>
+      attributable(vote) ? vote.submissionId.toString() : null,
+    )) {
+      // Sliding window over votes in time order; report the widest run
+      // that fits in the window, then continue after it
+      let start = 0;
+      while (start < group.length) {
+        let end = start;
+        while (
+          end + 1 < group.length &&
+          new Date(group[end + 1].createdAt).getTime() -
+            new Date(group[start].createdAt).getTime() <=
+            windowMs
+        ) {
+          end++;
+        }
+        if (end - start + 1 >= options.burstMinVotes) {
+          addCluster("burst", submissionId, group.slice(start, end + 1));
+          start = end + 1;
+        } else {
+          start++;
+        }
+      }
+    }
+
+    return {
+      totalVotes: votes.length,
+      clusters: clusters.sort((a, b) => b.voterCount - a.voterCount),
+    };
+  }
+
+  /**
+   * Void votes on a hackathon's submissions and recount the submissions
+   * they were cast for. Votes already voided or belonging to another
+   * hackathon are ignored.
+   */
+  static async voidVotes(
+    hackathonId: mongoose.Types.ObjectId,
+    voteIds: string[],
+    voidedBy: mongoose.Types.ObjectId,
+    reason?: string,
+  ) {
+    const submissionIds = (
+      await HackathonParticipant.find({
+        hackathonId,
+        submission: { $exists: true, $ne: null },
+      }).distinct("_id")
+    ).map((id) => id as mongoose.Types.ObjectId);
+
+    const votes = await HackathonSubmissionVote.find({
+      _id: { $in: voteIds },
+      submissionId: { $in: submissionIds },
+      voidedAt: null,
+    }).select("submissionId");
+
+    if (votes.length === 0) {
+      return { voided: 0, submissions: [] };
+    }
+
+    await HackathonSubmissionVote.updateMany(
+      { _id: { $in: votes.map((vote) => vote._id) } },
+      {
+        $set: {
+          voidedAt: new Date(),
+          voidedBy,
+          ...(reason && { voidReason: reason }),
+        },
+      },
+    );
+
+    const affected = [
+      ...new Set(votes.map((vote) => vote.submissionId.toString())),
+    ].map((id) => new mongoose.Types.ObjectId(id));
+    const counts = await this.recomputeVotes(affected);
+
+    return {
+      voided: votes.length,
+      submissions: [...counts].map(([submissionId, votesCount]) => ({
+        submissionId,
+        votes: votesCount,
+      })),
+    };
+  }
+}
+
+export default HackathonVotingService;
@@ -0,0 +1,31 @@
+import { body, query, ValidationChain } from "express-validator";
+
+export const suspiciousVotesQuerySchema: ValidationChain[] = [
+  query("burstWindowMinutes")
+    .optional()
+    .isInt({ min: 1, max: 1440 })
+    .withMessage("burstWindowMinutes must be between 1 and 1440")
+    .toInt(),
+  query("burstMinVotes")
+    .optional()
+    .isInt({ min: 2, max: 1000 })
+    .withMessage("burstMinVotes must be between 2 and 1000")
+    .toInt(),
+  query("minClusterSize")
+    .optional()
+    .isInt({ min: 2, max: 1000 })
+    .withMessage("minClusterSize must be between 2 and 1000")
+    .toInt(),
+];
+
+export const voidVotesSchema: ValidationChain[] = [
+  body("voteIds")
+    .isArray({ min: 1, max: 500 })
+    .withMessage("voteIds must be a non-empty array of at most 500 votes"),
+  body("voteIds.*").isMongoId().withMessage("Each vote ID must be valid"),
+  body("reason")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason must be at most 500 characters"),
+];
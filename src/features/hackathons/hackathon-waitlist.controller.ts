@@ -0,0 +1,394 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Hackathon from "../../models/hackathon.model.js";
+import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import HackathonWaitlistEntry, {
+  HackathonWaitlistStatus,
+  IHackathonWaitlistEntry,
+} from "../../models/hackathon-waitlist-entry.model.js";
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendNotFound,
+  sendForbidden,
+  sendBadRequest,
+  sendConflict,
+  sendInternalServerError,
+} from "../../utils/apiResponse.js";
+import {
+  AuthenticatedRequest,
+  canManageHackathons,
+  createHackathonRegistration,
+  isRegistrationOpen,
+  resolveHackathonByIdOrSlug,
+} from "./hackathon.helpers.js";
+import HackathonWaitlistService, {
+  HackathonFullError,
+} from "./hackathon-waitlist.service.js";
+
+export const formatWaitlistEntry = async (entry: IHackathonWaitlistEntry) => ({
+  _id: (entry._id as mongoose.Types.ObjectId).toString(),
+  hackathonId: entry.hackathonId.toString(),
+  userId: entry.userId.toString(),
+  waitlisted: true,
+  status: entry.status,
+  position: await HackathonWaitlistService.getPosition(entry),
+  participationType: entry.participationType,
+  teamName: entry.teamName || null,
+  teamMembers: entry.teamMembers || [],
+  queuedAt: entry.queuedAt.toISOString(),
+  offeredAt: entry.offeredAt ? entry.offeredAt.toISOString() : undefined,
+  offerExpiresAt: entry.offerExpiresAt
+    ? entry.offerExpiresAt.toISOString()
+    : undefined,
+});
+
+/**
+ * Resolve the hackathon for participant-facing waitlist routes
+ */
+const resolveWaitlistHackathon = (req: Request) => {
+  const { hackathonSlugOrId, orgId, hackathonId } = req.params;
+  return resolveHackathonByIdOrSlug(
+    hackathonId || hackathonSlugOrId,
+    orgId ? undefined : { includePublishedOnly: true },
+  );
+};
+
+/**
+ * @swagger
+ * /api/organizations/{orgId}/hackathons/{hackathonId}/waitlist:
+ *   get:
+ *     summary: Get hackathon waitlist
+ *     description: Retrieve the registration waitlist in queue order along with the hackathon's capacity
+ *     tags: [Hackathons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [waiting, offered, confirmed, expired, cancelled]
+ *         description: Filter by entry status. Defaults to waiting and offered entries.
+ */
+export const getWaitlist = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const { orgId, hackathonId } = req.params;
+    const { page = "1", limit = "10", status } = req.query;
+
+    if (!user) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const { canManage, organization } = await canManageHackathons(
+      orgId,
+      user.email,
+    );
+
+    if (!canManage) {
+      if (!organization) {
+        sendNotFound(res, "Organization not found");
+        return;
+      }
+      sendForbidden(
+        res,
+        "Only owners and admins can view the hackathon waitlist for this organization",
+      );
+      return;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(hackathonId)) {
+      sendBadRequest(res, "Invalid hackathon ID");
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      _id: hackathonId,
+      organizationId: orgId,
+    });
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const statusFilter = Object.values(HackathonWaitlistStatus).includes(
+      status as HackathonWaitlistStatus,
+    )
+      ? [status as HackathonWaitlistStatus]
+      : [HackathonWaitlistStatus.WAITING, HackathonWaitlistStatus.OFFERED];
+
+    const query = {
+      hackathonId: hackathon._id,
+      status: { $in: statusFilter },
+    };
+
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [totalItems, entries, capacity] = await Promise.all([
+      HackathonWaitlistEntry.countDocuments(query),
+      HackathonWaitlistEntry.find(query)
+        .populate({
+          path: "userId",
+          select: "email profile",
+        })
+        .sort({ queuedAt: 1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      HackathonWaitlistService.getCapacity(hackathon),
+    ]);
+
+    // Number this page's waiting entries from the ones queued before them
+    const firstWaiting = entries.find(
+      (entry) => entry.status === HackathonWaitlistStatus.WAITING,
+    );
+    let position = firstWaiting
+      ? await HackathonWaitlistEntry.countDocuments({
+          hackathonId: hackathon._id,
+          status: HackathonWaitlistStatus.WAITING,
+          queuedAt: { $lt: firstWaiting.queuedAt },
+        })
+      : 0;
+
+    const items = entries.map((entry: any) => {
+      const entryUser = entry.userId;
+      const isWaiting = entry.status === HackathonWaitlistStatus.WAITING;
+      if (isWaiting) {
+        position++;
+      }
+
+      return {
+        _id: entry._id.toString(),
+        userId: entryUser._id.toString(),
+        user: {
+          _id: entryUser._id.toString(),
+          profile: {
+            firstName: entryUser.profile?.firstName || "",
+            lastName: entryUser.profile?.lastName || "",
+            username: entryUser.profile?.username || "",
+            avatar: entryUser.profile?.avatar || "",
+          },
+          email: entryUser.email || "",
+        },
+        status: entry.status,
+        position: isWaiting ? position : null,
+        participationType: entry.participationType,
+        teamName: entry.teamName || undefined,
+        teamMembers: entry.teamMembers || [],
+        queuedAt: entry.queuedAt.toISOString(),
+        offeredAt: entry.offeredAt?.toISOString() || undefined,
+        offerExpiresAt: entry.offerExpiresAt?.toISOString() || undefined,
+        confirmedAt: entry.confirmedAt?.toISOString() || undefined,
+      };
+    });
+
+    const totalPages = Math.ceil(totalItems / limitNum);
+
+    sendSuccess(
+      res,
+      {
+        capacity,
+        entries: items,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalItems,
+          itemsPerPage: limitNum,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1,
+        },
+      },
+      "Waitlist retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get waitlist error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve waitlist",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Get my waitlist entry
+ * GET /organizations/{orgId}/hackathons/{hackathonId}/waitlist/me
+ * GET /hackathons/{hackathonSlugOrId}/waitlist/me
+ */
+export const getMyWaitlistEntry = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      sendForbidden(res, "Authentication required");
+      return;
+    }
+
+    const hackathon = await resolveWaitlistHackathon(req);
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const entry = await HackathonWaitlistEntry.findOne({
+      hackathonId: hackathon._id,
+      userId: user._id,
+      status: {
+        $in: [HackathonWaitlistStatus.WAITING, HackathonWaitlistStatus.OFFERED],
+      },
+    });
+
+    sendSuccess(
+      res,
+      entry ? await formatWaitlistEntry(entry) : null,
+      "Waitlist status retrieved successfully",
+    );
+  } catch (error) {
+    console.error("Get waitlist entry error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve waitlist status",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Confirm an offered waitlist spot and register with the details given
+ * when joining the waitlist
+ * POST /organizations/{orgId}/hackathons/{hackathonId}/waitlist/confirm
+ * POST /hackathons/{hackathonSlugOrId}/waitlist/confirm
+ */
+export const confirmWaitlistSpot = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      sendForbidden(res, "Authentication required");
+      return;
+    }
+
+    const hackathon = await resolveWaitlistHackathon(req);
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const registrationStatus = isRegistrationOpen(hackathon);
+    if (!registrationStatus.isOpen) {
+      sendBadRequest(
+        res,
+        registrationStatus.errorMessage || "Hackathon registration has closed",
+      );
+      return;
+    }
+
+    const existingParticipant = await HackathonParticipant.findOne({
+      hackathonId: hackathon._id,
+      userId: user._id,
+    });
+
+    if (existingParticipant) {
+      sendConflict(res, "You are already registered for this hackathon");
+      return;
+    }
+
+    const noOfferMessage =
+      "You do not have an open waitlist offer for this hackathon";
+    const entry = await HackathonWaitlistService.findActiveOffer(
+      hackathon,
+      user._id,
+    );
+
+    if (!entry) {
+      sendBadRequest(res, noOfferMessage);
+      return;
+    }
+
+    let responseData;
+    try {
+      // The offer is claimed with the spot, so it can only be used once
+      responseData = await createHackathonRegistration({
+        hackathon,
+        user,
+        participationType: entry.participationType,
+        teamName: entry.teamName,
+        teamMembers: entry.teamMembers,
+        registrationAnswers: entry.registrationAnswers,
+        offerOnly: true,
+        req,
+      });
+    } catch (error) {
+      if (error instanceof HackathonFullError) {
+        sendBadRequest(res, noOfferMessage);
+        return;
+      }
+      throw error;
+    }
+
+    sendCreated(
+      res,
+      responseData,
+      "Waitlist spot confirmed. Successfully registered for hackathon.",
+    );
+  } catch (error) {
+    console.error("Confirm waitlist spot error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to confirm waitlist spot",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
+/**
+ * Leave the waitlist, releasing any offered spot to the next person
+ * DELETE /organizations/{orgId}/hackathons/{hackathonId}/waitlist
+ * DELETE /hackathons/{hackathonSlugOrId}/waitlist
+ */
+export const leaveWaitlist = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      sendForbidden(res, "Authentication required");
+      return;
+    }
+
+    const hackathon = await resolveWaitlistHackathon(req);
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const entry = await HackathonWaitlistService.leave(hackathon, user._id);
+    if (!entry) {
+      sendNotFound(res, "You are not on the waitlist for this hackathon");
+      return;
+    }
+
+    sendSuccess(res, null, "Successfully left the waitlist");
+  } catch (error) {
+    console.error("Leave waitlist error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to leave waitlist",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
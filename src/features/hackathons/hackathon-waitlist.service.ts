@@ -0,0 +1,479 @@
+import mongoose from "mongoose";
+import Hackathon, { IHackathon } from "../../models/hackathon.model.js";
+import HackathonParticipant, {
+  IRegistrationAnswer,
+} from "../../models/hackathon-participant.model.js";
+import HackathonWaitlistEntry, {
+  HackathonWaitlistStatus,
+  IHackathonWaitlistEntry,
+} from "../../models/hackathon-waitlist-entry.model.js";
+import User from "../../models/user.model.js";
+import { NotificationType } from "../../models/notification.model.js";
+import NotificationService from "../notifications/notification.service.js";
+import EmailTemplatesService from "../../services/email/email-templates.service.js";
+import { isRegistrationOpen } from "./hackathon.helpers.js";
+
+// How long a promoted user has to confirm before the spot moves on
+export const WAITLIST_OFFER_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+export interface HackathonCapacity {
+  maxParticipants: number | null;
+  registered: number;
+  reserved: number; // Spots held by outstanding waitlist offers
+  available: number | null; // null when registrations are not capped
+  waiting: number;
+}
+
+export interface WaitlistJoinInput {
+  participationType: "individual" | "team";
+  teamName?: string;
+  teamMembers?: string[];
+  registrationAnswers?: IRegistrationAnswer[];
+}
+
+export interface WaitlistOffersResult {
+  expired: number;
+  offered: number;
+}
+
+type HackathonId = mongoose.Types.ObjectId | string;
+
+/**
+ * Raised when a seat reservation finds no spot left for the user
+ */
+export class HackathonFullError extends Error {
+  constructor(message = "Hackathon has reached its participant limit") {
+    super(message);
+    this.name = "HackathonFullError";
+  }
+}
+
+export class HackathonWaitlistService {
+  /**
+   * Registered participants, held offers and remaining spots
+   */
+  static async getCapacity(
+    hackathon: IHackathon,
+    now: Date = new Date(),
+    session?: mongoose.ClientSession,
+  ): Promise<HackathonCapacity> {
+    const hackathonId = hackathon._id as mongoose.Types.ObjectId;
+
+    // Sequential: a session runs one operation at a time
+    const registered = await HackathonParticipant.countDocuments(
+      { hackathonId },
+      { session },
+    );
+    const reserved = await HackathonWaitlistEntry.countDocuments(
+      {
+        hackathonId,
+        status: HackathonWaitlistStatus.OFFERED,
+        offerExpiresAt: { $gt: now },
+      },
+      { session },
+    );
+    const waiting = await HackathonWaitlistEntry.countDocuments(
+      { hackathonId, status: HackathonWaitlistStatus.WAITING },
+      { session },
+    );
+
+    const maxParticipants = hackathon.maxParticipants || null;
+
+    return {
+      maxParticipants,
+      registered,
+      reserved,
+      available:
+        maxParticipants === null
+          ? null
+          : Math.max(0, maxParticipants - registered - reserved),
+      waiting,
+    };
+  }
+
+  /**
+   * Whether a user can take a participant spot right now. A user holding
+   * an unexpired offer always can, since the spot is reserved for them.
+   */
+  static async hasOpenSpot(
+    hackathon: IHackathon,
+    userId: HackathonId,
+    now: Date = new Date(),
+    session?: mongoose.ClientSession,
+  ): Promise<boolean> {
+    if (!hackathon.maxParticipants) {
+      return true;
+    }
+
+    const offer = await this.findActiveOffer(hackathon, userId, now, session);
+    if (offer) {
+      return true;
+    }
+
+    const { available, waiting } = await this.getCapacity(
+      hackathon,
+      now,
+      session,
+    );
+    // Free spots go to the queue first
+    return (available || 0) > 0 && waiting === 0;
+  }
+
+  static async findActiveOffer(
+    hackathon: IHackathon,
+    userId: HackathonId,
+    now: Date = new Date(),
+    session?: mongoose.ClientSession,
+  ): Promise<IHackathonWaitlistEntry | null> {
+    return HackathonWaitlistEntry.findOne(
+      {
+        hackathonId: hackathon._id,
+        userId,
+        status: HackathonWaitlistStatus.OFFERED,
+        offerExpiresAt: { $gt: now },
+      },
+      null,
+      { session },
+    );
+  }
+
+  /**
+   * Take a participant spot for a user and run `register` to create their
+   * participant record, in one transaction. Each reservation writes the
+   * hackathon, so concurrent ones conflict and are retried against fresh
+   * counts rather than all passing the same check. A held offer is used
+   * up; with `offerOnly` the user must hold one. Throws HackathonFullError
+   * when there is no spot, leaving nothing written.
+   */
+  static async reserveSpot<T>(
+    hackathon: IHackathon,
+    userId: HackathonId,
+    register: (session: mongoose.ClientSession) => Promise<T>,
+    { offerOnly = false }: { offerOnly?: boolean } = {},
+  ): Promise<T> {
+    const session = await mongoose.startSession();
+
+    try {
+      let result!: T;
+
+      await session.withTransaction(async () => {
+        const now = new Date();
+
+        await Hackathon.updateOne(
+          { _id: hackathon._id },
+          { $inc: { seatVersion: 1 } },
+          { session },
+        );
+
+        const offer = await this.findActiveOffer(
+          hackathon,
+          userId,
+          now,
+          session,
+        );
+        const claimed = offer
+          ? await this.claimOffer(
+              offer._id as mongoose.Types.ObjectId,
+              now,
+              session,
+            )
+          : null;
+
+        if (
+          !claimed &&
+          (offerOnly ||
+            !(await this.hasOpenSpot(hackathon, userId, now, session)))
+        ) {
+          throw new HackathonFullError();
+        }
+
+        result = await register(session);
+      });
+
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Put a user at the back of the queue. An earlier expired, cancelled or
+   * confirmed entry is reused.
+   */
+  static async join(
+    hackathon: IHackathon,
+    userId: HackathonId,
+    input: WaitlistJoinInput,
+  ): Promise<IHackathonWaitlistEntry> {
+    return HackathonWaitlistEntry.findOneAndUpdate(
+      { hackathonId: hackathon._id, userId },
+      {
+        $set: {
+          organizationId: hackathon.organizationId,
+          participationType: input.participationType,
+          teamName:
+            input.participationType === "team" ? input.teamName : undefined,
+          teamMembers:
+            input.participationType === "team" ? input.teamMembers || [] : [],
+          registrationAnswers: input.registrationAnswers || [],
+          status: HackathonWaitlistStatus.WAITING,
+          queuedAt: new Date(),
+        },
+        $unset: {
+          offeredAt: 1,
+          offerExpiresAt: 1,
+          confirmedAt: 1,
+          cancelledAt: 1,
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    ) as Promise<IHackathonWaitlistEntry>;
+  }
+
+  /**
+   * 1-based position among waiting entries, or null once no longer waiting
+   */
+  static async getPosition(
+    entry: IHackathonWaitlistEntry,
+  ): Promise<number | null> {
+    if (entry.status !== HackathonWaitlistStatus.WAITING) {
+      return null;
+    }
+
+    const ahead = await HackathonWaitlistEntry.countDocuments({
+      hackathonId: entry.hackathonId,
+      status: HackathonWaitlistStatus.WAITING,
+      queuedAt: { $lt: entry.queuedAt },
+    });
+
+    return ahead + 1;
+  }
+
+  /**
+   * Claim an offer so its spot cannot be handed out twice. Returns null if
+   * the offer expired or was already used.
+   */
+  static async claimOffer(
+    entryId: mongoose.Types.ObjectId,
+    now: Date = new Date(),
+    session?: mongoose.ClientSession,
+  ): Promise<IHackathonWaitlistEntry | null> {
+    return HackathonWaitlistEntry.findOneAndUpdate(
+      {
+        _id: entryId,
+        status: HackathonWaitlistStatus.OFFERED,
+        offerExpiresAt: { $gt: now },
+      },
+      { $set: { status: HackathonWaitlistStatus.CONFIRMED, confirmedAt: now } },
+      { new: true, session },
+    );
+  }
+
+  /**
+   * Close out a user's waitlist entry once they are registered some other
+   * way, such as joining a team
+   */
+  static async markRegistered(
+    hackathonId: HackathonId,
+    userId: HackathonId,
+  ): Promise<void> {
+    await HackathonWaitlistEntry.updateOne(
+      {
+        hackathonId,
+        userId,
+        status: {
+          $in: [
+            HackathonWaitlistStatus.WAITING,
+            HackathonWaitlistStatus.OFFERED,
+          ],
+        },
+      },
+      {
+        $set: {
+          status: HackathonWaitlistStatus.CONFIRMED,
+          confirmedAt: new Date(),
+        },
+      },
+    );
+  }
+
+  /**
+   * Take a user off the waitlist. A released offer goes to the next person.
+   */
+  static async leave(
+    hackathon: IHackathon,
+    userId: HackathonId,
+  ): Promise<IHackathonWaitlistEntry | null> {
+    const entry = await HackathonWaitlistEntry.findOneAndUpdate(
+      {
+        hackathonId: hackathon._id,
+        userId,
+        status: {
+          $in: [
+            HackathonWaitlistStatus.WAITING,
+            HackathonWaitlistStatus.OFFERED,
+          ],
+        },
+      },
+      {
+        $set: {
+          status: HackathonWaitlistStatus.CANCELLED,
+          cancelledAt: new Date(),
+        },
+      },
+    );
+
+    if (entry?.status === HackathonWaitlistStatus.OFFERED) {
+      await this.promote(hackathon._id as mongoose.Types.ObjectId);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Expire lapsed offers and offer free spots to the queue in order.
+   * Called whenever a spot may have opened up.
+   */
+  static async promote(
+    hackathonId: HackathonId,
+    now: Date = new Date(),
+  ): Promise<WaitlistOffersResult> {
+    const expired = await this.expireOffers({ hackathonId }, now);
+
+    const hackathon = await Hackathon.findById(hackathonId);
+    if (!hackathon || !isRegistrationOpen(hackathon).isOpen) {
+      return { expired, offered: 0 };
+    }
+
+    const { available } = await this.getCapacity(hackathon, now);
+    // Lifting the cap opens the doors to everyone waiting
+    let remaining = available === null ? Infinity : available;
+    let offered = 0;
+
+    while (remaining > 0) {
+      const entry = await HackathonWaitlistEntry.findOneAndUpdate(
+        {
+          hackathonId: hackathon._id,
+          status: HackathonWaitlistStatus.WAITING,
+        },
+        {
+          $set: {
+            status: HackathonWaitlistStatus.OFFERED,
+            offeredAt: now,
+            offerExpiresAt: new Date(now.getTime() + WAITLIST_OFFER_WINDOW_MS),
+          },
+        },
+        { sort: { queuedAt: 1 }, new: true },
+      );
+
+      if (!entry) {
+        break;
+      }
+
+      remaining--;
+      offered++;
+
+      try {
+        await this.notifyOffer(hackathon, entry);
+      } catch (error) {
+        console.error(
+          `Failed to notify waitlist entry ${entry._id} of its offer:`,
+          error,
+        );
+      }
+    }
+
+    return { expired, offered };
+  }
+
+  /**
+   * Expire lapsed offers everywhere and promote the queues that have
+   * waiting entries. Run periodically by the scheduler.
+   */
+  static async processOffers(
+    now: Date = new Date(),
+  ): Promise<WaitlistOffersResult> {
+    const expired = await this.expireOffers({}, now);
+
+    const hackathonIds = await HackathonWaitlistEntry.distinct("hackathonId", {
+      status: HackathonWaitlistStatus.WAITING,
+    });
+
+    let offered = 0;
+
+    for (const hackathonId of hackathonIds) {
+      try {
+        const result = await this.promote(hackathonId, now);
+        offered += result.offered;
+      } catch (error) {
+        console.error(
+          `Error promoting waitlist for hackathon ${hackathonId}:`,
+          error,
+        );
+      }
+    }
+
+    return { expired, offered };
+  }
+
+  private static async expireOffers(
+    filter: { hackathonId?: HackathonId },
+    now: Date,
+  ): Promise<number> {
+    const result = await HackathonWaitlistEntry.updateMany(
+      {
+        ...filter,
+        status: HackathonWaitlistStatus.OFFERED,
+        offerExpiresAt: { $lte: now },
+      },
+      { $set: { status: HackathonWaitlistStatus.EXPIRED } },
+    );
+
+    return result.modifiedCount;
+  }
+
+  private static async notifyOffer(
+    hackathon: IHackathon,
+    entry: IHackathonWaitlistEntry,
+  ): Promise<void> {
+    const user = await User.findById(entry.userId).select("email profile");
+    if (!user) {
+      return;
+    }
+
+    const hackathonName = hackathon.title || "Hackathon";
+
+    await NotificationService.sendSingleNotification(
+      {
+        userId: user._id as mongoose.Types.ObjectId,
+        email: user.email,
+        name: user.profile?.firstName || user.email,
+      },
+      {
+        type: NotificationType.HACKATHON_WAITLIST_SPOT_OFFERED,
+        title: `A spot opened up in ${hackathonName}`,
+        message: `Confirm your registration for "${hackathonName}" before ${entry.offerExpiresAt!.toISOString()} to keep your spot.`,
+        data: {
+          hackathonId: hackathon._id as mongoose.Types.ObjectId,
+          hackathonName,
+          hackathonSlug: hackathon.slug,
+          waitlistEntryId: entry._id,
+          offerExpiresAt: entry.offerExpiresAt,
+        },
+        emailTemplate: EmailTemplatesService.getTemplate(
+          "hackathon-waitlist-spot-offered",
+          {
+            hackathonId: (hackathon._id as mongoose.Types.ObjectId).toString(),
+            hackathonName,
+            hackathonSlug: hackathon.slug,
+            offerExpiresAt: entry.offerExpiresAt,
+          },
+        ),
+        sendEmail: true,
+        sendInApp: true,
+      },
+    );
+  }
+}
+
+export default HackathonWaitlistService;
@@ -11,6 +11,16 @@
  * - hackathon-participants.controller.ts: Participant management
  * - hackathon-review.controller.ts: Submission review (shortlist/disqualify)
  * - hackathon-judging.controller.ts: Judging system operations
+ * - hackathon-judges.controller.ts: Judge invitations and submission assignment
+ * - hackathon-waitlist.controller.ts: Registration waitlist
+ * - hackathon-application.controller.ts: Registration applications
+ * - hackathon-phase.controller.ts: Multi-round phases and phase submissions
+ * - hackathon-sponsors.controller.ts: Sponsor accounts linked to a hackathon
+ * - hackathon-bounty.controller.ts: Sponsor bounties and winner selection
+ * - hackathon-payout.controller.ts: Prize payout ledger and finance export
+ * - hackathon-prize-split.controller.ts: Team prize splits and member approval
+ * - hackathon-voting.controller.ts: Suspicious community votes and voiding
+ * - hackathon-template.controller.ts: Hackathon cloning and reusable templates
  */
 
 // Re-export helper types
@@ -43,6 +53,30 @@ export {
 // Re-export participant controllers
 export { getParticipants } from "./hackathon-participants.controller.js";
 
+// Re-export waitlist controllers
+export {
+  getWaitlist,
+  getMyWaitlistEntry,
+  confirmWaitlistSpot,
+  leaveWaitlist,
+} from "./hackathon-waitlist.controller.js";
+
+// Re-export application controllers
+export {
+  getApplications,
+  approveApplication,
+  rejectApplication,
+  getMyApplication,
+  withdrawApplication,
+} from "./hackathon-application.controller.js";
+
+// Re-export phase controllers
+export {
+  getPhases,
+  submitToPhase,
+  getPhaseSubmissions,
+} from "./hackathon-phase.controller.js";
+
 // Re-export review controllers
 export {
   shortlistSubmission,
@@ -54,4 +88,61 @@ export {
   getJudgingSubmissions,
   submitGrade,
   getSubmissionScores,
+  getJudgingResults,
 } from "./hackathon-judging.controller.js";
+
+// Re-export judge management controllers
+export {
+  inviteJudge,
+  getJudges,
+  removeJudge,
+  updateJudgeTracks,
+  assignSubmissionsToJudges,
+} from "./hackathon-judges.controller.js";
+
+// Re-export sponsor controllers
+export {
+  inviteSponsor,
+  getSponsors,
+  removeSponsor,
+} from "./hackathon-sponsors.controller.js";
+
+// Re-export bounty controllers
+export {
+  createBounty,
+  getBounties,
+  updateBounty,
+  getBountyEntries,
+  selectBountyWinners,
+} from "./hackathon-bounty.controller.js";
+
+// Re-export payout controllers
+export {
+  getPayouts,
+  exportPayouts,
+  updatePayoutWallet,
+} from "./hackathon-payout.controller.js";
+
+// Re-export prize split controllers
+export {
+  getPrizeSplit,
+  proposePrizeSplit,
+  approvePrizeSplit,
+} from "./hackathon-prize-split.controller.js";
+
+// Re-export voting controllers
+export {
+  getSuspiciousVotes,
+  voidVotes,
+} from "./hackathon-voting.controller.js";
+
+// Re-export cloning and template controllers
+export {
+  cloneHackathon,
+  createTemplate,
+  getTemplates,
+  getTemplate,
+  updateTemplate,
+  deleteTemplate,
+  applyTemplate,
+} from "./hackathon-template.controller.js";
@@ -2,10 +2,16 @@ import { Request } from "express";
 import mongoose from "mongoose";
 import {
   IHackathon,
+  IJudgingCriterion,
+  IPhase,
+  IPrizeTier,
+  IRegistrationQuestion,
+  ITrack,
   ParticipantType,
   VenueType,
   HackathonStatus,
   RegistrationDeadlinePolicy,
+  RegistrationQuestionType,
 } from "../../models/hackathon.model.js";
 import Hackathon from "../../models/hackathon.model.js";
 import Organization from "../../models/organization.model.js";
@@ -14,13 +20,30 @@ import { isValidStellarAddress } from "../../utils/wallet.js";
 import { auth } from "../../lib/auth.js";
 import User from "../../models/user.model.js";
 import { HackathonTeamInvitationStatus } from "../../models/hackathon-team-invitation.model.js";
-import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import HackathonParticipant, {
+  IHackathonParticipant,
+  IRegistrationAnswer,
+  ITeamMember,
+} from "../../models/hackathon-participant.model.js";
+import HackathonJudge, {
+  IHackathonJudge,
+  HackathonJudgeStatus,
+} from "../../models/hackathon-judge.model.js";
+import HackathonSponsor, {
+  IHackathonSponsor,
+  HackathonSponsorStatus,
+} from "../../models/hackathon-sponsor.model.js";
+import HackathonBounty, {
+  IHackathonBounty,
+  HackathonBountyStatus,
+} from "../../models/hackathon-bounty.model.js";
 
 import { sendEmail } from "../../utils/email.utils.js";
 import { config } from "../../config/main.config.js";
 import EmailTemplatesService from "../../services/email/email-templates.service.js";
 import crypto from "crypto";
 import HackathonTeamInvitation from "../../models/hackathon-team-invitation.model.js";
+import HackathonWaitlistService from "./hackathon-waitlist.service.js";
 
 export interface AuthenticatedRequest extends Request {
   user: any;
@@ -85,6 +108,60 @@ export const canManageHackathons = async (
   return { canManage, organization };
 };
 
+/**
+ * Find the active judge record for a user on a hackathon, if any.
+ * External judges are not organization members, so this is checked
+ * separately from canManageHackathons.
+ */
+export const findActiveJudge = async (
+  hackathonId: string,
+  userId: string | mongoose.Types.ObjectId,
+): Promise<IHackathonJudge | null> => {
+  if (!mongoose.Types.ObjectId.isValid(hackathonId)) {
+    return null;
+  }
+
+  return HackathonJudge.findOne({
+    hackathonId: new mongoose.Types.ObjectId(hackathonId),
+    userId: new mongoose.Types.ObjectId(userId),
+    status: HackathonJudgeStatus.ACTIVE,
+  });
+};
+
+/**
+ * Find the active sponsor account for a user on a hackathon, if any.
+ * Like judges, sponsors are not organization members.
+ */
+export const findActiveSponsor = async (
+  hackathonId: string,
+  userId: string | mongoose.Types.ObjectId,
+): Promise<IHackathonSponsor | null> => {
+  if (!mongoose.Types.ObjectId.isValid(hackathonId)) {
+    return null;
+  }
+
+  return HackathonSponsor.findOne({
+    hackathonId: new mongoose.Types.ObjectId(hackathonId),
+    userId: new mongoose.Types.ObjectId(userId),
+    status: HackathonSponsorStatus.ACTIVE,
+  });
+};
+
+/**
+ * Whether a judge scores a submission entered in the given tracks. Judges
+ * without tracks score every submission.
+ */
+export const judgeCoversTracks = (
+  judge: Pick<IHackathonJudge, "trackIds">,
+  trackIds?: (string | mongoose.Types.ObjectId)[] | null,
+): boolean => {
+  if (!judge.trackIds || judge.trackIds.length === 0) {
+    return true;
+  }
+  const judgeTracks = new Set(judge.trackIds.map((id) => id.toString()));
+  return (trackIds || []).some((id) => judgeTracks.has(id.toString()));
+};
+
 /**
  * Transform request body to hackathon model structure
  */
@@ -140,11 +217,22 @@ export const transformRequestBody = (body: any): Partial<IHackathon> => {
     if (body.timeline.timezone !== undefined)
       updateData.timezone = body.timeline.timezone;
     if (body.timeline.phases !== undefined) {
+      // Keep the _id of existing phases and fields so advancements,
+      // submissions and scores still point at them
       updateData.phases = body.timeline.phases.map((phase: any) => ({
+        ...(phase._id && { _id: phase._id }),
         name: phase.name,
         startDate: new Date(phase.startDate),
         endDate: new Date(phase.endDate),
         description: phase.description,
+        fields: (phase.fields || []).map((field: any) => ({
+          ...(field._id && { _id: field._id }),
+          label: field.label,
+          description: field.description,
+          type: field.type,
+          required: field.required === true,
+          options: field.options || [],
+        })),
       }));
     }
   }
@@ -157,6 +245,22 @@ export const transformRequestBody = (body: any): Partial<IHackathon> => {
       updateData.teamMin = body.participation.teamMin;
     if (body.participation.teamMax !== undefined)
       updateData.teamMax = body.participation.teamMax;
+    if (body.participation.maxParticipants !== undefined)
+      updateData.maxParticipants = body.participation.maxParticipants;
+    if (body.participation.registrationMode !== undefined)
+      updateData.registrationMode = body.participation.registrationMode;
+    if (body.participation.registrationQuestions !== undefined) {
+      // Keep the _id of existing questions so earlier answers still match
+      updateData.registrationQuestions =
+        body.participation.registrationQuestions.map((question: any) => ({
+          ...(question._id && { _id: question._id }),
+          label: question.label,
+          description: question.description,
+          type: question.type,
+          required: question.required === true,
+          options: question.options || [],
+        }));
+    }
     if (body.participation.registrationDeadlinePolicy !== undefined)
       updateData.registrationDeadlinePolicy =
         body.participation.registrationDeadlinePolicy;
@@ -167,6 +271,8 @@ export const transformRequestBody = (body: any): Partial<IHackathon> => {
     if (body.participation.submissionRequirements !== undefined)
       updateData.submissionRequirements =
         body.participation.submissionRequirements;
+    if (body.participation.votingEligibility !== undefined)
+      updateData.votingEligibility = body.participation.votingEligibility;
     if (body.participation.tabVisibility !== undefined)
       updateData.tabVisibility = body.participation.tabVisibility;
   }
@@ -181,6 +287,24 @@ export const transformRequestBody = (body: any): Partial<IHackathon> => {
   if (body.judging) {
     if (body.judging.criteria !== undefined)
       updateData.criteria = body.judging.criteria;
+    if (body.judging.showScoreBreakdown !== undefined)
+      updateData.showScoreBreakdown = body.judging.showScoreBreakdown;
+  }
+
+  // Tracks tab
+  if (body.tracks !== undefined) {
+    // Keep the _id of existing tracks so submissions, ranks and judges
+    // still point at them
+    updateData.tracks = body.tracks.map((track: any) => ({
+      ...(track._id && { _id: track._id }),
+      name: track.name,
+      description: track.description,
+      sponsor: track.sponsor,
+      prizeTiers: track.prizeTiers || [],
+      criteria: track.criteria || [],
+      winnersAnnouncedAt: track.winnersAnnouncedAt,
+      winnersAnnouncement: track.winnersAnnouncement,
+    })) as ITrack[];
   }
 
   // Collaboration tab
@@ -214,6 +338,89 @@ export const transformRequestBody = (body: any): Partial<IHackathon> => {
   return updateData;
 };
 
+/**
+ * Copy a hackathon's setup into the fields of a new draft. Timeline dates
+ * keep their spacing but move so the hackathon starts on `startDate`.
+ * Slug, status, escrow fields and announced winners are not copied, and
+ * embedded tracks, phases and questions get new IDs.
+ */
+export const buildHackathonClone = (
+  source: IHackathon,
+  startDate: Date,
+  title?: string,
+): Partial<IHackathon> => {
+  const copy = source.toObject();
+  const offset = copy.startDate
+    ? startDate.getTime() - new Date(copy.startDate).getTime()
+    : null;
+  // Without a source start date there is nothing to anchor the other dates to
+  const shift = (date?: Date) =>
+    date && offset !== null
+      ? new Date(new Date(date).getTime() + offset)
+      : undefined;
+  const cloneQuestion = (question: IRegistrationQuestion) => ({
+    label: question.label,
+    description: question.description,
+    type: question.type,
+    required: question.required,
+    options: question.options || [],
+  });
+
+  return {
+    title: title || copy.title,
+    tagline: copy.tagline,
+    banner: copy.banner,
+    description: copy.description,
+    categories: copy.categories,
+    venue: copy.venue,
+
+    startDate,
+    submissionDeadline: shift(copy.submissionDeadline),
+    judgingDate: shift(copy.judgingDate),
+    winnerAnnouncementDate: shift(copy.winnerAnnouncementDate),
+    timezone: copy.timezone,
+    phases: (copy.phases || []).map((phase: IPhase) => ({
+      name: phase.name,
+      description: phase.description,
+      startDate: shift(phase.startDate) || startDate,
+      endDate: shift(phase.endDate) || startDate,
+      fields: (phase.fields || []).map(cloneQuestion),
+    })) as IPhase[],
+
+    participantType: copy.participantType,
+    teamMin: copy.teamMin,
+    teamMax: copy.teamMax,
+    maxParticipants: copy.maxParticipants,
+    registrationMode: copy.registrationMode,
+    registrationQuestions: (copy.registrationQuestions || []).map(
+      cloneQuestion,
+    ) as IRegistrationQuestion[],
+    registrationDeadlinePolicy: copy.registrationDeadlinePolicy,
+    registrationDeadline: shift(copy.registrationDeadline),
+    submissionRequirements: copy.submissionRequirements,
+    votingEligibility: copy.votingEligibility,
+    tabVisibility: copy.tabVisibility,
+
+    prizeTiers: copy.prizeTiers,
+    criteria: copy.criteria,
+    showScoreBreakdown: copy.showScoreBreakdown,
+    tracks: (copy.tracks || []).map((track: ITrack) => ({
+      name: track.name,
+      description: track.description,
+      sponsor: track.sponsor,
+      prizeTiers: track.prizeTiers || [],
+      criteria: track.criteria || [],
+    })) as ITrack[],
+
+    contactEmail: copy.contactEmail,
+    telegram: copy.telegram,
+    discord: copy.discord,
+    socialLinks: copy.socialLinks,
+    sponsorsPartners: copy.sponsorsPartners,
+    resources: copy.resources,
+  };
+};
+
 /**
  * Validate all required fields for publishing
  */
@@ -301,14 +508,26 @@ export const validatePublishRequirements = (
     errors.push("Team min must be less than or equal to team max");
   }
 
+  const tracks = hackathon.tracks || [];
+
   // Rewards tab
-  if (!hackathon.prizeTiers || hackathon.prizeTiers.length === 0) {
+  if (tracks.length > 0) {
+    tracks
+      .filter((track) => track.prizeTiers.length === 0)
+      .forEach((track) =>
+        errors.push(`Track "${track.name}" needs at least one prize tier`),
+      );
+  } else if (!hackathon.prizeTiers || hackathon.prizeTiers.length === 0) {
     errors.push("At least one prize tier is required");
   }
 
-  // Judging tab
+  // Judging tab. Tracks without their own criteria use the hackathon's.
+  const everyTrackHasCriteria =
+    tracks.length > 0 && tracks.every((track) => track.criteria.length > 0);
   if (!hackathon.criteria || hackathon.criteria.length === 0) {
-    errors.push("At least one judging criterion is required");
+    if (!everyTrackHasCriteria) {
+      errors.push("At least one judging criterion is required");
+    }
   } else {
     const totalWeight = hackathon.criteria.reduce(
       (sum, criterion) => sum + criterion.weight,
@@ -363,12 +582,339 @@ export const getRankSuffix = (rank: number): string => {
 };
 
 /**
- * Map participant rank to prize amount from hackathon prize tiers
+ * Find a hackathon track by ID
  */
-export const mapRankToPrizeAmount = (
+export const findTrack = (
+  hackathon: Pick<IHackathon, "tracks">,
+  trackId?: string | mongoose.Types.ObjectId | null,
+): ITrack | undefined => {
+  if (!trackId) {
+    return undefined;
+  }
+  return (hackathon.tracks || []).find(
+    (track) => track._id.toString() === trackId.toString(),
+  );
+};
+
+/**
+ * Check the tracks a submission enters. Hackathons with tracks need at
+ * least one; hackathons without tracks accept none.
+ * Returns an error message, or null when the selection is valid.
+ */
+export const validateSubmissionTracks = (
+  hackathon: Pick<IHackathon, "tracks">,
+  trackIds: unknown,
+): string | null => {
+  const tracks = hackathon.tracks || [];
+  const selected = Array.isArray(trackIds) ? trackIds.map(String) : [];
+
+  if (tracks.length === 0) {
+    return selected.length > 0 ? "This hackathon has no tracks" : null;
+  }
+
+  if (selected.length === 0) {
+    return "Select at least one track for your submission";
+  }
+
+  const unknownTrack = selected.find((id) => !findTrack(hackathon, id));
+  if (unknownTrack) {
+    return `Track ${unknownTrack} does not exist in this hackathon`;
+  }
+
+  return null;
+};
+
+/**
+ * Check a participant against a bounty's eligibility rules.
+ * Returns the reason they are not eligible, or null when they are.
+ */
+export const getBountyIneligibility = (
+  bounty: Pick<IHackathonBounty, "title" | "eligibility">,
+  participant: Pick<IHackathonParticipant, "participationType" | "teamMembers">,
+  trackIds: (string | mongoose.Types.ObjectId)[] = [],
+): string | null => {
+  const eligibility = bounty.eligibility || {};
+
+  const participationTypes = eligibility.participationTypes || [];
+  if (
+    participationTypes.length > 0 &&
+    !participationTypes.includes(participant.participationType)
+  ) {
+    return `"${bounty.title}" is only open to ${participationTypes.join(" or ")} entries`;
+  }
+
+  const teamSize =
+    participant.participationType === "team"
+      ? participant.teamMembers?.length || 1
+      : 1;
+  if (eligibility.minTeamSize && teamSize < eligibility.minTeamSize) {
+    return `"${bounty.title}" requires a team of at least ${eligibility.minTeamSize}`;
+  }
+  if (eligibility.maxTeamSize && teamSize > eligibility.maxTeamSize) {
+    return `"${bounty.title}" allows teams of at most ${eligibility.maxTeamSize}`;
+  }
+
+  const bountyTracks = (eligibility.trackIds || []).map((id) => id.toString());
+  if (
+    bountyTracks.length > 0 &&
+    !trackIds.some((id) => bountyTracks.includes(id.toString()))
+  ) {
+    return `"${bounty.title}" is only open to submissions in its tracks`;
+  }
+
+  return null;
+};
+
+/**
+ * Check the sponsor bounties a submission opts into. Bounties must belong
+ * to the hackathon, still be open and accept the participant.
+ * Returns an error message, or null when the selection is valid.
+ */
+export const validateSubmissionBounties = async (
+  hackathon: Pick<IHackathon, "_id">,
+  participant: Pick<IHackathonParticipant, "participationType" | "teamMembers">,
+  bountyIds: unknown,
+  trackIds: (string | mongoose.Types.ObjectId)[] = [],
+): Promise<string | null> => {
+  const selected = [
+    ...new Set(Array.isArray(bountyIds) ? bountyIds.map(String) : []),
+  ];
+  if (selected.length === 0) {
+    return null;
+  }
+
+  const bounties = await HackathonBounty.find({
+    _id: { $in: selected },
+    hackathonId: hackathon._id,
+  }).select("title eligibility status");
+
+  const unknownBounty = selected.find(
+    (id) => !bounties.some((bounty) => bounty._id!.toString() === id),
+  );
+  if (unknownBounty) {
+    return `Bounty ${unknownBounty} does not exist in this hackathon`;
+  }
+
+  for (const bounty of bounties) {
+    if (bounty.status !== HackathonBountyStatus.OPEN) {
+      return `"${bounty.title}" is no longer accepting entries`;
+    }
+    const reason = getBountyIneligibility(bounty, participant, trackIds);
+    if (reason) {
+      return reason;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Whether a participant's prize has to be split among team members
+ */
+export const isPrizeSplitRequired = (
+  participant: Pick<IHackathonParticipant, "participationType" | "teamMembers">,
+): boolean =>
+  participant.participationType === "team" &&
+  (participant.teamMembers?.length || 0) > 1;
+
+/**
+ * Check a proposed prize split against the team. Every member must be
+ * listed once, shares must total 100% and members with a share need a
+ * valid Stellar wallet.
+ */
+export const validatePrizeSplitShares = (
+  shares: Array<{
+    userId: string | mongoose.Types.ObjectId;
+    percent: number;
+    walletAddress?: string;
+  }>,
+  teamMembers: ITeamMember[],
+): string[] => {
+  const errors: string[] = [];
+  const memberIds = new Set(
+    teamMembers.map((member) => member.userId.toString()),
+  );
+  const seen = new Set<string>();
+
+  for (const share of shares) {
+    const userId = share.userId.toString();
+    if (!memberIds.has(userId)) {
+      errors.push(`User ${userId} is not a member of this team`);
+      continue;
+    }
+    if (seen.has(userId)) {
+      errors.push(`User ${userId} is listed more than once`);
+      continue;
+    }
+    seen.add(userId);
+
+    if (
+      share.percent > 0 &&
+      (!share.walletAddress || !isValidStellarAddress(share.walletAddress))
+    ) {
+      const member = teamMembers.find((m) => m.userId.toString() === userId);
+      errors.push(
+        `${member?.name || userId} needs a valid Stellar wallet address for their share`,
+      );
+    }
+  }
+
+  const missing = teamMembers.filter(
+    (member) => !seen.has(member.userId.toString()),
+  );
+  if (missing.length > 0) {
+    errors.push(
+      `Split must include every team member (missing: ${missing.map((m) => m.name).join(", ")})`,
+    );
+  }
+
+  // Shares are percentages with up to two decimals
+  const total = shares.reduce((sum, share) => sum + Number(share.percent), 0);
+  if (Math.abs(total - 100) > 0.001) {
+    errors.push(`Shares must total 100% (currently ${total}%)`);
+  }
+
+  return errors;
+};
+
+/**
+ * Why a team's prize split cannot be paid out yet, or null when every
+ * current member has approved a valid split
+ */
+export const getPrizeSplitIssue = (
+  participant: Pick<
+    IHackathonParticipant,
+    "participationType" | "teamMembers" | "prizeSplit"
+  >,
+): string | null => {
+  if (!isPrizeSplitRequired(participant)) {
+    return null;
+  }
+
+  const split = participant.prizeSplit;
+  if (!split || split.shares.length === 0) {
+    return "The team has not proposed a prize split";
+  }
+
+  const errors = validatePrizeSplitShares(
+    split.shares,
+    participant.teamMembers || [],
+  );
+  if (errors.length > 0) {
+    return `The prize split no longer matches the team: ${errors[0]}`;
+  }
+
+  const waiting = split.shares.filter((share) => !share.approvedAt).length;
+  if (waiting > 0) {
+    return `The prize split is waiting on approval from ${waiting} team member${waiting === 1 ? "" : "s"}`;
+  }
+
+  return null;
+};
+
+export type PhaseStatus = "upcoming" | "live" | "ended";
+
+/**
+ * Find a hackathon phase by ID. Phases saved before they had ids can't be
+ * found until scripts/migrate-hackathon-phase-ids.ts has run.
+ */
+export const findPhase = (
+  hackathon: Pick<IHackathon, "phases">,
+  phaseId?: string | mongoose.Types.ObjectId | null,
+): IPhase | undefined => {
+  if (!phaseId) {
+    return undefined;
+  }
+  return (hackathon.phases || []).find(
+    (phase) => phase._id?.toString() === phaseId.toString(),
+  );
+};
+
+/**
+ * Whether a phase's submission window has opened, is open or has closed
+ */
+export const getPhaseStatus = (
+  phase: Pick<IPhase, "startDate" | "endDate">,
+  now: Date = new Date(),
+): PhaseStatus => {
+  if (now < phase.startDate) {
+    return "upcoming";
+  }
+  return now <= phase.endDate ? "live" : "ended";
+};
+
+/**
+ * The phase whose submission window is open, if any
+ */
+export const getCurrentPhase = (
+  hackathon: Pick<IHackathon, "phases">,
+  now: Date = new Date(),
+): IPhase | undefined =>
+  (hackathon.phases || []).find(
+    (phase) => getPhaseStatus(phase, now) === "live",
+  );
+
+/**
+ * Whether a participant may submit to a phase. Everyone registered can
+ * enter the first phase; later phases need an organizer to advance them.
+ */
+export const canEnterPhase = (
+  hackathon: Pick<IHackathon, "phases">,
+  participant: Pick<IHackathonParticipant, "advancedPhaseIds">,
+  phaseId: string | mongoose.Types.ObjectId,
+): boolean => {
+  const phases = hackathon.phases || [];
+  if (phases.length > 0 && phases[0]._id?.toString() === phaseId.toString()) {
+    return true;
+  }
+  return (participant.advancedPhaseIds || []).some(
+    (id) => id.toString() === phaseId.toString(),
+  );
+};
+
+/**
+ * Judging criteria for a track, falling back to the hackathon's criteria
+ * when the track has none of its own
+ */
+export const getJudgingCriteria = (
+  hackathon: Pick<IHackathon, "criteria" | "tracks">,
+  trackId?: string | mongoose.Types.ObjectId | null,
+): IJudgingCriterion[] => {
+  const track = findTrack(hackathon, trackId);
+  if (track && track.criteria.length > 0) {
+    return track.criteria;
+  }
+  return hackathon.criteria || [];
+};
+
+/**
+ * A participant's overall rank, or their rank within a track when one is given
+ */
+export const getParticipantRank = (
+  participant: Pick<IHackathonParticipant, "rank" | "trackRanks">,
+  trackId?: string | mongoose.Types.ObjectId | null,
+): number | undefined => {
+  if (!trackId) {
+    return participant.rank || undefined;
+  }
+  return participant.trackRanks?.find(
+    (trackRank) => trackRank.trackId.toString() === trackId.toString(),
+  )?.rank;
+};
+
+/**
+ * Find the prize tier for a rank among the prize tiers of a track, or the
+ * hackathon's own prize tiers when no track is given
+ */
+export const findPrizeTier = (
   rank: number,
-  prizeTiers: IHackathon["prizeTiers"],
-): number | null => {
+  hackathon: Pick<IHackathon, "prizeTiers" | "tracks">,
+  trackId?: string | mongoose.Types.ObjectId | null,
+): IPrizeTier | null => {
+  const prizeTiers = trackId
+    ? findTrack(hackathon, trackId)?.prizeTiers
+    : hackathon.prizeTiers;
+
   if (!prizeTiers || prizeTiers.length === 0) {
     return null;
   }
@@ -406,7 +952,20 @@ export const mapRankToPrizeAmount = (
     return false;
   });
 
-  return matchingTier ? matchingTier.amount : null;
+  return matchingTier || null;
+};
+
+/**
+ * Map participant rank to prize amount from the prize tiers of a track, or
+ * the hackathon's own prize tiers when no track is given
+ */
+export const mapRankToPrizeAmount = (
+  rank: number,
+  hackathon: Pick<IHackathon, "prizeTiers" | "tracks">,
+  trackId?: string | mongoose.Types.ObjectId | null,
+): number | null => {
+  const tier = findPrizeTier(rank, hackathon, trackId);
+  return tier ? tier.amount : null;
 };
 
 /**
@@ -682,3 +1241,283 @@ export async function sendTeamInvitationsDuringRegistration({
 
   return results;
 }
+
+/**
+ * Create a participant registration: take a spot, set up the team with the
+ * user as leader, invite team members and send the confirmation email. Team
+ * size must be validated by the caller. Throws HackathonFullError when no
+ * spot is left, or with `offerOnly` when the user holds no waitlist offer.
+ */
+export async function createHackathonRegistration({
+  hackathon,
+  user,
+  participationType,
+  teamName,
+  teamMembers,
+  registrationAnswers,
+  offerOnly,
+  req,
+}: {
+  hackathon: IHackathon;
+  user: any;
+  participationType: "individual" | "team";
+  teamName?: string;
+  teamMembers?: string[];
+  registrationAnswers?: IRegistrationAnswer[];
+  offerOnly?: boolean;
+  req: Request;
+}) {
+  let teamId: string | undefined;
+  let teamMembersData: any[] = [];
+  let invitationsSent = 0;
+
+  if (participationType === "team") {
+    teamId = `${(hackathon._id as mongoose.Types.ObjectId).toString()}-${Date.now()}`;
+
+    teamMembersData = [
+      {
+        userId: user._id,
+        name:
+          `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
+          user.email,
+        username: user.profile?.username || user.email.split("@")[0],
+        role: "leader",
+        avatar: user.profile?.avatar,
+      },
+    ];
+  }
+
+  const participant = await HackathonWaitlistService.reserveSpot(
+    hackathon,
+    user._id,
+    async (session) => {
+      const [created] = await HackathonParticipant.create(
+        [
+          {
+            userId: user._id,
+            hackathonId: hackathon._id,
+            organizationId: hackathon.organizationId,
+            participationType,
+            teamId,
+            teamName: participationType === "team" ? teamName : undefined,
+            teamMembers: teamMembersData,
+            registrationAnswers: registrationAnswers || [],
+            registeredAt: new Date(),
+          },
+        ],
+        { session },
+      );
+      return created;
+    },
+    { offerOnly },
+  );
+
+  // Invitations go out once the spot is taken, so a full hackathon sends none
+  if (teamId && teamMembers && teamMembers.length > 0) {
+    const invitationResults = await sendTeamInvitationsDuringRegistration({
+      teamMembers,
+      hackathon,
+      teamId,
+      teamName: teamName!,
+      user,
+      req,
+    });
+
+    invitationsSent = invitationResults.invitationsSent;
+
+    if (invitationResults.failed.length > 0) {
+      console.warn("Some invitation emails failed:", {
+        failed: invitationResults.failed,
+        teamId,
+        hackathon: hackathon._id,
+      });
+    }
+  }
+
+  try {
+    const userName =
+      `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
+      user.email;
+
+    const template = EmailTemplatesService.getTemplate("hackathon-registered", {
+      hackathonName: hackathon.title || "Hackathon",
+      hackathonSlug: hackathon.slug,
+      hackathonId: (hackathon._id as mongoose.Types.ObjectId).toString(),
+      userName,
+      participationType,
+      teamName: participationType === "team" ? teamName : undefined,
+      frontendUrl: config.frontendUrl,
+    });
+
+    await sendEmail({
+      to: user.email,
+      subject: template.subject,
+      text: template.text || "",
+      html: template.html,
+      priority: template.priority as any,
+    });
+  } catch (emailError) {
+    console.error(
+      "Failed to send registration confirmation email:",
+      emailError,
+    );
+  }
+
+  await participant.populate({
+    path: "userId",
+    select: "email profile",
+  });
+
+  const userData = participant.userId as any;
+  const profile = userData?.profile || {};
+
+  return {
+    _id: (participant._id as mongoose.Types.ObjectId).toString(),
+    userId: participant.userId._id.toString(),
+    hackathonId: participant.hackathonId.toString(),
+    organizationId: participant.organizationId.toString(),
+    user: {
+      _id: userData._id.toString(),
+      profile: {
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+        username: profile.username,
+        avatar: profile.avatar,
+      },
+      email: userData.email,
+    },
+    participationType: participant.participationType,
+    teamId: participant.teamId || null,
+    teamName: participant.teamName || null,
+    teamMembers: participant.teamMembers || null,
+    registrationAnswers: participant.registrationAnswers || [],
+    submission: null,
+    registeredAt: participant.registeredAt.toISOString(),
+    invitationsSent,
+  };
+}
+
+const MAX_TEXT_ANSWER_LENGTH = 5000;
+
+const isHttpUrl = (value: string): URL | null => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check registration answers against the hackathon's custom questions.
+ * File questions must be answered with a URL returned by the upload
+ * service. Returns the answers to store, with each question's label
+ * snapshotted, or the list of problems.
+ */
+export const validateRegistrationAnswers = (
+  hackathon: IHackathon,
+  rawAnswers: Array<{ questionId: string; value: unknown }> = [],
+): { answers: IRegistrationAnswer[]; errors: string[] } =>
+  validateQuestionAnswers(
+    hackathon.registrationQuestions || [],
+    rawAnswers,
+    "registration question",
+  );
+
+/**
+ * Validate answers to a set of questions, such as registration questions or
+ * the fields of a hackathon phase
+ */
+export const validateQuestionAnswers = (
+  questions: IRegistrationQuestion[],
+  rawAnswers: Array<{ questionId: string; value: unknown }> = [],
+  questionNoun: string,
+): { answers: IRegistrationAnswer[]; errors: string[] } => {
+  const answers: IRegistrationAnswer[] = [];
+  const errors: string[] = [];
+
+  const byQuestion = new Map(
+    rawAnswers.map((answer) => [String(answer.questionId), answer.value]),
+  );
+
+  const knownIds = new Set(
+    questions.map((question) => question._id.toString()),
+  );
+  byQuestion.forEach((_value, questionId) => {
+    if (!knownIds.has(questionId)) {
+      errors.push(`Unknown ${questionNoun}: ${questionId}`);
+    }
+  });
+
+  for (const question of questions) {
+    const raw = byQuestion.get(question._id.toString());
+    const isEmpty =
+      raw === undefined ||
+      raw === null ||
+      (typeof raw === "string" && raw.trim() === "") ||
+      (Array.isArray(raw) && raw.length === 0);
+
+    if (isEmpty) {
+      if (question.required) {
+        errors.push(`"${question.label}" is required`);
+      }
+      continue;
+    }
+
+    let value: string | string[] | null = null;
+
+    switch (question.type) {
+      case RegistrationQuestionType.TEXT:
+        if (typeof raw === "string" && raw.length <= MAX_TEXT_ANSWER_LENGTH) {
+          value = raw.trim();
+        }
+        break;
+      case RegistrationQuestionType.SINGLE_CHOICE:
+        if (typeof raw === "string" && question.options.includes(raw)) {
+          value = raw;
+        }
+        break;
+      case RegistrationQuestionType.MULTI_CHOICE:
+        if (
+          Array.isArray(raw) &&
+          raw.every(
+            (option) =>
+              typeof option === "string" && question.options.includes(option),
+          )
+        ) {
+          value = Array.from(new Set(raw as string[]));
+        }
+        break;
+      case RegistrationQuestionType.URL:
+        if (typeof raw === "string" && isHttpUrl(raw.trim())) {
+          value = raw.trim();
+        }
+        break;
+      case RegistrationQuestionType.FILE: {
+        const url = typeof raw === "string" ? isHttpUrl(raw.trim()) : null;
+        if (
+          url &&
+          url.hostname === "res.cloudinary.com" &&
+          url.pathname.startsWith(`/${config.cloudinary.cloudName}/`)
+        ) {
+          value = url.toString();
+        }
+        break;
+      }
+    }
+
+    if (value === null) {
+      errors.push(`Invalid answer for "${question.label}"`);
+      continue;
+    }
+
+    answers.push({
+      questionId: question._id,
+      label: question.label,
+      type: question.type,
+      value,
+    });
+  }
+
+  return { answers, errors };
+};
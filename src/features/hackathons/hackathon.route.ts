@@ -14,11 +14,52 @@ import {
   getHackathonStatistics,
   getHackathonAnalytics,
   getParticipants,
+  getWaitlist,
+  getMyWaitlistEntry,
+  confirmWaitlistSpot,
+  leaveWaitlist,
+  getApplications,
+  approveApplication,
+  rejectApplication,
+  getMyApplication,
+  withdrawApplication,
   shortlistSubmission,
   disqualifySubmission,
+  getPhases,
+  submitToPhase,
+  getPhaseSubmissions,
   getJudgingSubmissions,
   submitGrade,
   getSubmissionScores,
+  getJudgingResults,
+  inviteJudge,
+  getJudges,
+  removeJudge,
+  updateJudgeTracks,
+  assignSubmissionsToJudges,
+  inviteSponsor,
+  getSponsors,
+  removeSponsor,
+  createBounty,
+  getBounties,
+  updateBounty,
+  getBountyEntries,
+  selectBountyWinners,
+  getPayouts,
+  exportPayouts,
+  updatePayoutWallet,
+  getPrizeSplit,
+  proposePrizeSplit,
+  approvePrizeSplit,
+  getSuspiciousVotes,
+  voidVotes,
+  cloneHackathon,
+  createTemplate,
+  getTemplates,
+  getTemplate,
+  updateTemplate,
+  deleteTemplate,
+  applyTemplate,
 } from "./hackathon.controller.js";
 import {
   protect,
@@ -35,6 +76,14 @@ import {
   participantIdParam,
   disqualifySchema,
   gradeSubmissionSchema,
+  judgingResultsQuerySchema,
+  judgeIdParam,
+  trackIdQuery,
+  phaseIdQuery,
+  shortlistSchema,
+  updateJudgeTracksSchema,
+  inviteJudgeSchema,
+  assignJudgesSchema,
   assignRanksSchema,
   createMilestonesSchema,
   announceWinnersSchema,
@@ -82,7 +131,46 @@ import {
   discussionIdParam,
   parentCommentIdParam,
 } from "./hackathon-discussion.validators.js";
-import { registerSchema } from "./hackathon-registration.validators.js";
+import {
+  registerSchema,
+  applicationIdParam,
+  reviewApplicationSchema,
+} from "./hackathon-registration.validators.js";
+import {
+  phaseIdParam,
+  phaseSubmissionSchema,
+  getPhaseSubmissionsQuerySchema,
+} from "./hackathon-phase.validators.js";
+import {
+  sponsorIdParam,
+  bountyIdParam,
+  inviteSponsorSchema,
+  createBountySchema,
+  updateBountySchema,
+  getBountyEntriesQuerySchema,
+  selectBountyWinnersSchema,
+} from "./hackathon-bounty.validators.js";
+import {
+  payoutIdParam,
+  getPayoutsQuerySchema,
+  exportPayoutsQuerySchema,
+  updatePayoutWalletSchema,
+} from "./hackathon-payout.validators.js";
+import {
+  proposePrizeSplitSchema,
+  approvePrizeSplitSchema,
+} from "./hackathon-prize-split.validators.js";
+import {
+  suspiciousVotesQuerySchema,
+  voidVotesSchema,
+} from "./hackathon-voting.validators.js";
+import {
+  templateIdParam,
+  cloneHackathonSchema,
+  createTemplateSchema,
+  updateTemplateSchema,
+  applyTemplateSchema,
+} from "./hackathon-template.validators.js";
 import {
   inviteTeamMember,
   addTeamMember,
@@ -147,6 +235,49 @@ router.get(
   previewDraft,
 );
 
+router.post(
+  "/:orgId/hackathons/drafts/:draftId/apply-template",
+  protect,
+  validateRequest([orgIdParam, draftIdParam, ...applyTemplateSchema]),
+  applyTemplate,
+);
+
+// Template Routes
+router.post(
+  "/:orgId/hackathon-templates",
+  protect,
+  validateRequest([orgIdParam, ...createTemplateSchema]),
+  createTemplate,
+);
+
+router.get(
+  "/:orgId/hackathon-templates",
+  protect,
+  validateRequest([orgIdParam]),
+  getTemplates,
+);
+
+router.get(
+  "/:orgId/hackathon-templates/:templateId",
+  protect,
+  validateRequest([orgIdParam, templateIdParam]),
+  getTemplate,
+);
+
+router.put(
+  "/:orgId/hackathon-templates/:templateId",
+  protect,
+  validateRequest([orgIdParam, templateIdParam, ...updateTemplateSchema]),
+  updateTemplate,
+);
+
+router.delete(
+  "/:orgId/hackathon-templates/:templateId",
+  protect,
+  validateRequest([orgIdParam, templateIdParam]),
+  deleteTemplate,
+);
+
 // Publish & Management Routes
 router.post(
   "/:orgId/hackathons",
@@ -155,6 +286,13 @@ router.post(
   publishHackathon,
 );
 
+router.post(
+  "/:orgId/hackathons/:hackathonId/clone",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...cloneHackathonSchema]),
+  cloneHackathon,
+);
+
 router.put(
   "/:orgId/hackathons/:hackathonId",
   protect,
@@ -205,11 +343,49 @@ router.get(
   getParticipants,
 );
 
+router.get(
+  "/:orgId/hackathons/:hackathonId/waitlist",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getWaitlist,
+);
+
+router.get(
+  "/:orgId/hackathons/:hackathonId/participants/applications",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getApplications,
+);
+
+router.post(
+  "/:orgId/hackathons/:hackathonId/participants/applications/:applicationId/approve",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, applicationIdParam]),
+  approveApplication,
+);
+
+router.post(
+  "/:orgId/hackathons/:hackathonId/participants/applications/:applicationId/reject",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    applicationIdParam,
+    ...reviewApplicationSchema,
+  ]),
+  rejectApplication,
+);
+
 // Submission Review Routes
 router.post(
   "/:orgId/hackathons/:hackathonId/participants/:participantId/shortlist",
   protect,
-  validateRequest([orgIdParam, hackathonIdParam, participantIdParam]),
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    participantIdParam,
+    ...shortlistSchema,
+  ]),
   shortlistSubmission,
 );
 
@@ -225,11 +401,24 @@ router.post(
   disqualifySubmission,
 );
 
+// Phase Routes
+router.get(
+  "/:orgId/hackathons/:hackathonId/phases/:phaseId/submissions",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    phaseIdParam,
+    ...getPhaseSubmissionsQuerySchema,
+  ]),
+  getPhaseSubmissions,
+);
+
 // Judging Routes
 router.get(
   "/:orgId/hackathons/:hackathonId/judging/submissions",
   protect,
-  validateRequest([orgIdParam, hackathonIdParam]),
+  validateRequest([orgIdParam, hackathonIdParam, trackIdQuery, phaseIdQuery]),
   getJudgingSubmissions,
 );
 
@@ -248,10 +437,137 @@ router.post(
 router.get(
   "/:orgId/hackathons/:hackathonId/judging/submissions/:participantId/scores",
   protect,
-  validateRequest([orgIdParam, hackathonIdParam, participantIdParam]),
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    participantIdParam,
+    trackIdQuery,
+    phaseIdQuery,
+  ]),
   getSubmissionScores,
 );
 
+router.get(
+  "/:orgId/hackathons/:hackathonId/judging/results",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...judgingResultsQuerySchema]),
+  getJudgingResults,
+);
+
+// Sponsor Management Routes
+router.post(
+  "/:orgId/hackathons/:hackathonId/sponsors",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...inviteSponsorSchema]),
+  inviteSponsor,
+);
+
+router.get(
+  "/:orgId/hackathons/:hackathonId/sponsors",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getSponsors,
+);
+
+router.delete(
+  "/:orgId/hackathons/:hackathonId/sponsors/:sponsorId",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, sponsorIdParam]),
+  removeSponsor,
+);
+
+// Sponsor Bounty Routes
+router.post(
+  "/:orgId/hackathons/:hackathonId/bounties",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...createBountySchema]),
+  createBounty,
+);
+
+router.get(
+  "/:orgId/hackathons/:hackathonId/bounties",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getBounties,
+);
+
+router.put(
+  "/:orgId/hackathons/:hackathonId/bounties/:bountyId",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    bountyIdParam,
+    ...updateBountySchema,
+  ]),
+  updateBounty,
+);
+
+router.get(
+  "/:orgId/hackathons/:hackathonId/bounties/:bountyId/entries",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    bountyIdParam,
+    ...getBountyEntriesQuerySchema,
+  ]),
+  getBountyEntries,
+);
+
+router.post(
+  "/:orgId/hackathons/:hackathonId/bounties/:bountyId/winners",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    bountyIdParam,
+    ...selectBountyWinnersSchema,
+  ]),
+  selectBountyWinners,
+);
+
+// Judge Management Routes
+router.post(
+  "/:orgId/hackathons/:hackathonId/judges",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...inviteJudgeSchema]),
+  inviteJudge,
+);
+
+router.get(
+  "/:orgId/hackathons/:hackathonId/judges",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getJudges,
+);
+
+router.post(
+  "/:orgId/hackathons/:hackathonId/judges/assignments",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...assignJudgesSchema]),
+  assignSubmissionsToJudges,
+);
+
+router.delete(
+  "/:orgId/hackathons/:hackathonId/judges/:judgeId",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, judgeIdParam]),
+  removeJudge,
+);
+
+router.put(
+  "/:orgId/hackathons/:hackathonId/judges/:judgeId/tracks",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    judgeIdParam,
+    ...updateJudgeTracksSchema,
+  ]),
+  updateJudgeTracks,
+);
+
 // Rewards Routes
 router.post(
   "/:orgId/hackathons/:hackathonId/rewards/ranks",
@@ -267,6 +583,52 @@ router.post(
   createWinnerMilestones,
 );
 
+// Payout Ledger Routes
+router.get(
+  "/:orgId/hackathons/:hackathonId/payouts",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...getPayoutsQuerySchema]),
+  getPayouts,
+);
+
+router.get(
+  "/:orgId/hackathons/:hackathonId/payouts/export",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...exportPayoutsQuerySchema]),
+  exportPayouts,
+);
+
+router.put(
+  "/:orgId/hackathons/:hackathonId/payouts/:payoutId/wallet",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    payoutIdParam,
+    ...updatePayoutWalletSchema,
+  ]),
+  updatePayoutWallet,
+);
+
+// Community Vote Review Routes
+router.get(
+  "/:orgId/hackathons/:hackathonId/votes/suspicious",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    ...suspiciousVotesQuerySchema,
+  ]),
+  getSuspiciousVotes,
+);
+
+router.post(
+  "/:orgId/hackathons/:hackathonId/votes/void",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...voidVotesSchema]),
+  voidVotes,
+);
+
 router.get(
   "/:orgId/hackathons/:hackathonId/escrow",
   protect,
@@ -422,6 +784,60 @@ router.get(
   checkRegistrationStatus,
 );
 
+router.get(
+  "/:orgId/hackathons/:hackathonId/application",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getMyApplication,
+);
+
+router.delete(
+  "/:orgId/hackathons/:hackathonId/application",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  withdrawApplication,
+);
+
+router.get(
+  "/:orgId/hackathons/:hackathonId/waitlist/me",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getMyWaitlistEntry,
+);
+
+router.post(
+  "/:orgId/hackathons/:hackathonId/waitlist/confirm",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  confirmWaitlistSpot,
+);
+
+router.delete(
+  "/:orgId/hackathons/:hackathonId/waitlist",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  leaveWaitlist,
+);
+
+router.get(
+  "/:orgId/hackathons/:hackathonId/phases",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getPhases,
+);
+
+router.post(
+  "/:orgId/hackathons/:hackathonId/phases/:phaseId/submission",
+  protect,
+  validateRequest([
+    orgIdParam,
+    hackathonIdParam,
+    phaseIdParam,
+    ...phaseSubmissionSchema,
+  ]),
+  submitToPhase,
+);
+
 // Team Management Routes
 router.post(
   "/:orgId/hackathons/:hackathonId/team/invite",
@@ -444,6 +860,27 @@ router.delete(
   removeTeamMember,
 );
 
+router.get(
+  "/:orgId/hackathons/:hackathonId/team/prize-split",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam]),
+  getPrizeSplit,
+);
+
+router.put(
+  "/:orgId/hackathons/:hackathonId/team/prize-split",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...proposePrizeSplitSchema]),
+  proposePrizeSplit,
+);
+
+router.post(
+  "/:orgId/hackathons/:hackathonId/team/prize-split/approve",
+  protect,
+  validateRequest([orgIdParam, hackathonIdParam, ...approvePrizeSplitSchema]),
+  approvePrizeSplit,
+);
+
 router.delete(
   "/:orgId/hackathons/:hackathonId/register",
   protect,
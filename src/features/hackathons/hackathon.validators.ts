@@ -4,6 +4,8 @@ import {
   ParticipantType,
   VenueType,
   RegistrationDeadlinePolicy,
+  RegistrationMode,
+  RegistrationQuestionType,
 } from "../../models/hackathon.model.js";
 import { isValidStellarAddress } from "../../utils/wallet.js";
 
@@ -163,35 +165,51 @@ export const timelineTabSchema: ValidationChain[] = [
     .isISO8601()
     .withMessage("Phase end date must be a valid ISO 8601 date"),
   body("timeline.phases.*.description").optional().trim(),
-];
-
-export const participationTabSchema: ValidationChain[] = [
-  body("participation.participantType")
+  body("timeline.phases.*._id")
     .optional()
-    .isIn(Object.values(ParticipantType))
-    .withMessage(
-      `Participant type must be one of: ${Object.values(ParticipantType).join(", ")}`,
-    ),
-  body("participation.teamMin")
-    .optional()
-    .isInt({ min: 1, max: 20 })
-    .withMessage("Team min must be between 1 and 20"),
-  body("participation.teamMax")
+    .isMongoId()
+    .withMessage("Phase ID must be a valid ID"),
+  body("timeline.phases.*.fields")
     .optional()
-    .isInt({ min: 1, max: 20 })
-    .withMessage("Team max must be between 1 and 20"),
-  body("participation.submissionRequirements.requireGithub")
+    .isArray({ max: 50 })
+    .withMessage("Phase fields must be an array of at most 50"),
+  body("timeline.phases.*.fields.*._id")
     .optional()
-    .isBoolean()
-    .withMessage("requireGithub must be a boolean"),
-  body("participation.submissionRequirements.requireDemoVideo")
+    .isMongoId()
+    .withMessage("Field ID must be a valid ID"),
+  body("timeline.phases.*.fields.*.label")
+    .trim()
+    .notEmpty()
+    .withMessage("Field label is required")
+    .isLength({ max: 500 })
+    .withMessage("Field label cannot exceed 500 characters"),
+  body("timeline.phases.*.fields.*.description")
     .optional()
-    .isBoolean()
-    .withMessage("requireDemoVideo must be a boolean"),
-  body("participation.submissionRequirements.requireOtherLinks")
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Field description cannot exceed 1000 characters"),
+  body("timeline.phases.*.fields.*.type")
+    .isIn(Object.values(RegistrationQuestionType))
+    .withMessage(
+      `Field type must be one of: ${Object.values(RegistrationQuestionType).join(", ")}`,
+    ),
+  body("timeline.phases.*.fields.*.required")
     .optional()
     .isBoolean()
-    .withMessage("requireOtherLinks must be a boolean"),
+    .withMessage("required must be a boolean"),
+  body("timeline.phases.*.fields.*.options")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Field options must be an array of at most 50")
+    .custom((options: unknown[]) => {
+      if (options.some((option) => typeof option !== "string" || !option)) {
+        throw new Error("Field options must be non-empty strings");
+      }
+      return true;
+    }),
+];
+
+export const tabVisibilitySchema: ValidationChain[] = [
   body("participation.tabVisibility.detailsTab")
     .optional()
     .isBoolean()
@@ -232,6 +250,100 @@ export const participationTabSchema: ValidationChain[] = [
     .optional()
     .isBoolean()
     .withMessage("rulesTab must be a boolean"),
+];
+
+export const participationTabSchema: ValidationChain[] = [
+  body("participation.participantType")
+    .optional()
+    .isIn(Object.values(ParticipantType))
+    .withMessage(
+      `Participant type must be one of: ${Object.values(ParticipantType).join(", ")}`,
+    ),
+  body("participation.teamMin")
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage("Team min must be between 1 and 20"),
+  body("participation.teamMax")
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage("Team max must be between 1 and 20"),
+  body("participation.maxParticipants")
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("Max participants must be a positive integer"),
+  body("participation.registrationMode")
+    .optional()
+    .isIn(Object.values(RegistrationMode))
+    .withMessage(
+      `Registration mode must be one of: ${Object.values(RegistrationMode).join(", ")}`,
+    ),
+  body("participation.registrationQuestions")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Registration questions must be an array of at most 50"),
+  body("participation.registrationQuestions.*._id")
+    .optional()
+    .isMongoId()
+    .withMessage("Question ID must be a valid ID"),
+  body("participation.registrationQuestions.*.label")
+    .trim()
+    .notEmpty()
+    .withMessage("Question label is required")
+    .isLength({ max: 500 })
+    .withMessage("Question label cannot exceed 500 characters"),
+  body("participation.registrationQuestions.*.description")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Question description cannot exceed 1000 characters"),
+  body("participation.registrationQuestions.*.type")
+    .isIn(Object.values(RegistrationQuestionType))
+    .withMessage(
+      `Question type must be one of: ${Object.values(RegistrationQuestionType).join(", ")}`,
+    ),
+  body("participation.registrationQuestions.*.required")
+    .optional()
+    .isBoolean()
+    .withMessage("required must be a boolean"),
+  body("participation.registrationQuestions.*.options")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Question options must be an array of at most 50")
+    .custom((options: unknown[]) => {
+      if (options.some((option) => typeof option !== "string" || !option)) {
+        throw new Error("Question options must be non-empty strings");
+      }
+      return true;
+    }),
+  body("participation.submissionRequirements.requireGithub")
+    .optional()
+    .isBoolean()
+    .withMessage("requireGithub must be a boolean"),
+  body("participation.submissionRequirements.requireDemoVideo")
+    .optional()
+    .isBoolean()
+    .withMessage("requireDemoVideo must be a boolean"),
+  body("participation.submissionRequirements.requireOtherLinks")
+    .optional()
+    .isBoolean()
+    .withMessage("requireOtherLinks must be a boolean"),
+  body("participation.votingEligibility.minAccountAgeDays")
+    .optional()
+    .isInt({ min: 0, max: 3650 })
+    .withMessage("minAccountAgeDays must be a whole number of days"),
+  body("participation.votingEligibility.requireVerifiedEmail")
+    .optional()
+    .isBoolean()
+    .withMessage("requireVerifiedEmail must be a boolean"),
+  body("participation.votingEligibility.participantsOnly")
+    .optional()
+    .isBoolean()
+    .withMessage("participantsOnly must be a boolean"),
+  body("participation.votingEligibility.blockOwnTeam")
+    .optional()
+    .isBoolean()
+    .withMessage("blockOwnTeam must be a boolean"),
+  ...tabVisibilitySchema,
   body("participation.registrationDeadlinePolicy")
     .optional()
     .isIn(Object.values(RegistrationDeadlinePolicy))
@@ -303,6 +415,63 @@ export const judgingTabSchema: ValidationChain[] = [
     .isFloat({ min: 0, max: 100 })
     .withMessage("Criterion weight must be between 0 and 100"),
   body("judging.criteria.*.description").optional().trim(),
+  body("judging.showScoreBreakdown")
+    .optional()
+    .isBoolean()
+    .withMessage("showScoreBreakdown must be a boolean"),
+];
+
+export const tracksTabSchema: ValidationChain[] = [
+  body("tracks")
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage("Tracks must be an array of at most 20 tracks"),
+  body("tracks.*._id")
+    .optional()
+    .isMongoId()
+    .withMessage("Track ID must be a valid MongoDB ObjectId"),
+  body("tracks.*.name")
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Track name must be between 1 and 100 characters"),
+  body("tracks.*.description")
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Track description cannot exceed 2000 characters"),
+  body("tracks.*.sponsor")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Track sponsor cannot exceed 100 characters"),
+  body("tracks.*.prizeTiers")
+    .optional()
+    .isArray()
+    .withMessage("Track prize tiers must be an array"),
+  body("tracks.*.prizeTiers.*.position")
+    .trim()
+    .notEmpty()
+    .withMessage("Prize tier position is required"),
+  body("tracks.*.prizeTiers.*.amount")
+    .isFloat({ min: 0 })
+    .withMessage("Prize tier amount must be a non-negative number"),
+  body("tracks.*.prizeTiers.*.currency").optional().trim(),
+  body("tracks.*.prizeTiers.*.description").optional().trim(),
+  body("tracks.*.prizeTiers.*.passMark")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Pass mark must be between 0 and 100"),
+  body("tracks.*.criteria")
+    .optional()
+    .isArray()
+    .withMessage("Track criteria must be an array"),
+  body("tracks.*.criteria.*.title")
+    .trim()
+    .notEmpty()
+    .withMessage("Criterion title is required"),
+  body("tracks.*.criteria.*.weight")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Criterion weight must be between 0 and 100"),
+  body("tracks.*.criteria.*.description").optional().trim(),
 ];
 
 export const collaborationTabSchema: ValidationChain[] = [
@@ -421,6 +590,7 @@ export const draftSchema: ValidationChain[] = [
   ...participationTabSchema,
   ...rewardsTabSchema,
   ...judgingTabSchema,
+  ...tracksTabSchema,
   ...collaborationTabSchema,
   ...resourcesTabSchema,
 ];
@@ -502,12 +672,16 @@ export const publishSchema: ValidationChain[] = [
     .withMessage(
       `Participant type must be one of: ${Object.values(ParticipantType).join(", ")}`,
     ),
+  // Tracks carry their own prize tiers and may carry their own criteria
   body("rewards.prizeTiers")
+    .if(body("tracks").not().isArray({ min: 1 }))
     .isArray({ min: 1 })
     .withMessage("At least one prize tier is required"),
   body("judging.criteria")
+    .if(body("tracks").not().isArray({ min: 1 }))
     .isArray({ min: 1 })
     .withMessage("At least one judging criterion is required"),
+  ...tracksTabSchema,
   body("collaboration.contactEmail")
     .isEmail()
     .withMessage("Contact email is required and must be a valid email address"),
@@ -530,6 +704,13 @@ export const participantIdParam: ValidationChain = param("participantId")
   .isMongoId()
   .withMessage("Invalid participant ID");
 
+export const shortlistSchema: ValidationChain[] = [
+  body("phaseId")
+    .optional()
+    .isMongoId()
+    .withMessage("Phase ID must be a valid MongoDB ObjectId"),
+];
+
 export const disqualifySchema: ValidationChain[] = [
   body("comment")
     .optional()
@@ -540,6 +721,14 @@ export const disqualifySchema: ValidationChain[] = [
 
 // Judging validators
 export const gradeSubmissionSchema: ValidationChain[] = [
+  body("trackId")
+    .optional()
+    .isMongoId()
+    .withMessage("Track ID must be a valid MongoDB ObjectId"),
+  body("phaseId")
+    .optional()
+    .isMongoId()
+    .withMessage("Phase ID must be a valid MongoDB ObjectId"),
   body("scores")
     .isArray({ min: 1 })
     .withMessage("Scores must be a non-empty array"),
@@ -557,8 +746,84 @@ export const gradeSubmissionSchema: ValidationChain[] = [
     .withMessage("Notes must not exceed 1000 characters"),
 ];
 
+export const trackIdQuery: ValidationChain = query("trackId")
+  .optional()
+  .isMongoId()
+  .withMessage("Track ID must be a valid MongoDB ObjectId");
+
+export const phaseIdQuery: ValidationChain = query("phaseId")
+  .optional()
+  .isMongoId()
+  .withMessage("Phase ID must be a valid MongoDB ObjectId");
+
+export const judgingResultsQuerySchema: ValidationChain[] = [
+  trackIdQuery,
+  phaseIdQuery,
+  query("disagreementThreshold")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Disagreement threshold must be a number between 0 and 100")
+    .toFloat(),
+];
+
+// Judge management validators
+export const judgeIdParam: ValidationChain = param("judgeId")
+  .isMongoId()
+  .withMessage("Invalid judge ID");
+
+export const inviteJudgeSchema: ValidationChain[] = [
+  body("email")
+    .isEmail()
+    .withMessage("Valid email address is required")
+    .normalizeEmail(),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Name must be between 1 and 100 characters"),
+  body("trackIds")
+    .optional()
+    .isArray()
+    .withMessage("Track IDs must be an array"),
+  body("trackIds.*")
+    .isMongoId()
+    .withMessage("Each track ID must be a valid MongoDB ObjectId"),
+];
+
+export const updateJudgeTracksSchema: ValidationChain[] = [
+  body("trackIds").isArray().withMessage("Track IDs must be an array"),
+  body("trackIds.*")
+    .isMongoId()
+    .withMessage("Each track ID must be a valid MongoDB ObjectId"),
+];
+
+export const assignJudgesSchema: ValidationChain[] = [
+  body("mode")
+    .isIn(["manual", "round_robin"])
+    .withMessage("Mode must be either 'manual' or 'round_robin'"),
+  body("judgeId")
+    .if(body("mode").equals("manual"))
+    .isMongoId()
+    .withMessage("Judge ID is required for manual assignment"),
+  body("participantIds")
+    .if(body("mode").equals("manual"))
+    .isArray()
+    .withMessage("Participant IDs must be an array"),
+  body("participantIds.*")
+    .isMongoId()
+    .withMessage("Each participant ID must be a valid MongoDB ObjectId"),
+  body("judgesPerSubmission")
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage("Judges per submission must be between 1 and 20"),
+];
+
 // Rewards validators
 export const assignRanksSchema: ValidationChain[] = [
+  body("trackId")
+    .optional()
+    .isMongoId()
+    .withMessage("Track ID must be a valid MongoDB ObjectId"),
   body("ranks")
     .isArray({ min: 1 })
     .withMessage("Ranks must be a non-empty array"),
@@ -580,6 +845,10 @@ export const createMilestonesSchema: ValidationChain[] = [
   body("winners.*.rank")
     .isInt({ min: 1 })
     .withMessage("Each rank must be a positive integer"),
+  body("winners.*.trackId")
+    .optional()
+    .isMongoId()
+    .withMessage("Each track ID must be a valid MongoDB ObjectId"),
   body("winners.*.walletAddress")
     .trim()
     .notEmpty()
@@ -595,6 +864,10 @@ export const createMilestonesSchema: ValidationChain[] = [
 ];
 
 export const announceWinnersSchema: ValidationChain[] = [
+  body("trackId")
+    .optional()
+    .isMongoId()
+    .withMessage("Track ID must be a valid MongoDB ObjectId"),
   body("winners")
     .isArray({ min: 1 })
     .withMessage("Winners must be a non-empty array"),
@@ -609,4 +882,16 @@ export const announceWinnersSchema: ValidationChain[] = [
     .trim()
     .isLength({ max: 5000 })
     .withMessage("Announcement must not exceed 5000 characters"),
+  body("honorableMentions")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Honorable mentions must be an array"),
+  body("honorableMentions.*.submissionId")
+    .isMongoId()
+    .withMessage("Each honorable mention must reference a valid submission ID"),
+  body("honorableMentions.*.note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Honorable mention note must not exceed 500 characters"),
 ];
@@ -20,6 +20,7 @@ import {
   SubmissionListResponse,
 } from "../../types/hackathon.js";
 import { hackathonCache } from "../../utils/hackathon-cache.utils.js";
+import HackathonResultsService from "./hackathon-results.service.js";
 
 /**
  * Get hackathon by slug (public endpoint)
@@ -113,6 +114,73 @@ export const getHackathonBySlug = async (
   }
 };
 
+/**
+ * Get the public results of a hackathon: announced winners per track with
+ * their prizes, honorable mentions and the community vote leaderboard
+ * GET /api/hackathons/:slug/results
+ */
+export const getHackathonResults = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { slug } = req.params;
+
+    const cached = hackathonCache.getResults(slug);
+    if (cached) {
+      if (req.headers["if-none-match"] === cached.etag) {
+        res.status(304).end();
+        return;
+      }
+
+      res.set({
+        ETag: cached.etag,
+        "Cache-Control": "public, max-age=120", // 2 minutes
+      });
+
+      sendSuccess(res, cached.data, "Hackathon results retrieved successfully");
+      return;
+    }
+
+    const hackathon = await Hackathon.findOne({
+      slug,
+      status: {
+        $in: [
+          HackathonStatus.PUBLISHED,
+          HackathonStatus.ACTIVE,
+          HackathonStatus.COMPLETED,
+        ],
+      },
+    }).lean();
+
+    if (!hackathon) {
+      sendNotFound(res, "Hackathon not found");
+      return;
+    }
+
+    const results = await HackathonResultsService.build(hackathon);
+
+    hackathonCache.setResults(slug, results);
+
+    const cachedResult = hackathonCache.getResults(slug);
+    if (cachedResult) {
+      res.set({
+        ETag: cachedResult.etag,
+        "Cache-Control": "public, max-age=120", // 2 minutes
+      });
+    }
+
+    sendSuccess(res, results, "Hackathon results retrieved successfully");
+  } catch (error) {
+    console.error("Get hackathon results error:", error);
+    sendInternalServerError(
+      res,
+      "Failed to retrieve hackathon results",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+};
+
 /**
  * Get list of hackathons (public endpoint)
  * GET /api/hackathons
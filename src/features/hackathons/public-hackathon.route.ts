@@ -4,6 +4,7 @@ import {
   getHackathonsList,
   getHackathonParticipants,
   getHackathonSubmissions,
+  getHackathonResults,
 } from "./public-hackathon.controller.js";
 import { validateRequest } from "../../middleware/validateRequest.js";
 import { slugValidation } from "../../utils/blog.validation.util.js";
@@ -38,6 +39,16 @@ import {
   registerForHackathon,
   checkRegistrationStatus,
 } from "./hackathon-registration.controller.js";
+import {
+  getMyWaitlistEntry,
+  confirmWaitlistSpot,
+  leaveWaitlist,
+} from "./hackathon-waitlist.controller.js";
+import {
+  getMyApplication,
+  withdrawApplication,
+} from "./hackathon-application.controller.js";
+import { getPhases, submitToPhase } from "./hackathon-phase.controller.js";
 import {
   createSubmissionSchema,
   updateSubmissionSchema,
@@ -55,6 +66,10 @@ import {
   parentCommentIdParam,
 } from "./hackathon-discussion.validators.js";
 import { registerSchema } from "./hackathon-registration.validators.js";
+import {
+  phaseIdParam,
+  phaseSubmissionSchema,
+} from "./hackathon-phase.validators.js";
 import {
   inviteTeamMember,
   addTeamMember,
@@ -68,6 +83,26 @@ import {
   acceptInvitationSchema,
   memberIdParam,
 } from "./hackathon-team.validators.js";
+import { acceptJudgeInvitation } from "./hackathon-judges.controller.js";
+import { acceptSponsorInvitation } from "./hackathon-sponsors.controller.js";
+import { getPublicBounties } from "./hackathon-bounty.controller.js";
+import {
+  getMyPayouts,
+  updatePayoutWallet,
+} from "./hackathon-payout.controller.js";
+import {
+  payoutIdParam,
+  updatePayoutWalletSchema,
+} from "./hackathon-payout.validators.js";
+import {
+  getPrizeSplit,
+  proposePrizeSplit,
+  approvePrizeSplit,
+} from "./hackathon-prize-split.controller.js";
+import {
+  proposePrizeSplitSchema,
+  approvePrizeSplitSchema,
+} from "./hackathon-prize-split.validators.js";
 import {
   createTeamPost,
   getTeamPosts,
@@ -106,6 +141,13 @@ router.get(
   getHackathonSubmissions,
 );
 
+// GET /api/hackathons/:slug/results - Public endpoint to get winners and leaderboards
+router.get(
+  "/:slug/results",
+  validateRequest(slugValidation),
+  getHackathonResults,
+);
+
 // GET /api/hackathons/:slug - Public endpoint to get hackathon by slug
 router.get("/:slug", validateRequest(slugValidation), getHackathonBySlug);
 
@@ -245,6 +287,62 @@ router.get(
   checkRegistrationStatus,
 );
 
+// Application Routes (public - supports both slug and ID)
+router.get(
+  "/:hackathonSlugOrId/application",
+  protect,
+  validateRequest([hackathonIdOrSlugParam]),
+  getMyApplication,
+);
+
+router.delete(
+  "/:hackathonSlugOrId/application",
+  protect,
+  validateRequest([hackathonIdOrSlugParam]),
+  withdrawApplication,
+);
+
+// Waitlist Routes (public - supports both slug and ID)
+router.get(
+  "/:hackathonSlugOrId/waitlist/me",
+  protect,
+  validateRequest([hackathonIdOrSlugParam]),
+  getMyWaitlistEntry,
+);
+
+router.post(
+  "/:hackathonSlugOrId/waitlist/confirm",
+  protect,
+  validateRequest([hackathonIdOrSlugParam]),
+  confirmWaitlistSpot,
+);
+
+router.delete(
+  "/:hackathonSlugOrId/waitlist",
+  protect,
+  validateRequest([hackathonIdOrSlugParam]),
+  leaveWaitlist,
+);
+
+// Phase Routes (public - supports both slug and ID)
+router.get(
+  "/:hackathonSlugOrId/phases",
+  optionalAuth,
+  validateRequest([hackathonIdOrSlugParam]),
+  getPhases,
+);
+
+router.post(
+  "/:hackathonSlugOrId/phases/:phaseId/submission",
+  protect,
+  validateRequest([
+    hackathonIdOrSlugParam,
+    phaseIdParam,
+    ...phaseSubmissionSchema,
+  ]),
+  submitToPhase,
+);
+
 // Team Management Routes (public - supports both slug and ID)
 router.post(
   "/:hackathonSlugOrId/team/invite",
@@ -281,6 +379,69 @@ router.post(
   acceptTeamInvitation,
 );
 
+router.get(
+  "/:hackathonSlugOrId/team/prize-split",
+  protect,
+  validateRequest([hackathonIdOrSlugParam]),
+  getPrizeSplit,
+);
+
+router.put(
+  "/:hackathonSlugOrId/team/prize-split",
+  protect,
+  validateRequest([hackathonIdOrSlugParam, ...proposePrizeSplitSchema]),
+  proposePrizeSplit,
+);
+
+router.post(
+  "/:hackathonSlugOrId/team/prize-split/approve",
+  protect,
+  validateRequest([hackathonIdOrSlugParam, ...approvePrizeSplitSchema]),
+  approvePrizeSplit,
+);
+
+// Judge Invitation Routes (public - supports both slug and ID)
+router.post(
+  "/:hackathonSlugOrId/judges/accept",
+  protect,
+  validateRequest([hackathonIdOrSlugParam, ...acceptInvitationSchema]),
+  acceptJudgeInvitation,
+);
+
+// Sponsor Routes (public - supports both slug and ID)
+router.post(
+  "/:hackathonSlugOrId/sponsors/accept",
+  protect,
+  validateRequest([hackathonIdOrSlugParam, ...acceptInvitationSchema]),
+  acceptSponsorInvitation,
+);
+
+router.get(
+  "/:hackathonSlugOrId/bounties",
+  optionalAuth,
+  validateRequest([hackathonIdOrSlugParam]),
+  getPublicBounties,
+);
+
+// Winner Payout Routes (public - supports both slug and ID)
+router.get(
+  "/:hackathonSlugOrId/payouts/me",
+  protect,
+  validateRequest([hackathonIdOrSlugParam]),
+  getMyPayouts,
+);
+
+router.put(
+  "/:hackathonSlugOrId/payouts/:payoutId/wallet",
+  protect,
+  validateRequest([
+    hackathonIdOrSlugParam,
+    payoutIdParam,
+    ...updatePayoutWalletSchema,
+  ]),
+  updatePayoutWallet,
+);
+
 // Team Recruitment Posts Routes (public - supports both slug and ID)
 router.post(
   "/:hackathonSlugOrId/team-posts",
@@ -0,0 +1,478 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Milestone, {
+  IMilestone,
+  IMilestoneDispute,
+  MilestoneDisputeOutcome,
+} from "../../models/milestone.model.js";
+import User from "../../models/user.model.js";
+import { NotificationType } from "../../models/notification.model.js";
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendConflict,
+  sendForbidden,
+  sendNotFound,
+} from "../../utils/apiResponse.js";
+import NotificationService from "../notifications/notification.service.js";
+import EmailTemplatesService from "../../services/email/email-templates.service.js";
+import MilestoneService, {
+  DISPUTE_RESPONSE_DAYS,
+} from "./milestone.service.js";
+
+type DisputeNotification = {
+  type: NotificationType;
+  headline: string;
+  message: string;
+  deadline?: Date;
+};
+
+const getOpenDispute = (milestone: IMilestone): IMilestoneDispute | null => {
+  const dispute = milestone.disputes[milestone.disputes.length - 1];
+  return milestone.status === "disputed" && dispute && !dispute.resolution
+    ? dispute
+    : null;
+};
+
+/**
+ * Notify users about a step in a milestone's dispute. With `notifyResolvers`
+ * the milestone's dispute resolvers are told too, or the admin team when it
+ * has none.
+ */
+const notifyDisputeParties = async (
+  milestone: IMilestone,
+  userIds: mongoose.Types.ObjectId[],
+  notification: DisputeNotification,
+  notifyResolvers = false,
+) => {
+  try {
+    const milestoneId = milestone._id as mongoose.Types.ObjectId;
+    const options = {
+      type: notification.type,
+      title: `${notification.headline}: ${milestone.title}`,
+      message: notification.message,
+      data: {
+        milestoneId,
+        ownerType: milestone.ownerType,
+        ownerId: milestone.ownerId,
+        ...(notification.deadline && { deadline: notification.deadline }),
+      },
+      emailTemplate: EmailTemplatesService.getTemplate("milestone-dispute", {
+        milestoneId: milestoneId.toString(),
+        milestoneTitle: milestone.title,
+        headline: notification.headline,
+        message: notification.message,
+        deadline: notification.deadline,
+      }),
+      sendEmail: true,
+      sendInApp: true,
+    };
+
+    const resolverIds = notifyResolvers
+      ? await MilestoneService.getDisputeResolverIds(milestone)
+      : [];
+    const users = await User.find({
+      _id: { $in: [...userIds, ...resolverIds] },
+    }).select("email profile.firstName profile.lastName");
+
+    if (users.length > 0) {
+      await NotificationService.sendNotification({
+        ...options,
+        recipients: users.map((user) => ({
+          userId: user._id,
+          email: user.email,
+          name:
+            `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
+            user.email,
+        })),
+      });
+    }
+    if (notifyResolvers && resolverIds.length === 0) {
+      await NotificationService.notifyAdminTeam(options);
+    }
+  } catch (notificationError) {
+    console.error(
+      "Failed to send milestone dispute notifications:",
+      notificationError,
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /api/milestones/{id}/disputes:
+ *   post:
+ *     summary: Open a dispute on a milestone
+ *     description: |
+ *       Contest a submitted or approved milestone. Available to the
+ *       project's backers and to whoever approves the milestone. The
+ *       creator then has a response window before the dispute resolver
+ *       rules on it.
+ *     tags: [Milestones]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 2000
+ *               evidence:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *     responses:
+ *       201:
+ *         description: Dispute opened
+ *       403:
+ *         description: Not a backer or approver of this milestone
+ *       404:
+ *         description: Milestone not found
+ *       409:
+ *         description: Milestone can't be disputed in its current status
+ */
+export const openMilestoneDispute = async (req: Request, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { reason, evidence = [] } = req.body;
+
+    const milestone = await Milestone.findById(req.params.id);
+    if (!milestone) {
+      return sendNotFound(res, "Milestone not found");
+    }
+
+    const access = await MilestoneService.getAccess(milestone, user);
+    if (access.canSubmit) {
+      return sendForbidden(res, "You cannot dispute your own milestone");
+    }
+    const isBacker =
+      !access.canReview &&
+      (await MilestoneService.isBacker(milestone, user._id));
+    if (!access.canReview && !isBacker) {
+      return sendForbidden(
+        res,
+        "Only backers and approvers can dispute this milestone",
+      );
+    }
+
+    if (!MilestoneService.canTransition(milestone.status, "disputed")) {
+      return sendConflict(
+        res,
+        `Milestone is ${milestone.status}; only submitted or approved milestones can be disputed`,
+      );
+    }
+
+    const now = new Date();
+    const responseDeadline = new Date(
+      now.getTime() + DISPUTE_RESPONSE_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    // Only dispute the milestone if a release or review hasn't moved it on
+    // since it was read
+    const disputed = await Milestone.findOneAndUpdate(
+      { _id: milestone._id, status: milestone.status },
+      {
+        $set: { status: "disputed", disputedAt: now, disputeReason: reason },
+        $push: {
+          disputes: {
+            openedBy: user._id,
+            openedByRole: access.canReview ? "approver" : "backer",
+            openedAt: now,
+            reason,
+            evidence,
+            previousStatus: milestone.status,
+            responseDeadline,
+          },
+        },
+      },
+      { new: true },
+    );
+    if (!disputed) {
+      return sendConflict(res, "Milestone changed while opening the dispute");
+    }
+
+    await MilestoneService.syncLegacyCopy(disputed);
+    await MilestoneService.syncEscrowFlags(disputed, {
+      disputed: true,
+      resolved: false,
+    });
+
+    await notifyDisputeParties(
+      disputed,
+      await MilestoneService.getCreatorIds(disputed),
+      {
+        type: NotificationType.MILESTONE_DISPUTE_OPENED,
+        headline: "Milestone disputed",
+        message: `A dispute was opened on "${disputed.title}": ${reason}`,
+        deadline: responseDeadline,
+      },
+      true,
+    );
+
+    return sendCreated(res, disputed, "Dispute opened");
+  } catch (error: any) {
+    console.error("Error opening milestone dispute:", error);
+    return sendError(res, "Failed to open dispute", 500, error.message);
+  }
+};
+
+/**
+ * @swagger
+ * /api/milestones/{id}/disputes/response:
+ *   post:
+ *     summary: Respond to a milestone dispute
+ *     description: |
+ *       The milestone's creator answers the open dispute with a statement
+ *       and evidence. Only one response is accepted, and only before the
+ *       response deadline.
+ *     tags: [Milestones]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [statement]
+ *             properties:
+ *               statement:
+ *                 type: string
+ *                 maxLength: 2000
+ *               evidence:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *     responses:
+ *       200:
+ *         description: Response recorded
+ *       403:
+ *         description: Not the milestone's creator
+ *       404:
+ *         description: Milestone not found
+ *       409:
+ *         description: No open dispute, already answered or past the deadline
+ */
+export const respondToMilestoneDispute = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { statement, evidence = [] } = req.body;
+
+    const milestone = await Milestone.findById(req.params.id);
+    if (!milestone) {
+      return sendNotFound(res, "Milestone not found");
+    }
+
+    const access = await MilestoneService.getAccess(milestone, user);
+    if (!access.canSubmit) {
+      return sendForbidden(
+        res,
+        "Only the milestone's creator can respond to a dispute",
+      );
+    }
+
+    const dispute = getOpenDispute(milestone);
+    if (!dispute) {
+      return sendConflict(res, "Milestone has no open dispute");
+    }
+    if (dispute.response) {
+      return sendConflict(res, "This dispute has already been answered");
+    }
+    if (new Date() > dispute.responseDeadline) {
+      return sendConflict(res, "The response window for this dispute closed");
+    }
+
+    const path = `disputes.${milestone.disputes.length - 1}`;
+    const answered = await Milestone.findOneAndUpdate(
+      {
+        _id: milestone._id,
+        status: "disputed",
+        [`${path}.response`]: { $exists: false },
+        [`${path}.resolution`]: { $exists: false },
+      },
+      {
+        $set: {
+          [`${path}.response`]: {
+            respondedBy: user._id,
+            respondedAt: new Date(),
+            statement,
+            evidence,
+          },
+        },
+      },
+      { new: true },
+    );
+    if (!answered) {
+      return sendConflict(res, "The dispute changed while responding to it");
+    }
+
+    await notifyDisputeParties(
+      answered,
+      [dispute.openedBy],
+      {
+        type: NotificationType.MILESTONE_DISPUTE_RESPONDED,
+        headline: "Dispute answered",
+        message: `The creator of "${answered.title}" responded to the dispute: ${statement}`,
+      },
+      true,
+    );
+
+    return sendSuccess(res, answered, "Dispute response recorded");
+  } catch (error: any) {
+    console.error("Error responding to milestone dispute:", error);
+    return sendError(res, "Failed to respond to dispute", 500, error.message);
+  }
+};
+
+/**
+ * @swagger
+ * /api/milestones/{id}/disputes/resolve:
+ *   post:
+ *     summary: Resolve a milestone dispute
+ *     description: |
+ *       The dispute resolver rules on the open dispute, once the creator has
+ *       responded or the response window has closed. Milestones disputed
+ *       before disputes were recorded have no response window and can be
+ *       ruled on straight away. The ruling becomes the milestone's status
+ *       and the escrow milestone is flagged as resolved. Available to the
+ *       escrow's dispute resolver and platform admins.
+ *     tags: [Milestones]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [outcome]
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [approved, revision-requested]
+ *               note:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: Dispute resolved
+ *       403:
+ *         description: Not the milestone's dispute resolver
+ *       404:
+ *         description: Milestone not found
+ *       409:
+ *         description: No open dispute, or still waiting for the creator
+ */
+export const resolveMilestoneDispute = async (req: Request, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { note } = req.body;
+    const outcome = req.body.outcome as MilestoneDisputeOutcome;
+
+    const milestone = await Milestone.findById(req.params.id);
+    if (!milestone) {
+      return sendNotFound(res, "Milestone not found");
+    }
+
+    if (!(await MilestoneService.canResolveDispute(milestone, user))) {
+      return sendForbidden(res, "Only the dispute resolver can rule on this");
+    }
+
+    // Milestones disputed before disputes were recorded have no record
+    const dispute = getOpenDispute(milestone);
+    if (!dispute && milestone.status !== "disputed") {
+      return sendConflict(res, "Milestone has no open dispute");
+    }
+    if (
+      dispute &&
+      !dispute.response &&
+      new Date() <= dispute.responseDeadline
+    ) {
+      return sendConflict(
+        res,
+        `The creator can respond until ${dispute.responseDeadline.toISOString()}`,
+      );
+    }
+
+    // Rule only while the milestone is still disputed, so a concurrent
+    // ruling can't be overwritten
+    const now = new Date();
+    const path = `disputes.${milestone.disputes.length - 1}`;
+    const resolved = await Milestone.findOneAndUpdate(
+      {
+        _id: milestone._id,
+        status: "disputed",
+        ...(dispute && { [`${path}.resolution`]: { $exists: false } }),
+      },
+      {
+        $set: {
+          status: outcome,
+          reviewedBy: user._id,
+          reviewedAt: now,
+          ...(dispute
+            ? {
+                [`${path}.resolution`]: {
+                  resolvedBy: user._id,
+                  resolvedAt: now,
+                  outcome,
+                  ...(note && { note }),
+                },
+              }
+            : note && { adminNote: note }),
+        },
+      },
+      { new: true },
+    );
+    if (!resolved) {
+      return sendConflict(res, "The dispute changed while resolving it");
+    }
+
+    await MilestoneService.syncLegacyCopy(resolved);
+    await MilestoneService.syncEscrowFlags(resolved, {
+      disputed: false,
+      resolved: true,
+      approved: outcome === "approved",
+    });
+
+    const creatorIds = await MilestoneService.getCreatorIds(resolved);
+    const partyIds = dispute ? [...creatorIds, dispute.openedBy] : creatorIds;
+    await notifyDisputeParties(resolved, partyIds, {
+      type: NotificationType.MILESTONE_DISPUTE_RESOLVED,
+      headline: "Dispute resolved",
+      message:
+        outcome === "approved"
+          ? `The dispute on "${resolved.title}" was resolved and the milestone is approved.${note ? ` ${note}` : ""}`
+          : `The dispute on "${resolved.title}" was resolved and the milestone needs revision.${note ? ` ${note}` : ""}`,
+    });
+
+    return sendSuccess(res, resolved, "Dispute resolved");
+  } catch (error: any) {
+    console.error("Error resolving milestone dispute:", error);
+    return sendError(res, "Failed to resolve dispute", 500, error.message);
+  }
+};
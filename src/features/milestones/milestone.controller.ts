@@ -1,6 +1,18 @@
 import { Request, Response } from "express";
-import Milestone from "../../models/milestone.model.js";
+import mongoose from "mongoose";
+import Milestone, { MilestoneOwnerType } from "../../models/milestone.model.js";
 import Campaign from "../../models/campaign.model.js";
+import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendBadRequest,
+  sendConflict,
+  sendForbidden,
+  sendNotFound,
+} from "../../utils/apiResponse.js";
+import MilestoneService from "./milestone.service.js";
 // Blockchain operations removed - frontend handles all transactions
 
 type UserRoleAssignment = {
@@ -10,67 +22,236 @@ type UserRoleAssignment = {
   status: "ACTIVE" | "REVOKED";
 };
 
-export const submitMilestoneProof = async (req: Request, res: Response) => {
-  const { milestoneId } = req.params;
-  const { description, proofLinks } = req.body;
-  const userId = req.user?.id;
+/**
+ * Raised inside the release transaction to roll it back with a 409
+ */
+class ReleaseConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReleaseConflictError";
+  }
+}
 
+/**
+ * Load a milestone and what the caller may do with it
+ */
+const loadMilestone = async (id: string, req: Request) => {
+  const milestone = await Milestone.findById(id);
+  if (!milestone) {
+    return null;
+  }
+  const access = await MilestoneService.getAccess(milestone, req.user);
+  return { milestone, access };
+};
+
+/**
+ * @swagger
+ * /api/milestones:
+ *   get:
+ *     summary: List an owner's milestones
+ *     description: |
+ *       Milestones of a crowdfunding project, grant application or hackathon
+ *       winner, in order. Grant application milestones are only shown to the
+ *       applicant and the grant's managers.
+ *     tags: [Milestones]
+ */
+export const getMilestones = async (req: Request, res: Response) => {
   try {
-    const milestone = await Milestone.findById(milestoneId);
-    if (!milestone) {
-      res.status(404).json({ message: "Milestone not found" });
-      return;
+    const ownerType = req.query.ownerType as MilestoneOwnerType;
+    const ownerId = req.query.ownerId as string;
+
+    const access = await MilestoneService.getOwnerAccess(
+      ownerType,
+      ownerId,
+      req.user,
+    );
+    if (!access.exists) {
+      return sendNotFound(res, "Milestone owner not found");
+    }
+    if (
+      ownerType === MilestoneOwnerType.GRANT_APPLICATION &&
+      !access.canSubmit &&
+      !access.canReview
+    ) {
+      return sendForbidden(res, "Not authorized to view these milestones");
     }
 
-    const campaign = await Campaign.findById(milestone.campaignId);
-    if (!campaign) {
-      console.log(
-        "Campaign not found for ID:",
-        milestone.campaignId.toString(),
-      );
-      res.status(404).json({ message: "Associated campaign not found" });
-      return;
+    const milestones = await Milestone.find({ ownerType, ownerId })
+      .sort({ index: 1 })
+      .lean();
+
+    return sendSuccess(res, milestones, "Milestones retrieved successfully");
+  } catch (error: any) {
+    console.error("Error fetching milestones:", error);
+    return sendError(res, "Failed to fetch milestones", 500, error.message);
+  }
+};
+
+/**
+ * @swagger
+ * /api/milestones:
+ *   post:
+ *     summary: Add milestones to an owner
+ *     description: |
+ *       Add payout milestones to a crowdfunding project, grant application or
+ *       hackathon winner. Hackathon winners must hold a rank. Available to
+ *       whoever reviews the owner's milestones.
+ *     tags: [Milestones]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const createMilestones = async (req: Request, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
     }
 
-    if (!req.user || !userId || campaign.creatorId.toString() !== userId) {
-      res
-        .status(403)
-        .json({ message: "Not authorized to submit proof for this milestone" });
-      return;
+    const { ownerType, ownerId, milestones } = req.body;
+
+    const access = await MilestoneService.getOwnerAccess(
+      ownerType,
+      ownerId,
+      user,
+    );
+    if (!access.exists) {
+      return sendNotFound(res, "Milestone owner not found");
+    }
+    if (!access.canReview) {
+      return sendForbidden(res, "Not authorized to add milestones");
     }
 
-    const submittableStates = ["pending", "in-progress", "revision-requested"];
-    if (!submittableStates.includes(milestone.status)) {
-      res.status(409).json({
-        message: "Milestone is not in a submittable state",
-        currentStatus: milestone.status,
+    if (ownerType === MilestoneOwnerType.HACKATHON_WINNER) {
+      const winner = await HackathonParticipant.exists({
+        _id: ownerId,
+        $or: [{ rank: { $gt: 0 } }, { "trackRanks.0": { $exists: true } }],
       });
-      return;
+      if (!winner) {
+        return sendBadRequest(
+          res,
+          "Milestones can only be added to ranked winners",
+        );
+      }
     }
 
-    milestone.proofDescription = description;
-    milestone.proofLinks = proofLinks;
-    milestone.status = "submitted";
-    milestone.submittedAt = new Date();
+    const created = await MilestoneService.createForOwner(
+      ownerType,
+      new mongoose.Types.ObjectId(ownerId as string),
+      milestones.map((milestone: any) => ({
+        title: milestone.title,
+        description: milestone.description,
+        amount: milestone.amount,
+        dueDate: milestone.dueDate ? new Date(milestone.dueDate) : undefined,
+        currency: milestone.currency,
+      })),
+    );
 
-    await milestone.save();
+    return sendCreated(res, created, "Milestones created successfully");
+  } catch (error: any) {
+    console.error("Error creating milestones:", error);
+    return sendError(res, "Failed to create milestones", 500, error.message);
+  }
+};
+
+/**
+ * @swagger
+ * /api/milestones/{id}:
+ *   get:
+ *     summary: Get a milestone
+ *     tags: [Milestones]
+ */
+export const getMilestone = async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadMilestone(req.params.id, req);
+    if (!loaded) {
+      return sendNotFound(res, "Milestone not found");
+    }
+    const { milestone, access } = loaded;
 
-    res.status(201).json({
-      success: true,
-      data: {
+    if (
+      milestone.ownerType === MilestoneOwnerType.GRANT_APPLICATION &&
+      !access.canSubmit &&
+      !access.canReview
+    ) {
+      return sendForbidden(res, "Not authorized to view this milestone");
+    }
+
+    return sendSuccess(
+      res,
+      { milestone, canSubmit: access.canSubmit, canReview: access.canReview },
+      "Milestone retrieved successfully",
+    );
+  } catch (error: any) {
+    console.error("Error fetching milestone:", error);
+    return sendError(res, "Failed to fetch milestone", 500, error.message);
+  }
+};
+
+export const submitMilestoneProof = async (req: Request, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { description, proofLinks } = req.body;
+
+    const loaded = await loadMilestone(req.params.milestoneId, req);
+    if (!loaded) {
+      return sendNotFound(res, "Milestone not found");
+    }
+    const { milestone, access } = loaded;
+
+    if (!access.canSubmit) {
+      return sendForbidden(
+        res,
+        "Not authorized to submit proof for this milestone",
+      );
+    }
+
+    if (!MilestoneService.canTransition(milestone.status, "submitted")) {
+      return sendConflict(
+        res,
+        `Milestone is ${milestone.status} and not in a submittable state`,
+      );
+    }
+
+    const submitted = await MilestoneService.transition(
+      milestone,
+      "submitted",
+      {
+        proofDescription: description,
+        proofLinks,
+        submittedAt: new Date(),
+        submittedBy: user._id,
+      },
+    );
+    if (!submitted) {
+      return sendConflict(res, "Milestone changed while submitting proof");
+    }
+    await MilestoneService.syncLegacyCopy(submitted);
+
+    return sendCreated(
+      res,
+      {
         milestone: {
-          _id: milestone._id,
-          status: milestone.status,
-          proofDescription: milestone.proofDescription,
-          proofLinks: milestone.proofLinks,
-          submittedAt: milestone.submittedAt,
+          _id: submitted._id,
+          status: submitted.status,
+          proofDescription: submitted.proofDescription,
+          proofLinks: submitted.proofLinks,
+          submittedAt: submitted.submittedAt,
         },
       },
-      message: "Milestone proof submitted successfully",
-    });
-  } catch (err) {
-    console.error("Error submitting milestone proof:", err);
-    res.status(500).json({ message: "Internal server error" });
+      "Milestone proof submitted successfully",
+    );
+  } catch (error: any) {
+    console.error("Error submitting milestone proof:", error);
+    return sendError(
+      res,
+      "Failed to submit milestone proof",
+      500,
+      error.message,
+    );
   }
 };
 
@@ -78,42 +259,154 @@ export const reviewMilestone = async (
   req: Request,
   res: Response,
 ): Promise<void> => {
-  const { id } = req.params;
-  const { status, adminNote } = req.body;
+  try {
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
+    }
+
+    const { adminNote } = req.body;
+    // "rejected" is what older clients send to ask for a revision
+    const status =
+      req.body.status === "rejected" ? "revision-requested" : req.body.status;
+
+    const loaded = await loadMilestone(req.params.id, req);
+    if (!loaded) {
+      return sendNotFound(res, "Milestone not found");
+    }
+    const { milestone, access } = loaded;
+
+    if (!access.canReview) {
+      return sendForbidden(res, "Not authorized to review this milestone");
+    }
+
+    // A dispute is only settled by the resolver's ruling
+    if (milestone.status === "disputed") {
+      return sendConflict(
+        res,
+        "Milestone is disputed and can only be settled by resolving the dispute",
+      );
+    }
+
+    if (!MilestoneService.canTransition(milestone.status, status)) {
+      return sendConflict(
+        res,
+        `Milestone is ${milestone.status} and cannot be ${status === "approved" ? "approved" : "sent back for revision"}`,
+      );
+    }
+
+    const reviewed = await MilestoneService.transition(milestone, status, {
+      reviewedBy: user._id,
+      reviewedAt: new Date(),
+      ...(adminNote && { adminNote }),
+    });
+    if (!reviewed) {
+      return sendConflict(res, "Milestone changed while it was being reviewed");
+    }
+    await MilestoneService.syncLegacyCopy(reviewed);
+
+    return sendSuccess(
+      res,
+      reviewed,
+      status === "approved"
+        ? "Milestone approved"
+        : "Milestone status set to revision-requested",
+    );
+  } catch (error: any) {
+    console.error("Error reviewing milestone:", error);
+    return sendError(res, "Failed to review milestone", 500, error.message);
+  }
+};
 
+/**
+ * @swagger
+ * /api/milestones/{id}/release:
+ *   patch:
+ *     summary: Release a milestone's payout
+ *     description: |
+ *       Record that an approved milestone has been paid. Releasing a grant
+ *       application milestone records a disbursement against the grant's
+ *       budget.
+ *     tags: [Milestones]
+ *     security:
+ *       - bearerAuth: []
+ */
+export const releaseMilestone = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
   try {
-    const milestone = await Milestone.findById(id);
-    if (!milestone) {
-      res.status(404).json({ message: "Milestone not found" });
-      return;
+    const user = req.user;
+    if (!user) {
+      return sendError(res, "Authentication required", 401);
     }
 
-    if (status === "approved") {
-      milestone.status = "approved";
-      if (adminNote) milestone.adminNote = adminNote;
-      await milestone.save();
-
-      // triggerSorobanPayout(milestone).catch((err) => {
-      //   console.error("Soroban payout error:", err);
-      // });
-      res.json({ message: "Milestone approved and payout triggered" });
-      return;
-    } else if (status === "rejected") {
-      milestone.status = "revision-requested";
-      if (adminNote) milestone.adminNote = adminNote;
-      await milestone.save();
-      res.json({
-        message: "Milestone status set to revision-requested",
+    const { transactionHash } = req.body;
+
+    const loaded = await loadMilestone(req.params.id, req);
+    if (!loaded) {
+      return sendNotFound(res, "Milestone not found");
+    }
+    const { milestone, access } = loaded;
+
+    if (!access.canReview) {
+      return sendForbidden(res, "Not authorized to release this milestone");
+    }
+
+    if (!MilestoneService.canTransition(milestone.status, "released")) {
+      return sendConflict(
+        res,
+        `Milestone is ${milestone.status}; only approved milestones can be released`,
+      );
+    }
+
+    // Claim the release and record its payout together, so concurrent
+    // releases can't both pay the milestone out
+    const session = await mongoose.startSession();
+    let released;
+    try {
+      released = await session.withTransaction(async () => {
+        const claimed = await MilestoneService.transition(
+          milestone,
+          "released",
+          {
+            releasedAt: new Date(),
+            releasedBy: user._id,
+            ...(transactionHash && { releaseTxHash: transactionHash }),
+          },
+          session,
+        );
+        if (!claimed) {
+          throw new ReleaseConflictError(
+            "Milestone changed while it was being released",
+          );
+        }
+
+        const releaseError = await MilestoneService.applyRelease(
+          claimed,
+          user._id,
+          transactionHash,
+          session,
+        );
+        if (releaseError) {
+          throw new ReleaseConflictError(releaseError);
+        }
+        return claimed;
       });
-      return;
-    } else {
-      res.status(400).json({ message: "Invalid status value" });
-      return;
+    } catch (error) {
+      if (error instanceof ReleaseConflictError) {
+        return sendConflict(res, error.message);
+      }
+      throw error;
+    } finally {
+      await session.endSession();
     }
-  } catch (err) {
-    console.error(err);
-    res.status(500).json({ message: "Server error" });
-    return;
+    await MilestoneService.syncLegacyCopy(released);
+
+    return sendSuccess(res, released, "Milestone released");
+  } catch (error: any) {
+    console.error("Error releasing milestone:", error);
+    return sendError(res, "Failed to release milestone", 500, error.message);
   }
 };
 
@@ -85,7 +85,11 @@
  *         description: Internal server error
  * /milestones/{id}/review:
  *   patch:
- *     summary: Admin review of a milestone (approve or request revision)
+ *     summary: Review a milestone (approve or request revision)
+ *     description: |
+ *       Available to platform admins and to whoever manages the milestone's
+ *       owner: the campaign marker (or the escrow approver when the project
+ *       has no campaign), the grant's managers or the hackathon organizers.
  *     tags:
  *       - Milestones
  *     security:
@@ -106,8 +110,8 @@
  *             properties:
  *               status:
  *                 type: string
- *                 enum: [approved, rejected]
- *                 description: "Set to 'approved' to trigger payout, or 'rejected' to request revision."
+ *                 enum: [approved, revision-requested, rejected]
+ *                 description: "Set to 'approved' to approve the milestone, or 'revision-requested' ('rejected' is accepted as an alias) to request revision."
  *               adminNote:
  *                 type: string
  *                 maxLength: 1000
@@ -128,21 +132,91 @@
  *         description: Invalid input or status
  *       404:
  *         description: Milestone not found
+ *       409:
+ *         description: Milestone can't move to that status, or is disputed
  *       500:
  *         description: Server error
  */
 import { Router } from "express";
 import {
+  createMilestones,
+  getMilestone,
+  getMilestones,
+  releaseMilestone,
   reviewMilestone,
   submitMilestoneProof,
 } from "./milestone.controller.js";
-import { protect } from "../../middleware/better-auth.middleware.js";
-import { roleMiddleware } from "../../middleware/better-auth.middleware.js";
+import {
+  openMilestoneDispute,
+  resolveMilestoneDispute,
+  respondToMilestoneDispute,
+} from "./milestone-dispute.controller.js";
+import {
+  optionalAuth,
+  protect,
+} from "../../middleware/better-auth.middleware.js";
 import { validateRequest } from "../../middleware/validateRequest.js";
-import { body, param } from "express-validator";
+import { body, param, query } from "express-validator";
+import { MilestoneOwnerType } from "../../models/milestone.model.js";
 
 const router = Router();
 
+const ownerTypes = Object.values(MilestoneOwnerType);
+
+router.get(
+  "/",
+  optionalAuth,
+  validateRequest([
+    query("ownerType")
+      .isIn(ownerTypes)
+      .withMessage(`ownerType must be one of: ${ownerTypes.join(", ")}`),
+    query("ownerId").isMongoId().withMessage("Invalid owner ID"),
+  ]),
+  getMilestones,
+);
+
+router.post(
+  "/",
+  protect,
+  validateRequest([
+    body("ownerType")
+      .isIn(ownerTypes)
+      .withMessage(`ownerType must be one of: ${ownerTypes.join(", ")}`),
+    body("ownerId").isMongoId().withMessage("Invalid owner ID"),
+    body("milestones")
+      .isArray({ min: 1, max: 20 })
+      .withMessage("Milestones must be an array with 1-20 items"),
+    body("milestones.*.title")
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage("Title must be between 1 and 200 characters"),
+    body("milestones.*.description")
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage("Description must be between 1 and 2000 characters"),
+    body("milestones.*.amount")
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage("Amount must be a positive number")
+      .toFloat(),
+    body("milestones.*.dueDate")
+      .optional()
+      .isISO8601()
+      .withMessage("Due date must be a valid date"),
+    body("milestones.*.currency").optional().isString().trim(),
+  ]),
+  createMilestones,
+);
+
+router.get(
+  "/:id",
+  optionalAuth,
+  validateRequest([
+    param("id").isMongoId().withMessage("Invalid milestone ID"),
+  ]),
+  getMilestone,
+);
+
 router.post(
   "/:milestoneId/proof",
   protect,
@@ -165,15 +239,84 @@ router.post(
 router.patch(
   "/:id/review",
   protect,
-  roleMiddleware(["admin"]),
   validateRequest([
     param("id").isMongoId().withMessage("Invalid milestone ID"),
     body("status")
-      .isIn(["approved", "rejected"])
-      .withMessage("Status must be 'approved' or 'rejected'"),
+      .isIn(["approved", "revision-requested", "rejected"])
+      .withMessage(
+        "Status must be 'approved', 'revision-requested' or 'rejected'",
+      ),
     body("adminNote").optional().isString().isLength({ max: 1000 }),
   ]),
   reviewMilestone,
 );
 
+router.patch(
+  "/:id/release",
+  protect,
+  validateRequest([
+    param("id").isMongoId().withMessage("Invalid milestone ID"),
+    body("transactionHash")
+      .optional()
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage("transactionHash must be a non-empty string"),
+  ]),
+  releaseMilestone,
+);
+
+router.post(
+  "/:id/disputes",
+  protect,
+  validateRequest([
+    param("id").isMongoId().withMessage("Invalid milestone ID"),
+    body("reason")
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage("Reason must be between 1 and 2000 characters"),
+    body("evidence")
+      .optional()
+      .isArray({ max: 10 })
+      .withMessage("Evidence must be an array with at most 10 items"),
+    body("evidence.*")
+      .isURL()
+      .withMessage("Each evidence link must be a valid URL"),
+  ]),
+  openMilestoneDispute,
+);
+
+router.post(
+  "/:id/disputes/response",
+  protect,
+  validateRequest([
+    param("id").isMongoId().withMessage("Invalid milestone ID"),
+    body("statement")
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage("Statement must be between 1 and 2000 characters"),
+    body("evidence")
+      .optional()
+      .isArray({ max: 10 })
+      .withMessage("Evidence must be an array with at most 10 items"),
+    body("evidence.*")
+      .isURL()
+      .withMessage("Each evidence link must be a valid URL"),
+  ]),
+  respondToMilestoneDispute,
+);
+
+router.post(
+  "/:id/disputes/resolve",
+  protect,
+  validateRequest([
+    param("id").isMongoId().withMessage("Invalid milestone ID"),
+    body("outcome")
+      .isIn(["approved", "revision-requested"])
+      .withMessage("Outcome must be 'approved' or 'revision-requested'"),
+    body("note").optional().isString().trim().isLength({ max: 2000 }),
+  ]),
+  resolveMilestoneDispute,
+);
+
 export default router;
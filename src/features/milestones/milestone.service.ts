@@ -0,0 +1,520 @@
+import mongoose from "mongoose";
+import Milestone, {
+  IMilestone,
+  MilestoneOwnerType,
+  MilestoneStatus,
+} from "../../models/milestone.model.js";
+import Account from "../../models/account.model.js";
+import Campaign from "../../models/campaign.model.js";
+import Project from "../../models/project.model.js";
+import Grant from "../../models/grant.model.js";
+import GrantApplication from "../../models/grant-application.model.js";
+import HackathonParticipant from "../../models/hackathon-participant.model.js";
+import { UserRole } from "../../models/user.model.js";
+import { canManageGrant } from "../grants/grant.helpers.js";
+import GrantBudgetService from "../grants/grant-budget.service.js";
+import { IHackathon } from "../../models/hackathon.model.js";
+import {
+  canManageHackathons,
+  findPrizeTier,
+  findTrack,
+} from "../hackathons/hackathon.helpers.js";
+
+type MilestoneUser = {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  roles?: { role: string }[];
+};
+
+export interface MilestoneOwnerAccess {
+  exists: boolean;
+  canSubmit: boolean; // Submits proof: the creator, applicant or winner
+  canReview: boolean; // Approves and releases: the owner's managers or admins
+}
+
+export interface NewMilestone {
+  title: string;
+  description: string;
+  amount?: number;
+  dueDate?: Date;
+  currency?: string;
+  legacySource?: string;
+}
+
+export interface EscrowMilestoneFlags {
+  disputed?: boolean;
+  resolved?: boolean;
+  approved?: boolean;
+}
+
+// How long the creator has to answer a dispute before it can be ruled on
+export const DISPUTE_RESPONSE_DAYS = 7;
+
+/**
+ * Allowed status changes. The older statuses still found on campaign
+ * milestones move like the status that replaced them: `in-progress` like
+ * `pending`, `pending-review` like `submitted`, `rejected` like
+ * `revision-requested` and `completed` like `released`. A disputed
+ * milestone only leaves that status through the resolver's ruling.
+ */
+export const MILESTONE_TRANSITIONS: Record<MilestoneStatus, MilestoneStatus[]> =
+  {
+    pending: ["submitted"],
+    "in-progress": ["submitted"],
+    submitted: ["approved", "revision-requested", "disputed"],
+    "pending-review": ["approved", "revision-requested", "disputed"],
+    "revision-requested": ["submitted"],
+    rejected: ["submitted"],
+    approved: ["released", "disputed"],
+    completed: [],
+    released: [],
+    disputed: ["approved", "revision-requested"],
+  };
+
+const NO_ACCESS: MilestoneOwnerAccess = {
+  exists: false,
+  canSubmit: false,
+  canReview: false,
+};
+
+/**
+ * One milestone workflow for crowdfunding projects, grant applications and
+ * hackathon winners: who may act on a milestone, the status machine, and
+ * the side effects of a release on each owner type.
+ */
+export class MilestoneService {
+  static canTransition(from: MilestoneStatus, to: MilestoneStatus): boolean {
+    return MILESTONE_TRANSITIONS[from]?.includes(to) === true;
+  }
+
+  /**
+   * Move a milestone on from the status it was read in, setting `update`
+   * with the new status. Returns the updated milestone, or null when it is
+   * no longer in that status because a concurrent request moved it first.
+   */
+  static async transition(
+    milestone: Pick<IMilestone, "_id" | "status">,
+    to: MilestoneStatus,
+    update: Partial<IMilestone> = {},
+    session?: mongoose.ClientSession,
+  ) {
+    return Milestone.findOneAndUpdate(
+      { _id: milestone._id, status: milestone.status },
+      { $set: { ...update, status: to } },
+      { new: true, session },
+    );
+  }
+
+  static isAdmin(user: MilestoneUser): boolean {
+    return (user.roles || []).some((r) => r.role === UserRole.ADMIN);
+  }
+
+  /**
+   * Work out what a user may do with the milestones of an owner
+   */
+  static async getOwnerAccess(
+    ownerType: MilestoneOwnerType,
+    ownerId: mongoose.Types.ObjectId | string,
+    user?: MilestoneUser,
+    campaignId?: mongoose.Types.ObjectId,
+  ): Promise<MilestoneOwnerAccess> {
+    const userId = user?._id.toString();
+    const isAdmin = !!user && this.isAdmin(user);
+
+    switch (ownerType) {
+      case MilestoneOwnerType.CROWDFUND_PROJECT: {
+        const project = await Project.findById(ownerId).select(
+          "creator stakeholders.approver escrowDetails.roles.approver",
+        );
+        if (!project) return NO_ACCESS;
+        const campaign = campaignId
+          ? await Campaign.findById(campaignId).select("creatorId marker")
+          : null;
+        // Without a campaign marker, the owner of the escrow's approver
+        // wallet reviews
+        const reviewerId =
+          campaign?.marker ||
+          (await this.getWalletOwnerId(
+            project.stakeholders?.approver ||
+              project.escrowDetails?.roles?.approver,
+          ));
+        return {
+          exists: true,
+          canSubmit:
+            project.creator.toString() === userId ||
+            campaign?.creatorId.toString() === userId,
+          canReview:
+            isAdmin || (!!reviewerId && reviewerId.toString() === userId),
+        };
+      }
+
+      case MilestoneOwnerType.GRANT_APPLICATION: {
+        const application = await GrantApplication.findById(ownerId).select(
+          "grantId applicantId",
+        );
+        if (!application) return NO_ACCESS;
+        const grant = await Grant.findById(application.grantId);
+        return {
+          exists: true,
+          canSubmit: application.applicantId.toString() === userId,
+          canReview:
+            isAdmin ||
+            (!!user && !!grant && (await canManageGrant(grant, user))),
+        };
+      }
+
+      case MilestoneOwnerType.HACKATHON_WINNER: {
+        const participant = await HackathonParticipant.findById(ownerId).select(
+          "userId teamMembers organizationId",
+        );
+        if (!participant) return NO_ACCESS;
+        const canManage =
+          !!user &&
+          (
+            await canManageHackathons(
+              participant.organizationId.toString(),
+              user.email,
+            )
+          ).canManage;
+        return {
+          exists: true,
+          canSubmit:
+            participant.userId.toString() === userId ||
+            (participant.teamMembers || []).some(
+              (member) => member.userId.toString() === userId,
+            ),
+          canReview: isAdmin || canManage,
+        };
+      }
+
+      default:
+        return NO_ACCESS;
+    }
+  }
+
+  static getAccess(
+    milestone: Pick<IMilestone, "ownerType" | "ownerId" | "campaignId">,
+    user?: MilestoneUser,
+  ): Promise<MilestoneOwnerAccess> {
+    return this.getOwnerAccess(
+      milestone.ownerType,
+      milestone.ownerId,
+      user,
+      milestone.campaignId,
+    );
+  }
+
+  /**
+   * The users who deliver a milestone: the project creator, the grant
+   * applicant or the winning participant and their team
+   */
+  static async getCreatorIds(
+    milestone: Pick<IMilestone, "ownerType" | "ownerId" | "campaignId">,
+  ): Promise<mongoose.Types.ObjectId[]> {
+    switch (milestone.ownerType) {
+      case MilestoneOwnerType.CROWDFUND_PROJECT: {
+        const project = await Project.findById(milestone.ownerId).select(
+          "creator",
+        );
+        return project ? [project.creator] : [];
+      }
+      case MilestoneOwnerType.GRANT_APPLICATION: {
+        const application = await GrantApplication.findById(
+          milestone.ownerId,
+        ).select("applicantId");
+        return application ? [application.applicantId] : [];
+      }
+      case MilestoneOwnerType.HACKATHON_WINNER: {
+        const participant = await HackathonParticipant.findById(
+          milestone.ownerId,
+        ).select("userId teamMembers");
+        if (!participant) return [];
+        const ids = [
+          participant.userId,
+          ...(participant.teamMembers || []).map((member) => member.userId),
+        ];
+        return ids.filter(
+          (id, i) => ids.findIndex((other) => other.equals(id)) === i,
+        );
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Whether a user contributed to the crowdfunding project a milestone
+   * belongs to
+   */
+  static async isBacker(
+    milestone: Pick<IMilestone, "ownerType" | "ownerId">,
+    userId: mongoose.Types.ObjectId,
+  ): Promise<boolean> {
+    if (milestone.ownerType !== MilestoneOwnerType.CROWDFUND_PROJECT) {
+      return false;
+    }
+    return !!(await Project.exists({
+      _id: milestone.ownerId,
+      "funding.contributors.user": userId,
+    }));
+  }
+
+  /**
+   * The users named as dispute resolver for a milestone: the campaign's
+   * resolver and the owner of the escrow's `disputeResolver` wallet. Only
+   * crowdfunding milestones have one; admins resolve the rest.
+   */
+  static async getDisputeResolverIds(
+    milestone: Pick<IMilestone, "ownerType" | "ownerId" | "campaignId">,
+  ): Promise<mongoose.Types.ObjectId[]> {
+    if (milestone.ownerType !== MilestoneOwnerType.CROWDFUND_PROJECT) {
+      return [];
+    }
+
+    const [project, campaign] = await Promise.all([
+      Project.findById(milestone.ownerId).select(
+        "stakeholders.disputeResolver escrowDetails.roles.disputeResolver",
+      ),
+      milestone.campaignId
+        ? Campaign.findById(milestone.campaignId).select("resolver")
+        : null,
+    ]);
+
+    const ids: mongoose.Types.ObjectId[] = [];
+    if (campaign?.resolver) ids.push(campaign.resolver);
+
+    const resolverId = await this.getWalletOwnerId(
+      project?.stakeholders?.disputeResolver ||
+        project?.escrowDetails?.roles?.disputeResolver,
+    );
+    if (resolverId && !ids.some((id) => id.equals(resolverId))) {
+      ids.push(resolverId);
+    }
+    return ids;
+  }
+
+  /**
+   * The user who linked a Stellar wallet, if anyone did
+   */
+  private static async getWalletOwnerId(
+    address?: string,
+  ): Promise<mongoose.Types.ObjectId | null> {
+    if (!address) return null;
+    const account = await Account.findOne({
+      provider: "stellar",
+      providerAccountId: address,
+    }).select("userId");
+    return account?.userId || null;
+  }
+
+  static async canResolveDispute(
+    milestone: Pick<IMilestone, "ownerType" | "ownerId" | "campaignId">,
+    user: MilestoneUser,
+  ): Promise<boolean> {
+    if (this.isAdmin(user)) return true;
+    const resolverIds = await this.getDisputeResolverIds(milestone);
+    return resolverIds.some((id) => id.equals(user._id));
+  }
+
+  /**
+   * Append milestones to an owner, numbering them after any it already has
+   */
+  static async createForOwner(
+    ownerType: MilestoneOwnerType,
+    ownerId: mongoose.Types.ObjectId,
+    milestones: NewMilestone[],
+    session?: mongoose.ClientSession,
+  ) {
+    const existing = await Milestone.countDocuments({
+      ownerType,
+      ownerId,
+    }).session(session || null);
+
+    return Milestone.insertMany(
+      milestones.map((milestone, i) => ({
+        ownerType,
+        ownerId,
+        title: milestone.title,
+        description: milestone.description,
+        amount: milestone.amount,
+        dueDate: milestone.dueDate,
+        currency: milestone.currency,
+        legacySource: milestone.legacySource,
+        index: existing + i,
+        status: "pending",
+      })),
+      { session },
+    );
+  }
+
+  /**
+   * Open the payout milestones of an approved grant application. Does
+   * nothing when the application already has them.
+   */
+  static async createForGrantApplication(application: {
+    _id: unknown;
+    milestones: {
+      title: string;
+      description: string;
+      expectedPayout: number;
+    }[];
+  }) {
+    const ownerId = application._id as mongoose.Types.ObjectId;
+    if (
+      await Milestone.exists({
+        ownerType: MilestoneOwnerType.GRANT_APPLICATION,
+        ownerId,
+      })
+    ) {
+      return [];
+    }
+
+    return this.createForOwner(
+      MilestoneOwnerType.GRANT_APPLICATION,
+      ownerId,
+      application.milestones.map((milestone) => ({
+        title: milestone.title,
+        description: milestone.description,
+        amount: milestone.expectedPayout,
+      })),
+    );
+  }
+
+  /**
+   * Open a prize milestone for each announced winner, paid the amount of
+   * their rank's prize tier in the hackathon or track. Winners who already
+   * have that milestone, or whose rank has no prize tier, are skipped.
+   */
+  static async createForHackathonWinners(
+    hackathon: Pick<IHackathon, "title" | "prizeTiers" | "tracks">,
+    winners: { participantId: mongoose.Types.ObjectId; rank: number }[],
+    trackId?: string | mongoose.Types.ObjectId | null,
+  ) {
+    const track = findTrack(hackathon, trackId);
+    const created: IMilestone[] = [];
+
+    for (const winner of winners) {
+      const tier = findPrizeTier(winner.rank, hackathon, trackId);
+      if (!tier) continue;
+
+      const title = track
+        ? `${tier.position} prize: ${track.name}`
+        : `${tier.position} prize`;
+      const ownerType = MilestoneOwnerType.HACKATHON_WINNER;
+      if (
+        await Milestone.exists({
+          ownerType,
+          ownerId: winner.participantId,
+          title,
+        })
+      ) {
+        continue;
+      }
+
+      created.push(
+        ...(await this.createForOwner(ownerType, winner.participantId, [
+          {
+            title,
+            description: `Prize for placing ${tier.position} in ${track?.name || hackathon.title || "the hackathon"}`,
+            amount: tier.amount,
+            currency: tier.currency,
+          },
+        ])),
+      );
+    }
+
+    return created;
+  }
+
+  /**
+   * Apply the owner-specific effects of releasing a milestone's payout.
+   * Returns why the release can't happen, or null.
+   */
+  static async applyRelease(
+    milestone: IMilestone,
+    releasedBy: mongoose.Types.ObjectId,
+    transactionHash?: string,
+    session?: mongoose.ClientSession,
+  ): Promise<string | null> {
+    if (
+      milestone.ownerType === MilestoneOwnerType.GRANT_APPLICATION &&
+      milestone.amount
+    ) {
+      const application = await GrantApplication.findById(milestone.ownerId)
+        .select("grantId")
+        .session(session || null);
+      if (!application) {
+        return "Grant application not found";
+      }
+      return GrantBudgetService.recordDisbursement(
+        application.grantId,
+        milestone.ownerId,
+        milestone.amount,
+        {
+          milestoneId: milestone._id as mongoose.Types.ObjectId,
+          milestoneIndex: milestone.index,
+          txHash: transactionHash,
+          createdBy: releasedBy,
+        },
+        session,
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Keep the status of a migrated `Project.milestones` entry in step with
+   * its milestone
+   */
+  static async syncLegacyCopy(milestone: IMilestone): Promise<void> {
+    const match = milestone.legacySource?.match(
+      /^project:([a-f0-9]{24}):milestones:(\d+)$/,
+    );
+    if (!match) return;
+
+    const [, projectId, index] = match;
+    await Project.updateOne(
+      { _id: projectId },
+      {
+        $set: {
+          [`milestones.${index}.status`]: milestone.status,
+          ...(milestone.status === "released" && {
+            [`milestones.${index}.completedAt`]: milestone.releasedAt,
+            [`milestones.${index}.releaseTransactionHash`]:
+              milestone.releaseTxHash,
+          }),
+        },
+      },
+    );
+  }
+
+  /**
+   * Set the Trustless Work flags of the escrow milestone a migrated
+   * milestone came from. Projects without escrow milestones are left alone.
+   */
+  static async syncEscrowFlags(
+    milestone: IMilestone,
+    flags: EscrowMilestoneFlags,
+  ): Promise<void> {
+    const match = milestone.legacySource?.match(
+      /^project:([a-f0-9]{24}):(?:milestones|escrowDetails\.milestones):(\d+)$/,
+    );
+    if (!match) return;
+
+    const [, projectId, index] = match;
+    const path = `escrowDetails.milestones.${index}`;
+    await Project.updateOne(
+      { _id: projectId, [path]: { $exists: true } },
+      {
+        $set: Object.fromEntries(
+          Object.entries(flags).map(([flag, value]) => [
+            `${path}.flags.${flag}`,
+            value,
+          ]),
+        ),
+      },
+    );
+  }
+}
+
+export default MilestoneService;
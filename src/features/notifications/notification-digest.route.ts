@@ -0,0 +1,52 @@
+import express from "express";
+import notificationController from "./notification.controller.js";
+
+// Public routes: authenticated by the signed token in the digest email
+const router = express.Router();
+
+/**
+ * @swagger
+ * /notifications/digest/unsubscribe:
+ *   get:
+ *     summary: Confirm unsubscribing from digest emails
+ *     description: |
+ *       The link in the email. Shows a page asking to confirm, whose button
+ *       sends the POST below; opening the link changes nothing, so link
+ *       scanners can't unsubscribe anyone. No login required.
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Confirmation page
+ *       302:
+ *         description: Invalid link, redirect to the frontend unsubscribe page
+ *   post:
+ *     summary: Unsubscribe from digest emails
+ *     description: |
+ *       Sent by the confirmation page, which is redirected to the frontend
+ *       with the outcome, or as an RFC 8058 one-click request by mail
+ *       clients, with `List-Unsubscribe=One-Click` as the form body.
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Unsubscribed from digest emails (one-click)
+ *       302:
+ *         description: Redirect to the frontend unsubscribe page
+ *       400:
+ *         description: Invalid unsubscribe link (one-click)
+ */
+router.get("/unsubscribe", notificationController.confirmDigestUnsubscribe);
+router.post("/unsubscribe", notificationController.unsubscribeDigest);
+
+export default router;
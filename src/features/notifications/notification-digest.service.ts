@@ -0,0 +1,284 @@
+import mongoose from "mongoose";
+import User from "../../models/user.model.js";
+import {
+  DigestFrequency,
+  NotificationGroup,
+  NotificationType,
+} from "../../models/notification.model.js";
+import NotificationDigestItem, {
+  DigestContextKind,
+  INotificationDigestItem,
+} from "../../models/notification-digest-item.model.js";
+import EmailTemplatesService from "../../services/email/email-templates.service.js";
+import { queueEmail } from "../../utils/email.utils.js";
+import { generateUnsubscribeToken } from "../../utils/jwt.utils.js";
+import { getNotificationGroup } from "./notification-preferences.js";
+import type { NotificationData } from "./notification.service.js";
+import { config } from "../../config/main.config.js";
+
+export interface DigestSection {
+  title: string;
+  url?: string;
+  items: Array<{ title: string; message: string; createdAt: Date }>;
+}
+
+export interface DigestRunResult {
+  users: number;
+  emailsSent: number;
+  itemsSent: number;
+}
+
+// Items beyond this per digest are summarised as a count
+const MAX_ITEMS_PER_DIGEST = 50;
+
+export class NotificationDigestService {
+  /**
+   * Hold a notification back for the recipient's next digest
+   */
+  static async addItem(
+    userId: mongoose.Types.ObjectId,
+    type: NotificationType,
+    title: string,
+    message: string,
+    data: NotificationData = {},
+    deliveryKey?: string,
+  ): Promise<void> {
+    const group = getNotificationGroup(type);
+    if (!group) {
+      return;
+    }
+
+    const item = {
+      userId,
+      type,
+      group,
+      title,
+      message,
+      context: this.getContext(data),
+    };
+
+    if (!deliveryKey) {
+      await NotificationDigestItem.create(item);
+      return;
+    }
+
+    // A retried delivery finds the item it already added
+    await NotificationDigestItem.updateOne(
+      { deliveryKey },
+      { $setOnInsert: { ...item, deliveryKey } },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Send the digest to every user on the given frequency with pending items
+   */
+  static async sendDigests(
+    frequency: DigestFrequency,
+  ): Promise<DigestRunResult> {
+    const result: DigestRunResult = { users: 0, emailsSent: 0, itemsSent: 0 };
+
+    const pendingUserIds = await NotificationDigestItem.distinct("userId", {
+      sentAt: null,
+    });
+    if (pendingUserIds.length === 0) {
+      return result;
+    }
+
+    // Daily is the default for users who never picked a frequency
+    const frequencyFilter =
+      frequency === DigestFrequency.DAILY
+        ? { $in: [DigestFrequency.DAILY, null] }
+        : frequency;
+
+    const users = await User.find({
+      _id: { $in: pendingUserIds },
+      "settings.notifications.digestFrequency": frequencyFilter,
+    })
+      .select("email profile.firstName profile.lastName settings.notifications")
+      .lean();
+
+    for (const user of users) {
+      try {
+        result.users++;
+
+        const items = await NotificationDigestItem.find({
+          userId: user._id,
+          sentAt: null,
+        })
+          .sort({ createdAt: -1 })
+          .lean();
+
+        if (items.length === 0) {
+          continue;
+        }
+
+        // Email switched off since the items were stored: drop them
+        if (user.settings?.notifications?.email === false || !user.email) {
+          await this.markSent(items);
+          continue;
+        }
+
+        const included = items.slice(0, MAX_ITEMS_PER_DIGEST);
+        const unsubscribeUrl = this.getUnsubscribeUrl(user._id.toString());
+        const template = EmailTemplatesService.getTemplate(
+          "notification-digest",
+          {
+            recipientName:
+              `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
+              "there",
+            frequency,
+            totalCount: items.length,
+            omittedCount: items.length - included.length,
+            sections: this.buildSections(included),
+            unsubscribeUrl,
+          },
+        );
+
+        await queueEmail({
+          to: user.email,
+          subject: template.subject,
+          html: template.html,
+          text: template.text || "",
+          priority: "low",
+          listUnsubscribe: `<${unsubscribeUrl}>`,
+          customHeaders: {
+            "X-Email-Type": "notification-digest",
+            "X-Recipient-ID": user._id.toString(),
+          },
+        });
+
+        await this.markSent(items);
+        result.emailsSent++;
+        result.itemsSent += items.length;
+      } catch (error) {
+        console.error(`Error sending digest to user ${user._id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Stop the digest for a user. Groups that were rolled up into the digest
+   * stop emailing altogether; everything else is left as it was.
+   */
+  static async unsubscribe(userId: string): Promise<boolean> {
+    const user = await User.findById(userId)
+      .select("settings.notifications")
+      .lean();
+    if (!user) {
+      return false;
+    }
+
+    const updates: Record<string, boolean> = {};
+    Object.values(NotificationGroup).forEach((group) => {
+      if (user.settings?.notifications?.groups?.[group]?.digest) {
+        updates[`settings.notifications.groups.${group}.digest`] = false;
+        updates[`settings.notifications.groups.${group}.email`] = false;
+      }
+    });
+
+    if (Object.keys(updates).length > 0) {
+      await User.updateOne({ _id: userId }, { $set: updates });
+    }
+    await NotificationDigestItem.deleteMany({ userId, sentAt: null });
+
+    return true;
+  }
+
+  /**
+   * One section per project or hackathon, in order of latest activity
+   */
+  private static buildSections(
+    items: Array<
+      Pick<
+        INotificationDigestItem,
+        "title" | "message" | "context" | "createdAt"
+      >
+    >,
+  ): DigestSection[] {
+    const frontendUrl = config.frontendUrl;
+    const sections = new Map<string, DigestSection>();
+
+    items.forEach((item) => {
+      const { kind, id, name, slug } = item.context || {};
+      const key =
+        kind && kind !== DigestContextKind.GENERAL && id
+          ? `${kind}:${id}`
+          : DigestContextKind.GENERAL;
+
+      if (!sections.has(key)) {
+        sections.set(key, {
+          title:
+            key === DigestContextKind.GENERAL
+              ? "Other activity"
+              : name ||
+                (kind === DigestContextKind.PROJECT ? "Project" : "Hackathon"),
+          url:
+            kind === DigestContextKind.PROJECT && id
+              ? `${frontendUrl}/projects/${id}`
+              : kind === DigestContextKind.HACKATHON && id
+                ? `${frontendUrl}/hackathons/${slug || id}`
+                : undefined,
+          items: [],
+        });
+      }
+
+      sections.get(key)!.items.push({
+        title: item.title,
+        message: item.message,
+        createdAt: item.createdAt,
+      });
+    });
+
+    // Keep the catch-all section last
+    return Array.from(sections.entries())
+      .sort(([a], [b]) =>
+        a === DigestContextKind.GENERAL
+          ? 1
+          : b === DigestContextKind.GENERAL
+            ? -1
+            : 0,
+      )
+      .map(([, section]) => section);
+  }
+
+  private static getContext(
+    data: NotificationData,
+  ): INotificationDigestItem["context"] {
+    if (data.projectId) {
+      return {
+        kind: DigestContextKind.PROJECT,
+        id: data.projectId.toString(),
+        name: data.projectTitle || data.projectName,
+      };
+    }
+    if (data.hackathonId) {
+      return {
+        kind: DigestContextKind.HACKATHON,
+        id: data.hackathonId.toString(),
+        name: data.hackathonName,
+        slug: data.hackathonSlug,
+      };
+    }
+    return { kind: DigestContextKind.GENERAL };
+  }
+
+  private static getUnsubscribeUrl(userId: string): string {
+    return `${config.BETTER_AUTH_URL}/api/notifications/digest/unsubscribe?token=${encodeURIComponent(
+      generateUnsubscribeToken(userId),
+    )}`;
+  }
+
+  private static async markSent(
+    items: Array<{ _id: mongoose.Types.ObjectId }>,
+  ): Promise<void> {
+    await NotificationDigestItem.updateMany(
+      { _id: { $in: items.map((item) => item._id) } },
+      { $set: { sentAt: new Date() } },
+    );
+  }
+}
+
+export default NotificationDigestService;
@@ -0,0 +1,102 @@
+import {
+  NotificationGroup,
+  NotificationType,
+} from "../../models/notification.model.js";
+import {
+  NotificationChannelPreferences,
+  NotificationSettings,
+} from "../../models/user.model.js";
+
+export const NOTIFICATION_CHANNELS: Array<
+  keyof NotificationChannelPreferences
+> = ["email", "inApp", "digest"];
+
+export const DEFAULT_CHANNEL_PREFERENCES: NotificationChannelPreferences = {
+  email: true,
+  inApp: true,
+  digest: false,
+};
+
+/**
+ * Prefix of the NotificationType values that belong to each group
+ */
+const GROUP_PREFIXES: Array<[string, NotificationGroup]> = [
+  ["PROJECT_", NotificationGroup.PROJECT],
+  ["FUNDING_", NotificationGroup.FUNDING],
+  ["REFUND_", NotificationGroup.FUNDING],
+  ["VOTING_", NotificationGroup.VOTING],
+  ["VOTE_", NotificationGroup.VOTING],
+  ["MILESTONE_", NotificationGroup.MILESTONE],
+  ["COMMENT_", NotificationGroup.COMMENT],
+  ["REACTION_", NotificationGroup.COMMENT],
+  ["ORGANIZATION_", NotificationGroup.ORGANIZATION],
+  ["HACKATHON_", NotificationGroup.HACKATHON],
+  ["TEAM_", NotificationGroup.TEAM],
+];
+
+/**
+ * Group a notification type belongs to. Account and security notifications
+ * have no group and cannot be muted per group.
+ */
+export const getNotificationGroup = (
+  type: NotificationType,
+): NotificationGroup | null => {
+  const match = GROUP_PREFIXES.find(([prefix]) => type.startsWith(prefix));
+  return match ? match[1] : null;
+};
+
+/**
+ * Full preference matrix for a user, with defaults filled in
+ */
+export const getPreferenceMatrix = (
+  settings?: Partial<NotificationSettings>,
+): Record<NotificationGroup, NotificationChannelPreferences> =>
+  Object.values(NotificationGroup).reduce(
+    (matrix, group) => {
+      matrix[group] = {
+        ...DEFAULT_CHANNEL_PREFERENCES,
+        ...(settings?.groups?.[group] || {}),
+      };
+      return matrix;
+    },
+    {} as Record<NotificationGroup, NotificationChannelPreferences>,
+  );
+
+/**
+ * Channels a notification of the given type should go out on for a user
+ */
+export const resolveChannelPreferences = (
+  settings: Partial<NotificationSettings> | undefined,
+  type: NotificationType,
+): NotificationChannelPreferences => {
+  const group = getNotificationGroup(type);
+  const groupPreferences = group
+    ? { ...DEFAULT_CHANNEL_PREFERENCES, ...(settings?.groups?.[group] || {}) }
+    : DEFAULT_CHANNEL_PREFERENCES;
+
+  return {
+    email: settings?.email !== false && groupPreferences.email,
+    inApp: settings?.inApp !== false && groupPreferences.inApp,
+    digest: settings?.email !== false && groupPreferences.digest,
+  };
+};
+
+/**
+ * Low-priority types that are rolled up into the digest email instead of
+ * being emailed one by one when the group's digest channel is on
+ */
+const DIGEST_ELIGIBLE_TYPES = new Set<NotificationType>([
+  NotificationType.PROJECT_UPDATED,
+  NotificationType.VOTE_RECEIVED,
+  NotificationType.MILESTONE_UPDATED,
+  NotificationType.COMMENT_RECEIVED,
+  NotificationType.COMMENT_REPLY,
+  NotificationType.COMMENT_MENTION,
+  NotificationType.REACTION_RECEIVED,
+  NotificationType.ORGANIZATION_UPDATED,
+  NotificationType.HACKATHON_UPDATED,
+  NotificationType.HACKATHON_SUBMISSION_SUBMITTED,
+]);
+
+export const isDigestEligible = (type: NotificationType): boolean =>
+  DIGEST_ELIGIBLE_TYPES.has(type);
@@ -0,0 +1,60 @@
+import mongoose from "mongoose";
+import Notification, {
+  INotification,
+} from "../../models/notification.model.js";
+import pubsub from "../../services/pubsub/pubsub.service.js";
+
+export enum NotificationStreamEvent {
+  NOTIFICATION = "notification",
+  UNREAD_COUNT = "unread-count",
+}
+
+export interface NotificationStreamMessage {
+  event: NotificationStreamEvent;
+  id?: string; // Only notifications carry an id, so Last-Event-ID always points at one
+  data: any;
+}
+
+const channelFor = (userId: mongoose.Types.ObjectId | string): string =>
+  `notifications:${userId.toString()}`;
+
+export const getUnreadCount = (
+  userId: mongoose.Types.ObjectId | string,
+): Promise<number> =>
+  Notification.countDocuments({ "userId.type": userId, read: false });
+
+/**
+ * Push a newly created notification to the user's open streams
+ */
+export const publishNotification = async (
+  userId: mongoose.Types.ObjectId,
+  notification: INotification,
+): Promise<void> => {
+  await pubsub.publish(channelFor(userId), {
+    event: NotificationStreamEvent.NOTIFICATION,
+    id: notification._id.toString(),
+    data: notification.toJSON(),
+  } as NotificationStreamMessage);
+};
+
+/**
+ * Push the user's current unread count to their open streams
+ */
+export const publishUnreadCount = async (
+  userId: mongoose.Types.ObjectId | string,
+): Promise<void> => {
+  try {
+    const unread = await getUnreadCount(userId);
+    await pubsub.publish(channelFor(userId), {
+      event: NotificationStreamEvent.UNREAD_COUNT,
+      data: { unread },
+    } as NotificationStreamMessage);
+  } catch (error) {
+    console.error("Error publishing unread count:", error);
+  }
+};
+
+export const subscribeToNotifications = (
+  userId: mongoose.Types.ObjectId | string,
+  handler: (message: NotificationStreamMessage) => void,
+): (() => void) => pubsub.subscribe(channelFor(userId), handler);
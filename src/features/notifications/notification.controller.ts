@@ -1,7 +1,38 @@
 import { Request, Response } from "express";
-import notificationModel from "../../models/notification.model.js";
+import mongoose from "mongoose";
+import notificationModel, {
+  DigestFrequency,
+  NotificationGroup,
+} from "../../models/notification.model.js";
+import User, {
+  IUser,
+  NotificationChannelPreferences,
+} from "../../models/user.model.js";
+import {
+  NOTIFICATION_CHANNELS,
+  getPreferenceMatrix,
+} from "./notification-preferences.js";
+import NotificationDigestService from "./notification-digest.service.js";
+import { verifyUnsubscribeToken } from "../../utils/jwt.utils.js";
+import {
+  NotificationStreamEvent,
+  NotificationStreamMessage,
+  getUnreadCount,
+  publishUnreadCount,
+  subscribeToNotifications,
+} from "./notification-stream.js";
+import { config } from "../../config/main.config.js";
 
 type MarkAsReadBody = { ids: string[]; all?: boolean };
+type UpdatePreferenceBody = {
+  email?: boolean;
+  push?: boolean;
+  inApp?: boolean;
+  groups?: Record<string, Partial<NotificationChannelPreferences>>;
+  digestFrequency?: DigestFrequency;
+};
+
+const MASTER_CHANNELS = ["email", "push", "inApp"] as const;
 
 const getNotifications = async (req: Request, res: Response) => {
   try {
@@ -71,6 +102,8 @@ const markAsRead = async (req: Request, res: Response) => {
         .json({ message: "Either 'ids' or 'all' must be provided" });
     }
 
+    await publishUnreadCount(userId);
+
     res.status(200).json({ message: "Notifications marked as read" });
   } catch (error) {
     console.error("Error marking notifications as read:", error);
@@ -78,13 +111,221 @@ const markAsRead = async (req: Request, res: Response) => {
   }
 };
 
+// Replayed on reconnect; older missed notifications are left to GET /notifications
+const STREAM_REPLAY_LIMIT = 100;
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+
+const writeStreamEvent = (
+  res: Response,
+  message: NotificationStreamMessage,
+) => {
+  if (message.id) {
+    res.write(`id: ${message.id}\n`);
+  }
+  res.write(`event: ${message.event}\n`);
+  res.write(`data: ${JSON.stringify(message.data)}\n\n`);
+  // Push through the compression middleware's buffer
+  (res as any).flush?.();
+};
+
+/**
+ * Server-Sent Events stream of new notifications and unread counts.
+ * Reconnecting clients send Last-Event-ID (the last notification id they
+ * received) and get everything created since replayed first.
+ */
+const streamNotifications = async (req: Request, res: Response) => {
+  const userId = req.user?._id;
+
+  if (!userId) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Disable proxy buffering (nginx)
+  });
+  res.write("retry: 5000\n\n");
+
+  // Buffer live messages until the replay has been written, so nothing
+  // created in between is lost or sent out of order
+  let replaying = true;
+  const pending: NotificationStreamMessage[] = [];
+  const unsubscribe = subscribeToNotifications(userId, (message) => {
+    if (replaying) {
+      pending.push(message);
+    } else {
+      writeStreamEvent(res, message);
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(": heartbeat\n\n");
+    (res as any).flush?.();
+  }, STREAM_HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  try {
+    const lastEventId =
+      req.header("Last-Event-ID") || (req.query.lastEventId as string);
+    const replayedIds = new Set<string>();
+
+    if (lastEventId && mongoose.Types.ObjectId.isValid(lastEventId)) {
+      const missed = await notificationModel
+        .find({
+          "userId.type": userId,
+          _id: { $gt: new mongoose.Types.ObjectId(lastEventId) },
+        })
+        .sort({ _id: 1 })
+        .limit(STREAM_REPLAY_LIMIT);
+
+      missed.forEach((notification) => {
+        replayedIds.add(notification._id.toString());
+        writeStreamEvent(res, {
+          event: NotificationStreamEvent.NOTIFICATION,
+          id: notification._id.toString(),
+          data: notification.toJSON(),
+        });
+      });
+    }
+
+    writeStreamEvent(res, {
+      event: NotificationStreamEvent.UNREAD_COUNT,
+      data: { unread: await getUnreadCount(userId) },
+    });
+
+    pending
+      .filter((message) => !message.id || !replayedIds.has(message.id))
+      .forEach((message) => writeStreamEvent(res, message));
+    replaying = false;
+  } catch (error) {
+    console.error("Error starting notification stream:", error);
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  }
+};
+
+const getPreference = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const user = await User.findById(userId)
+      .select("settings.notifications")
+      .lean();
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    res.status(200).json({ data: formatPreferences(user) });
+  } catch (error) {
+    console.error("Error fetching notification preference:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
 const updatePreference = async (req: Request, res: Response) => {
   try {
     const userId = req.user?._id;
-    console.log("User ID:", userId);
+
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const { groups, digestFrequency, ...channels }: UpdatePreferenceBody =
+      req.body || {};
+    const updates: Record<string, boolean | string> = {};
+
+    if (digestFrequency !== undefined) {
+      if (!Object.values(DigestFrequency).includes(digestFrequency)) {
+        return res.status(400).json({
+          message: `'digestFrequency' must be one of: ${Object.values(DigestFrequency).join(", ")}`,
+        });
+      }
+      updates["settings.notifications.digestFrequency"] = digestFrequency;
+    }
+
+    for (const channel of MASTER_CHANNELS) {
+      if (channels[channel] === undefined) continue;
+      if (typeof channels[channel] !== "boolean") {
+        return res
+          .status(400)
+          .json({ message: `'${channel}' must be a boolean` });
+      }
+      updates[`settings.notifications.${channel}`] = channels[channel];
+    }
+
+    if (groups !== undefined) {
+      if (typeof groups !== "object" || groups === null) {
+        return res.status(400).json({ message: "'groups' must be an object" });
+      }
+
+      for (const [group, groupChannels] of Object.entries(groups)) {
+        if (
+          !Object.values(NotificationGroup).includes(group as NotificationGroup)
+        ) {
+          return res.status(400).json({
+            message: `Unknown notification group '${group}'. Must be one of: ${Object.values(NotificationGroup).join(", ")}`,
+          });
+        }
+        if (typeof groupChannels !== "object" || groupChannels === null) {
+          return res
+            .status(400)
+            .json({ message: `'groups.${group}' must be an object` });
+        }
+
+        for (const [channel, enabled] of Object.entries(groupChannels)) {
+          if (
+            !NOTIFICATION_CHANNELS.includes(
+              channel as keyof NotificationChannelPreferences,
+            )
+          ) {
+            return res.status(400).json({
+              message: `Unknown channel '${channel}'. Must be one of: ${NOTIFICATION_CHANNELS.join(", ")}`,
+            });
+          }
+          if (typeof enabled !== "boolean") {
+            return res.status(400).json({
+              message: `'groups.${group}.${channel}' must be a boolean`,
+            });
+          }
+          updates[`settings.notifications.groups.${group}.${channel}`] =
+            enabled;
+        }
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return res
+        .status(400)
+        .json({ message: "No notification preferences provided" });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set: updates },
+      { new: true },
+    )
+      .select("settings.notifications")
+      .lean();
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
 
     res.status(200).json({
       message: "Notification preference updated",
+      data: formatPreferences(user),
     });
   } catch (error) {
     console.error("Error updating notification preference:", error);
@@ -92,8 +333,89 @@ const updatePreference = async (req: Request, res: Response) => {
   }
 };
 
+const formatPreferences = (user: { settings?: IUser["settings"] }) => {
+  const settings = user.settings?.notifications;
+
+  return {
+    email: settings?.email !== false,
+    push: settings?.push !== false,
+    inApp: settings?.inApp !== false,
+    digestFrequency: settings?.digestFrequency || DigestFrequency.DAILY,
+    groups: getPreferenceMatrix(settings),
+  };
+};
+
+/**
+ * Ask to confirm unsubscribing from the digest. The link in the email only
+ * shows this page: link scanners and prefetchers follow it too, so the
+ * change itself needs the POST the confirm button sends.
+ */
+const confirmDigestUnsubscribe = (req: Request, res: Response) => {
+  const token = req.query.token as string | undefined;
+  if (!token || !verifyUnsubscribeToken(token)) {
+    return res.redirect(
+      `${config.frontendUrl}/notifications/unsubscribed?status=invalid`,
+    );
+  }
+
+  res.type("html").send(`<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Unsubscribe from Boundless digest emails</title>
+  </head>
+  <body style="font-family: sans-serif; max-width: 480px; margin: 64px auto; text-align: center;">
+    <h1>Unsubscribe from digest emails?</h1>
+    <p>You will stop getting the daily or weekly summary of your notifications.</p>
+    <form method="post" action="?token=${encodeURIComponent(token)}">
+      <button type="submit">Unsubscribe</button>
+    </form>
+  </body>
+</html>`);
+};
+
+/**
+ * Unsubscribe from the digest using the signed token from the email. The
+ * confirmation page's form redirects to the frontend with the outcome; an
+ * RFC 8058 one-click request from a mail client, which carries
+ * `List-Unsubscribe=One-Click` in its body, gets a JSON answer.
+ */
+const unsubscribeDigest = async (req: Request, res: Response) => {
+  const frontendUrl = config.frontendUrl;
+  const isOneClick = req.body?.["List-Unsubscribe"] === "One-Click";
+
+  try {
+    const token = (req.query.token || req.body?.token) as string | undefined;
+    const userId = token ? verifyUnsubscribeToken(token) : null;
+    const unsubscribed = userId
+      ? await NotificationDigestService.unsubscribe(userId)
+      : false;
+
+    if (isOneClick) {
+      return unsubscribed
+        ? res.status(200).json({ message: "Unsubscribed from digest emails" })
+        : res.status(400).json({ message: "Invalid unsubscribe link" });
+    }
+
+    res.redirect(
+      `${frontendUrl}/notifications/unsubscribed?status=${unsubscribed ? "success" : "invalid"}`,
+    );
+  } catch (error) {
+    console.error("Error unsubscribing from digest:", error);
+    if (isOneClick) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+    res.redirect(`${frontendUrl}/notifications/unsubscribed?status=error`);
+  }
+};
+
 export default {
   getNotifications,
+  streamNotifications,
   markAsRead,
+  getPreference,
   updatePreference,
+  confirmDigestUnsubscribe,
+  unsubscribeDigest,
 };
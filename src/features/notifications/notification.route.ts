@@ -47,6 +47,38 @@ const router = express.Router();
  */
 router.get("/", notificationController.getNotifications);
 
+/**
+ * @swagger
+ * /notifications/stream:
+ *   get:
+ *     summary: Stream notifications in real time (Server-Sent Events)
+ *     description: |
+ *       Emits `notification` events with the new Notification document
+ *       (the event id is the notification id) and `unread-count` events
+ *       with `{ unread }` whenever the count changes. Send the
+ *       `Last-Event-ID` header (or `lastEventId` query parameter) when
+ *       reconnecting to receive notifications created while disconnected.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: string
+ *         description: Id of the last notification received
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/stream", notificationController.streamNotifications);
+
 /**
  * @swagger
  * /notifications/read:
@@ -78,11 +110,33 @@ router.get("/", notificationController.getNotifications);
  */
 router.put("/read", notificationController.markAsRead);
 
+/**
+ * @swagger
+ * /notifications/preference:
+ *   get:
+ *     summary: Get notification preferences
+ *     description: Returns the master channel switches and the preference matrix per notification group
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notification preferences
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/preference", notificationController.getPreference);
+
 /**
  * @swagger
  * /notifications/preference:
  *   put:
  *     summary: Update notification preferences
+ *     description: |
+ *       Master switches turn a channel off for every group. Per-group
+ *       preferences are merged, so only the channels sent are changed.
+ *       Groups: project, funding, voting, milestone, comment, organization,
+ *       hackathon, team. Channels: email, inApp, digest.
  *     tags: [Notifications]
  *     security:
  *       - bearerAuth: []
@@ -102,9 +156,29 @@ router.put("/read", notificationController.markAsRead);
  *               inApp:
  *                 type: boolean
  *                 description: Enable/disable in-app notifications
+ *               digestFrequency:
+ *                 type: string
+ *                 enum: [daily, weekly]
+ *                 description: How often the digest of low-priority notifications is sent
+ *               groups:
+ *                 type: object
+ *                 description: Channel preferences keyed by notification group
+ *                 additionalProperties:
+ *                   type: object
+ *                   properties:
+ *                     email:
+ *                       type: boolean
+ *                     inApp:
+ *                       type: boolean
+ *                     digest:
+ *                       type: boolean
+ *                 example:
+ *                   comment: { email: false, digest: true }
  *     responses:
  *       200:
  *         description: Notification preferences updated successfully
+ *       400:
+ *         description: Invalid group, channel or value
  *       500:
  *         description: Internal server error
  */
@@ -1,9 +1,21 @@
 import mongoose from "mongoose";
-import User from "../../models/user.model.js";
+import User, {
+  NotificationChannelPreferences,
+} from "../../models/user.model.js";
 import Notification, {
   NotificationType,
 } from "../../models/notification.model.js";
-import { sendEmail } from "../../utils/email.utils.js";
+import { queueEmail } from "../../utils/email.utils.js";
+import jobQueue, { JobName } from "../../services/queue/job-queue.service.js";
+import {
+  isDigestEligible,
+  resolveChannelPreferences,
+} from "./notification-preferences.js";
+import NotificationDigestService from "./notification-digest.service.js";
+import {
+  publishNotification,
+  publishUnreadCount,
+} from "./notification-stream.js";
 
 export interface NotificationData {
   projectId?: mongoose.Types.ObjectId;
@@ -25,6 +37,8 @@ export interface NotificationRecipient {
   userId: mongoose.Types.ObjectId;
   email: string;
   name: string;
+  // Only used for recipients without an account. Account holders are
+  // resolved against their saved preference matrix at delivery time.
   preferences?: {
     email: boolean;
     inApp: boolean;
@@ -45,68 +59,129 @@ export interface NotificationOptions {
 
 export class NotificationService {
   /**
-   * Send a notification to multiple recipients
+   * Send a notification to multiple recipients.
+   * Delayed notifications are persisted as a background job instead of
+   * waiting in-process, and emails are always delivered through the job queue.
    */
   static async sendNotification(options: NotificationOptions): Promise<void> {
     try {
-      const {
-        type,
-        title,
-        message,
-        data = {},
-        recipients,
-        emailTemplate,
-        sendEmail = true,
-        sendInApp = true,
-        delay = 0,
-      } = options;
+      const { delay = 0, ...deliveryOptions } = options;
 
-      // Apply delay if specified
       if (delay > 0) {
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await jobQueue.enqueue(JobName.SEND_NOTIFICATION, deliveryOptions, {
+          delay,
+        });
+        return;
       }
 
-      // Process each recipient
-      const promises = recipients.map(async (recipient) => {
-        const recipientPromises: Promise<void>[] = [];
-
-        // Send in-app notification
-        if (sendInApp && recipient.preferences?.inApp !== false) {
-          recipientPromises.push(
-            this.createInAppNotification(
-              recipient.userId,
-              type,
-              title,
-              message,
-              data,
-            ),
-          );
-        }
-
-        // Send email notification
-        if (
-          sendEmail &&
-          recipient.preferences?.email !== false &&
-          emailTemplate
-        ) {
-          recipientPromises.push(
-            this.sendEmailNotification(recipient, emailTemplate, data),
-          );
-        }
-
-        return Promise.all(recipientPromises);
-      });
-
-      await Promise.all(promises);
-      console.log(
-        `✅ Notifications sent to ${recipients.length} recipients for ${type}`,
-      );
+      await this.deliverNotification(deliveryOptions);
     } catch (error) {
       console.error("Error sending notifications:", error);
       // Don't throw error to avoid breaking the main flow
     }
   }
 
+  /**
+   * Create in-app notifications and queue emails for every recipient.
+   * Throws on failure so the job queue can retry delayed notifications.
+   * A retried job passes the same deliveryKey, so recipients it already
+   * reached are not notified twice.
+   */
+  static async deliverNotification(
+    options: Omit<NotificationOptions, "delay">,
+    deliveryKey?: string,
+  ): Promise<void> {
+    const {
+      type,
+      title,
+      message,
+      data = {},
+      recipients,
+      emailTemplate,
+      sendEmail = true,
+      sendInApp = true,
+    } = options;
+
+    const channels = await this.resolveRecipientChannels(recipients, type);
+
+    // Process each recipient
+    const promises = recipients.map(async (recipient) => {
+      const recipientPromises: Promise<void>[] = [];
+      const recipientKey =
+        deliveryKey && `${deliveryKey}:${recipient.userId.toString()}`;
+      const preferences = channels.get(recipient.userId.toString()) || {
+        email: recipient.preferences?.email !== false,
+        inApp: recipient.preferences?.inApp !== false,
+        digest: false,
+      };
+
+      // Send in-app notification
+      if (sendInApp && preferences.inApp) {
+        recipientPromises.push(
+          this.createInAppNotification(
+            recipient.userId,
+            type,
+            title,
+            message,
+            data,
+            recipientKey,
+          ),
+        );
+      }
+
+      // Low-priority emails wait for the digest when the user opted in
+      if (sendEmail && preferences.digest && isDigestEligible(type)) {
+        recipientPromises.push(
+          NotificationDigestService.addItem(
+            recipient.userId,
+            type,
+            title,
+            message,
+            data,
+            recipientKey,
+          ),
+        );
+      } else if (sendEmail && preferences.email && emailTemplate) {
+        recipientPromises.push(
+          this.sendEmailNotification(
+            recipient,
+            emailTemplate,
+            data,
+            recipientKey,
+          ),
+        );
+      }
+
+      return Promise.all(recipientPromises);
+    });
+
+    await Promise.all(promises);
+    console.log(
+      `✅ Notifications sent to ${recipients.length} recipients for ${type}`,
+    );
+  }
+
+  /**
+   * Look up the channel preferences of every recipient with an account
+   */
+  private static async resolveRecipientChannels(
+    recipients: NotificationRecipient[],
+    type: NotificationType,
+  ): Promise<Map<string, NotificationChannelPreferences>> {
+    const users = await User.find({
+      _id: { $in: recipients.map((recipient) => recipient.userId) },
+    })
+      .select("settings.notifications")
+      .lean();
+
+    return new Map(
+      users.map((user) => [
+        user._id.toString(),
+        resolveChannelPreferences(user.settings?.notifications, type),
+      ]),
+    );
+  }
+
   /**
    * Send notification to a single recipient
    */
@@ -131,7 +206,7 @@ export class NotificationService {
   ): Promise<void> {
     try {
       const creator = await User.findById(creatorId).select(
-        "email profile.firstName profile.lastName settings.notifications",
+        "email profile.firstName profile.lastName",
       );
 
       if (!creator || !creator.email) {
@@ -147,10 +222,6 @@ export class NotificationService {
         name:
           `${creator.profile?.firstName || ""} ${creator.profile?.lastName || ""}`.trim() ||
           "Creator",
-        preferences: {
-          email: creator.settings?.notifications?.email !== false,
-          inApp: creator.settings?.notifications?.inApp !== false,
-        },
       };
 
       await this.sendSingleNotification(recipient, {
@@ -165,6 +236,48 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send notification to backers of a project
+   */
+  static async notifyProjectBackers(
+    projectId: mongoose.Types.ObjectId,
+    projectTitle: string,
+    backerIds: mongoose.Types.ObjectId[],
+    options: Omit<NotificationOptions, "recipients">,
+  ): Promise<void> {
+    try {
+      const backers = await User.find({ _id: { $in: backerIds } }).select(
+        "email profile.firstName profile.lastName",
+      );
+
+      const recipients: NotificationRecipient[] = backers
+        .filter((backer) => backer.email)
+        .map((backer) => ({
+          userId: backer._id,
+          email: backer.email!,
+          name:
+            `${backer.profile?.firstName || ""} ${backer.profile?.lastName || ""}`.trim() ||
+            "Backer",
+        }));
+
+      if (recipients.length === 0) {
+        console.log(`No backers with email found for project: ${projectTitle}`);
+        return;
+      }
+
+      await this.sendNotification({
+        ...options,
+        recipients,
+        data: {
+          projectId,
+          ...(options.data || {}),
+        },
+      });
+    } catch (error) {
+      console.error("Error notifying project backers:", error);
+    }
+  }
+
   /**
    * Send notification to admin team
    */
@@ -175,9 +288,7 @@ export class NotificationService {
       const adminUsers = await User.find({
         "roles.role": "ADMIN",
         "roles.status": "ACTIVE",
-      }).select(
-        "email profile.firstName profile.lastName settings.notifications",
-      );
+      }).select("email profile.firstName profile.lastName");
 
       if (adminUsers.length === 0) {
         console.log("No admin users found to notify");
@@ -192,10 +303,6 @@ export class NotificationService {
           name:
             `${admin.profile?.firstName || ""} ${admin.profile?.lastName || ""}`.trim() ||
             "Admin",
-          preferences: {
-            email: admin.settings?.notifications?.email !== false,
-            inApp: admin.settings?.notifications?.inApp !== false,
-          },
         }));
 
       if (recipients.length === 0) {
@@ -228,9 +335,9 @@ export class NotificationService {
 
       for (const member of teamMembers) {
         if (member.userId) {
-          // If user has an account, get their preferences
+          // If user has an account, use their current email and name
           const user = await User.findById(member.userId).select(
-            "email profile.firstName profile.lastName settings.notifications",
+            "email profile.firstName profile.lastName",
           );
 
           if (user && user.email) {
@@ -240,10 +347,6 @@ export class NotificationService {
               name:
                 `${user.profile?.firstName || ""} ${user.profile?.lastName || ""}`.trim() ||
                 member.name,
-              preferences: {
-                email: user.settings?.notifications?.email !== false,
-                inApp: user.settings?.notifications?.inApp !== false,
-              },
             });
           }
         } else if (member.email) {
@@ -272,7 +375,8 @@ export class NotificationService {
   }
 
   /**
-   * Create in-app notification
+   * Create in-app notification. Does nothing when one was already created
+   * under the same delivery key.
    */
   private static async createInAppNotification(
     userId: mongoose.Types.ObjectId,
@@ -280,41 +384,54 @@ export class NotificationService {
     title: string,
     message: string,
     data: NotificationData,
+    deliveryKey?: string,
   ): Promise<void> {
-    try {
-      const notification = new Notification({
-        userId: { type: userId },
-        type,
-        title,
-        message,
-        data,
-        read: false,
-        emailSent: false,
-      });
+    if (deliveryKey && (await Notification.exists({ deliveryKey }))) {
+      return;
+    }
+
+    const notification = new Notification({
+      userId: { type: userId },
+      type,
+      title,
+      message,
+      data,
+      read: false,
+      emailSent: false,
+      ...(deliveryKey && { deliveryKey }),
+    });
 
+    try {
       await notification.save();
-    } catch (error) {
-      console.error("Error creating in-app notification:", error);
+    } catch (error: any) {
+      if (deliveryKey && error?.code === 11000) {
+        return;
+      }
+      throw error;
     }
+
+    await publishNotification(userId, notification);
+    await publishUnreadCount(userId);
   }
 
   /**
-   * Send email notification
+   * Queue email notification
    */
   private static async sendEmailNotification(
     recipient: NotificationRecipient,
     template: EmailTemplate,
     data: NotificationData,
+    deliveryKey?: string,
   ): Promise<void> {
-    try {
-      // Replace placeholders in template
-      const processedTemplate = this.processEmailTemplate(
-        template,
-        recipient,
-        data,
-      );
-
-      await sendEmail({
+    // Replace placeholders in template
+    const processedTemplate = this.processEmailTemplate(
+      template,
+      recipient,
+      data,
+    );
+
+    await queueEmail(
+      {
         to: recipient.email,
         subject: processedTemplate.subject,
         html: processedTemplate.html,
@@ -325,10 +442,9 @@ export class NotificationService {
           "X-Recipient-ID": recipient.userId.toString(),
           "X-Notification-Type": data.projectId ? "project" : "general",
         },
-      });
-    } catch (error) {
-      console.error("Error sending email notification:", error);
-    }
+      },
+      deliveryKey ? { dedupeKey: `${deliveryKey}:email` } : {},
+    );
   }
 
   /**
@@ -433,6 +549,8 @@ export class NotificationService {
         read: true,
         readAt: new Date(),
       });
+
+      await publishUnreadCount(userId);
     } catch (error) {
       console.error("Error marking notifications as read:", error);
     }
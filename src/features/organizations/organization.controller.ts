@@ -343,7 +343,6 @@ export const createOrganization = async (
           userId: user._id,
           email: user.email,
           name: ownerName,
-          preferences: user.settings?.notifications,
         },
         {
           type: NotificationType.ORGANIZATION_CREATED,
@@ -1370,7 +1369,6 @@ export const updateOrganizationMembers = async (
               name:
                 `${addedUser.profile?.firstName || ""} ${addedUser.profile?.lastName || ""}`.trim() ||
                 addedUser.email,
-              preferences: addedUser.settings?.notifications,
             },
             {
               type: NotificationType.ORGANIZATION_MEMBER_ADDED,
@@ -1444,7 +1442,6 @@ export const updateOrganizationMembers = async (
               name:
                 `${removedUser.profile?.firstName || ""} ${removedUser.profile?.lastName || ""}`.trim() ||
                 removedUser.email,
-              preferences: removedUser.settings?.notifications,
             },
             {
               type: NotificationType.ORGANIZATION_MEMBER_REMOVED,
@@ -2674,7 +2671,6 @@ export const acceptInvite = async (
           userId: user._id,
           email: user.email,
           name: memberName,
-          preferences: user.settings?.notifications,
         },
         {
           type: NotificationType.ORGANIZATION_INVITE_ACCEPTED,
@@ -3218,7 +3214,6 @@ export const assignRole = async (
             name:
               `${targetUser.profile?.firstName || ""} ${targetUser.profile?.lastName || ""}`.trim() ||
               targetUser.email,
-            preferences: targetUser.settings?.notifications,
           },
           {
             type: NotificationType.ORGANIZATION_ROLE_CHANGED,
@@ -5,6 +5,9 @@ import Project, {
 import Crowdfund, { CrowdfundStatus } from "../../models/crowdfund.model.js";
 import Vote from "../../models/vote.model.js";
 import User from "../../models/user.model.js";
+import Refund from "../../models/refund.model.js";
+import { buildRefundLedger } from "../crowdfunding/crowdfunding.helpers.js";
+import { sendFundingFailedNotifications } from "../crowdfunding/crowdfunding.notifications.js";
 import mongoose from "mongoose";
 import nodemailer from "nodemailer";
 
@@ -77,6 +80,9 @@ export class ProjectStatusService {
         await this.processExpiredVotingDeadlines(finalConfig);
       results.push(...expiredResults);
 
+      const failedCampaignResults = await this.processFailedCampaigns();
+      results.push(...failedCampaignResults);
+
       return results;
     } catch (error) {
       console.error("Error in processStatusTransitions:", error);
@@ -171,9 +177,10 @@ export class ProjectStatusService {
     }
   }
 
-  private static async processExpiredVotingDeadlines(
-    config: StatusTransitionConfig,
+  static async processExpiredVotingDeadlines(
+    overrides: Partial<StatusTransitionConfig> = {},
   ): Promise<StatusTransitionResult[]> {
+    const config = { ...this.DEFAULT_CONFIG, ...overrides };
     const results: StatusTransitionResult[] = [];
 
     try {
@@ -279,6 +286,93 @@ export class ProjectStatusService {
     }
   }
 
+  /**
+   * Move crowdfunding projects whose funding period ended below goal to
+   * FAILED and open a refund ledger entry for every contributor.
+   */
+  static async processFailedCampaigns(): Promise<StatusTransitionResult[]> {
+    const results: StatusTransitionResult[] = [];
+    const fundableStatuses = [
+      ProjectStatus.VALIDATED,
+      ProjectStatus.CAMPAIGNING,
+      ProjectStatus.LIVE,
+    ];
+
+    try {
+      const expiredProjects = await Project.find({
+        type: ProjectType.CROWDFUND,
+        status: { $in: fundableStatuses },
+        "funding.endDate": { $lt: new Date() },
+        $expr: { $lt: ["$funding.raised", "$funding.goal"] },
+      })
+        .select("_id")
+        .lean();
+
+      for (const { _id } of expiredProjects) {
+        const session = await mongoose.startSession();
+        session.startTransaction();
+
+        try {
+          // Guard on status so a concurrent run cannot fail a project twice
+          const project = await Project.findOneAndUpdate(
+            {
+              _id,
+              status: { $in: fundableStatuses },
+              $expr: { $lt: ["$funding.raised", "$funding.goal"] },
+            },
+            { status: ProjectStatus.FAILED },
+            { session },
+          );
+
+          if (!project) {
+            await session.abortTransaction();
+            continue;
+          }
+
+          const oldStatus = project.status;
+          const ledger = buildRefundLedger(project);
+          if (ledger.length > 0) {
+            await Refund.insertMany(
+              ledger.map((entry) => ({ ...entry, projectId: project._id })),
+              { session },
+            );
+          }
+
+          await session.commitTransaction();
+
+          const reason = `Funding period ended with ${project.funding.raised} of ${project.funding.goal} ${project.funding.currency} raised`;
+
+          try {
+            await sendFundingFailedNotifications(project, ledger);
+          } catch (notificationError) {
+            console.error(
+              `Error sending funding failed notifications for project ${project._id}:`,
+              notificationError,
+            );
+          }
+
+          results.push({
+            projectId: project._id.toString(),
+            oldStatus,
+            newStatus: ProjectStatus.FAILED,
+            reason,
+            timestamp: new Date(),
+          });
+        } catch (error) {
+          await session.abortTransaction();
+          console.error(`Error failing crowdfunding project ${_id}:`, error);
+        } finally {
+          session.endSession();
+        }
+      }
+
+      return results;
+    } catch (error) {
+      console.error("Error processing failed crowdfunding campaigns:", error);
+      throw error;
+    }
+  }
+
   static async updateProjectStatus(
     projectId: string,
     newStatus: ProjectStatus,
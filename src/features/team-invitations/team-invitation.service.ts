@@ -6,7 +6,7 @@ import TeamInvitation, {
 } from "../../models/team-invitation.model.js";
 import User from "../../models/user.model.js";
 import Project from "../../models/project.model.js";
-import { sendEmail } from "../../utils/email.utils.js";
+import { queueEmail } from "../../utils/email.utils.js";
 import EmailTemplatesService from "../../services/email/email-templates.service.js";
 
 export interface CreateTeamInvitationData {
@@ -121,7 +121,6 @@ export class TeamInvitationService {
               name:
                 `${existingUser.profile?.firstName || ""} ${existingUser.profile?.lastName || ""}`.trim() ||
                 existingUser.email,
-              preferences: existingUser.settings?.notifications,
             },
             {
               type: NotificationType.TEAM_INVITATION_SENT,
@@ -169,7 +168,6 @@ export class TeamInvitationService {
                   name:
                     `${creator.profile?.firstName || ""} ${creator.profile?.lastName || ""}`.trim() ||
                     creator.email,
-                  preferences: creator.settings?.notifications,
                 },
                 {
                   type: NotificationType.TEAM_INVITATION_SENT,
@@ -248,7 +246,7 @@ export class TeamInvitationService {
           },
         );
 
-        await sendEmail({
+        await queueEmail({
           to: invitation.email,
           subject: emailTemplate.subject,
           text: `You've been invited to join the team for "${project.title}" as ${invitation.role}. Click here to accept: ${invitationUrl}`,
@@ -275,7 +273,7 @@ export class TeamInvitationService {
           },
         );
 
-        await sendEmail({
+        await queueEmail({
           to: invitation.email,
           subject: emailTemplate.subject,
           text: `You've been invited to join the team for "${project.title}" as ${invitation.role}. Register here: ${registrationUrl}`,
@@ -395,7 +393,6 @@ export class TeamInvitationService {
               userId: acceptedUser._id,
               email: acceptedUser.email,
               name: memberName,
-              preferences: acceptedUser.settings?.notifications,
             },
             {
               type: NotificationType.TEAM_INVITATION_ACCEPTED,
@@ -437,7 +434,6 @@ export class TeamInvitationService {
                 name:
                   `${creator.profile?.firstName || ""} ${creator.profile?.lastName || ""}`.trim() ||
                   creator.email,
-                preferences: creator.settings?.notifications,
               },
               {
                 type: NotificationType.TEAM_INVITATION_ACCEPTED,
@@ -585,7 +581,6 @@ export class TeamInvitationService {
                 name:
                   `${creator.profile?.firstName || ""} ${creator.profile?.lastName || ""}`.trim() ||
                   creator.email,
-                preferences: creator.settings?.notifications,
               },
               {
                 type: NotificationType.TEAM_INVITATION_DECLINED,
@@ -743,7 +738,6 @@ export class TeamInvitationService {
                 name:
                   `${invitedUser.profile?.firstName || ""} ${invitedUser.profile?.lastName || ""}`.trim() ||
                   invitedUser.email,
-                preferences: invitedUser.settings?.notifications,
               },
               {
                 type: NotificationType.TEAM_INVITATION_CANCELLED,
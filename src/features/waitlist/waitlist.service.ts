@@ -4,7 +4,8 @@ import Waitlist, {
   IWaitlist,
   WaitlistStatus,
 } from "../../models/waitlist.model.js";
-import { sendEmail } from "../../utils/email.utils.js";
+import { EmailOptions, queueEmail } from "../../utils/email.utils.js";
+import jobQueue, { JobName } from "../../services/queue/job-queue.service.js";
 import { config } from "../../config/main.config.js";
 import {
   loadEmailTemplate,
@@ -43,6 +44,32 @@ export interface WaitlistStats {
 }
 
 export class WaitlistService {
+  /**
+   * Queue an email to a subscriber. Their email count goes up once the
+   * job has actually sent it.
+   */
+  private static async queueSubscriberEmail(
+    subscriber: IWaitlist,
+    email: EmailOptions,
+  ): Promise<void> {
+    await jobQueue.enqueue(JobName.SEND_WAITLIST_EMAIL, {
+      ...email,
+      subscriberId: subscriber._id.toString(),
+    });
+  }
+
+  /**
+   * Count an email as delivered to a subscriber
+   */
+  static async recordEmailSent(subscriberId: string): Promise<void> {
+    const subscriber = await Waitlist.findById(subscriberId);
+    if (!subscriber) {
+      return;
+    }
+    subscriber.incrementEmailCount();
+    await subscriber.save();
+  }
+
   static async subscribe(
     data: CreateWaitlistData,
     req?: any,
@@ -173,15 +200,12 @@ export class WaitlistService {
       const html = loadEmailTemplate(templatePath, templateVariables);
       const text = generatePlainTextFromTemplate(templateVariables);
 
-      await sendEmail({
+      await this.queueSubscriberEmail(subscriber, {
         to: subscriber.email,
         subject,
         text,
         html,
       });
-
-      subscriber.incrementEmailCount();
-      await subscriber.save();
     } catch (error) {
       console.error("Error sending welcome email with template:", error);
 
@@ -222,15 +246,12 @@ export class WaitlistService {
         Unsubscribe: ${unsubscribeUrl}
       `;
 
-      await sendEmail({
+      await this.queueSubscriberEmail(subscriber, {
         to: subscriber.email,
         subject,
         text: fallbackText,
         html: fallbackHtml,
       });
-
-      subscriber.incrementEmailCount();
-      await subscriber.save();
     }
   }
 
@@ -301,7 +322,7 @@ export class WaitlistService {
       © ${new Date().getFullYear()} Boundless. All rights reserved.
     `;
 
-    await sendEmail({
+    await queueEmail({
       to: subscriber.email,
       subject,
       text,
@@ -231,7 +231,6 @@ export const auth = betterAuth({
                 name:
                   `${existingUser.profile?.firstName || ""} ${existingUser.profile?.lastName || ""}`.trim() ||
                   existingUser.email,
-                preferences: existingUser.settings?.notifications,
               },
               {
                 type: NotificationType.ORGANIZATION_INVITE_SENT,
@@ -7,6 +7,23 @@ export interface IGrantApplicationMilestone {
   supportingDocuments?: string[];
 }
 
+export interface IGrantApplicationChangeRequest {
+  requestedBy: Types.ObjectId;
+  requestedAt: Date;
+  note: string;
+}
+
+// Snapshot of the application as submitted, kept for every version
+export interface IGrantApplicationRevision {
+  version: number;
+  title: string;
+  summary: string;
+  milestones: IGrantApplicationMilestone[];
+  submittedAt: Date;
+  note?: string; // Applicant's note on what changed
+  changeRequest?: IGrantApplicationChangeRequest;
+}
+
 export interface IGrantApplication extends Document {
   grantId: Types.ObjectId;
   title: string;
@@ -14,7 +31,9 @@ export interface IGrantApplication extends Document {
   applicantId: Types.ObjectId;
   milestones: IGrantApplicationMilestone[];
   status:
+    | "draft"
     | "submitted"
+    | "changes-requested"
     | "reviewing"
     | "approved"
     | "rejected"
@@ -23,28 +42,70 @@ export interface IGrantApplication extends Document {
     | "awaiting-final-approval";
   adminNote?: string;
   archived?: boolean;
+  decidedAt?: Date; // When the review quorum approved or rejected it
+  version: number; // Latest submitted version, 0 while still a draft
+  revisions: IGrantApplicationRevision[];
+  lastSavedAt?: Date; // Last autosave of the working copy
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Drafts are autosaved half-finished, so content is only required once
+// the application is submitted
+function requiredUnlessDraft(this: any): boolean {
+  const application =
+    typeof this.ownerDocument === "function" ? this.ownerDocument() : this;
+  return application.status !== "draft";
+}
+
 const GrantApplicationMilestoneSchema = new Schema<IGrantApplicationMilestone>({
-  title: { type: String, required: true, trim: true },
-  description: { type: String, required: true, trim: true },
-  expectedPayout: { type: Number, required: true, min: 0 },
+  title: { type: String, required: requiredUnlessDraft, trim: true },
+  description: { type: String, required: requiredUnlessDraft, trim: true },
+  expectedPayout: { type: Number, required: requiredUnlessDraft, min: 0 },
   supportingDocuments: [{ type: String }],
 });
 
+const GrantApplicationRevisionSchema = new Schema<IGrantApplicationRevision>(
+  {
+    version: { type: Number, required: true },
+    title: { type: String, required: true },
+    summary: { type: String, required: true },
+    milestones: [
+      {
+        _id: false,
+        title: { type: String, required: true },
+        description: { type: String, required: true },
+        expectedPayout: { type: Number, required: true },
+        supportingDocuments: [{ type: String }],
+      },
+    ],
+    submittedAt: { type: Date, required: true },
+    note: { type: String, trim: true, maxlength: 1000 },
+    changeRequest: {
+      requestedBy: { type: Schema.Types.ObjectId, ref: "User" },
+      requestedAt: { type: Date },
+      note: { type: String, trim: true, maxlength: 2000 },
+    },
+  },
+  { _id: false },
+);
+
 const GrantApplicationSchema = new Schema<IGrantApplication>(
   {
     grantId: { type: Schema.Types.ObjectId, ref: "Grant", required: true },
-    title: { type: String, required: true, trim: true },
-    summary: { type: String, required: true, trim: true },
+    title: { type: String, required: requiredUnlessDraft, trim: true },
+    summary: { type: String, required: requiredUnlessDraft, trim: true },
     applicantId: { type: Schema.Types.ObjectId, ref: "User", required: true },
-    milestones: { type: [GrantApplicationMilestoneSchema], required: true },
+    milestones: {
+      type: [GrantApplicationMilestoneSchema],
+      required: requiredUnlessDraft,
+    },
     status: {
       type: String,
       enum: [
+        "draft",
         "submitted",
+        "changes-requested",
         "reviewing",
         "approved",
         "rejected",
@@ -56,6 +117,10 @@ const GrantApplicationSchema = new Schema<IGrantApplication>(
     },
     adminNote: { type: String },
     archived: { type: Boolean, default: false },
+    decidedAt: { type: Date },
+    version: { type: Number, default: 0 },
+    revisions: { type: [GrantApplicationRevisionSchema], default: [] },
+    lastSavedAt: { type: Date },
   },
   { timestamps: true },
 );
@@ -0,0 +1,89 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum GrantBudgetEntryType {
+  COMMITMENT = "commitment", // An application was approved
+  RELEASE = "release", // An approved application's commitment was dropped
+  ESCROW = "escrow", // Funds were locked in escrow
+  DISBURSEMENT = "disbursement", // Funds were paid out to a grantee
+}
+
+export interface IGrantBudgetEntry extends Document {
+  grantId: Types.ObjectId;
+  type: GrantBudgetEntryType;
+  amount: number; // Always positive; the type says which way it moves
+  applicationId?: Types.ObjectId; // The GrantApplication it concerns
+  projectId?: Types.ObjectId; // The grant project escrow was locked for
+  milestoneId?: Types.ObjectId; // The milestone a disbursement paid out
+  milestoneIndex?: number;
+  txHash?: string;
+  note?: string;
+  createdBy?: Types.ObjectId;
+  key?: string; // Makes recording the same entry twice a no-op
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GrantBudgetEntrySchema = new Schema<IGrantBudgetEntry>(
+  {
+    grantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Grant",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(GrantBudgetEntryType),
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, "Amount cannot be negative"],
+    },
+    applicationId: {
+      type: Schema.Types.ObjectId,
+      ref: "GrantApplication",
+      index: true,
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+    },
+    milestoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Milestone",
+    },
+    milestoneIndex: {
+      type: Number,
+      min: 0,
+    },
+    txHash: {
+      type: String,
+      trim: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    key: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+GrantBudgetEntrySchema.index({ grantId: 1, createdAt: 1 });
+
+export default mongoose.model<IGrantBudgetEntry>(
+  "GrantBudgetEntry",
+  GrantBudgetEntrySchema,
+);
@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface IGrantCriterionScore {
+  criterionTitle: string;
+  score: number; // 0-100
+}
+
+export interface IGrantReview extends Document {
+  grantId: Types.ObjectId;
+  applicationId: Types.ObjectId;
+  reviewerId: Types.ObjectId;
+  version: number; // Application version the review was given for
+  scores: IGrantCriterionScore[];
+  weightedScore: number; // Σ(score × weight) / 100 over the grant's rubric
+  feedback?: string; // Shared with the applicant without the reviewer's name
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GrantCriterionScoreSchema = new Schema<IGrantCriterionScore>(
+  {
+    criterionTitle: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    score: {
+      type: Number,
+      required: true,
+      min: [0, "Score must be between 0 and 100"],
+      max: [100, "Score must be between 0 and 100"],
+    },
+  },
+  { _id: false },
+);
+
+const GrantReviewSchema = new Schema<IGrantReview>(
+  {
+    grantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Grant",
+      required: true,
+      index: true,
+    },
+    applicationId: {
+      type: Schema.Types.ObjectId,
+      ref: "GrantApplication",
+      required: true,
+    },
+    reviewerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+      default: 1,
+      min: 1,
+    },
+    scores: {
+      type: [GrantCriterionScoreSchema],
+      required: true,
+      validate: {
+        validator: function (scores: IGrantCriterionScore[]) {
+          return scores.length > 0;
+        },
+        message: "At least one criterion score is required",
+      },
+    },
+    weightedScore: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 100,
+    },
+    feedback: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One review per reviewer per application version; a resubmission is
+// reviewed from scratch
+GrantReviewSchema.index(
+  { applicationId: 1, reviewerId: 1, version: 1 },
+  { unique: true },
+);
+
+export default mongoose.model<IGrantReview>("GrantReview", GrantReviewSchema);
@@ -1,7 +1,32 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
+export interface IGrantRubricCriterion {
+  title: string;
+  weight: number; // Weights across the rubric add up to 100
+  description?: string;
+}
+
+export interface IGrantReviewer {
+  userId: Types.ObjectId; // A member of the grant's organization
+  assignedBy: Types.ObjectId;
+  assignedAt: Date;
+}
+
+export interface IGrantQuorum {
+  minReviews: number; // Reviews needed before an application is decided
+  passScore: number; // Average weighted score (0-100) needed to approve
+}
+
+// Running totals of the grant's budget ledger
+export interface IGrantBudget {
+  committed: number; // Payouts of approved applications
+  escrowed: number; // Locked in escrow
+  disbursed: number; // Paid out
+}
+
 export interface IGrant extends Document {
   creatorId: Types.ObjectId;
+  organizationId?: Types.ObjectId; // Set for grant programs run by an organization
   title: string;
   description: string;
   totalBudget: number;
@@ -12,10 +37,57 @@ export interface IGrant extends Document {
     expectedPayout: number;
   }>;
   status: "draft" | "open" | "closed" | "archived";
+  rubric: IGrantRubricCriterion[];
+  reviewers: IGrantReviewer[];
+  quorum: IGrantQuorum;
+  budget: IGrantBudget;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const GrantRubricCriterionSchema = new Schema<IGrantRubricCriterion>(
+  {
+    title: {
+      type: String,
+      required: [true, "Criterion title is required"],
+      trim: true,
+      maxlength: [100, "Criterion title cannot exceed 100 characters"],
+    },
+    weight: {
+      type: Number,
+      required: [true, "Criterion weight is required"],
+      min: [0, "Weight must be between 0 and 100"],
+      max: [100, "Weight must be between 0 and 100"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Criterion description cannot exceed 500 characters"],
+    },
+  },
+  { _id: false },
+);
+
+const GrantReviewerSchema = new Schema<IGrantReviewer>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    assignedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    assignedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false },
+);
+
 const GrantSchema = new Schema<IGrant>(
   {
     creatorId: {
@@ -24,6 +96,11 @@ const GrantSchema = new Schema<IGrant>(
       required: true,
       index: true,
     },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      index: true,
+    },
     title: {
       type: String,
       required: [true, "Title is required"],
@@ -79,6 +156,32 @@ const GrantSchema = new Schema<IGrant>(
       },
       default: "draft",
     },
+    rubric: {
+      type: [GrantRubricCriterionSchema],
+      default: [],
+    },
+    reviewers: {
+      type: [GrantReviewerSchema],
+      default: [],
+    },
+    quorum: {
+      minReviews: {
+        type: Number,
+        default: 1,
+        min: [1, "At least one review is required"],
+      },
+      passScore: {
+        type: Number,
+        default: 50,
+        min: [0, "Pass score must be between 0 and 100"],
+        max: [100, "Pass score must be between 0 and 100"],
+      },
+    },
+    budget: {
+      committed: { type: Number, default: 0, min: 0 },
+      escrowed: { type: Number, default: 0, min: 0 },
+      disbursed: { type: Number, default: 0, min: 0 },
+    },
   },
   {
     timestamps: true,
@@ -88,6 +191,7 @@ const GrantSchema = new Schema<IGrant>(
 // Indexes for better query performance
 GrantSchema.index({ creatorId: 1, status: 1 });
 GrantSchema.index({ status: 1, createdAt: -1 });
+GrantSchema.index({ "reviewers.userId": 1 });
 
 // Validate that total budget equals sum of milestone payouts
 GrantSchema.pre("save", function (next) {
@@ -103,6 +207,17 @@ GrantSchema.pre("save", function (next) {
       );
     }
   }
+
+  if (this.rubric && this.rubric.length > 0) {
+    const totalWeight = this.rubric.reduce(
+      (sum, criterion) => sum + criterion.weight,
+      0,
+    );
+
+    if (Math.abs(totalWeight - 100) > 0.01) {
+      return next(new Error("Rubric weights must add up to 100"));
+    }
+  }
   next();
 });
 
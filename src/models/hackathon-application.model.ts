@@ -0,0 +1,110 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import {
+  IRegistrationAnswer,
+  RegistrationAnswerSchema,
+} from "./hackathon-participant.model.js";
+
+export enum HackathonApplicationStatus {
+  PENDING = "pending",
+  APPROVED = "approved", // A participant record was created
+  REJECTED = "rejected",
+  WITHDRAWN = "withdrawn",
+}
+
+export interface IHackathonApplication extends Document {
+  hackathonId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  userId: Types.ObjectId;
+  participationType: "individual" | "team";
+  teamName?: string;
+  teamMembers: string[]; // Emails to invite once approved
+  registrationAnswers: IRegistrationAnswer[];
+  status: HackathonApplicationStatus;
+  submittedAt: Date;
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  participantId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HackathonApplicationSchema = new Schema<IHackathonApplication>(
+  {
+    hackathonId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hackathon",
+      required: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    participationType: {
+      type: String,
+      enum: ["individual", "team"],
+      required: true,
+    },
+    teamName: {
+      type: String,
+      trim: true,
+    },
+    teamMembers: {
+      type: [String],
+      default: [],
+    },
+    registrationAnswers: {
+      type: [RegistrationAnswerSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: Object.values(HackathonApplicationStatus),
+      default: HackathonApplicationStatus.PENDING,
+    },
+    submittedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    participantId: {
+      type: Schema.Types.ObjectId,
+      ref: "HackathonParticipant",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One application per user per hackathon, reused after a withdrawal
+HackathonApplicationSchema.index(
+  { hackathonId: 1, userId: 1 },
+  { unique: true },
+);
+// Review queue
+HackathonApplicationSchema.index({ hackathonId: 1, status: 1, submittedAt: 1 });
+
+export default mongoose.model<IHackathonApplication>(
+  "HackathonApplication",
+  HackathonApplicationSchema,
+);
@@ -0,0 +1,222 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum HackathonBountyStatus {
+  OPEN = "open", // Submissions can opt in
+  CLOSED = "closed", // No new entries, winners not picked yet
+  AWARDED = "awarded",
+  CANCELLED = "cancelled",
+}
+
+export interface IBountyEligibility {
+  trackIds: Types.ObjectId[]; // Entries must compete in one of these, empty for any
+  participationTypes: Array<"individual" | "team">; // Empty for both
+  minTeamSize?: number;
+  maxTeamSize?: number;
+  requirements?: string; // Free-form rules the sponsor checks when picking
+}
+
+export interface IBountyWinner {
+  participantId: Types.ObjectId;
+  position: number;
+  amount: number;
+  selectedBy: Types.ObjectId;
+  selectedAt: Date;
+  payoutTransactionId?: Types.ObjectId; // Set once an admin releases the funds
+  paidAt?: Date;
+}
+
+export interface IHackathonBounty extends Document {
+  hackathonId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  sponsorId: Types.ObjectId; // References HackathonSponsor
+  title: string;
+  description: string;
+  amount: number;
+  currency: string;
+  maxWinners: number;
+  contractId?: string; // The bounty's own escrow, separate from the hackathon's
+  escrowAddress?: string;
+  eligibility: IBountyEligibility;
+  status: HackathonBountyStatus;
+  winners: IBountyWinner[];
+  winnersSelectedAt?: Date;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BountyEligibilitySchema = new Schema<IBountyEligibility>(
+  {
+    trackIds: {
+      type: [Schema.Types.ObjectId],
+      default: [],
+    },
+    participationTypes: {
+      type: [String],
+      enum: ["individual", "team"],
+      default: [],
+    },
+    minTeamSize: {
+      type: Number,
+      min: 1,
+    },
+    maxTeamSize: {
+      type: Number,
+      min: 1,
+    },
+    requirements: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+    },
+  },
+  { _id: false },
+);
+
+const BountyWinnerSchema = new Schema<IBountyWinner>(
+  {
+    participantId: {
+      type: Schema.Types.ObjectId,
+      ref: "HackathonParticipant",
+      required: true,
+    },
+    position: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    selectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    selectedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    payoutTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction",
+    },
+    paidAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
+const HackathonBountySchema = new Schema<IHackathonBounty>(
+  {
+    hackathonId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hackathon",
+      required: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    sponsorId: {
+      type: Schema.Types.ObjectId,
+      ref: "HackathonSponsor",
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 5000,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      default: "USDC",
+      trim: true,
+    },
+    maxWinners: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    contractId: {
+      type: String,
+      trim: true,
+    },
+    escrowAddress: {
+      type: String,
+      trim: true,
+    },
+    eligibility: {
+      type: BountyEligibilitySchema,
+      default: () => ({}),
+    },
+    status: {
+      type: String,
+      enum: Object.values(HackathonBountyStatus),
+      default: HackathonBountyStatus.OPEN,
+    },
+    winners: {
+      type: [BountyWinnerSchema],
+      default: [],
+    },
+    winnersSelectedAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+HackathonBountySchema.pre("save", function (next) {
+  const { minTeamSize, maxTeamSize } = this.eligibility || {};
+  if (minTeamSize && maxTeamSize && minTeamSize > maxTeamSize) {
+    return next(
+      new Error("Bounty minimum team size cannot exceed the maximum"),
+    );
+  }
+
+  if (this.winners.length > this.maxWinners) {
+    return next(
+      new Error(`Bounty can have at most ${this.maxWinners} winner(s)`),
+    );
+  }
+
+  const awarded = this.winners.reduce((sum, winner) => sum + winner.amount, 0);
+  if (awarded > this.amount) {
+    return next(new Error("Bounty winner amounts exceed the bounty amount"));
+  }
+
+  next();
+});
+
+HackathonBountySchema.index({ hackathonId: 1, status: 1 });
+HackathonBountySchema.index({ "winners.participantId": 1 });
+
+export default mongoose.model<IHackathonBounty>(
+  "HackathonBounty",
+  HackathonBountySchema,
+);
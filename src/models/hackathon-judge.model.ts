@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum HackathonJudgeStatus {
+  INVITED = "invited",
+  ACTIVE = "active",
+  REMOVED = "removed",
+}
+
+export interface IHackathonJudge extends Document {
+  hackathonId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  email: string;
+  name?: string;
+  userId?: Types.ObjectId; // Set once the invitation is accepted
+  invitedBy: Types.ObjectId;
+  status: HackathonJudgeStatus;
+  token: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  removedAt?: Date;
+  assignedSubmissions: Types.ObjectId[]; // References to HackathonParticipant
+  trackIds: Types.ObjectId[]; // Tracks this judge scores, empty for all tracks
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HackathonJudgeSchema = new Schema<IHackathonJudge>(
+  {
+    hackathonId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hackathon",
+      required: true,
+      index: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(HackathonJudgeStatus),
+      default: HackathonJudgeStatus.INVITED,
+      index: true,
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    removedAt: {
+      type: Date,
+    },
+    assignedSubmissions: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "HackathonParticipant",
+      },
+    ],
+    trackIds: {
+      type: [Schema.Types.ObjectId],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One judge record per email per hackathon
+HackathonJudgeSchema.index({ hackathonId: 1, email: 1 }, { unique: true });
+HackathonJudgeSchema.index({ hackathonId: 1, userId: 1, status: 1 });
+
+export default mongoose.model<IHackathonJudge>(
+  "HackathonJudge",
+  HackathonJudgeSchema,
+);
@@ -10,6 +10,8 @@ export interface IHackathonJudgingScore extends Document {
   judgeId: Types.ObjectId; // Reference to User (judge)
   organizationId: Types.ObjectId;
   hackathonId: Types.ObjectId;
+  trackId?: Types.ObjectId; // Set when the submission was graded for a track
+  phaseId?: Types.ObjectId; // Set when graded in a hackathon phase
   scores: ICriterionScore[];
   weightedScore: number; // Calculated: Σ(score × weight) / 100
   notes?: string;
@@ -60,6 +62,12 @@ const HackathonJudgingScoreSchema = new Schema<IHackathonJudgingScore>(
       required: true,
       index: true,
     },
+    trackId: {
+      type: Schema.Types.ObjectId,
+    },
+    phaseId: {
+      type: Schema.Types.ObjectId,
+    },
     scores: {
       type: [CriterionScoreSchema],
       required: true,
@@ -87,9 +95,10 @@ const HackathonJudgingScoreSchema = new Schema<IHackathonJudgingScore>(
   },
 );
 
-// Compound unique index: one judge can only have one score per submission
+// Compound unique index: one judge can only have one score per submission,
+// track and phase
 HackathonJudgingScoreSchema.index(
-  { submissionId: 1, judgeId: 1 },
+  { submissionId: 1, judgeId: 1, trackId: 1, phaseId: 1 },
   { unique: true },
 );
 
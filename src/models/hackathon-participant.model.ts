@@ -16,6 +16,8 @@ export interface ISubmissionLink {
 export interface IParticipantSubmission {
   projectName: string;
   category: string;
+  trackIds?: Types.ObjectId[]; // Tracks the project competes in
+  bountyIds?: Types.ObjectId[]; // Sponsor bounties the project opted into
   description: string;
   logo?: string;
   videoUrl?: string;
@@ -37,6 +39,39 @@ export interface IParticipantSocialLinks {
   email?: string;
 }
 
+export interface ITrackRank {
+  trackId: Types.ObjectId;
+  rank: number;
+}
+
+export interface IRegistrationAnswer {
+  questionId: Types.ObjectId;
+  label: string; // Question as it read when answered
+  type: string;
+  value: string | string[];
+}
+
+export interface IPhaseSubmission {
+  phaseId: Types.ObjectId;
+  answers: IRegistrationAnswer[]; // Answers to the phase's fields
+  submittedAt: Date;
+  updatedAt?: Date;
+}
+
+export interface IPrizeSplitShare {
+  userId: Types.ObjectId; // A team member
+  percent: number;
+  walletAddress?: string; // Required when the share is above zero
+  approvedAt?: Date;
+}
+
+export interface IPrizeSplit {
+  shares: IPrizeSplitShare[];
+  proposedBy: Types.ObjectId;
+  proposedAt: Date;
+  approvedAt?: Date; // Set once every team member has approved
+}
+
 export interface IHackathonParticipant extends Document {
   userId: Types.ObjectId;
   hackathonId: Types.ObjectId;
@@ -46,8 +81,13 @@ export interface IHackathonParticipant extends Document {
   teamName?: string;
   teamMembers?: ITeamMember[];
   socialLinks?: IParticipantSocialLinks;
+  registrationAnswers?: IRegistrationAnswer[];
   submission?: IParticipantSubmission;
+  advancedPhaseIds?: Types.ObjectId[]; // Later phases organizers let them into
+  phaseSubmissions?: IPhaseSubmission[];
+  prizeSplit?: IPrizeSplit; // How a team divides its prize, on the team's entry
   rank?: number;
+  trackRanks?: ITrackRank[];
   registeredAt: Date;
   submittedAt?: Date;
   createdAt: Date;
@@ -112,6 +152,15 @@ const ParticipantSubmissionSchema = new Schema<IParticipantSubmission>(
       required: true,
       trim: true,
     },
+    trackIds: {
+      type: [Schema.Types.ObjectId],
+      default: [],
+    },
+    bountyIds: {
+      type: [Schema.Types.ObjectId],
+      ref: "HackathonBounty",
+      default: [],
+    },
     description: {
       type: String,
       required: true,
@@ -189,6 +238,110 @@ const ParticipantSocialLinksSchema = new Schema<IParticipantSocialLinks>(
   { _id: false },
 );
 
+const TrackRankSchema = new Schema<ITrackRank>(
+  {
+    trackId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    rank: {
+      type: Number,
+      required: true,
+      min: [1, "Rank must be a positive integer"],
+    },
+  },
+  { _id: false },
+);
+
+export const RegistrationAnswerSchema = new Schema<IRegistrationAnswer>(
+  {
+    questionId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    label: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    value: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
+const PhaseSubmissionSchema = new Schema<IPhaseSubmission>(
+  {
+    phaseId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    answers: {
+      type: [RegistrationAnswerSchema],
+      default: [],
+    },
+    submittedAt: {
+      type: Date,
+      required: true,
+    },
+    updatedAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
+const PrizeSplitShareSchema = new Schema<IPrizeSplitShare>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    percent: {
+      type: Number,
+      required: true,
+      min: [0, "Share cannot be negative"],
+      max: [100, "Share cannot exceed 100%"],
+    },
+    walletAddress: {
+      type: String,
+      trim: true,
+    },
+    approvedAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
+const PrizeSplitSchema = new Schema<IPrizeSplit>(
+  {
+    shares: {
+      type: [PrizeSplitShareSchema],
+      default: [],
+    },
+    proposedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    proposedAt: {
+      type: Date,
+      required: true,
+    },
+    approvedAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
 const HackathonParticipantSchema = new Schema<IHackathonParticipant>(
   {
     userId: {
@@ -231,9 +384,24 @@ const HackathonParticipantSchema = new Schema<IHackathonParticipant>(
     socialLinks: {
       type: ParticipantSocialLinksSchema,
     },
+    registrationAnswers: {
+      type: [RegistrationAnswerSchema],
+      default: [],
+    },
     submission: {
       type: ParticipantSubmissionSchema,
     },
+    advancedPhaseIds: {
+      type: [Schema.Types.ObjectId],
+      default: [],
+    },
+    phaseSubmissions: {
+      type: [PhaseSubmissionSchema],
+      default: [],
+    },
+    prizeSplit: {
+      type: PrizeSplitSchema,
+    },
     registeredAt: {
       type: Date,
       required: true,
@@ -246,6 +414,10 @@ const HackathonParticipantSchema = new Schema<IHackathonParticipant>(
       type: Number,
       min: [1, "Rank must be a positive integer"],
     },
+    trackRanks: {
+      type: [TrackRankSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -262,6 +434,19 @@ HackathonParticipantSchema.index({ hackathonId: 1, participationType: 1 });
 HackathonParticipantSchema.index({ hackathonId: 1, teamId: 1 });
 HackathonParticipantSchema.index({ "submission.status": 1 });
 HackathonParticipantSchema.index({ hackathonId: 1, rank: 1 });
+HackathonParticipantSchema.index({
+  hackathonId: 1,
+  "phaseSubmissions.phaseId": 1,
+});
+HackathonParticipantSchema.index({
+  hackathonId: 1,
+  "submission.bountyIds": 1,
+});
+HackathonParticipantSchema.index({
+  hackathonId: 1,
+  "trackRanks.trackId": 1,
+  "trackRanks.rank": 1,
+});
 
 export default mongoose.model<IHackathonParticipant>(
   "HackathonParticipant",
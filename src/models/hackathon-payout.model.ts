@@ -0,0 +1,181 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum HackathonPayoutStatus {
+  PENDING_SPLIT = "pending_split", // Team is changing how the prize is split
+  PENDING_KYC = "pending_kyc", // Recipient has not cleared identity checks
+  PENDING_WALLET = "pending_wallet", // No wallet to pay yet
+  READY = "ready", // Can be released from escrow
+  RELEASED = "released", // Release recorded, waiting for the ledger to confirm it
+  CONFIRMED = "confirmed", // Seen on the ledger paying the right wallet and amount
+  FAILED = "failed", // Release could not be confirmed, can be released again
+}
+
+export enum HackathonPayoutSource {
+  PRIZE = "prize",
+  BOUNTY = "bounty",
+}
+
+export interface IHackathonPayout extends Document {
+  hackathonId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  participantId: Types.ObjectId;
+  userId: Types.ObjectId; // Who gets paid, a team member when a prize is split
+  source: HackathonPayoutSource;
+  trackId?: Types.ObjectId | null; // Null for overall prizes
+  bountyId?: Types.ObjectId | null;
+  rank?: number;
+  amount: number;
+  currency: string;
+  sharePercent: number; // Share of the prize this payout covers
+  walletAddress?: string;
+  status: HackathonPayoutStatus;
+  kycVerifiedAt?: Date;
+  kycVerifiedBy?: Types.ObjectId;
+  transactionId?: Types.ObjectId; // The release Transaction
+  transactionHash?: string;
+  releasedAt?: Date;
+  releasedBy?: Types.ObjectId;
+  confirmedAt?: Date;
+  ledger?: number;
+  failedAt?: Date;
+  failureReason?: string;
+  lastCheckedAt?: Date;
+  checkAttempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HackathonPayoutSchema = new Schema<IHackathonPayout>(
+  {
+    hackathonId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hackathon",
+      required: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    participantId: {
+      type: Schema.Types.ObjectId,
+      ref: "HackathonParticipant",
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    source: {
+      type: String,
+      enum: Object.values(HackathonPayoutSource),
+      required: true,
+    },
+    trackId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    bountyId: {
+      type: Schema.Types.ObjectId,
+      ref: "HackathonBounty",
+      default: null,
+    },
+    rank: {
+      type: Number,
+      min: 1,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      default: "USDC",
+      trim: true,
+    },
+    sharePercent: {
+      type: Number,
+      default: 100,
+      min: 0,
+      max: 100,
+    },
+    walletAddress: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(HackathonPayoutStatus),
+      default: HackathonPayoutStatus.PENDING_WALLET,
+    },
+    kycVerifiedAt: {
+      type: Date,
+    },
+    kycVerifiedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "Admin",
+    },
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction",
+    },
+    transactionHash: {
+      type: String,
+      trim: true,
+    },
+    releasedAt: {
+      type: Date,
+    },
+    releasedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "Admin",
+    },
+    confirmedAt: {
+      type: Date,
+    },
+    ledger: {
+      type: Number,
+    },
+    failedAt: {
+      type: Date,
+    },
+    failureReason: {
+      type: String,
+      trim: true,
+    },
+    lastCheckedAt: {
+      type: Date,
+    },
+    checkAttempts: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One payout per recipient for each prize or bounty award
+HackathonPayoutSchema.index(
+  {
+    hackathonId: 1,
+    participantId: 1,
+    userId: 1,
+    source: 1,
+    trackId: 1,
+    bountyId: 1,
+  },
+  { unique: true },
+);
+HackathonPayoutSchema.index({ hackathonId: 1, status: 1 });
+HackathonPayoutSchema.index({ status: 1, lastCheckedAt: 1 });
+
+export default mongoose.model<IHackathonPayout>(
+  "HackathonPayout",
+  HackathonPayoutSchema,
+);
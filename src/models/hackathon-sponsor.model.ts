@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum HackathonSponsorStatus {
+  INVITED = "invited",
+  ACTIVE = "active",
+  REMOVED = "removed",
+}
+
+export interface IHackathonSponsor extends Document {
+  hackathonId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  email: string;
+  sponsorName: string;
+  sponsorLogo?: string;
+  partnerLink?: string;
+  userId?: Types.ObjectId; // Set once the invitation is accepted
+  invitedBy: Types.ObjectId;
+  status: HackathonSponsorStatus;
+  token: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  removedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HackathonSponsorSchema = new Schema<IHackathonSponsor>(
+  {
+    hackathonId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hackathon",
+      required: true,
+      index: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    sponsorName: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    sponsorLogo: {
+      type: String,
+      trim: true,
+    },
+    partnerLink: {
+      type: String,
+      trim: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(HackathonSponsorStatus),
+      default: HackathonSponsorStatus.INVITED,
+      index: true,
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    removedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One sponsor account per email per hackathon
+HackathonSponsorSchema.index({ hackathonId: 1, email: 1 }, { unique: true });
+HackathonSponsorSchema.index({ hackathonId: 1, userId: 1, status: 1 });
+
+export default mongoose.model<IHackathonSponsor>(
+  "HackathonSponsor",
+  HackathonSponsorSchema,
+);
@@ -4,6 +4,11 @@ export interface IHackathonSubmissionVote extends Document {
   submissionId: Types.ObjectId; // Reference to participant submission
   userId: Types.ObjectId;
   value: number; // 1 for upvote, -1 for downvote
+  ipAddress?: string;
+  userAgent?: string;
+  voidedAt?: Date; // Voided votes stay for audit but no longer count
+  voidedBy?: Types.ObjectId;
+  voidReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +32,26 @@ const HackathonSubmissionVoteSchema = new Schema<IHackathonSubmissionVote>(
       enum: [1, -1],
       required: true,
     },
+    ipAddress: {
+      type: String,
+      trim: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+    },
+    voidedAt: {
+      type: Date,
+    },
+    voidedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    voidReason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
   },
   {
     timestamps: true,
@@ -39,6 +64,7 @@ HackathonSubmissionVoteSchema.index(
   { unique: true },
 );
 HackathonSubmissionVoteSchema.index({ submissionId: 1, value: 1 });
+HackathonSubmissionVoteSchema.index({ ipAddress: 1, createdAt: 1 });
 
 export default mongoose.model<IHackathonSubmissionVote>(
   "HackathonSubmissionVote",
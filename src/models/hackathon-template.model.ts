@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import {
+  IHackathon,
+  IHackathonResources,
+  IJudgingCriterion,
+  IPrizeTier,
+  HackathonResourcesSchema,
+  JudgingCriterionSchema,
+  PrizeTierSchema,
+} from "./hackathon.model.js";
+
+export interface IHackathonTemplate extends Document {
+  organizationId: Types.ObjectId;
+  name: string;
+  description?: string;
+  criteria: IJudgingCriterion[];
+  prizeTiers: IPrizeTier[];
+  resources?: IHackathonResources;
+  tabVisibility?: IHackathon["tabVisibility"];
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HackathonTemplateSchema = new Schema<IHackathonTemplate>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    criteria: {
+      type: [JudgingCriterionSchema],
+      default: [],
+    },
+    prizeTiers: {
+      type: [PrizeTierSchema],
+      default: [],
+    },
+    resources: {
+      type: HackathonResourcesSchema,
+      required: false,
+    },
+    // Only the tabs the template sets are applied
+    tabVisibility: {
+      detailsTab: { type: Boolean },
+      participantsTab: { type: Boolean },
+      resourcesTab: { type: Boolean },
+      submissionTab: { type: Boolean },
+      announcementsTab: { type: Boolean },
+      discussionTab: { type: Boolean },
+      winnersTab: { type: Boolean },
+      sponsorsTab: { type: Boolean },
+      joinATeamTab: { type: Boolean },
+      rulesTab: { type: Boolean },
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Template names are unique within an organization
+HackathonTemplateSchema.index({ organizationId: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IHackathonTemplate>(
+  "HackathonTemplate",
+  HackathonTemplateSchema,
+);
@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import {
+  IRegistrationAnswer,
+  RegistrationAnswerSchema,
+} from "./hackathon-participant.model.js";
+
+export enum HackathonWaitlistStatus {
+  WAITING = "waiting",
+  OFFERED = "offered", // A spot is held until offerExpiresAt
+  CONFIRMED = "confirmed", // Registered as a participant
+  EXPIRED = "expired", // Offer lapsed without confirmation
+  CANCELLED = "cancelled", // Left the waitlist
+}
+
+export interface IHackathonWaitlistEntry extends Document {
+  hackathonId: Types.ObjectId;
+  organizationId: Types.ObjectId;
+  userId: Types.ObjectId;
+  participationType: "individual" | "team";
+  teamName?: string;
+  teamMembers: string[]; // Emails to invite once the spot is confirmed
+  registrationAnswers: IRegistrationAnswer[];
+  status: HackathonWaitlistStatus;
+  queuedAt: Date; // Position in the queue, reset when the user re-joins
+  offeredAt?: Date;
+  offerExpiresAt?: Date;
+  confirmedAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HackathonWaitlistEntrySchema = new Schema<IHackathonWaitlistEntry>(
+  {
+    hackathonId: {
+      type: Schema.Types.ObjectId,
+      ref: "Hackathon",
+      required: true,
+    },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    participationType: {
+      type: String,
+      enum: ["individual", "team"],
+      required: true,
+    },
+    teamName: {
+      type: String,
+      trim: true,
+    },
+    teamMembers: {
+      type: [String],
+      default: [],
+    },
+    registrationAnswers: {
+      type: [RegistrationAnswerSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: Object.values(HackathonWaitlistStatus),
+      default: HackathonWaitlistStatus.WAITING,
+    },
+    queuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    offeredAt: {
+      type: Date,
+    },
+    offerExpiresAt: {
+      type: Date,
+    },
+    confirmedAt: {
+      type: Date,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One entry per user per hackathon, reused when the user re-joins
+HackathonWaitlistEntrySchema.index(
+  { hackathonId: 1, userId: 1 },
+  { unique: true },
+);
+// Queue order
+HackathonWaitlistEntrySchema.index({ hackathonId: 1, status: 1, queuedAt: 1 });
+// Expiring offers
+HackathonWaitlistEntrySchema.index({ status: 1, offerExpiresAt: 1 });
+
+export default mongoose.model<IHackathonWaitlistEntry>(
+  "HackathonWaitlistEntry",
+  HackathonWaitlistEntrySchema,
+);
@@ -42,11 +42,35 @@ export enum RegistrationDeadlinePolicy {
   CUSTOM = "custom",
 }
 
+export enum RegistrationMode {
+  OPEN = "open", // Registering makes the user a participant straight away
+  APPLICATION = "application", // Organizers approve each registration
+}
+
+export enum RegistrationQuestionType {
+  TEXT = "text",
+  SINGLE_CHOICE = "single_choice",
+  MULTI_CHOICE = "multi_choice",
+  URL = "url",
+  FILE = "file", // Answered with the URL returned by the upload service
+}
+
+export interface IRegistrationQuestion {
+  _id: Types.ObjectId;
+  label: string;
+  description?: string;
+  type: RegistrationQuestionType;
+  required: boolean;
+  options: string[]; // Choices for single and multi choice questions
+}
+
 export interface IPhase {
+  _id: Types.ObjectId;
   name: string;
-  startDate: Date;
+  startDate: Date; // Submission window for the round
   endDate: Date;
   description?: string;
+  fields: IRegistrationQuestion[]; // What participants submit in this round
 }
 
 export interface IPrizeTier {
@@ -63,6 +87,24 @@ export interface IJudgingCriterion {
   description?: string;
 }
 
+export interface ITrack {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  sponsor?: string;
+  prizeTiers: IPrizeTier[];
+  criteria: IJudgingCriterion[]; // Falls back to the hackathon criteria when empty
+  winnersAnnouncedAt?: Date;
+  winnersAnnouncement?: string;
+}
+
+export interface IHonorableMention {
+  participantId: Types.ObjectId;
+  trackId?: Types.ObjectId | null; // Null for the hackathon's overall results
+  note?: string;
+  announcedAt: Date;
+}
+
 export interface ISponsorPartner {
   sponsorName?: string;
   sponsorLogo?: string;
@@ -109,11 +151,21 @@ export interface IHackathon extends Document {
   winnerAnnouncementDate?: Date;
   timezone?: string;
   phases?: IPhase[];
+  // Set by the timeline scheduler
+  submissionsClosedAt?: Date;
+  deadlineRemindersSent?: {
+    twentyFourHours?: Date;
+    oneHour?: Date;
+  };
 
   // Participation Tab
   participantType?: ParticipantType;
   teamMin?: number;
   teamMax?: number;
+  maxParticipants?: number; // Registrations beyond this go to the waitlist
+  seatVersion?: number; // Bumped by every seat reservation so concurrent ones conflict
+  registrationMode?: RegistrationMode;
+  registrationQuestions?: IRegistrationQuestion[];
   registrationDeadlinePolicy?: RegistrationDeadlinePolicy;
   registrationDeadline?: Date;
   submissionRequirements?: {
@@ -121,6 +173,12 @@ export interface IHackathon extends Document {
     requireDemoVideo?: boolean;
     requireOtherLinks?: boolean;
   };
+  votingEligibility?: {
+    minAccountAgeDays?: number; // 0 lets any account vote
+    requireVerifiedEmail?: boolean;
+    participantsOnly?: boolean; // Only registered participants can vote
+    blockOwnTeam?: boolean; // Participants cannot vote for their own entry
+  };
   tabVisibility?: {
     detailsTab?: boolean;
     participantsTab?: boolean;
@@ -139,6 +197,10 @@ export interface IHackathon extends Document {
 
   // Judging Tab
   criteria?: IJudgingCriterion[];
+  showScoreBreakdown?: boolean; // Publish judges' score breakdowns with the results
+
+  // Tracks Tab
+  tracks?: ITrack[];
 
   // Collaboration Tab
   contactEmail?: string;
@@ -157,35 +219,64 @@ export interface IHackathon extends Document {
   winnersAnnounced?: boolean;
   winnersAnnouncedAt?: Date;
   winnersAnnouncement?: string;
+  honorableMentions?: IHonorableMention[];
 
   createdAt: Date;
   updatedAt: Date;
 }
 
-const PhaseSchema = new Schema<IPhase>(
-  {
-    name: {
-      type: String,
-      required: true,
-      trim: true,
-    },
-    startDate: {
-      type: Date,
-      required: true,
-    },
-    endDate: {
-      type: Date,
-      required: true,
-    },
-    description: {
-      type: String,
-      trim: true,
-    },
+const RegistrationQuestionSchema = new Schema<IRegistrationQuestion>({
+  label: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500,
   },
-  { _id: false },
-);
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+  },
+  type: {
+    type: String,
+    enum: Object.values(RegistrationQuestionType),
+    required: true,
+  },
+  required: {
+    type: Boolean,
+    default: false,
+  },
+  options: {
+    type: [String],
+    default: [],
+  },
+});
 
-const PrizeTierSchema = new Schema<IPrizeTier>(
+const PhaseSchema = new Schema<IPhase>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  startDate: {
+    type: Date,
+    required: true,
+  },
+  endDate: {
+    type: Date,
+    required: true,
+  },
+  description: {
+    type: String,
+    trim: true,
+  },
+  fields: {
+    type: [RegistrationQuestionSchema],
+    default: [],
+  },
+});
+
+export const PrizeTierSchema = new Schema<IPrizeTier>(
   {
     position: {
       type: String,
@@ -216,7 +307,7 @@ const PrizeTierSchema = new Schema<IPrizeTier>(
   { _id: false },
 );
 
-const JudgingCriterionSchema = new Schema<IJudgingCriterion>(
+export const JudgingCriterionSchema = new Schema<IJudgingCriterion>(
   {
     title: {
       type: String,
@@ -237,6 +328,64 @@ const JudgingCriterionSchema = new Schema<IJudgingCriterion>(
   { _id: false },
 );
 
+const TrackSchema = new Schema<ITrack>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 2000,
+  },
+  sponsor: {
+    type: String,
+    trim: true,
+    maxlength: 100,
+  },
+  prizeTiers: {
+    type: [PrizeTierSchema],
+    default: [],
+  },
+  criteria: {
+    type: [JudgingCriterionSchema],
+    default: [],
+  },
+  winnersAnnouncedAt: {
+    type: Date,
+  },
+  winnersAnnouncement: {
+    type: String,
+    trim: true,
+  },
+});
+
+const HonorableMentionSchema = new Schema<IHonorableMention>(
+  {
+    participantId: {
+      type: Schema.Types.ObjectId,
+      ref: "HackathonParticipant",
+      required: true,
+    },
+    trackId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Honorable mention note cannot exceed 500 characters"],
+    },
+    announcedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
 const SponsorPartnerSchema = new Schema<ISponsorPartner>(
   {
     sponsorName: {
@@ -306,7 +455,7 @@ const HackathonResourceSchema = new Schema<IHackathonResource>(
   { _id: false },
 );
 
-const HackathonResourcesSchema = new Schema<IHackathonResources>(
+export const HackathonResourcesSchema = new Schema<IHackathonResources>(
   {
     resources: {
       type: [HackathonResourceSchema],
@@ -432,6 +581,13 @@ const HackathonSchema = new Schema<IHackathon>(
     winnerAnnouncementDate: {
       type: Date,
     },
+    submissionsClosedAt: {
+      type: Date,
+    },
+    deadlineRemindersSent: {
+      twentyFourHours: { type: Date },
+      oneHour: { type: Date },
+    },
     timezone: {
       type: String,
       trim: true,
@@ -460,6 +616,26 @@ const HackathonSchema = new Schema<IHackathon>(
       min: [1, "Team max must be at least 1"],
       max: [20, "Team max cannot exceed 20"],
     },
+    maxParticipants: {
+      type: Number,
+      min: [1, "Max participants must be at least 1"],
+    },
+    seatVersion: {
+      type: Number,
+      default: 0,
+    },
+    registrationMode: {
+      type: String,
+      enum: {
+        values: Object.values(RegistrationMode),
+        message: `Registration mode must be one of: ${Object.values(RegistrationMode).join(", ")}`,
+      },
+      default: RegistrationMode.OPEN,
+    },
+    registrationQuestions: {
+      type: [RegistrationQuestionSchema],
+      default: [],
+    },
     registrationDeadlinePolicy: {
       type: String,
       enum: {
@@ -485,6 +661,25 @@ const HackathonSchema = new Schema<IHackathon>(
         default: true,
       },
     },
+    votingEligibility: {
+      minAccountAgeDays: {
+        type: Number,
+        default: 0,
+        min: 0,
+      },
+      requireVerifiedEmail: {
+        type: Boolean,
+        default: false,
+      },
+      participantsOnly: {
+        type: Boolean,
+        default: false,
+      },
+      blockOwnTeam: {
+        type: Boolean,
+        default: false,
+      },
+    },
     tabVisibility: {
       detailsTab: {
         type: Boolean,
@@ -539,6 +734,16 @@ const HackathonSchema = new Schema<IHackathon>(
       type: [JudgingCriterionSchema],
       default: [],
     },
+    showScoreBreakdown: {
+      type: Boolean,
+      default: false,
+    },
+
+    // Tracks Tab
+    tracks: {
+      type: [TrackSchema],
+      default: [],
+    },
 
     // Collaboration Tab
     contactEmail: {
@@ -592,6 +797,10 @@ const HackathonSchema = new Schema<IHackathon>(
       trim: true,
       maxlength: [5000, "Winner announcement cannot exceed 5000 characters"],
     },
+    honorableMentions: {
+      type: [HonorableMentionSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -602,6 +811,8 @@ const HackathonSchema = new Schema<IHackathon>(
 HackathonSchema.index({ organizationId: 1, status: 1 });
 HackathonSchema.index({ status: 1, createdAt: -1 });
 HackathonSchema.index({ organizationId: 1, createdAt: -1 });
+HackathonSchema.index({ status: 1, startDate: 1 });
+HackathonSchema.index({ status: 1, submissionDeadline: 1 });
 // Note: slug index is automatically created by unique: true in field definition
 
 // Validation: Date sequence must be: start < submission < judging < announcement
@@ -639,6 +850,18 @@ HackathonSchema.pre("save", async function (next) {
     }
   }
 
+  // Moving the submission deadline into the future reopens submissions and
+  // re-arms the deadline reminders
+  if (
+    !this.isNew &&
+    this.isModified("submissionDeadline") &&
+    this.submissionDeadline &&
+    this.submissionDeadline > new Date()
+  ) {
+    this.submissionsClosedAt = undefined;
+    this.deadlineRemindersSent = {};
+  }
+
   if (this.status === HackathonStatus.PUBLISHED) {
     // Only validate date sequence for published hackathons
     if (
@@ -668,6 +891,51 @@ HackathonSchema.pre("save", async function (next) {
     return next(new Error("Team min must be less than or equal to team max"));
   }
 
+  // Choice questions need something to choose from
+  const choiceQuestion = this.registrationQuestions?.find(
+    (question) =>
+      (question.type === RegistrationQuestionType.SINGLE_CHOICE ||
+        question.type === RegistrationQuestionType.MULTI_CHOICE) &&
+      question.options.length < 2,
+  );
+  if (choiceQuestion) {
+    return next(
+      new Error(
+        `Registration question "${choiceQuestion.label}" needs at least two options`,
+      ),
+    );
+  }
+
+  // Phases are consecutive rounds, each with its own submission window.
+  // Checked only when they change so older hackathons still save.
+  const phases = this.isModified("phases") ? this.phases || [] : [];
+  for (let i = 0; i < phases.length; i++) {
+    const phase = phases[i];
+    if (phase.startDate >= phase.endDate) {
+      return next(new Error(`Phase "${phase.name}" must end after it starts`));
+    }
+    if (i > 0 && phase.startDate < phases[i - 1].endDate) {
+      return next(
+        new Error(
+          `Phase "${phase.name}" must start after phase "${phases[i - 1].name}" ends`,
+        ),
+      );
+    }
+    const choiceField = phase.fields?.find(
+      (field) =>
+        (field.type === RegistrationQuestionType.SINGLE_CHOICE ||
+          field.type === RegistrationQuestionType.MULTI_CHOICE) &&
+        field.options.length < 2,
+    );
+    if (choiceField) {
+      return next(
+        new Error(
+          `Phase field "${choiceField.label}" needs at least two options`,
+        ),
+      );
+    }
+  }
+
   // Validate registration deadline policy
   if (this.registrationDeadlinePolicy === RegistrationDeadlinePolicy.CUSTOM) {
     if (!this.registrationDeadline) {
@@ -720,6 +988,33 @@ HackathonSchema.pre("save", async function (next) {
     }
   }
 
+  // Track names identify the track in results and notifications
+  const trackNames = new Set<string>();
+  for (const track of this.tracks || []) {
+    const key = track.name.toLowerCase();
+    if (trackNames.has(key)) {
+      return next(new Error(`Duplicate track name: ${track.name}`));
+    }
+    trackNames.add(key);
+
+    if (
+      track.criteria.length > 0 &&
+      this.status === HackathonStatus.PUBLISHED
+    ) {
+      const trackWeight = track.criteria.reduce(
+        (sum, criterion) => sum + criterion.weight,
+        0,
+      );
+      if (Math.abs(trackWeight - 100) > 0.01) {
+        return next(
+          new Error(
+            `Judging criteria weights for track "${track.name}" must sum to 100% (current: ${trackWeight}%)`,
+          ),
+        );
+      }
+    }
+  }
+
   next();
 });
 
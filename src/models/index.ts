@@ -4,6 +4,7 @@ import "./project.model.js";
 import "./newsletter.model.js";
 import "./notification.model.js";
 import "./transaction.model.js";
+import "./refund.model.js";
 import "./comment.model.js";
 import "./reaction.model.js";
 import "./report.model.js";
@@ -21,6 +22,7 @@ import "./waitlist.model.js";
 import "./hackathon.model.js";
 import "./hackathon-participant.model.js";
 import "./hackathon-judging-score.model.js";
+import "./hackathon-judge.model.js";
 import "./hackathon-submission-comment.model.js";
 import "./hackathon-submission-vote.model.js";
 import "./hackathon-discussion.model.js";
@@ -28,3 +30,14 @@ import "./hackathon-resource.model.js";
 import "./hackathon-team-invitation.model.js";
 import "./hackathon-team-recruitment-post.model.js";
 import "./admin.model.js";
+import "./job.model.js";
+import "./scheduled-job.model.js";
+import "./notification-digest-item.model.js";
+import "./hackathon-waitlist-entry.model.js";
+import "./hackathon-application.model.js";
+import "./hackathon-sponsor.model.js";
+import "./hackathon-bounty.model.js";
+import "./hackathon-payout.model.js";
+import "./hackathon-template.model.js";
+import "./grant-review.model.js";
+import "./grant-budget-entry.model.js";
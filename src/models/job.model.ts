@@ -0,0 +1,118 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export enum JobStatus {
+  PENDING = "pending",
+  PROCESSING = "processing",
+  COMPLETED = "completed",
+  DEAD_LETTER = "dead_letter", // Exhausted its retries, waiting for an admin re-drive
+}
+
+export interface IJobError {
+  attempt: number;
+  message: string;
+  failedAt: Date;
+}
+
+export interface IJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt?: Date;
+  lockedBy?: string;
+  lastError?: string;
+  errorHistory: IJobError[];
+  completedAt?: Date;
+  deadLetteredAt?: Date;
+  redrivenAt?: Date;
+  redrivenBy?: string;
+  dedupeKey?: string; // Enqueueing the same key again returns the existing job
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobErrorSchema = new Schema<IJobError>(
+  {
+    attempt: { type: Number, required: true },
+    message: { type: String, required: true },
+    failedAt: { type: Date, required: true },
+  },
+  { _id: false },
+);
+
+const JobSchema = new Schema<IJob>(
+  {
+    name: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: Object.values(JobStatus),
+      default: JobStatus.PENDING,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 5,
+      min: 1,
+    },
+    runAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    lockedBy: {
+      type: String,
+    },
+    lastError: {
+      type: String,
+    },
+    errorHistory: {
+      type: [JobErrorSchema],
+      default: [],
+    },
+    completedAt: {
+      type: Date,
+    },
+    deadLetteredAt: {
+      type: Date,
+    },
+    redrivenAt: {
+      type: Date,
+    },
+    redrivenBy: {
+      type: String,
+    },
+    dedupeKey: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Worker polling: next due job
+JobSchema.index({ status: 1, runAt: 1 });
+// Stale lock recovery
+JobSchema.index({ status: 1, lockedAt: 1 });
+// Completed jobs are kept for a week for inspection
+JobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export default mongoose.model<IJob>("Job", JobSchema);
@@ -1,7 +1,56 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
+// What a milestone's payout belongs to
+export enum MilestoneOwnerType {
+  CROWDFUND_PROJECT = "crowdfund_project", // A Project, optionally through a Campaign
+  GRANT_APPLICATION = "grant_application",
+  HACKATHON_WINNER = "hackathon_winner", // A winning HackathonParticipant
+}
+
+export type MilestoneStatus =
+  | "pending"
+  | "submitted"
+  | "in-progress"
+  | "pending-review"
+  | "approved"
+  | "rejected"
+  | "revision-requested"
+  | "completed"
+  | "released"
+  | "disputed";
+
+// Who opened a dispute: someone who funded the milestone or who approves it
+export type MilestoneDisputeRole = "backer" | "approver";
+
+// How a dispute was settled, as the status the milestone moves to
+export type MilestoneDisputeOutcome = "approved" | "revision-requested";
+
+export interface IMilestoneDispute {
+  openedBy: Types.ObjectId;
+  openedByRole: MilestoneDisputeRole;
+  openedAt: Date;
+  reason: string;
+  evidence: string[];
+  previousStatus: MilestoneStatus;
+  responseDeadline: Date; // The creator can respond until then
+  response?: {
+    respondedBy: Types.ObjectId;
+    respondedAt: Date;
+    statement: string;
+    evidence: string[];
+  };
+  resolution?: {
+    resolvedBy: Types.ObjectId;
+    resolvedAt: Date;
+    outcome: MilestoneDisputeOutcome;
+    note?: string;
+  };
+}
+
 export interface IMilestone extends Document {
-  campaignId: Types.ObjectId;
+  ownerType: MilestoneOwnerType;
+  ownerId: Types.ObjectId;
+  campaignId?: Types.ObjectId; // Set for milestones of a crowdfunding campaign
   title: string;
   description: string;
   index: number;
@@ -9,17 +58,14 @@ export interface IMilestone extends Document {
   proofDescription?: string;
   proofLinks?: string[];
   submittedAt?: Date;
-  status:
-    | "pending"
-    | "submitted"
-    | "in-progress"
-    | "pending-review"
-    | "approved"
-    | "rejected"
-    | "revision-requested"
-    | "completed"
-    | "released"
-    | "disputed";
+  submittedBy?: Types.ObjectId;
+  status: MilestoneStatus;
+  dueDate?: Date;
+  currency?: string;
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  releasedBy?: Types.ObjectId;
+  legacySource?: string; // Where a migrated milestone came from, e.g. "project:<id>:milestones:0"
   payoutPercent: number;
   releaseTxHash?: string | null;
   adminNote?: string;
@@ -28,6 +74,7 @@ export interface IMilestone extends Document {
   releasedAt?: Date;
   disputedAt?: Date;
   disputeReason?: string;
+  disputes: IMilestoneDispute[]; // Every dispute, the open one last
   createdAt: Date;
   updatedAt: Date;
   // Trustless Work integration fields
@@ -36,12 +83,49 @@ export interface IMilestone extends Document {
   trustlessMilestoneIndex?: number;
 }
 
+const MilestoneDisputeSchema = new Schema<IMilestoneDispute>(
+  {
+    openedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    openedByRole: {
+      type: String,
+      enum: ["backer", "approver"],
+      required: true,
+    },
+    openedAt: { type: Date, required: true },
+    reason: { type: String, required: true, trim: true, maxlength: 2000 },
+    evidence: [{ type: String }],
+    previousStatus: { type: String, required: true },
+    responseDeadline: { type: Date, required: true },
+    response: {
+      respondedBy: { type: Schema.Types.ObjectId, ref: "User" },
+      respondedAt: { type: Date },
+      statement: { type: String, trim: true, maxlength: 2000 },
+      evidence: [{ type: String }],
+    },
+    resolution: {
+      resolvedBy: { type: Schema.Types.ObjectId, ref: "User" },
+      resolvedAt: { type: Date },
+      outcome: { type: String, enum: ["approved", "revision-requested"] },
+      note: { type: String, trim: true, maxlength: 2000 },
+    },
+  },
+  { _id: true },
+);
+
 const MilestoneSchema = new Schema<IMilestone>(
   {
+    ownerType: {
+      type: String,
+      enum: Object.values(MilestoneOwnerType),
+      required: true,
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
     campaignId: {
       type: Schema.Types.ObjectId,
       ref: "Campaign",
-      required: true,
       index: true,
     },
     title: { type: String, required: true },
@@ -51,6 +135,13 @@ const MilestoneSchema = new Schema<IMilestone>(
     proofDescription: { type: String },
     proofLinks: [{ type: String }],
     submittedAt: { type: Date },
+    submittedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    dueDate: { type: Date },
+    currency: { type: String },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    reviewedAt: { type: Date },
+    releasedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    legacySource: { type: String },
     status: {
       type: String,
       enum: [
@@ -76,6 +167,7 @@ const MilestoneSchema = new Schema<IMilestone>(
     releasedAt: { type: Date },
     disputedAt: { type: Date },
     disputeReason: { type: String },
+    disputes: { type: [MilestoneDisputeSchema], default: [] },
     payoutPercent: {
       type: Number,
       required: [true, "Payout percentage is required"],
@@ -93,4 +185,7 @@ const MilestoneSchema = new Schema<IMilestone>(
   { timestamps: true },
 );
 
+MilestoneSchema.index({ ownerType: 1, ownerId: 1, index: 1 });
+MilestoneSchema.index({ legacySource: 1 }, { unique: true, sparse: true });
+
 export default mongoose.model<IMilestone>("Milestone", MilestoneSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { NotificationGroup, NotificationType } from "./notification.model.js";
+
+export enum DigestContextKind {
+  PROJECT = "project",
+  HACKATHON = "hackathon",
+  GENERAL = "general",
+}
+
+/**
+ * A low-priority notification held back from immediate email delivery,
+ * waiting to be rolled up into the recipient's daily or weekly digest
+ */
+export interface INotificationDigestItem extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  group: NotificationGroup;
+  title: string;
+  message: string;
+  context: {
+    kind: DigestContextKind;
+    id?: string;
+    name?: string;
+    slug?: string;
+  };
+  sentAt?: Date;
+  deliveryKey?: string; // Set by queued deliveries so a retry can't duplicate it
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationDigestItemSchema = new Schema<INotificationDigestItem>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(NotificationType),
+      required: true,
+    },
+    group: {
+      type: String,
+      enum: Object.values(NotificationGroup),
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    context: {
+      kind: {
+        type: String,
+        enum: Object.values(DigestContextKind),
+        default: DigestContextKind.GENERAL,
+      },
+      id: { type: String },
+      name: { type: String },
+      slug: { type: String },
+    },
+    sentAt: {
+      type: Date,
+    },
+    deliveryKey: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Pending items per user
+NotificationDigestItemSchema.index({ userId: 1, sentAt: 1, createdAt: 1 });
+// Sent items are kept for 30 days
+NotificationDigestItemSchema.index(
+  { sentAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 },
+);
+
+export default mongoose.model<INotificationDigestItem>(
+  "NotificationDigestItem",
+  NotificationDigestItemSchema,
+);
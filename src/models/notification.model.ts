@@ -30,6 +30,9 @@ export enum NotificationType {
   MILESTONE_COMPLETED = "MILESTONE_COMPLETED",
   MILESTONE_DEADLINE_APPROACHING = "MILESTONE_DEADLINE_APPROACHING",
   MILESTONE_FUNDS_RELEASED = "MILESTONE_FUNDS_RELEASED",
+  MILESTONE_DISPUTE_OPENED = "MILESTONE_DISPUTE_OPENED",
+  MILESTONE_DISPUTE_RESPONDED = "MILESTONE_DISPUTE_RESPONDED",
+  MILESTONE_DISPUTE_RESOLVED = "MILESTONE_DISPUTE_RESOLVED",
 
   // Interaction Notifications
   COMMENT_RECEIVED = "COMMENT_RECEIVED",
@@ -70,6 +73,11 @@ export enum NotificationType {
   HACKATHON_SUBMISSION_DISQUALIFIED = "HACKATHON_SUBMISSION_DISQUALIFIED",
   HACKATHON_WINNERS_ANNOUNCED = "HACKATHON_WINNERS_ANNOUNCED",
   HACKATHON_DEADLINE_APPROACHING = "HACKATHON_DEADLINE_APPROACHING",
+  HACKATHON_WAITLIST_SPOT_OFFERED = "HACKATHON_WAITLIST_SPOT_OFFERED",
+  HACKATHON_APPLICATION_REJECTED = "HACKATHON_APPLICATION_REJECTED",
+  HACKATHON_PHASE_ADVANCED = "HACKATHON_PHASE_ADVANCED",
+  HACKATHON_BOUNTY_WON = "HACKATHON_BOUNTY_WON",
+  HACKATHON_PRIZE_SPLIT_PROPOSED = "HACKATHON_PRIZE_SPLIT_PROPOSED",
 
   // Team Invitation Notifications
   TEAM_INVITATION_SENT = "TEAM_INVITATION_SENT",
@@ -79,6 +87,25 @@ export enum NotificationType {
   TEAM_INVITATION_CANCELLED = "TEAM_INVITATION_CANCELLED",
 }
 
+/**
+ * Groups of notification types users can mute or route per channel
+ */
+export enum NotificationGroup {
+  PROJECT = "project",
+  FUNDING = "funding",
+  VOTING = "voting",
+  MILESTONE = "milestone",
+  COMMENT = "comment",
+  ORGANIZATION = "organization",
+  HACKATHON = "hackathon",
+  TEAM = "team",
+}
+
+export enum DigestFrequency {
+  DAILY = "daily",
+  WEEKLY = "weekly",
+}
+
 export interface INotification extends Document {
   _id: mongoose.Types.ObjectId;
   userId: {
@@ -113,6 +140,7 @@ export interface INotification extends Document {
   readAt?: Date;
   emailSent: boolean;
   emailSentAt?: Date;
+  deliveryKey?: string; // Set by queued deliveries so a retry can't duplicate it
   createdAt: Date;
 }
 
@@ -152,6 +180,7 @@ const NotificationSchema = new Schema<INotification>(
     readAt: { type: Date },
     emailSent: { type: Boolean, default: false },
     emailSentAt: { type: Date },
+    deliveryKey: { type: String, unique: true, sparse: true },
   },
   { timestamps: true },
 );
@@ -104,6 +104,7 @@ export interface IProject extends Document {
   creationTxHash?: string;
   grant?: {
     isGrant: boolean;
+    grantId?: mongoose.Types.ObjectId; // The grant program whose budget this project draws on
     applications: Array<{
       _id?: mongoose.Types.ObjectId;
       applicant: { type: mongoose.Types.ObjectId; ref: "User" };
@@ -282,6 +283,7 @@ const ProjectSchema = new Schema<IProject>(
     creationTxHash: { type: String },
     grant: {
       isGrant: { type: Boolean, default: false },
+      grantId: { type: Schema.Types.ObjectId, ref: "Grant" },
       applications: [
         {
           applicant: { type: Schema.Types.ObjectId, ref: "User" },
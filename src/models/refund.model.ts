@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum RefundStatus {
+  PENDING = "PENDING", // Owed to the contributor, not yet claimed
+  CLAIMED = "CLAIMED", // Contributor has requested the refund
+  REFUNDED = "REFUNDED", // Refund transaction verified on the ledger
+}
+
+export interface IRefundContribution {
+  amount: number;
+  transactionHash: string;
+  date: Date;
+}
+
+export interface IRefund extends Document {
+  projectId: Types.ObjectId;
+  userId: Types.ObjectId;
+  amount: number;
+  currency: string;
+  contributions: IRefundContribution[];
+  status: RefundStatus;
+  refundAddress?: string;
+  claimedAt?: Date;
+  refundTransactionHash?: string;
+  refundedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefundContributionSchema = new Schema<IRefundContribution>(
+  {
+    amount: { type: Number, required: true, min: 0 },
+    transactionHash: { type: String, required: true },
+    date: { type: Date, required: true },
+  },
+  { _id: false },
+);
+
+const RefundSchema = new Schema<IRefund>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+    contributions: {
+      type: [RefundContributionSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: Object.values(RefundStatus),
+      default: RefundStatus.PENDING,
+      index: true,
+    },
+    refundAddress: {
+      type: String,
+      trim: true,
+    },
+    claimedAt: {
+      type: Date,
+    },
+    refundTransactionHash: {
+      type: String,
+      trim: true,
+    },
+    refundedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One ledger entry per contributor per project
+RefundSchema.index({ projectId: 1, userId: 1 }, { unique: true });
+RefundSchema.index(
+  { refundTransactionHash: 1 },
+  { unique: true, sparse: true },
+);
+
+export default mongoose.model<IRefund>("Refund", RefundSchema);
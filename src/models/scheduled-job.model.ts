@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export enum ScheduledJobRunStatus {
+  RUNNING = "running",
+  SUCCEEDED = "succeeded",
+  FAILED = "failed",
+}
+
+export enum ScheduledJobTrigger {
+  SCHEDULE = "schedule",
+  MANUAL = "manual",
+}
+
+/**
+ * One document per named scheduler job. Doubles as the lease lock that
+ * keeps a job from running on more than one server instance at a time.
+ */
+export interface IScheduledJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastTickAt?: Date; // The scheduled fire time the job last ran for
+  lastRunAt?: Date;
+  lastFinishedAt?: Date;
+  lastDurationMs?: number;
+  lastStatus?: ScheduledJobRunStatus;
+  lastTrigger?: ScheduledJobTrigger;
+  lastTriggeredBy?: string;
+  lastResult?: any;
+  lastError?: string;
+  runCount: number;
+  failureCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScheduledJobSchema = new Schema<IScheduledJob>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    lockedBy: {
+      type: String,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastTickAt: {
+      type: Date,
+    },
+    lastRunAt: {
+      type: Date,
+    },
+    lastFinishedAt: {
+      type: Date,
+    },
+    lastDurationMs: {
+      type: Number,
+    },
+    lastStatus: {
+      type: String,
+      enum: Object.values(ScheduledJobRunStatus),
+    },
+    lastTrigger: {
+      type: String,
+      enum: Object.values(ScheduledJobTrigger),
+    },
+    lastTriggeredBy: {
+      type: String,
+    },
+    lastResult: {
+      type: Schema.Types.Mixed,
+    },
+    lastError: {
+      type: String,
+    },
+    runCount: {
+      type: Number,
+      default: 0,
+    },
+    failureCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+export default mongoose.model<IScheduledJob>(
+  "ScheduledJob",
+  ScheduledJobSchema,
+);
@@ -3,6 +3,7 @@ import bcrypt from "bcryptjs";
 // Badge is used in schema refs
 // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
 import Badge from "./badge.model.js";
+import { DigestFrequency, NotificationGroup } from "./notification.model.js";
 
 export enum UserStatus {
   ACTIVE = "ACTIVE",
@@ -17,10 +18,19 @@ export enum UserRole {
   ADMIN = "ADMIN",
 }
 
+export interface NotificationChannelPreferences {
+  email: boolean;
+  inApp: boolean;
+  digest: boolean;
+}
+
 export interface NotificationSettings {
+  // Master switches, applied on top of the per-group preferences
   email: boolean;
   push: boolean;
   inApp: boolean;
+  groups?: Partial<Record<NotificationGroup, NotificationChannelPreferences>>;
+  digestFrequency?: DigestFrequency;
 }
 
 export interface PrivacySettings {
@@ -143,6 +153,22 @@ const userSchema = new Schema<IUser>(
         email: { type: Boolean, default: true },
         push: { type: Boolean, default: true },
         inApp: { type: Boolean, default: true },
+        groups: Object.values(NotificationGroup).reduce(
+          (groups, group) => {
+            groups[group] = {
+              email: { type: Boolean, default: true },
+              inApp: { type: Boolean, default: true },
+              digest: { type: Boolean, default: false },
+            };
+            return groups;
+          },
+          {} as Record<string, any>,
+        ),
+        digestFrequency: {
+          type: String,
+          enum: Object.values(DigestFrequency),
+          default: DigestFrequency.DAILY,
+        },
       },
       privacy: {
         profileVisibility: {
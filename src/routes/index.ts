@@ -9,6 +9,7 @@ import blogRoutes from "../features/blogs/blog.route.js";
 import publicBlogRoutes from "../features/blogs/public-blog.route.js";
 import commentRoutes from "../features/comments/comment.route.js";
 import notificationRoutes from "../features/notifications/notification.route.js";
+import notificationDigestRoutes from "../features/notifications/notification-digest.route.js";
 // import campaignRoutes from "../features/campaigns/campaign.route.js";
 import grantRoutes from "../features/grants/grant.route.js";
 import grantApplicationRoutes from "../features/grants/grant-application.route.js";
@@ -47,6 +48,7 @@ router.use("/api/upload", uploadRoutes);
 router.use("/api/hackathons", publicHackathonRoutes); // Public hackathon routes (must be before organization routes)
 router.use("/api/organizations", organizationRoutes);
 router.use("/api/organizations", hackathonRoutes);
+router.use("/api/notifications/digest", notificationDigestRoutes); // Public token-based unsubscribe (must be before protected notification routes)
 router.use("/api/notifications", protect, notificationRoutes);
 router.use("/api/team-invitations", teamInvitationRoutes);
 
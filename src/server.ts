@@ -3,6 +3,10 @@ import app from "./app.js";
 import dotenv from "dotenv";
 import connectDB from "./config/db.js";
 import { config } from "./config/main.config.js";
+import jobQueue from "./services/queue/job-queue.service.js";
+import { registerJobHandlers } from "./services/queue/job-handlers.js";
+import scheduler from "./services/scheduler/scheduler.service.js";
+import { registerScheduledJobs } from "./services/scheduler/scheduled-jobs.js";
 dotenv.config({ path: ".env.local" });
 
 dotenv.config();
@@ -22,8 +26,17 @@ app.get("/user", (req, res) => {
 });
 app.listen(PORT, () => {
   console.log(`Server is running at http://localhost:${PORT}`);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
-  connectDB().catch((_err) => {
-    console.log("Database connection optional - server will continue running");
-  });
+  registerJobHandlers();
+  registerScheduledJobs();
+  connectDB()
+    .then(() => {
+      jobQueue.start();
+      scheduler.start();
+    })
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-unused-vars
+    .catch((_err) => {
+      console.log(
+        "Database connection optional - server will continue running",
+      );
+    });
 });
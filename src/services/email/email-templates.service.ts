@@ -1,5 +1,6 @@
 import { EmailTemplate } from "../../features/notifications/notification.service.js";
 import EmailTemplateUtils from "../../utils/email-template.utils.js";
+import { config } from "../../config/main.config.js";
 
 export class EmailTemplatesService {
   /**
@@ -15,6 +16,8 @@ export class EmailTemplatesService {
       "milestone-completed": () => this.getMilestoneCompletedTemplate(data),
       "funding-goal-reached": () => this.getFundingGoalReachedTemplate(data),
       "funding-received": () => this.getFundingReceivedTemplate(data),
+      "funding-failed": () => this.getFundingFailedTemplate(data),
+      "refund-processed": () => this.getRefundProcessedTemplate(data),
       "voting-started": () => this.getVotingStartedTemplate(data),
       "voting-ended": () => this.getVotingEndedTemplate(data),
       "admin-new-project": () => this.getAdminNewProjectTemplate(data),
@@ -61,6 +64,17 @@ export class EmailTemplatesService {
         this.getHackathonWinnersAnnouncedTemplate(data),
       "hackathon-deadline-approaching": () =>
         this.getHackathonDeadlineApproachingTemplate(data),
+      "hackathon-waitlist-spot-offered": () =>
+        this.getHackathonWaitlistSpotOfferedTemplate(data),
+      "hackathon-application-rejected": () =>
+        this.getHackathonApplicationRejectedTemplate(data),
+      "hackathon-phase-advanced": () =>
+        this.getHackathonPhaseAdvancedTemplate(data),
+      "hackathon-bounty-won": () => this.getHackathonBountyWonTemplate(data),
+      "hackathon-prize-split-proposed": () =>
+        this.getHackathonPrizeSplitProposedTemplate(data),
+      "milestone-dispute": () => this.getMilestoneDisputeTemplate(data),
+      "notification-digest": () => this.getNotificationDigestTemplate(data),
       "team-invitation-sent": () => this.getTeamInvitationSentTemplate(data),
       "team-invitation-accepted": () =>
         this.getTeamInvitationAcceptedTemplate(data),
@@ -415,6 +429,85 @@ export class EmailTemplatesService {
     };
   }
 
+  /**
+   * Funding Failed Template
+   */
+  private static getFundingFailedTemplate(_data: any): EmailTemplate {
+    return {
+      subject: `Funding goal not reached for "{{projectTitle}}"`,
+      priority: "high",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #e74c3c; margin-bottom: 10px;">Funding Goal Not Reached</h1>
+            <p style="color: #7f8c8d; font-size: 16px;">The funding period has ended</p>
+          </div>
+          
+          <div style="background: #fdf2f2; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h2 style="color: #e74c3c; margin-top: 0;">Campaign Summary</h2>
+            <p><strong>Project:</strong> {{projectTitle}}</p>
+            <p><strong>Status:</strong> Failed</p>
+          </div>
+          
+          <div style="background: #e8f4f8; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h3 style="color: #3498db; margin-top: 0;">What happens next?</h3>
+            <ul style="color: #2c3e50;">
+              <li>Every contribution to this project is eligible for a full refund</li>
+              <li>Backers can claim their refund from the project page</li>
+              <li>Refunds are paid back to the Stellar address you provide</li>
+            </ul>
+          </div>
+          
+          <div style="text-align: center; margin-top: 30px;">
+            <a href="{{frontendUrl}}/projects/{{projectId}}" 
+               style="background: #3498db; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+              View Project
+            </a>
+          </div>
+          
+          <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #ecf0f1; color: #7f8c8d; font-size: 12px;">
+            <p>This is an automated notification from Boundless.</p>
+          </div>
+        </div>
+      `,
+    };
+  }
+
+  /**
+   * Refund Processed Template
+   */
+  private static getRefundProcessedTemplate(_data: any): EmailTemplate {
+    return {
+      subject: `↩️ Your refund for "{{projectTitle}}" has been processed`,
+      priority: "normal",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #27ae60; margin-bottom: 10px;">↩️ Refund Processed</h1>
+            <p style="color: #7f8c8d; font-size: 16px;">Your contribution has been returned</p>
+          </div>
+          
+          <div style="background: #e8f5e8; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h2 style="color: #27ae60; margin-top: 0;">Refund Details</h2>
+            <p><strong>Project:</strong> {{projectTitle}}</p>
+            <p><strong>Amount Refunded:</strong> {{amount}}</p>
+          </div>
+          
+          <div style="text-align: center; margin-top: 30px;">
+            <a href="{{frontendUrl}}/projects/{{projectId}}" 
+               style="background: #27ae60; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+              View Project
+            </a>
+          </div>
+          
+          <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #ecf0f1; color: #7f8c8d; font-size: 12px;">
+            <p>This is an automated notification from Boundless.</p>
+          </div>
+        </div>
+      `,
+    };
+  }
+
   /**
    * Voting Started Template
    */
@@ -1320,6 +1413,239 @@ export class EmailTemplatesService {
     };
   }
 
+  /**
+   * Hackathon Waitlist Spot Offered Template
+   */
+  private static getHackathonWaitlistSpotOfferedTemplate(
+    data: any,
+  ): EmailTemplate {
+    const frontendUrl = config.frontendUrl;
+    const hackathonName = data.hackathonName || "Hackathon";
+    return {
+      subject: `🎟️ A spot opened up in "${hackathonName}"`,
+      priority: "high",
+      html: EmailTemplateUtils.generateEmail({
+        emailTitle: "Waitlist Spot Available",
+        preheaderText: `Confirm your spot in ${hackathonName}`,
+        headline: "🎟️ A Spot Opened Up",
+        bodyText1: `A participant spot has opened up in <b>${hackathonName}</b> and it is being held for you.`,
+        bodyText2: data.offerExpiresAt
+          ? `Confirm your registration before ${new Date(data.offerExpiresAt).toLocaleString()} or the spot will be offered to the next person on the waitlist.`
+          : "Confirm your registration soon or the spot will be offered to the next person on the waitlist.",
+        ctaUrl: `${frontendUrl}/hackathons/${data.hackathonSlug || data.hackathonId}`,
+        ctaText: "Confirm My Spot",
+        privacyUrl: `${frontendUrl}/privacy`,
+        termsUrl: `${frontendUrl}/terms`,
+        unsubscribeUrl: data.unsubscribeUrl,
+      }),
+    };
+  }
+
+  /**
+   * Hackathon Application Rejected Template
+   */
+  private static getHackathonApplicationRejectedTemplate(
+    data: any,
+  ): EmailTemplate {
+    const frontendUrl = config.frontendUrl;
+    const hackathonName = data.hackathonName || "Hackathon";
+    return {
+      subject: `Your application to "${hackathonName}"`,
+      priority: "normal",
+      html: EmailTemplateUtils.generateEmail({
+        emailTitle: "Hackathon Application Update",
+        preheaderText: `An update on your application to ${hackathonName}`,
+        headline: "Application Not Accepted",
+        bodyText1: `Thank you for applying to <b>${hackathonName}</b>. Unfortunately the organizers were not able to accept your application this time.`,
+        bodyText2: data.reason
+          ? `Note from the organizers: ${this.escapeHtml(data.reason)}`
+          : undefined,
+        bodyText3: "Keep an eye out for other hackathons on Boundless.",
+        ctaUrl: `${frontendUrl}/hackathons`,
+        ctaText: "Browse Hackathons",
+        privacyUrl: `${frontendUrl}/privacy`,
+        termsUrl: `${frontendUrl}/terms`,
+        unsubscribeUrl: data.unsubscribeUrl,
+      }),
+    };
+  }
+
+  /**
+   * Hackathon Phase Advanced Template
+   */
+  private static getHackathonPhaseAdvancedTemplate(data: any): EmailTemplate {
+    const frontendUrl = config.frontendUrl;
+    const hackathonName = data.hackathonName || "Hackathon";
+    const phaseName = this.escapeHtml(data.phaseName || "the next round");
+    return {
+      subject: `🚀 You advanced to ${data.phaseName || "the next round"} of "${hackathonName}"`,
+      priority: "high",
+      html: EmailTemplateUtils.generateEmail({
+        emailTitle: "Advanced to the Next Round",
+        preheaderText: `You made it to ${phaseName} of ${hackathonName}`,
+        headline: "🚀 You Advanced!",
+        bodyText1: `Congratulations! The organizers of <b>${hackathonName}</b> have advanced you to <b>${phaseName}</b>.`,
+        bodyText2: data.startDate
+          ? `Submissions for this round open on ${new Date(data.startDate).toLocaleString()} and close on ${new Date(data.endDate).toLocaleString()}.`
+          : undefined,
+        ctaUrl: `${frontendUrl}/hackathons/${data.hackathonSlug || data.hackathonId}`,
+        ctaText: "View Hackathon",
+        privacyUrl: `${frontendUrl}/privacy`,
+        termsUrl: `${frontendUrl}/terms`,
+        unsubscribeUrl: data.unsubscribeUrl,
+      }),
+    };
+  }
+
+  /**
+   * Hackathon Bounty Won Template
+   */
+  private static getHackathonBountyWonTemplate(data: any): EmailTemplate {
+    const frontendUrl = config.frontendUrl;
+    const hackathonName = data.hackathonName || "Hackathon";
+    const bountyTitle = this.escapeHtml(data.bountyTitle || "a bounty");
+    const sponsorName = this.escapeHtml(data.sponsorName || "A sponsor");
+    return {
+      subject: `🏅 You won ${data.bountyTitle || "a bounty"} in "${hackathonName}"`,
+      priority: "high",
+      html: EmailTemplateUtils.generateEmail({
+        emailTitle: "Bounty Won",
+        preheaderText: `${sponsorName} picked your project for ${bountyTitle}`,
+        headline: "🏅 You Won a Bounty!",
+        bodyText1: `Congratulations! <b>${sponsorName}</b> picked your project in <b>${hackathonName}</b> as a winner of <b>${bountyTitle}</b>.`,
+        bodyText2:
+          data.amount !== undefined
+            ? `Your reward is ${Number(data.amount).toLocaleString()} ${data.currency || ""}. We will let you know once it has been paid out.`
+            : undefined,
+        ctaUrl: `${frontendUrl}/hackathons/${data.hackathonSlug || data.hackathonId}`,
+        ctaText: "View Hackathon",
+        privacyUrl: `${frontendUrl}/privacy`,
+        termsUrl: `${frontendUrl}/terms`,
+        unsubscribeUrl: data.unsubscribeUrl,
+      }),
+    };
+  }
+
+  /**
+   * Hackathon Prize Split Proposed Template
+   */
+  private static getHackathonPrizeSplitProposedTemplate(
+    data: any,
+  ): EmailTemplate {
+    const frontendUrl = config.frontendUrl;
+    const hackathonName = data.hackathonName || "Hackathon";
+    const teamName = this.escapeHtml(data.teamName || "your team");
+    const proposerName = this.escapeHtml(data.proposerName || "Your team lead");
+    return {
+      subject: `Approve your team's prize split for "${hackathonName}"`,
+      priority: "high",
+      html: EmailTemplateUtils.generateEmail({
+        emailTitle: "Prize Split Proposed",
+        preheaderText: `${proposerName} proposed how ${teamName} splits its prize`,
+        headline: "Review Your Prize Split",
+        bodyText1: `<b>${proposerName}</b> proposed how <b>${teamName}</b> splits its prize in <b>${hackathonName}</b>.`,
+        bodyText2:
+          data.percent !== undefined
+            ? `Your share is ${data.percent}%. Every team member needs to approve the split before the prize can be paid out.`
+            : "Every team member needs to approve the split before the prize can be paid out.",
+        ctaUrl: `${frontendUrl}/hackathons/${data.hackathonSlug || data.hackathonId}`,
+        ctaText: "Review Split",
+        privacyUrl: `${frontendUrl}/privacy`,
+        termsUrl: `${frontendUrl}/terms`,
+        unsubscribeUrl: data.unsubscribeUrl,
+      }),
+    };
+  }
+
+  /**
+   * Milestone Dispute Template, used for each step of a dispute
+   */
+  private static getMilestoneDisputeTemplate(data: any): EmailTemplate {
+    const frontendUrl = config.frontendUrl;
+    const milestoneTitle = this.escapeHtml(
+      data.milestoneTitle || "a milestone",
+    );
+    const headline = data.headline || "Milestone Dispute Update";
+    return {
+      subject: `${headline}: "${data.milestoneTitle || "Milestone"}"`,
+      priority: "high",
+      html: EmailTemplateUtils.generateEmail({
+        emailTitle: headline,
+        preheaderText: `${headline} on ${milestoneTitle}`,
+        headline,
+        bodyText1: this.escapeHtml(data.message || ""),
+        bodyText2: data.deadline
+          ? `A response is due by ${new Date(data.deadline).toUTCString()}.`
+          : `Milestone: <b>${milestoneTitle}</b>`,
+        ctaUrl: `${frontendUrl}/milestones/${data.milestoneId}`,
+        ctaText: "View Dispute",
+        privacyUrl: `${frontendUrl}/privacy`,
+        termsUrl: `${frontendUrl}/terms`,
+        unsubscribeUrl: data.unsubscribeUrl,
+      }),
+    };
+  }
+
+  /**
+   * Notification Digest Template
+   */
+  private static getNotificationDigestTemplate(data: any): EmailTemplate {
+    const frontendUrl = config.frontendUrl;
+    const period = data.frequency === "weekly" ? "week" : "day";
+    const sections: Array<{
+      title: string;
+      url?: string;
+      items: Array<{ title: string; message: string }>;
+    }> = data.sections || [];
+
+    const sectionsHtml = sections
+      .map((section) => {
+        const heading = section.url
+          ? `<a href="${section.url}" style="color: #0a0a0a;">${this.escapeHtml(section.title)}</a>`
+          : this.escapeHtml(section.title);
+        const items = section.items
+          .map(
+            (item) =>
+              `<li style="margin-bottom: 8px;"><b>${this.escapeHtml(item.title)}</b><br/>${this.escapeHtml(item.message)}</li>`,
+          )
+          .join("");
+        return `<p style="margin: 16px 0 8px; font-weight: 600;">${heading}</p><ul style="margin: 0; padding-left: 20px;">${items}</ul>`;
+      })
+      .join("");
+
+    return {
+      subject: `Your ${data.frequency === "weekly" ? "weekly" : "daily"} Boundless digest: ${data.totalCount} update${data.totalCount === 1 ? "" : "s"}`,
+      priority: "low",
+      html: EmailTemplateUtils.generateEmail({
+        emailTitle: "Your Boundless Digest",
+        preheaderText: `${data.totalCount} updates from the past ${period}`,
+        headline: "📬 Here's what you missed",
+        bodyText1: `Hi ${this.escapeHtml(data.recipientName || "there")}, here is a summary of activity from the past ${period}.`,
+        bodyText2: sectionsHtml,
+        bodyText3:
+          data.omittedCount > 0
+            ? `…and ${data.omittedCount} more update${data.omittedCount === 1 ? "" : "s"}.`
+            : undefined,
+        ctaUrl: `${frontendUrl}/notifications`,
+        ctaText: "View All Notifications",
+        disclaimerText:
+          "You receive this digest because you chose to bundle these notifications. Unsubscribing stops the digest and the emails it replaces.",
+        privacyUrl: `${frontendUrl}/privacy`,
+        termsUrl: `${frontendUrl}/terms`,
+        unsubscribeUrl: data.unsubscribeUrl,
+      }),
+    };
+  }
+
+  private static escapeHtml(value: string): string {
+    return String(value)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+
   /**
    * Team Invitation Sent Template
    */
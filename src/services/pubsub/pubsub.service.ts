@@ -0,0 +1,62 @@
+import { EventEmitter } from "events";
+
+export type PubSubHandler = (message: any) => void;
+
+/**
+ * Transport used to fan messages out to subscribers. The in-memory backend
+ * only reaches subscribers in the same process; plug in a shared backend
+ * (e.g. Redis) with setBackend to fan out across PM2 cluster instances.
+ */
+export interface PubSubBackend {
+  publish(channel: string, message: any): Promise<void>;
+  subscribe(channel: string, handler: PubSubHandler): () => void;
+}
+
+export class InMemoryPubSubBackend implements PubSubBackend {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open connection, so the default limit of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(channel: string, message: any): Promise<void> {
+    this.emitter.emit(channel, message);
+  }
+
+  subscribe(channel: string, handler: PubSubHandler): () => void {
+    this.emitter.on(channel, handler);
+    return () => {
+      this.emitter.off(channel, handler);
+    };
+  }
+}
+
+class PubSubService {
+  private backend: PubSubBackend = new InMemoryPubSubBackend();
+
+  setBackend(backend: PubSubBackend): void {
+    this.backend = backend;
+  }
+
+  /**
+   * Publish a message. Failures are logged, never thrown, so a broken
+   * transport cannot fail the request that triggered the event.
+   */
+  async publish(channel: string, message: any): Promise<void> {
+    try {
+      await this.backend.publish(channel, message);
+    } catch (error) {
+      console.error(`Error publishing to ${channel}:`, error);
+    }
+  }
+
+  /**
+   * Subscribe to a channel. Returns a function that removes the subscription.
+   */
+  subscribe(channel: string, handler: PubSubHandler): () => void {
+    return this.backend.subscribe(channel, handler);
+  }
+}
+
+export default new PubSubService();
@@ -0,0 +1,24 @@
+import jobQueue, { JobName } from "./job-queue.service.js";
+import { sendEmail } from "../../utils/email.utils.js";
+import NotificationService from "../../features/notifications/notification.service.js";
+import WaitlistService from "../../features/waitlist/waitlist.service.js";
+
+/**
+ * Register the handlers for every job the application enqueues.
+ * Must run before the queue worker is started.
+ */
+export const registerJobHandlers = (): void => {
+  jobQueue.register(JobName.SEND_EMAIL, async (payload) => {
+    await sendEmail(payload);
+  });
+
+  jobQueue.register(JobName.SEND_NOTIFICATION, async (payload, job) => {
+    await NotificationService.deliverNotification(payload, job._id.toString());
+  });
+
+  jobQueue.register(JobName.SEND_WAITLIST_EMAIL, async (payload) => {
+    const { subscriberId, ...email } = payload;
+    await sendEmail(email);
+    await WaitlistService.recordEmailSent(subscriberId);
+  });
+};
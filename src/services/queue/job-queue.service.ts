@@ -0,0 +1,253 @@
+import os from "os";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Job, { IJob, JobStatus } from "../../models/job.model.js";
+import { calculateBackoffDelay } from "../../utils/retry.utils.js";
+
+export enum JobName {
+  SEND_EMAIL = "email.send",
+  SEND_NOTIFICATION = "notification.send",
+  SEND_WAITLIST_EMAIL = "waitlist.email.send",
+}
+
+export type JobHandler = (payload: any, job: IJob) => Promise<void>;
+
+export interface EnqueueOptions {
+  delay?: number; // Milliseconds before the job becomes due
+  maxAttempts?: number;
+  dedupeKey?: string; // Only one job is ever created for the same key
+}
+
+export interface JobQueueOptions {
+  pollIntervalMs?: number;
+  batchSize?: number;
+  lockTimeoutMs?: number;
+}
+
+// Backoff between attempts: 30s, 1m, 2m, 4m ... capped at 1h
+const RETRY_BACKOFF = {
+  baseDelay: 30 * 1000,
+  maxDelay: 60 * 60 * 1000,
+  backoffMultiplier: 2,
+};
+
+const MAX_ERROR_HISTORY = 10;
+
+/**
+ * Mongo-backed background job queue.
+ *
+ * Jobs are claimed with an atomic findOneAndUpdate so several server
+ * instances can poll the same collection. A job whose worker died while
+ * processing is picked up again once its lock times out. Failed jobs are
+ * retried with exponential backoff and moved to the dead letter state once
+ * maxAttempts is reached.
+ */
+class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private readonly workerId = `${os.hostname()}:${process.pid}:${crypto
+    .randomBytes(4)
+    .toString("hex")}`;
+  private options: Required<JobQueueOptions> = {
+    pollIntervalMs: 5000,
+    batchSize: 20,
+    lockTimeoutMs: 5 * 60 * 1000,
+  };
+
+  /**
+   * Register the handler for a job name
+   */
+  register(name: string, handler: JobHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  /**
+   * Persist a job to be processed by a worker. With a dedupeKey, a job
+   * already enqueued under that key is returned instead of adding another.
+   */
+  async enqueue(
+    name: string,
+    payload: Record<string, any>,
+    options: EnqueueOptions = {},
+  ): Promise<IJob> {
+    const job = {
+      name,
+      payload,
+      runAt: new Date(Date.now() + (options.delay || 0)),
+      ...(options.maxAttempts && { maxAttempts: options.maxAttempts }),
+    };
+
+    if (!options.dedupeKey) {
+      return Job.create(job);
+    }
+
+    return Job.findOneAndUpdate(
+      { dedupeKey: options.dedupeKey },
+      { $setOnInsert: { ...job, dedupeKey: options.dedupeKey } },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    ) as Promise<IJob>;
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(options: JobQueueOptions = {}): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.options = { ...this.options, ...options };
+    this.timer = setInterval(() => {
+      this.drain().catch((error) =>
+        console.error("Job queue polling error:", error),
+      );
+    }, this.options.pollIntervalMs);
+
+    console.log(`Job queue worker ${this.workerId} started`);
+  }
+
+  /**
+   * Stop polling. Jobs already running are allowed to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Process up to batchSize due jobs, one at a time
+   */
+  async drain(): Promise<number> {
+    if (this.draining || mongoose.connection.readyState !== 1) {
+      return 0;
+    }
+
+    this.draining = true;
+    let processed = 0;
+
+    try {
+      while (processed < this.options.batchSize) {
+        const job = await this.claimNext();
+        if (!job) {
+          break;
+        }
+        await this.run(job);
+        processed++;
+      }
+    } finally {
+      this.draining = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Put a dead-lettered job back on the queue with a fresh attempt budget
+   */
+  async redrive(jobId: string, redrivenBy?: string): Promise<IJob | null> {
+    return Job.findOneAndUpdate(
+      { _id: jobId, status: JobStatus.DEAD_LETTER },
+      {
+        $set: {
+          status: JobStatus.PENDING,
+          attempts: 0,
+          runAt: new Date(),
+          redrivenAt: new Date(),
+          redrivenBy,
+        },
+        $unset: { lockedAt: 1, lockedBy: 1, deadLetteredAt: 1 },
+      },
+      { new: true },
+    );
+  }
+
+  private async claimNext(): Promise<IJob | null> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - this.options.lockTimeoutMs);
+
+    return Job.findOneAndUpdate(
+      {
+        $or: [
+          { status: JobStatus.PENDING, runAt: { $lte: now } },
+          { status: JobStatus.PROCESSING, lockedAt: { $lt: staleBefore } },
+        ],
+      },
+      {
+        $set: {
+          status: JobStatus.PROCESSING,
+          lockedAt: now,
+          lockedBy: this.workerId,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true },
+    );
+  }
+
+  private async run(job: IJob): Promise<void> {
+    const handler = this.handlers.get(job.name);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job "${job.name}"`);
+      }
+
+      await handler(job.payload, job);
+
+      await Job.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        {
+          $set: { status: JobStatus.COMPLETED, completedAt: new Date() },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+        },
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = !handler || job.attempts >= job.maxAttempts;
+
+      console.error(
+        `Job ${job._id} (${job.name}) failed on attempt ${job.attempts}/${job.maxAttempts}:`,
+        message,
+      );
+
+      await Job.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        {
+          $set: {
+            lastError: message,
+            ...(exhausted
+              ? {
+                  status: JobStatus.DEAD_LETTER,
+                  deadLetteredAt: new Date(),
+                }
+              : {
+                  status: JobStatus.PENDING,
+                  runAt: new Date(
+                    Date.now() +
+                      calculateBackoffDelay(job.attempts, RETRY_BACKOFF),
+                  ),
+                }),
+          },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+          $push: {
+            errorHistory: {
+              $each: [
+                {
+                  attempt: job.attempts,
+                  message,
+                  failedAt: new Date(),
+                },
+              ],
+              $slice: -MAX_ERROR_HISTORY,
+            },
+          },
+        },
+      );
+    }
+  }
+}
+
+export default new JobQueueService();
@@ -0,0 +1,101 @@
+import scheduler from "./scheduler.service.js";
+import ProjectStatusService from "../../features/projects/project-status.service.js";
+import { TeamInvitationService } from "../../features/team-invitations/team-invitation.service.js";
+import NotificationService from "../../features/notifications/notification.service.js";
+import NotificationDigestService from "../../features/notifications/notification-digest.service.js";
+import { DigestFrequency } from "../../models/notification.model.js";
+import HackathonLifecycleService from "../../features/hackathons/hackathon-lifecycle.service.js";
+import HackathonWaitlistService from "../../features/hackathons/hackathon-waitlist.service.js";
+import HackathonPayoutService from "../../features/hackathons/hackathon-payout.service.js";
+
+/**
+ * Register the recurring jobs run by the in-process scheduler.
+ * Must run before the scheduler is started.
+ */
+export const registerScheduledJobs = (): void => {
+  scheduler.register({
+    name: "project-status-transitions",
+    schedule: "0 * * * *",
+    description:
+      "Move validated crowdfund projects on by vote count and fail expired under-funded campaigns",
+    handler: async () => {
+      const results = await ProjectStatusService.processStatusTransitions();
+      return { transitions: results.length };
+    },
+  });
+
+  scheduler.register({
+    name: "crowdfund-vote-deadlines",
+    schedule: "0 */6 * * *",
+    description: "Resolve crowdfunds whose voting deadline has passed",
+    handler: async () => {
+      const results = await ProjectStatusService.processExpiredVotingDeadlines({
+        voteThreshold: 50,
+        positiveVoteRatio: 0.55,
+        negativeVoteRatio: 0.45,
+      });
+      return { expired: results.length };
+    },
+  });
+
+  scheduler.register({
+    name: "hackathon-timeline",
+    schedule: "*/5 * * * *",
+    description:
+      "Move hackathons along their timeline, close submissions and send deadline reminders",
+    handler: () => HackathonLifecycleService.processTimeline(),
+  });
+
+  scheduler.register({
+    name: "hackathon-waitlist-offers",
+    schedule: "*/15 * * * *",
+    description:
+      "Expire unconfirmed waitlist offers and offer free hackathon spots to the next in line",
+    handler: () => HackathonWaitlistService.processOffers(),
+  });
+
+  scheduler.register({
+    name: "hackathon-payout-reconciliation",
+    schedule: "*/10 * * * *",
+    description:
+      "Confirm released prize payouts against Horizon and fail those that never settled",
+    handler: () => HackathonPayoutService.reconcile(),
+  });
+
+  scheduler.register({
+    name: "notification-digest-daily",
+    schedule: "0 8 * * *",
+    description: "Send the daily notification digest",
+    leaseMs: 60 * 60 * 1000,
+    handler: () => NotificationDigestService.sendDigests(DigestFrequency.DAILY),
+  });
+
+  scheduler.register({
+    name: "notification-digest-weekly",
+    schedule: "0 8 * * 1",
+    description: "Send the weekly notification digest",
+    leaseMs: 60 * 60 * 1000,
+    handler: () =>
+      NotificationDigestService.sendDigests(DigestFrequency.WEEKLY),
+  });
+
+  scheduler.register({
+    name: "team-invitation-cleanup",
+    schedule: "0 3 * * *",
+    description: "Mark pending team invitations past their expiry as expired",
+    handler: async () => {
+      const expired = await TeamInvitationService.cleanupExpiredInvitations();
+      return { expired };
+    },
+  });
+
+  scheduler.register({
+    name: "notification-cleanup",
+    schedule: "30 3 * * *",
+    description: "Delete read notifications older than 90 days",
+    handler: async () => {
+      const deleted = await NotificationService.cleanupOldNotifications();
+      return { deleted };
+    },
+  });
+};
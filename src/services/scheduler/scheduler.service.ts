@@ -0,0 +1,271 @@
+import os from "os";
+import crypto from "crypto";
+import cron, { ScheduledTask } from "node-cron";
+import mongoose from "mongoose";
+import ScheduledJob, {
+  IScheduledJob,
+  ScheduledJobRunStatus,
+  ScheduledJobTrigger,
+} from "../../models/scheduled-job.model.js";
+
+export interface ScheduledJobDefinition {
+  name: string;
+  schedule: string; // Cron expression
+  description?: string;
+  leaseMs?: number; // How long a run may hold the lock before it is considered dead
+  handler: () => Promise<Record<string, any> | void>;
+}
+
+export interface ScheduledJobRunOutcome {
+  name: string;
+  status: ScheduledJobRunStatus | "skipped";
+  result?: Record<string, any>;
+  error?: string;
+  durationMs?: number;
+}
+
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * In-process cron scheduler.
+ *
+ * Every server instance schedules the same jobs, but a run only goes ahead
+ * once it has taken the job's lease in Mongo. A scheduled run also claims
+ * its tick, the time the cron fired for, so under PM2 cluster mode a job
+ * runs on a single instance per tick even when it finishes before the
+ * other instances try. The lease document also records the outcome of the
+ * last run.
+ */
+class SchedulerService {
+  private jobs = new Map<string, ScheduledJobDefinition>();
+  private tasks = new Map<string, ScheduledTask>();
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${crypto
+    .randomBytes(4)
+    .toString("hex")}`;
+
+  /**
+   * Register a named job. Names must be unique.
+   */
+  register(definition: ScheduledJobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Scheduled job "${definition.name}" already registered`);
+    }
+    if (!cron.validate(definition.schedule)) {
+      throw new Error(
+        `Invalid cron expression "${definition.schedule}" for job "${definition.name}"`,
+      );
+    }
+    this.jobs.set(definition.name, definition);
+  }
+
+  /**
+   * Start the cron timers for every registered job
+   */
+  start(): void {
+    this.jobs.forEach((job) => {
+      if (this.tasks.has(job.name)) {
+        return;
+      }
+
+      const task = cron.schedule(
+        job.schedule,
+        async (context) => {
+          // Instances fire a few milliseconds apart for the same tick
+          const tick = new Date(context.date);
+          tick.setMilliseconds(0);
+          try {
+            await this.runJob(
+              job.name,
+              ScheduledJobTrigger.SCHEDULE,
+              undefined,
+              tick,
+            );
+          } catch (error) {
+            console.error(`Scheduled job ${job.name} error:`, error);
+          }
+        },
+        { name: job.name, noOverlap: true },
+      );
+      this.tasks.set(job.name, task);
+    });
+
+    console.log(
+      `Scheduler ${this.instanceId} started with ${this.tasks.size} job(s)`,
+    );
+  }
+
+  /**
+   * Stop all cron timers. Runs in progress are allowed to finish.
+   */
+  async stop(): Promise<void> {
+    for (const task of this.tasks.values()) {
+      await task.stop();
+    }
+    this.tasks.clear();
+  }
+
+  has(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  /**
+   * List registered jobs with their schedule and last run record
+   */
+  async list(): Promise<
+    Array<{
+      name: string;
+      schedule: string;
+      description?: string;
+      nextRunAt: Date | null;
+      running: boolean;
+      lastRun: Partial<IScheduledJob> | null;
+    }>
+  > {
+    const records = await ScheduledJob.find({
+      name: { $in: Array.from(this.jobs.keys()) },
+    }).lean();
+    const now = new Date();
+
+    return Array.from(this.jobs.values()).map((job) => {
+      const record = records.find((entry) => entry.name === job.name);
+
+      return {
+        name: job.name,
+        schedule: job.schedule,
+        description: job.description,
+        nextRunAt: this.tasks.get(job.name)?.getNextRun() ?? null,
+        running: !!record?.lockedUntil && record.lockedUntil > now,
+        lastRun: record
+          ? {
+              lastRunAt: record.lastRunAt,
+              lastFinishedAt: record.lastFinishedAt,
+              lastDurationMs: record.lastDurationMs,
+              lastStatus: record.lastStatus,
+              lastTrigger: record.lastTrigger,
+              lastTriggeredBy: record.lastTriggeredBy,
+              lastResult: record.lastResult,
+              lastError: record.lastError,
+              runCount: record.runCount,
+              failureCount: record.failureCount,
+            }
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Run a job now if its lease is free. Returns "skipped" when another
+   * instance (or an earlier tick) is still holding the lease, or when
+   * another instance already ran the job for the same tick.
+   */
+  async runJob(
+    name: string,
+    trigger: ScheduledJobTrigger,
+    triggeredBy?: string,
+    tick?: Date,
+  ): Promise<ScheduledJobRunOutcome> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Scheduled job "${name}" is not registered`);
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      return { name, status: "skipped", error: "Database not connected" };
+    }
+
+    const acquired = await this.acquireLease(job, trigger, triggeredBy, tick);
+    if (!acquired) {
+      return {
+        name,
+        status: "skipped",
+        error: tick
+          ? "Job is already running or already ran for this tick"
+          : "Job is already running",
+      };
+    }
+
+    const startedAt = Date.now();
+    let outcome: ScheduledJobRunOutcome;
+
+    try {
+      const result = (await job.handler()) || undefined;
+      outcome = {
+        name,
+        status: ScheduledJobRunStatus.SUCCEEDED,
+        result,
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      console.error(`Scheduled job ${name} failed:`, error);
+      outcome = {
+        name,
+        status: ScheduledJobRunStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      };
+    }
+
+    await ScheduledJob.updateOne(
+      { name, lockedBy: this.instanceId },
+      {
+        $set: {
+          lastFinishedAt: new Date(),
+          lastDurationMs: outcome.durationMs,
+          lastStatus: outcome.status,
+          lastResult: outcome.result ?? null,
+          lastError: outcome.error ?? null,
+        },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+        $inc: {
+          runCount: 1,
+          failureCount: outcome.status === ScheduledJobRunStatus.FAILED ? 1 : 0,
+        },
+      },
+    );
+
+    return outcome;
+  }
+
+  private async acquireLease(
+    job: ScheduledJobDefinition,
+    trigger: ScheduledJobTrigger,
+    triggeredBy?: string,
+    tick?: Date,
+  ): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      const lease = await ScheduledJob.findOneAndUpdate(
+        {
+          name: job.name,
+          $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+          ...(tick && { lastTickAt: { $ne: tick } }),
+        },
+        {
+          $set: {
+            ...(tick && { lastTickAt: tick }),
+            lockedBy: this.instanceId,
+            lockedUntil: new Date(
+              now.getTime() + (job.leaseMs || DEFAULT_LEASE_MS),
+            ),
+            lastRunAt: now,
+            lastStatus: ScheduledJobRunStatus.RUNNING,
+            lastTrigger: trigger,
+            lastTriggeredBy: triggeredBy ?? null,
+          },
+        },
+        { upsert: true, new: true },
+      );
+      return !!lease;
+    } catch (error: any) {
+      // The upsert collides with the unique name index while another
+      // instance holds the lease or has already claimed the tick
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+export default new SchedulerService();
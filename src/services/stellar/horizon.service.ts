@@ -0,0 +1,288 @@
+import axios, { AxiosInstance } from "axios";
+import { config } from "../../config/main.config.js";
+
+// Horizon amounts are strings with 7 decimal places (1 unit = 10^7 stroops)
+const STROOPS_PER_UNIT = 10_000_000;
+
+export interface HorizonTransaction {
+  hash: string;
+  successful: boolean;
+  source_account: string;
+  ledger: number;
+  created_at: string;
+  memo?: string;
+}
+
+export interface HorizonOperation {
+  id: string;
+  type: string;
+  source_account?: string;
+  from?: string;
+  to?: string;
+  amount?: string;
+  asset_type?: string;
+  asset_code?: string;
+  asset_issuer?: string;
+  asset_balance_changes?: Array<{
+    type: string;
+    from?: string;
+    to?: string;
+    amount: string;
+    asset_type: string;
+    asset_code?: string;
+    asset_issuer?: string;
+  }>;
+}
+
+export interface VerifyPaymentOptions {
+  transactionHash: string;
+  destination: string;
+  currency: string;
+  amount: number;
+  // When set, only transfers sent from one of these addresses count
+  sources?: string[];
+}
+
+export interface PaymentVerificationResult {
+  valid: boolean;
+  reason?: string;
+  payment?: {
+    from: string;
+    to: string;
+    amount: number;
+    assetCode: string;
+    assetIssuer?: string;
+    ledger: number;
+    confirmedAt: Date;
+  };
+}
+
+/**
+ * Raised when Horizon cannot be reached or returns an unexpected response.
+ * Distinct from a payment that was found but does not match.
+ */
+export class HorizonUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HorizonUnavailableError";
+  }
+}
+
+const PAYMENT_OPERATION_TYPES = [
+  "payment",
+  "path_payment_strict_receive",
+  "path_payment_strict_send",
+];
+
+export interface HorizonServiceOptions {
+  horizonUrl?: string;
+  requestTimeoutMs?: number;
+  // Trusted issuer per asset code; payments in other assets are rejected
+  assetIssuers?: Record<string, string>;
+}
+
+export class HorizonService {
+  private client: AxiosInstance;
+  private assetIssuers: Record<string, string>;
+
+  constructor(options: HorizonServiceOptions = {}) {
+    this.assetIssuers = options.assetIssuers || config.stellar.assetIssuers;
+    const horizonUrl = options.horizonUrl || config.stellar.horizonUrl;
+    this.client = axios.create({
+      baseURL: horizonUrl.replace(/\/+$/, ""),
+      timeout: options.requestTimeoutMs || config.stellar.requestTimeoutMs,
+      headers: { Accept: "application/json" },
+    });
+  }
+
+  /**
+   * Fetch a transaction by hash. Returns null if Horizon does not know it.
+   */
+  async getTransaction(hash: string): Promise<HorizonTransaction | null> {
+    try {
+      const { data } = await this.client.get<HorizonTransaction>(
+        `/transactions/${encodeURIComponent(hash)}`,
+      );
+      return data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw new HorizonUnavailableError(
+        `Failed to fetch transaction ${hash} from Horizon: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Fetch the operations contained in a transaction
+   */
+  async getTransactionOperations(hash: string): Promise<HorizonOperation[]> {
+    try {
+      const { data } = await this.client.get(
+        `/transactions/${encodeURIComponent(hash)}/operations`,
+        { params: { limit: 200 } },
+      );
+      return data?._embedded?.records || [];
+    } catch (error) {
+      throw new HorizonUnavailableError(
+        `Failed to fetch operations for ${hash} from Horizon: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Map a platform currency to the Stellar asset we expect to receive.
+   * "XLM" is the native asset; "USD" is settled in USDC.
+   */
+  resolveAsset(currency: string): { native: boolean; code: string } {
+    const code = (currency || "").trim().toUpperCase();
+    if (code === "XLM" || code === "NATIVE") {
+      return { native: true, code: "XLM" };
+    }
+    if (code === "USD") {
+      return { native: false, code: "USDC" };
+    }
+    return { native: false, code };
+  }
+
+  /**
+   * Convert a Horizon amount string (or number) to stroops for exact comparison
+   */
+  toStroops(amount: string | number): number {
+    return Math.round(Number(amount) * STROOPS_PER_UNIT);
+  }
+
+  /**
+   * Verify that a transaction on the ledger paid `amount` of `currency`
+   * to `destination`. Payments into Soroban escrow contracts show up as
+   * asset balance changes on invoke_host_function operations, so both
+   * shapes are accepted.
+   */
+  async verifyPayment(
+    options: VerifyPaymentOptions,
+  ): Promise<PaymentVerificationResult> {
+    const { transactionHash, destination, currency, amount, sources } = options;
+
+    const transaction = await this.getTransaction(transactionHash);
+    if (!transaction) {
+      return {
+        valid: false,
+        reason: "Transaction not found on the Stellar network",
+      };
+    }
+
+    if (!transaction.successful) {
+      return { valid: false, reason: "Transaction failed on the ledger" };
+    }
+
+    const operations = await this.getTransactionOperations(transactionHash);
+    const expectedAsset = this.resolveAsset(currency);
+    const expectedStroops = this.toStroops(amount);
+
+    // Anyone can issue an asset with any code, so only count non-native
+    // payments from an issuer we trust
+    const expectedIssuer = this.assetIssuers[expectedAsset.code];
+    if (!expectedAsset.native && !expectedIssuer) {
+      return {
+        valid: false,
+        reason: `No trusted issuer is configured for ${expectedAsset.code}`,
+      };
+    }
+
+    const transfers = operations.flatMap((operation) => {
+      if (PAYMENT_OPERATION_TYPES.includes(operation.type)) {
+        return [
+          {
+            from: operation.from || operation.source_account || "",
+            to: operation.to || "",
+            amount: operation.amount || "0",
+            assetType: operation.asset_type || "",
+            assetCode: operation.asset_code,
+            assetIssuer: operation.asset_issuer,
+          },
+        ];
+      }
+      if (operation.type === "invoke_host_function") {
+        return (operation.asset_balance_changes || [])
+          .filter((change) => change.type === "transfer")
+          .map((change) => ({
+            from: change.from || "",
+            to: change.to || "",
+            amount: change.amount,
+            assetType: change.asset_type,
+            assetCode: change.asset_code,
+            assetIssuer: change.asset_issuer,
+          }));
+      }
+      return [];
+    });
+
+    const toDestination = transfers.filter(
+      (transfer) => transfer.to === destination,
+    );
+    if (toDestination.length === 0) {
+      return {
+        valid: false,
+        reason: "Transaction does not pay the expected destination address",
+      };
+    }
+
+    const fromSource = sources
+      ? toDestination.filter((transfer) => sources.includes(transfer.from))
+      : toDestination;
+    if (fromSource.length === 0) {
+      return {
+        valid: false,
+        reason: "Transaction was not sent from the expected source address",
+      };
+    }
+
+    const matchingAsset = fromSource.filter((transfer) => {
+      if (expectedAsset.native) {
+        return transfer.assetType === "native";
+      }
+      return (
+        transfer.assetCode?.toUpperCase() === expectedAsset.code &&
+        transfer.assetIssuer === expectedIssuer
+      );
+    });
+    if (matchingAsset.length === 0) {
+      return {
+        valid: false,
+        reason: `Transaction does not pay in ${expectedAsset.code}`,
+      };
+    }
+
+    const receivedStroops = matchingAsset.reduce(
+      (sum, transfer) => sum + this.toStroops(transfer.amount),
+      0,
+    );
+    if (receivedStroops !== expectedStroops) {
+      return {
+        valid: false,
+        reason: `Transaction amount ${receivedStroops / STROOPS_PER_UNIT} does not match the submitted amount ${amount}`,
+      };
+    }
+
+    const payment = matchingAsset[0];
+    return {
+      valid: true,
+      payment: {
+        from: payment.from,
+        to: payment.to,
+        amount: receivedStroops / STROOPS_PER_UNIT,
+        assetCode: expectedAsset.code,
+        assetIssuer: payment.assetIssuer,
+        ledger: transaction.ledger,
+        confirmedAt: new Date(transaction.created_at),
+      },
+    };
+  }
+}
+
+export default new HorizonService();
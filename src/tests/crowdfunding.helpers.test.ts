@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import mongoose from "mongoose";
+import Transaction, {
+  TransactionStatus,
+  TransactionType,
+} from "../models/transaction.model.js";
+import { claimFundingTransaction } from "../features/crowdfunding/crowdfunding.helpers.js";
+
+const projectId = new mongoose.Types.ObjectId();
+const userId = new mongoose.Types.ObjectId();
+
+const payment = {
+  from: "GBACKER",
+  to: "GESCROW",
+  amount: 25,
+  assetCode: "USDC",
+  assetIssuer: "GISSUER",
+  ledger: 123,
+};
+
+const claim = (existingRecordId?: mongoose.Types.ObjectId) =>
+  claimFundingTransaction({
+    existingRecordId,
+    projectId,
+    userId,
+    transactionHash: "tx-hash",
+    payment,
+  });
+
+const duplicateKeyError = () =>
+  Object.assign(new Error("E11000 duplicate key error"), { code: 11000 });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("claimFundingTransaction", () => {
+  it("records a new hash as a pending funding transaction", async () => {
+    const recordId = new mongoose.Types.ObjectId();
+    const create = jest
+      .spyOn(Transaction, "create")
+      .mockResolvedValue({ _id: recordId } as never);
+
+    await expect(claim()).resolves.toBe(recordId);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId,
+        transactionHash: "tx-hash",
+        type: TransactionType.FUNDING,
+        status: TransactionStatus.PENDING,
+        amount: 25,
+        fromAddress: "GBACKER",
+        toAddress: "GESCROW",
+      }),
+    );
+  });
+
+  it("loses to a concurrent claim of the same hash", async () => {
+    jest.spyOn(Transaction, "create").mockRejectedValue(duplicateKeyError());
+
+    await expect(claim()).resolves.toBeNull();
+  });
+
+  it("rethrows other errors", async () => {
+    jest.spyOn(Transaction, "create").mockRejectedValue(new Error("down"));
+
+    await expect(claim()).rejects.toThrow("down");
+  });
+
+  it("re-claims a failed hash for the project it now pays", async () => {
+    const recordId = new mongoose.Types.ObjectId();
+    const updateOne = jest
+      .spyOn(Transaction, "updateOne")
+      .mockResolvedValue({ modifiedCount: 1 } as never);
+
+    await expect(claim(recordId)).resolves.toBe(recordId);
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: recordId, status: TransactionStatus.FAILED },
+      {
+        $set: expect.objectContaining({
+          projectId,
+          type: TransactionType.FUNDING,
+          status: TransactionStatus.PENDING,
+        }),
+      },
+    );
+  });
+
+  it("doesn't re-claim a failed hash someone else claimed first", async () => {
+    jest
+      .spyOn(Transaction, "updateOne")
+      .mockResolvedValue({ modifiedCount: 0 } as never);
+
+    await expect(claim(new mongoose.Types.ObjectId())).resolves.toBeNull();
+  });
+});
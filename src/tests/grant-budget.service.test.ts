@@ -0,0 +1,274 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import mongoose from "mongoose";
+import Grant from "../models/grant.model.js";
+import GrantBudgetEntry, {
+  GrantBudgetEntryType,
+} from "../models/grant-budget-entry.model.js";
+import Project from "../models/project.model.js";
+import GrantBudgetService from "../features/grants/grant-budget.service.js";
+
+type Entry = {
+  _id: mongoose.Types.ObjectId;
+  key?: string;
+  type: GrantBudgetEntryType;
+  amount: number;
+  applicationId?: mongoose.Types.ObjectId;
+  milestoneId?: mongoose.Types.ObjectId;
+};
+
+type Budget = { committed: number; escrowed: number; disbursed: number };
+
+// An in-memory stand-in for the ledger and the grant's running totals
+let entries: Entry[];
+let grant: {
+  _id: mongoose.Types.ObjectId;
+  totalBudget: number;
+  budget: Budget;
+};
+
+const sameId = (a?: unknown, b?: unknown) => String(a) === String(b);
+
+const sumOf = (filter: { applicationId: unknown; type: string }) =>
+  entries
+    .filter(
+      (entry) =>
+        entry.type === filter.type &&
+        sameId(entry.applicationId, filter.applicationId),
+    )
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+const fakeLedger = () => {
+  jest.spyOn(GrantBudgetEntry, "aggregate").mockImplementation(((
+    pipeline: any[],
+  ) => {
+    const amount = sumOf(pipeline[0].$match);
+    return { session: async () => (amount ? [{ amount }] : []) };
+  }) as never);
+
+  jest
+    .spyOn(GrantBudgetEntry, "countDocuments")
+    .mockImplementation(((filter: any) =>
+      Promise.resolve(
+        entries.filter(
+          (entry) =>
+            entry.type === filter.type &&
+            sameId(entry.applicationId, filter.applicationId),
+        ).length,
+      )) as never);
+
+  jest.spyOn(GrantBudgetEntry, "updateOne").mockImplementation(((
+    filter: { key: string },
+    update: any,
+  ) => {
+    if (entries.some((entry) => entry.key === filter.key)) {
+      return Promise.resolve({ upsertedId: null });
+    }
+    const _id = new mongoose.Types.ObjectId();
+    entries.push({ _id, key: filter.key, ...update.$setOnInsert });
+    return Promise.resolve({ upsertedId: _id });
+  }) as never);
+
+  jest.spyOn(GrantBudgetEntry, "create").mockImplementation(((
+    docs: Omit<Entry, "_id">[],
+  ) => {
+    const created = docs.map((doc) => ({
+      _id: new mongoose.Types.ObjectId(),
+      ...doc,
+    }));
+    entries.push(...created);
+    return Promise.resolve(created);
+  }) as never);
+
+  jest.spyOn(GrantBudgetEntry, "deleteOne").mockImplementation(((filter: {
+    _id: unknown;
+  }) => {
+    entries = entries.filter((entry) => !sameId(entry._id, filter._id));
+    return Promise.resolve({ deletedCount: 1 });
+  }) as never);
+
+  // Guarded increment: only applies while the total stays within budget
+  jest.spyOn(Grant, "findOneAndUpdate").mockImplementation(((
+    _filter: unknown,
+    update: any,
+  ) => {
+    const [path, amount] = Object.entries(update.$inc)[0] as [string, number];
+    const field = path.split(".")[1] as keyof Budget;
+    if (grant.budget[field] + amount > grant.totalBudget) {
+      return Promise.resolve(null);
+    }
+    grant.budget[field] += amount;
+    return Promise.resolve(grant);
+  }) as never);
+
+  jest.spyOn(Grant, "updateOne").mockImplementation(((
+    _filter: unknown,
+    update: any,
+  ) => {
+    grant.budget.committed += update.$inc["budget.committed"];
+    return Promise.resolve({ modifiedCount: 1 });
+  }) as never);
+
+  jest
+    .spyOn(Project, "updateMany")
+    .mockResolvedValue({ modifiedCount: 0 } as never);
+};
+
+const applicationId = new mongoose.Types.ObjectId();
+const application = {
+  _id: applicationId,
+  milestones: [{ expectedPayout: 300 }, { expectedPayout: 200 }],
+};
+
+beforeEach(() => {
+  entries = [];
+  grant = {
+    _id: new mongoose.Types.ObjectId(),
+    totalBudget: 1000,
+    budget: { committed: 0, escrowed: 0, disbursed: 0 },
+  };
+  fakeLedger();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("GrantBudgetService.commit", () => {
+  it("commits an application's payouts against the budget", async () => {
+    await expect(
+      GrantBudgetService.commit(grant._id, application),
+    ).resolves.toBe(true);
+
+    expect(grant.budget.committed).toBe(500);
+    expect(entries).toEqual([
+      expect.objectContaining({
+        key: `${applicationId}:commitment:0`,
+        type: GrantBudgetEntryType.COMMITMENT,
+        amount: 500,
+      }),
+    ]);
+  });
+
+  it("commits an application only once", async () => {
+    await GrantBudgetService.commit(grant._id, application);
+    await expect(
+      GrantBudgetService.commit(grant._id, application),
+    ).resolves.toBe(true);
+
+    expect(grant.budget.committed).toBe(500);
+    expect(entries).toHaveLength(1);
+  });
+
+  it("refuses to commit past the grant's budget", async () => {
+    grant.budget.committed = 600;
+
+    await expect(
+      GrantBudgetService.commit(grant._id, application),
+    ).resolves.toBe(false);
+
+    expect(grant.budget.committed).toBe(600);
+    expect(entries).toHaveLength(0);
+  });
+});
+
+describe("GrantBudgetService.release", () => {
+  it("gives back a commitment once", async () => {
+    await GrantBudgetService.commit(grant._id, application);
+
+    await expect(
+      GrantBudgetService.release(grant._id, applicationId),
+    ).resolves.toBe(500);
+    await expect(
+      GrantBudgetService.release(grant._id, applicationId),
+    ).resolves.toBe(0);
+
+    expect(grant.budget.committed).toBe(0);
+    expect(
+      entries.filter((entry) => entry.type === GrantBudgetEntryType.RELEASE),
+    ).toHaveLength(1);
+  });
+
+  it("lets a released application be committed again", async () => {
+    await GrantBudgetService.commit(grant._id, application);
+    await GrantBudgetService.release(grant._id, applicationId);
+
+    await expect(
+      GrantBudgetService.commit(grant._id, application),
+    ).resolves.toBe(true);
+
+    expect(grant.budget.committed).toBe(500);
+    expect(entries.map((entry) => entry.key)).toEqual([
+      `${applicationId}:commitment:0`,
+      `${applicationId}:release:0`,
+      `${applicationId}:commitment:1`,
+    ]);
+  });
+});
+
+describe("GrantBudgetService.recordDisbursement", () => {
+  beforeEach(async () => {
+    await GrantBudgetService.commit(grant._id, application);
+  });
+
+  it("records a milestone's payout only once", async () => {
+    const milestoneId = new mongoose.Types.ObjectId();
+
+    for (let i = 0; i < 2; i++) {
+      await expect(
+        GrantBudgetService.recordDisbursement(grant._id, applicationId, 300, {
+          milestoneId,
+        }),
+      ).resolves.toBeNull();
+    }
+
+    expect(grant.budget.disbursed).toBe(300);
+    expect(
+      entries.filter(
+        (entry) => entry.type === GrantBudgetEntryType.DISBURSEMENT,
+      ),
+    ).toEqual([
+      expect.objectContaining({ key: `${milestoneId}:disbursement` }),
+    ]);
+  });
+
+  it("refuses to pay more than the application committed", async () => {
+    await GrantBudgetService.recordDisbursement(grant._id, applicationId, 300, {
+      milestoneId: new mongoose.Types.ObjectId(),
+    });
+
+    await expect(
+      GrantBudgetService.recordDisbursement(grant._id, applicationId, 300, {
+        milestoneId: new mongoose.Types.ObjectId(),
+      }),
+    ).resolves.toMatch(/remaining commitment of 200/);
+
+    expect(grant.budget.disbursed).toBe(300);
+    expect(
+      entries.filter(
+        (entry) => entry.type === GrantBudgetEntryType.DISBURSEMENT,
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("refuses to pay past the grant's budget", async () => {
+    grant.budget.disbursed = 900;
+
+    await expect(
+      GrantBudgetService.recordDisbursement(grant._id, applicationId, 200, {}),
+    ).resolves.toMatch(/total budget/);
+
+    expect(grant.budget.disbursed).toBe(900);
+    expect(
+      entries.filter(
+        (entry) => entry.type === GrantBudgetEntryType.DISBURSEMENT,
+      ),
+    ).toHaveLength(0);
+  });
+});
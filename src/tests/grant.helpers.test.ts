@@ -0,0 +1,66 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import {
+  calculateWeightedScore,
+  resolveQuorumDecision,
+} from "../features/grants/grant.helpers.js";
+
+// The hackathon helpers pull in better-auth, which only ships ES modules
+// that jest can't load here; nothing under test uses them
+jest.mock("../features/hackathons/hackathon.helpers.js", () => ({}));
+
+const grant = { quorum: { minReviews: 3, passScore: 70 } };
+
+describe("resolveQuorumDecision", () => {
+  it("waits until the quorum of reviews is in", () => {
+    expect(resolveQuorumDecision(grant, [])).toBeNull();
+    expect(resolveQuorumDecision(grant, [90, 95])).toBeNull();
+  });
+
+  it("approves when the average score reaches the pass score", () => {
+    expect(resolveQuorumDecision(grant, [60, 70, 80])).toBe("approved");
+  });
+
+  it("rejects when the average score falls short", () => {
+    expect(resolveQuorumDecision(grant, [60, 70, 79])).toBe("rejected");
+  });
+
+  it("counts every review once the quorum is passed", () => {
+    expect(resolveQuorumDecision(grant, [100, 100, 100, 0])).toBe("approved");
+    expect(resolveQuorumDecision(grant, [100, 100, 40, 0])).toBe("rejected");
+  });
+
+  it("defaults to one review and a pass score of 50", () => {
+    const defaults = { quorum: {} } as never;
+
+    expect(resolveQuorumDecision(defaults, [50])).toBe("approved");
+    expect(resolveQuorumDecision(defaults, [49.99])).toBe("rejected");
+  });
+});
+
+describe("calculateWeightedScore", () => {
+  const rubric = [
+    { title: "Impact", weight: 60 },
+    { title: "Feasibility", weight: 40 },
+  ] as never;
+
+  it("weights each criterion's score", () => {
+    expect(
+      calculateWeightedScore(
+        [
+          { criterionTitle: "Impact", score: 80 },
+          { criterionTitle: "Feasibility", score: 50 },
+        ],
+        rubric,
+      ),
+    ).toBe(68);
+  });
+
+  it("scores a missing criterion as 0", () => {
+    expect(
+      calculateWeightedScore(
+        [{ criterionTitle: "Impact", score: 100 }],
+        rubric,
+      ),
+    ).toBe(60);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  computeNormalizedResults,
+  JudgeScoreInput,
+} from "../features/hackathons/hackathon-judging.helpers.js";
+
+const score = (
+  judgeId: string,
+  submissionId: string,
+  weightedScore: number,
+): JudgeScoreInput => ({ judgeId, submissionId, weightedScore });
+
+const bySubmission = (
+  results: ReturnType<typeof computeNormalizedResults>,
+  submissionId: string,
+) => results.submissions.find((s) => s.submissionId === submissionId)!;
+
+describe("computeNormalizedResults", () => {
+  it("gives a judge who graded one submission a z-score of 0", () => {
+    const results = computeNormalizedResults([score("a", "s1", 80)], 15);
+
+    expect(results.judges).toEqual([
+      { judgeId: "a", submissionCount: 1, mean: 80, stdDev: 0 },
+    ]);
+    expect(bySubmission(results, "s1")).toMatchObject({
+      judgeCount: 1,
+      rawAverage: 80,
+      normalizedZScore: 0,
+      normalizedScore: 80,
+      disagreement: false,
+      suggestedRank: 1,
+    });
+  });
+
+  it("gives every submission a z-score of 0 when all judges score alike", () => {
+    const results = computeNormalizedResults(
+      [
+        score("a", "s1", 70),
+        score("a", "s2", 70),
+        score("b", "s1", 70),
+        score("b", "s2", 70),
+      ],
+      15,
+    );
+
+    results.judges.forEach((judge) => expect(judge.stdDev).toBe(0));
+    results.submissions.forEach((submission) => {
+      expect(submission.normalizedZScore).toBe(0);
+      expect(submission.normalizedScore).toBe(70);
+      expect(submission.spread).toEqual({
+        stdDev: 0,
+        min: 70,
+        max: 70,
+        range: 0,
+      });
+      expect(submission.disagreement).toBe(false);
+    });
+    expect(results.submissions.map((s) => s.suggestedRank)).toEqual([1, 2]);
+  });
+
+  it("flags submissions whose judge scores spread beyond the threshold", () => {
+    const scores = [
+      score("a", "s1", 50),
+      score("a", "s2", 70),
+      score("b", "s1", 90),
+      score("b", "s2", 72),
+    ];
+
+    const strict = computeNormalizedResults(scores, 15);
+    expect(bySubmission(strict, "s1").spread.stdDev).toBe(20);
+    expect(bySubmission(strict, "s1").disagreement).toBe(true);
+    expect(bySubmission(strict, "s2").disagreement).toBe(false);
+
+    // The threshold itself is not a disagreement
+    const lenient = computeNormalizedResults(scores, 20);
+    expect(bySubmission(lenient, "s1").disagreement).toBe(false);
+  });
+
+  it("ranks by normalized score so a harsh judge doesn't skew results", () => {
+    const results = computeNormalizedResults(
+      [
+        score("harsh", "s1", 40),
+        score("harsh", "s2", 60),
+        score("harsh", "s3", 50),
+        score("generous", "s1", 80),
+        score("generous", "s2", 100),
+        score("generous", "s3", 90),
+      ],
+      50,
+    );
+
+    expect(bySubmission(results, "s2").suggestedRank).toBe(1);
+    expect(bySubmission(results, "s3").suggestedRank).toBe(2);
+    expect(bySubmission(results, "s1").suggestedRank).toBe(3);
+    expect(bySubmission(results, "s3").normalizedZScore).toBe(0);
+  });
+});
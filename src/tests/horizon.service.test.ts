@@ -0,0 +1,242 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import { HorizonService } from "../services/stellar/horizon.service.js";
+
+const BACKER = "GBACKERAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+const OTHER = "GOTHERAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+const ESCROW = "GESCROWAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+const ISSUER = "GISSUERAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+
+type MockTransaction = {
+  successful: boolean;
+  operations: Record<string, unknown>[];
+};
+
+const payment = (overrides: Record<string, unknown> = {}) => ({
+  id: "1",
+  type: "payment",
+  from: BACKER,
+  to: ESCROW,
+  amount: "25.0000000",
+  asset_type: "native",
+  ...overrides,
+});
+
+// Transactions the mock Horizon knows, by hash
+const transactions: Record<string, MockTransaction> = {
+  "tx-ok": { successful: true, operations: [payment()] },
+  "tx-failed": { successful: false, operations: [payment()] },
+  "tx-wrong-destination": {
+    successful: true,
+    operations: [payment({ to: OTHER })],
+  },
+  "tx-wrong-amount": {
+    successful: true,
+    operations: [payment({ amount: "24.9999999" })],
+  },
+  "tx-wrong-asset": {
+    successful: true,
+    operations: [
+      payment({
+        asset_type: "credit_alphanum4",
+        asset_code: "USDC",
+        asset_issuer: OTHER,
+      }),
+    ],
+  },
+  "tx-usdc": {
+    successful: true,
+    operations: [
+      payment({
+        asset_type: "credit_alphanum4",
+        asset_code: "USDC",
+        asset_issuer: ISSUER,
+      }),
+    ],
+  },
+  "tx-from-other": {
+    successful: true,
+    operations: [payment({ from: OTHER })],
+  },
+  "tx-soroban": {
+    successful: true,
+    operations: [
+      {
+        id: "1",
+        type: "invoke_host_function",
+        asset_balance_changes: [
+          {
+            type: "transfer",
+            from: BACKER,
+            to: ESCROW,
+            amount: "25.0000000",
+            asset_type: "native",
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const match = req.url?.match(/^\/transactions\/([^/?]+)(\/operations)?/);
+  const hash = match && decodeURIComponent(match[1]);
+  if (hash === "tx-server-error") {
+    return sendJson(res, 503, { title: "Service Unavailable" });
+  }
+  const transaction = hash ? transactions[hash] : undefined;
+  if (!transaction) {
+    return sendJson(res, 404, { title: "Resource Missing" });
+  }
+  if (match?.[2]) {
+    return sendJson(res, 200, {
+      _embedded: { records: transaction.operations },
+    });
+  }
+  return sendJson(res, 200, {
+    hash,
+    successful: transaction.successful,
+    source_account: BACKER,
+    ledger: 123,
+    created_at: "2026-01-01T00:00:00Z",
+  });
+});
+
+let horizon: HorizonService;
+let untrustingHorizon: HorizonService;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  horizon = new HorizonService({
+    horizonUrl: `http://127.0.0.1:${port}`,
+    requestTimeoutMs: 2000,
+    assetIssuers: { USDC: ISSUER },
+  });
+  untrustingHorizon = new HorizonService({
+    horizonUrl: `http://127.0.0.1:${port}`,
+    requestTimeoutMs: 2000,
+    assetIssuers: {},
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const verify = (transactionHash: string, sources?: string[]) =>
+  horizon.verifyPayment({
+    transactionHash,
+    destination: ESCROW,
+    currency: "XLM",
+    amount: 25,
+    sources,
+  });
+
+const verifyUsdc = (transactionHash: string, service = horizon) =>
+  service.verifyPayment({
+    transactionHash,
+    destination: ESCROW,
+    currency: "USD",
+    amount: 25,
+  });
+
+describe("HorizonService.verifyPayment", () => {
+  it("accepts a payment of the exact amount to the destination", async () => {
+    const result = await verify("tx-ok", [BACKER]);
+
+    expect(result.valid).toBe(true);
+    expect(result.payment).toMatchObject({
+      from: BACKER,
+      to: ESCROW,
+      amount: 25,
+      assetCode: "XLM",
+      ledger: 123,
+    });
+  });
+
+  it("accepts escrow contract transfers", async () => {
+    const result = await verify("tx-soroban", [BACKER]);
+
+    expect(result.valid).toBe(true);
+    expect(result.payment?.from).toBe(BACKER);
+  });
+
+  it("rejects unknown transactions", async () => {
+    const result = await verify("tx-missing");
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/not found/);
+  });
+
+  it("rejects failed transactions", async () => {
+    const result = await verify("tx-failed");
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/failed/);
+  });
+
+  it("rejects payments to another address", async () => {
+    const result = await verify("tx-wrong-destination");
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/destination/);
+  });
+
+  it("rejects payments of a different amount", async () => {
+    const result = await verify("tx-wrong-amount");
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/does not match/);
+  });
+
+  it("rejects payments in another asset", async () => {
+    const result = await verify("tx-wrong-asset");
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/XLM/);
+  });
+
+  it("accepts USDC from the trusted issuer", async () => {
+    const result = await verifyUsdc("tx-usdc");
+
+    expect(result.valid).toBe(true);
+    expect(result.payment).toMatchObject({
+      assetCode: "USDC",
+      assetIssuer: ISSUER,
+    });
+  });
+
+  it("rejects USDC from another issuer", async () => {
+    const result = await verifyUsdc("tx-wrong-asset");
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/USDC/);
+  });
+
+  it("rejects USDC when no trusted issuer is configured", async () => {
+    const result = await verifyUsdc("tx-usdc", untrustingHorizon);
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/No trusted issuer/);
+  });
+
+  it("rejects payments sent from an address that isn't allowed", async () => {
+    const result = await verify("tx-from-other", [BACKER]);
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/source address/);
+  });
+
+  it("throws HorizonUnavailableError when Horizon errors", async () => {
+    await expect(verify("tx-server-error")).rejects.toMatchObject({
+      name: "HorizonUnavailableError",
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import mongoose from "mongoose";
+import Milestone, { MilestoneStatus } from "../models/milestone.model.js";
+import MilestoneService, {
+  MILESTONE_TRANSITIONS,
+} from "../features/milestones/milestone.service.js";
+
+// The hackathon helpers pull in better-auth, which only ships ES modules
+// that jest can't load here; nothing under test uses them
+jest.mock("../features/hackathons/hackathon.helpers.js", () => ({}));
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("MilestoneService.canTransition", () => {
+  it.each<[MilestoneStatus, MilestoneStatus]>([
+    ["pending", "submitted"],
+    ["submitted", "approved"],
+    ["submitted", "revision-requested"],
+    ["revision-requested", "submitted"],
+    ["approved", "released"],
+    ["submitted", "disputed"],
+    ["approved", "disputed"],
+    ["disputed", "approved"],
+    ["disputed", "revision-requested"],
+  ])("allows %s to %s", (from, to) => {
+    expect(MilestoneService.canTransition(from, to)).toBe(true);
+  });
+
+  it.each<[MilestoneStatus, MilestoneStatus]>([
+    ["pending", "approved"],
+    ["pending", "released"],
+    ["submitted", "released"],
+    ["revision-requested", "approved"],
+    ["disputed", "released"],
+    ["pending", "disputed"],
+  ])("refuses %s to %s", (from, to) => {
+    expect(MilestoneService.canTransition(from, to)).toBe(false);
+  });
+
+  it("moves older statuses like the ones that replaced them", () => {
+    expect(MILESTONE_TRANSITIONS["in-progress"]).toEqual(
+      MILESTONE_TRANSITIONS.pending,
+    );
+    expect(MILESTONE_TRANSITIONS["pending-review"]).toEqual(
+      MILESTONE_TRANSITIONS.submitted,
+    );
+    expect(MILESTONE_TRANSITIONS.rejected).toEqual(
+      MILESTONE_TRANSITIONS["revision-requested"],
+    );
+  });
+
+  it("never moves a released milestone", () => {
+    (Object.keys(MILESTONE_TRANSITIONS) as MilestoneStatus[]).forEach((to) => {
+      expect(MilestoneService.canTransition("released", to)).toBe(false);
+      expect(MilestoneService.canTransition("completed", to)).toBe(false);
+    });
+  });
+});
+
+describe("MilestoneService.transition", () => {
+  it("only updates a milestone still in the status it was read in", async () => {
+    const milestone = {
+      _id: new mongoose.Types.ObjectId(),
+      status: "approved" as MilestoneStatus,
+    };
+    const releasedBy = new mongoose.Types.ObjectId();
+    const findOneAndUpdate = jest
+      .spyOn(Milestone, "findOneAndUpdate")
+      .mockResolvedValue(null as never);
+
+    await expect(
+      MilestoneService.transition(milestone, "released", { releasedBy }),
+    ).resolves.toBeNull();
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: milestone._id, status: "approved" },
+      { $set: { releasedBy, status: "released" } },
+      { new: true, session: undefined },
+    );
+  });
+});
@@ -114,3 +114,62 @@ export interface SubmissionListResponse {
   currentPage: number;
   totalPages: number;
 }
+
+export interface ResultPrize {
+  position: string;
+  amount: number;
+  currency?: string;
+}
+
+export interface ResultScoreBreakdown {
+  judgeCount: number;
+  averageScore: number;
+  criteria: { title: string; averageScore: number }[];
+}
+
+export interface ResultEntry {
+  participantId: string;
+  projectName: string;
+  logo?: string;
+  participationType: "individual" | "team";
+  teamName?: string;
+  members: { name: string; username: string; avatar?: string }[];
+}
+
+export interface ResultWinner extends ResultEntry {
+  rank: number;
+  prize: ResultPrize | null;
+  scores?: ResultScoreBreakdown;
+}
+
+export interface ResultHonorableMention extends ResultEntry {
+  note?: string;
+}
+
+export interface ResultSection {
+  trackId: string | null;
+  name: string;
+  announced: boolean;
+  announcedAt?: string;
+  announcement?: string;
+  winners: ResultWinner[];
+  honorableMentions: ResultHonorableMention[];
+}
+
+export interface VoteLeaderboardEntry extends ResultEntry {
+  position: number;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+}
+
+export interface HackathonResultsResponse {
+  hackathonId: string;
+  slug: string;
+  title: string;
+  winnersAnnounced: boolean;
+  scoreBreakdownVisible: boolean;
+  overall: ResultSection;
+  tracks: ResultSection[];
+  communityVotes: VoteLeaderboardEntry[];
+}
@@ -1,6 +1,10 @@
 import nodemailer from "nodemailer";
 import { config } from "../config/main.config.js";
 import { randomBytes } from "crypto";
+import jobQueue, {
+  EnqueueOptions,
+  JobName,
+} from "../services/queue/job-queue.service.js";
 
 const transporter = nodemailer.createTransport({
   host: config.SMTP_HOST,
@@ -29,7 +33,7 @@ const transporter = nodemailer.createTransport({
   },
 } as any);
 
-interface EmailOptions {
+export interface EmailOptions {
   to: string;
   subject: string;
   text: string;
@@ -189,6 +193,18 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
   );
 };
 
+/**
+ * Queue an email for delivery by the background job queue. Failed sends
+ * are retried with backoff and dead-lettered for admin re-drive instead
+ * of being lost.
+ */
+export const queueEmail = async (
+  options: EmailOptions,
+  jobOptions: Pick<EnqueueOptions, "delay" | "dedupeKey"> = {},
+): Promise<void> => {
+  await jobQueue.enqueue(JobName.SEND_EMAIL, options, jobOptions);
+};
+
 export const sendVerificationEmail = async (email: string, otp: string) => {
   const subject = "Verify your email";
   const text = `Your verification code is: ${otp}`;
@@ -16,6 +16,13 @@ class HackathonCache {
     return `hackathon:${slug}`;
   }
 
+  /**
+   * Generate cache key for a hackathon's public results
+   */
+  private getResultsKey(slug: string): string {
+    return `hackathon-results:${slug}`;
+  }
+
   /**
    * Generate cache key for hackathon list
    */
@@ -76,6 +83,25 @@ class HackathonCache {
     return { data: entry.data, etag: entry.etag };
   }
 
+  /**
+   * Get cached hackathon results by slug
+   */
+  getResults(slug: string): { data: any; etag: string } | null {
+    const key = this.getResultsKey(slug);
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.cache.delete(key);
+      return null;
+    }
+
+    return { data: entry.data, etag: entry.etag };
+  }
+
   /**
    * Set cached hackathon
    */
@@ -98,12 +124,25 @@ class HackathonCache {
     this.cache.set(key, { data, expiresAt, etag });
   }
 
+  /**
+   * Set cached hackathon results. Vote counts move quickly, so these
+   * expire like lists.
+   */
+  setResults(slug: string, data: any): void {
+    const key = this.getResultsKey(slug);
+    const etag = this.generateETag(data);
+    const expiresAt = Date.now() + this.LIST_TTL;
+
+    this.cache.set(key, { data, expiresAt, etag });
+  }
+
   /**
    * Invalidate cache for a specific hackathon
    */
   invalidateHackathon(slug: string): void {
     const key = this.getHackathonKey(slug);
     this.cache.delete(key);
+    this.cache.delete(this.getResultsKey(slug));
     // Also invalidate all list caches
     this.invalidateAllLists();
   }
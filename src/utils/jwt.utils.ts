@@ -86,3 +86,26 @@ export const roleMiddleware = (roles: string[]) => {
     next();
   };
 };
+
+const UNSUBSCRIBE_TOKEN_PURPOSE = "digest-unsubscribe";
+
+/**
+ * Long-lived token embedded in digest emails so the recipient can
+ * unsubscribe without logging in
+ */
+export const generateUnsubscribeToken = (userId: string): string =>
+  jwt.sign({ userId, purpose: UNSUBSCRIBE_TOKEN_PURPOSE }, getJwtSecret());
+
+/**
+ * Returns the user id the token was issued for, or null if it is invalid
+ */
+export const verifyUnsubscribeToken = (token: string): string | null => {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as any;
+    return decoded?.purpose === UNSUBSCRIBE_TOKEN_PURPOSE && decoded.userId
+      ? decoded.userId
+      : null;
+  } catch {
+    return null;
+  }
+};
@@ -2,13 +2,28 @@
  * Retry utility for handling transient MongoDB transaction errors
  */
 
-interface RetryOptions {
+export interface RetryOptions {
   maxAttempts?: number;
   baseDelay?: number;
   maxDelay?: number;
   backoffMultiplier?: number;
 }
 
+/**
+ * Exponential backoff delay (ms) before the next attempt, capped at maxDelay
+ */
+export function calculateBackoffDelay(
+  attempt: number,
+  options: Omit<RetryOptions, "maxAttempts"> = {},
+): number {
+  const { baseDelay = 100, maxDelay = 1000, backoffMultiplier = 2 } = options;
+
+  return Math.min(
+    baseDelay * Math.pow(backoffMultiplier, attempt - 1),
+    maxDelay,
+  );
+}
+
 export async function retryTransaction<T>(
   operation: () => Promise<T>,
   options: RetryOptions = {},
@@ -41,10 +56,11 @@ export async function retryTransaction<T>(
       }
 
       // Calculate delay with exponential backoff
-      const delay = Math.min(
-        baseDelay * Math.pow(backoffMultiplier, attempt - 1),
+      const delay = calculateBackoffDelay(attempt, {
+        baseDelay,
         maxDelay,
-      );
+        backoffMultiplier,
+      });
 
       // Wait before retrying
       await new Promise((resolve) => setTimeout(resolve, delay));